@@ -1,7 +1,17 @@
+import { existsSync, readFileSync } from "node:fs";
+import { resolve } from "node:path";
 import type { NextConfig } from "next";
 
+/** Deployment written by `npm run sandbox` at the repository root */
+const localDeploymentPath = resolve(process.cwd(), "../../deployments/local.json");
+
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The shared workspace package ships TypeScript sources
+  transpilePackages: ["@unifans/shared"],
+  env: {
+    // Inlined so the browser bundle sees the sandbox contracts; read again on every `next dev` start
+    NEXT_PUBLIC_LOCAL_DEPLOYMENT: existsSync(localDeploymentPath) ? readFileSync(localDeploymentPath, "utf8") : "",
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,69 @@
+import type { Metadata } from "next";
+import { notFound } from "next/navigation";
+import { getAddress, isAddress } from "viem";
+import EventPage from "../../../../components/EventPage";
+import { isLocale, locales, openGraphLocales } from "../../../../config/i18n";
+import { catalogs, interpolate } from "../../../../messages";
+import { getShareDescription, loadEventShare } from "./share";
+
+/** Re-read the event at most every five minutes, so link previews follow the pre-support progress */
+export const revalidate = 300;
+
+/**
+ * @interface EventRouteProps
+ * @description Route props of /[locale]/events/[tokenAddress]
+ */
+interface EventRouteProps {
+  params: Promise<{ locale: string; tokenAddress: string }>;
+}
+
+/**
+ * @function generateMetadata
+ * @description Title and description of the event for search results and link previews.
+ * The share images come from the opengraph-image and twitter-image files of this route.
+ * @param {EventRouteProps} props - Route props
+ * @returns {Promise<Metadata>} Event metadata, or nothing to keep the layout's when the event can't be read
+ */
+export async function generateMetadata({ params }: EventRouteProps): Promise<Metadata> {
+  const { locale, tokenAddress } = await params;
+  if (!isLocale(locale)) return {};
+  const share = await loadEventShare(tokenAddress);
+  if (!share) return {};
+
+  const title = interpolate(catalogs[locale].share.title, { name: share.event.name });
+  const description = getShareDescription(share, locale);
+
+  return {
+    title,
+    description,
+    openGraph: {
+      title,
+      description,
+      type: "website",
+      locale: openGraphLocales[locale],
+      alternateLocale: locales.filter((other) => other !== locale).map((other) => openGraphLocales[other]),
+    },
+    twitter: {
+      card: "summary_large_image",
+      title,
+      description,
+    },
+  };
+}
+
+/**
+ * @component EventRoute
+ * @description Page of any EventToken, addressed by its contract address
+ *
+ * Anything that is not an address is a 404. Addresses that are not EventTokens
+ * render the event page's error state once the contract reads fail.
+ *
+ * @param {EventRouteProps} props - Route props
+ * @returns {Promise<JSX.Element>} Event page for the token
+ */
+export default async function EventRoute({ params }: EventRouteProps) {
+  const { tokenAddress } = await params;
+  if (!isAddress(tokenAddress)) notFound();
+
+  return <EventPage tokenAddress={getAddress(tokenAddress)} />;
+}
@@ -0,0 +1,209 @@
+import { ImageResponse } from "next/og";
+import { getAddress, isAddress, type Address } from "viem";
+import { serverClient } from "../../../../config/chains";
+import { getEventMetadata } from "../../../../config/events";
+import type { Locale } from "../../../../config/i18n";
+import { fetchEventData } from "../../../../lib/events";
+import { syncHolders } from "../../../../lib/holders";
+import { formatDate, formatNumber, formatPercent, formatPrice } from "../../../../lib/format";
+import { catalogs, interpolate } from "../../../../messages";
+import type { EventData } from "../../../../types/event";
+
+/** Size of the share images, the 1.91:1 ratio Open Graph and X cards expect */
+export const shareImageSize = { width: 1200, height: 630 };
+
+/** Alt text of the share images, which can't depend on the page locale */
+export const shareImageAlt = "Event name, date, token price and pre-support progress";
+
+/**
+ * @interface EventShare
+ * @description What the share card and link preview of an event show
+ */
+export interface EventShare {
+  event: EventData;
+  /** Number of fans holding the token, null when the transfer logs can't be read */
+  supporters: number | null;
+}
+
+/**
+ * @function loadEventShare
+ * @description Reads an event for its page metadata and share images
+ * @param {string} tokenAddress - Address from the route
+ * @returns {Promise<EventShare | null>} Event and supporters, null when the address is not a readable EventToken
+ */
+export async function loadEventShare(tokenAddress: string): Promise<EventShare | null> {
+  if (!isAddress(tokenAddress)) return null;
+  try {
+    const event = await fetchEventData(serverClient, getEventMetadata(getAddress(tokenAddress)));
+    const excluded = [event.hookAddress, event.poolManager].filter((address): address is Address => address !== null);
+
+    // The holder count needs every transfer log, so a slow or capped RPC, or a scan still catching up,
+    // only loses this figure
+    const supporters = await syncHolders(serverClient, {
+      tokenAddress: event.tokenAddress,
+      excluded,
+      startBlock: event.startBlock,
+      limit: 0,
+    })
+      .then((snapshot) => (snapshot.synced ? snapshot.holderCount : null))
+      .catch(() => null);
+
+    return { event, supporters };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @function getInterestPercent
+ * @description Share of the interest goal fans hold
+ * @param {EventData} event - Event to measure
+ * @returns {number} Percent of minInterest, can exceed 100
+ */
+const getInterestPercent = (event: EventData): number => (event.raised / event.minInterest) * 100;
+
+/**
+ * @function getShareDescription
+ * @description One line description of an event for link previews
+ * @param {EventShare} share - Event and supporters
+ * @param {Locale} locale - Page locale
+ * @returns {string} Date, price, interest and supporters, like "December 15, 2025 · 0.0100 USDC per token · …"
+ */
+export function getShareDescription({ event, supporters }: EventShare, locale: Locale): string {
+  const text = catalogs[locale].share;
+  const parts = [formatDate(event.eventDate, locale)];
+
+  if (event.backingAsset && event.currentPrice > 0) {
+    parts.push(
+      interpolate(text.price, { price: `${formatPrice(event.currentPrice, locale)} ${event.backingAsset.symbol}` })
+    );
+  }
+  parts.push(interpolate(text.interest, { percent: formatPercent(getInterestPercent(event), locale) }));
+  if (supporters !== null) {
+    parts.push(interpolate(text.supporters, { count: formatNumber(supporters, locale) }));
+  }
+
+  return parts.join(" · ");
+}
+
+/**
+ * @function renderShareImage
+ * @description Renders the share card of an event, or the generic UniFans card when it can't be read
+ *
+ * The card shows the event name, date, token price, supporters and a progress bar of
+ * the interest shown against minInterest. Styles are inline since the image renderer
+ * only supports a subset of CSS with flexbox layout.
+ *
+ * @param {EventShare | null} share - Event and supporters, null for the generic card
+ * @param {Locale} locale - Page locale
+ * @returns {ImageResponse} PNG share image
+ */
+export function renderShareImage(share: EventShare | null, locale: Locale): ImageResponse {
+  const messages = catalogs[locale];
+  const text = messages.eventPage;
+  const event = share?.event ?? null;
+  const supporters = share?.supporters ?? null;
+  const percent = event ? getInterestPercent(event) : 0;
+
+  return new ImageResponse(
+    (
+      <div
+        style={{
+          width: "100%",
+          height: "100%",
+          display: "flex",
+          flexDirection: "column",
+          justifyContent: "space-between",
+          padding: 64,
+          color: "white",
+          backgroundImage: "linear-gradient(135deg, #7C3AED 0%, #3B82F6 100%)",
+        }}
+      >
+        <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+          <div style={{ display: "flex", fontSize: 36, fontWeight: 700 }}>UniFans</div>
+          {event && (
+            <div
+              style={{
+                display: "flex",
+                fontSize: 26,
+                fontWeight: 600,
+                padding: "8px 24px",
+                borderRadius: 999,
+                backgroundColor: percent >= 100 ? "#16A34A" : "rgba(255, 255, 255, 0.2)",
+              }}
+            >
+              {percent >= 100 ? messages.share.confirmed : messages.share.preSupport}
+            </div>
+          )}
+        </div>
+
+        {event ? (
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", fontSize: 68, fontWeight: 800, lineHeight: 1.1 }}>{event.name}</div>
+            <div style={{ display: "flex", fontSize: 30, marginTop: 16, opacity: 0.85 }}>
+              {`$${event.tokenSymbol} · ${formatDate(event.eventDate, locale)}`}
+            </div>
+          </div>
+        ) : (
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", fontSize: 60, fontWeight: 800, lineHeight: 1.1 }}>
+              {messages.metadata.title}
+            </div>
+            <div style={{ display: "flex", fontSize: 30, marginTop: 16, opacity: 0.85 }}>
+              {messages.metadata.shareDescription}
+            </div>
+          </div>
+        )}
+
+        {event && (
+          <div style={{ display: "flex", flexDirection: "column" }}>
+            <div style={{ display: "flex", gap: 64, marginBottom: 28 }}>
+              <div style={{ display: "flex", flexDirection: "column" }}>
+                <div style={{ display: "flex", fontSize: 44, fontWeight: 700 }}>
+                  {event.backingAsset && event.currentPrice > 0
+                    ? `${formatPrice(event.currentPrice, locale)} ${event.backingAsset.symbol}`
+                    : "—"}
+                </div>
+                <div style={{ display: "flex", fontSize: 24, opacity: 0.8 }}>{text.pricePerToken}</div>
+              </div>
+              <div style={{ display: "flex", flexDirection: "column" }}>
+                <div style={{ display: "flex", fontSize: 44, fontWeight: 700 }}>
+                  {supporters !== null ? formatNumber(supporters, locale) : "—"}
+                </div>
+                <div style={{ display: "flex", fontSize: 24, opacity: 0.8 }}>{text.supportingFans}</div>
+              </div>
+            </div>
+            <div style={{ display: "flex", justifyContent: "space-between", fontSize: 26, marginBottom: 12 }}>
+              <div style={{ display: "flex" }}>
+                {interpolate(text.interestShown, {
+                  raised: formatNumber(event.raised, locale, { maximumFractionDigits: 0 }),
+                  goal: formatNumber(event.minInterest, locale),
+                })}
+              </div>
+              <div style={{ display: "flex", fontWeight: 700 }}>{formatPercent(percent, locale)}</div>
+            </div>
+            <div
+              style={{
+                display: "flex",
+                height: 24,
+                borderRadius: 12,
+                backgroundColor: "rgba(255, 255, 255, 0.25)",
+              }}
+            >
+              <div
+                style={{
+                  display: "flex",
+                  width: `${Math.min(percent, 100)}%`,
+                  height: "100%",
+                  borderRadius: 12,
+                  backgroundImage: "linear-gradient(90deg, #F97316 0%, #22C55E 100%)",
+                }}
+              />
+            </div>
+          </div>
+        )}
+      </div>
+    ),
+    shareImageSize
+  );
+}
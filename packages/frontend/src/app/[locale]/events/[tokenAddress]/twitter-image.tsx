@@ -0,0 +1,28 @@
+import { isLocale } from "../../../../config/i18n";
+import { loadEventShare, renderShareImage, shareImageAlt, shareImageSize } from "./share";
+
+/** Re-read the event at most every five minutes, so shared cards follow the pre-support progress */
+export const revalidate = 300;
+
+export const alt = shareImageAlt;
+export const size = shareImageSize;
+export const contentType = "image/png";
+
+/**
+ * @interface TwitterImageProps
+ * @description Route params of the event page the image belongs to
+ */
+interface TwitterImageProps {
+  params: { locale: string; tokenAddress: string };
+}
+
+/**
+ * @function TwitterImage
+ * @description X (Twitter) card image of an event page with its live price and interest
+ * @param {TwitterImageProps} props - Route params
+ * @returns {Promise<ImageResponse>} PNG share image
+ */
+export default async function TwitterImage({ params }: TwitterImageProps) {
+  const share = await loadEventShare(params.tokenAddress);
+  return renderShareImage(share, isLocale(params.locale) ? params.locale : "en");
+}
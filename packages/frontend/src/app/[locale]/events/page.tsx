@@ -0,0 +1,90 @@
+"use client";
+
+import Link from "next/link";
+import Header from "../../../components/Header";
+import Footer from "../../../components/Footer";
+import { useEventList } from "../../../hooks/useEventList";
+import { useI18n } from "../../../hooks/useI18n";
+import { getEventPath, listedEvents } from "../../../config/events";
+import { formatDate, shortenAddress } from "../../../lib/format";
+
+/**
+ * @component EventsIndex
+ * @description Index of every listed event, each card linking to its event page
+ *
+ * Features:
+ * - Events from NEXT_PUBLIC_EVENT_TOKEN_ADDRESS, NEXT_PUBLIC_EVENT_TOKEN_ADDRESSES and the shared deployments
+ * - Name, symbol and date read from each EventToken in one multicall
+ * - Loading skeletons and an empty state
+ * - Text and dates in the locale of the page
+ * - Responsive card grid with dark mode support
+ *
+ * @returns {JSX.Element} Events index page
+ */
+export default function EventsIndex() {
+  const { events, isLoading } = useEventList(listedEvents);
+  const { locale, messages, localize } = useI18n();
+  const text = messages.events;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 dark:from-gray-900 dark:via-purple-900 dark:to-indigo-900">
+      {/* Application Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-2">{text.title}</h1>
+        <p className="text-gray-600 dark:text-gray-300 mb-8">
+          {text.subtitle}
+        </p>
+
+        {listedEvents.length === 0 ? (
+          /* Empty State */
+          <section className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl p-16 text-center">
+            <span className="text-4xl mb-4 block" aria-hidden="true">🎟️</span>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{text.emptyTitle}</h2>
+            <p className="text-gray-600 dark:text-gray-300">
+              {text.emptyBody}
+            </p>
+          </section>
+        ) : (
+          /* Event Cards */
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {events.map((event) => (
+              <Link
+                key={event.tokenAddress}
+                href={localize(getEventPath(event.tokenAddress))}
+                className="block bg-white dark:bg-gray-800 rounded-2xl shadow-lg overflow-hidden hover:shadow-xl transition-shadow duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              >
+                <div className="h-32 bg-gradient-to-r from-purple-600 via-pink-600 to-red-600 flex items-end p-4">
+                  {isLoading ? (
+                    <div className="h-7 w-2/3 bg-white/30 rounded animate-pulse" aria-hidden="true"></div>
+                  ) : (
+                    <h2 className="text-2xl font-bold text-white">{event.name ?? text.unknownEvent}</h2>
+                  )}
+                </div>
+                <div className="p-4 space-y-1">
+                  <div className="flex justify-between items-center">
+                    <span className="text-purple-600 font-semibold">
+                      {event.tokenSymbol ? `$${event.tokenSymbol}` : "—"}
+                    </span>
+                    <span className="text-sm text-gray-500 dark:text-gray-400">
+                      {event.eventDate !== null ? formatDate(event.eventDate, locale) : ""}
+                    </span>
+                  </div>
+                  {event.location && <p className="text-gray-700 dark:text-gray-300">{event.location}</p>}
+                  <p className="text-sm text-gray-500 dark:text-gray-400">
+                    {event.promoter || <span className="font-mono">{shortenAddress(event.tokenAddress)}</span>}
+                  </p>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </main>
+
+      {/* Application Footer */}
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,29 @@
+import { getAddress, isAddress } from "viem";
+import LaunchWizard from "../../../components/LaunchWizard";
+
+/**
+ * @interface LaunchRouteProps
+ * @description Route props of /launch
+ */
+interface LaunchRouteProps {
+  searchParams: Promise<{ token?: string; backing?: string }>;
+}
+
+/**
+ * @component LaunchRoute
+ * @description Organizer launch wizard. A launch in progress lives in the query string
+ * (`?token=0x…&backing=0x…`) so the wizard can pick it up again after a refresh.
+ *
+ * @param {LaunchRouteProps} props - Route props
+ * @returns {Promise<JSX.Element>} Launch wizard
+ */
+export default async function LaunchRoute({ searchParams }: LaunchRouteProps) {
+  const { token, backing } = await searchParams;
+
+  return (
+    <LaunchWizard
+      tokenAddress={token && isAddress(token) ? getAddress(token) : null}
+      backingAsset={backing && isAddress(backing) ? getAddress(backing) : null}
+    />
+  );
+}
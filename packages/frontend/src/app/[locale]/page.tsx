@@ -0,0 +1,28 @@
+import { notFound, redirect } from "next/navigation";
+import { zeroAddress } from "viem";
+import { featuredEvent, getEventPath } from "../../config/events";
+import { getLocalePath, isLocale } from "../../config/i18n";
+
+/**
+ * @interface HomeProps
+ * @description Route props of /[locale]
+ */
+interface HomeProps {
+  params: Promise<{ locale: string }>;
+}
+
+/**
+ * @component Home
+ * @description Entry point of the app: opens the featured event, or the events
+ * index when NEXT_PUBLIC_EVENT_TOKEN_ADDRESS is not set
+ *
+ * @param {HomeProps} props - Route props
+ */
+export default async function Home({ params }: HomeProps) {
+  const { locale } = await params;
+  if (!isLocale(locale)) notFound();
+
+  redirect(
+    getLocalePath(locale, featuredEvent.tokenAddress !== zeroAddress ? getEventPath(featuredEvent.tokenAddress) : "/events")
+  );
+}
@@ -0,0 +1,283 @@
+"use client";
+
+import Link from "next/link";
+import { formatUnits } from "viem";
+import { EVENT_TOKEN_DECIMALS } from "@unifans/shared";
+import Header from "../../../components/Header";
+import Footer from "../../../components/Footer";
+import { useWallet } from "../../../hooks/useWallet";
+import { useNotify } from "../../../hooks/useNotify";
+import { usePortfolio } from "../../../hooks/usePortfolio";
+import { useI18n } from "../../../hooks/useI18n";
+import { getEventPath } from "../../../config/events";
+import type { Locale } from "../../../config/i18n";
+import { getErrorMessage } from "../../../lib/errors";
+import { formatCurrency, formatDate, formatNumber, formatPrice, shortenAddress } from "../../../lib/format";
+import type { EventLifecycle, PortfolioPosition } from "../../../lib/portfolio";
+
+/**
+ * Badge colors of each event stage
+ */
+const lifecycleBadges: Record<EventLifecycle, string> = {
+  launching: "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300",
+  preSupport: "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300",
+  confirmed: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
+  ended: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
+};
+
+/**
+ * @function formatPnl
+ * @description Formats a profit or loss with its sign
+ * @param {number} pnl - Profit (positive) or loss (negative) in backing asset units
+ * @param {string} symbol - Backing asset symbol
+ * @param {Locale} locale - Active locale
+ * @returns {string} Amount like +1.25 USDC
+ */
+const formatPnl = (pnl: number, symbol: string, locale: Locale): string =>
+  `${pnl > 0 ? "+" : pnl < 0 ? "-" : ""}${formatCurrency(Math.abs(pnl), symbol, locale)}`;
+
+/**
+ * @function pnlColor
+ * @description Text color of a profit or loss
+ * @param {number} pnl - Profit or loss
+ * @returns {string} Tailwind text color classes
+ */
+const pnlColor = (pnl: number): string =>
+  pnl > 0 ? "text-green-600 dark:text-green-400" : pnl < 0 ? "text-red-600 dark:text-red-400" : "text-gray-900 dark:text-white";
+
+/**
+ * @function getTotals
+ * @description Sums value and profit or loss of the positions per backing asset
+ * @param {PortfolioPosition[]} positions - Positions to sum
+ * @returns {{ symbol: string, value: number, unrealizedPnl: number, realizedPnl: number }[]} Totals per backing asset symbol
+ */
+const getTotals = (positions: PortfolioPosition[]) => {
+  const totals = new Map<string, { symbol: string; value: number; unrealizedPnl: number; realizedPnl: number }>();
+  for (const position of positions) {
+    if (!position.backingAsset) continue;
+    const { symbol } = position.backingAsset;
+    const total = totals.get(symbol) ?? { symbol, value: 0, unrealizedPnl: 0, realizedPnl: 0 };
+    total.value += position.value;
+    total.unrealizedPnl += position.unrealizedPnl ?? 0;
+    total.realizedPnl += position.realizedPnl;
+    totals.set(symbol, total);
+  }
+  return [...totals.values()];
+};
+
+/**
+ * @component Portfolio
+ * @description Event tokens of the connected wallet across every listed event
+ *
+ * Features:
+ * - Balance and value at the current pool price of each event token
+ * - Average entry price and unrealized P&L from the wallet's own purchases
+ * - Realized P&L of sales, including positions sold out
+ * - Event date and stage (launching, pre-support, confirmed, ended)
+ * - Totals per backing asset
+ * - Connect prompt, loading, error and empty states
+ * - Warning naming the listed events that couldn't be read
+ * - Text, amounts and dates in the locale of the page
+ *
+ * @returns {JSX.Element} Portfolio page
+ */
+export default function Portfolio() {
+  const { address: account, isConnected, isConnecting, connectors, connect } = useWallet();
+  const { notifyError } = useNotify();
+  const { positions, failedEvents, isLoading, error, refetch } = usePortfolio(account);
+  const totals = getTotals(positions);
+  const { locale, messages, t, localize } = useI18n();
+  const text = messages.portfolio;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 dark:from-gray-900 dark:via-purple-900 dark:to-indigo-900">
+      {/* Application Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-2">{text.title}</h1>
+        <p className="text-gray-600 dark:text-gray-300 mb-8">
+          {text.subtitle}
+        </p>
+
+        {/* Unreadable Events */}
+        {isConnected && failedEvents.length > 0 && (
+          <div
+            className="mb-8 p-4 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-xl text-sm text-yellow-800 dark:text-yellow-200"
+            role="alert"
+          >
+            {t(text.readFailed, { events: failedEvents.map(shortenAddress).join(", ") })}{" "}
+            <button onClick={refetch} className="font-medium underline hover:no-underline">
+              {messages.common.tryAgain}
+            </button>
+          </div>
+        )}
+
+        {!isConnected ? (
+          /* Connect Prompt */
+          <section className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl p-16 text-center">
+            <span className="text-4xl mb-4 block" aria-hidden="true">👛</span>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6">
+              {text.connectTitle}
+            </h2>
+            <button
+              onClick={() => connect(connectors[0]).catch(notifyError)}
+              disabled={isConnecting || connectors.length === 0}
+              className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-2 rounded-full font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50"
+            >
+              {isConnecting ? messages.common.connecting : messages.common.connectWallet}
+            </button>
+          </section>
+        ) : isLoading ? (
+          /* Loading State */
+          <section
+            className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl p-16 flex flex-col items-center"
+            aria-busy="true"
+          >
+            <div className="w-10 h-10 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mb-4"></div>
+            <p className="text-gray-600 dark:text-gray-300">{text.loading}</p>
+          </section>
+        ) : error ? (
+          /* Error State */
+          <section className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl p-16 text-center" role="alert">
+            <span className="text-4xl mb-4 block" aria-hidden="true">⚠️</span>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{text.loadError}</h2>
+            <p className="text-gray-600 dark:text-gray-300 mb-6 break-words">{getErrorMessage(error, locale)}</p>
+            <button
+              onClick={refetch}
+              className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-2 rounded-full font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2"
+            >
+              {messages.common.tryAgain}
+            </button>
+          </section>
+        ) : positions.length === 0 ? (
+          /* Empty State */
+          <section className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl p-16 text-center">
+            <span className="text-4xl mb-4 block" aria-hidden="true">🎟️</span>
+            <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{text.emptyTitle}</h2>
+            <p className="text-gray-600 dark:text-gray-300 mb-6">
+              {text.emptyBody}
+            </p>
+            <Link href={localize("/events")} className="text-purple-600 font-medium hover:text-purple-700">
+              {text.browseEvents}
+            </Link>
+          </section>
+        ) : (
+          <>
+            {/* Totals per Backing Asset */}
+            <section className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+              {totals.map((total) => (
+                <div key={total.symbol} className="contents">
+                  <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg">
+                    <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">{t(text.totalValue, { symbol: total.symbol })}</div>
+                    <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                      {formatCurrency(total.value, total.symbol, locale)}
+                    </div>
+                  </div>
+                  <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg">
+                    <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">{text.unrealizedPnl}</div>
+                    <div className={`text-2xl font-bold ${pnlColor(total.unrealizedPnl)}`}>
+                      {formatPnl(total.unrealizedPnl, total.symbol, locale)}
+                    </div>
+                  </div>
+                  <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg">
+                    <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">{text.realizedPnl}</div>
+                    <div className={`text-2xl font-bold ${pnlColor(total.realizedPnl)}`}>
+                      {formatPnl(total.realizedPnl, total.symbol, locale)}
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </section>
+
+            {/* Positions */}
+            <section className="space-y-4">
+              {positions.map((position) => {
+                const symbol = position.backingAsset?.symbol ?? "";
+
+                return (
+                  <article key={position.tokenAddress} className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg">
+                    <div className="flex flex-wrap justify-between items-start gap-2 mb-4">
+                      <div>
+                        <Link
+                          href={localize(getEventPath(position.tokenAddress))}
+                          className="text-xl font-bold text-gray-900 dark:text-white hover:text-purple-600"
+                        >
+                          {position.name}
+                        </Link>
+                        <div className="text-sm text-gray-500 dark:text-gray-400">
+                          <span className="text-purple-600 font-semibold">${position.tokenSymbol}</span> ·{" "}
+                          {formatDate(position.eventDate, locale)}
+                        </div>
+                      </div>
+                      <span className={`px-3 py-1 rounded-full text-xs font-semibold ${lifecycleBadges[position.lifecycle]}`}>
+                        {text.lifecycle[position.lifecycle]}
+                      </span>
+                    </div>
+
+                    <dl className="grid grid-cols-2 md:grid-cols-3 gap-4 text-sm">
+                      <div>
+                        <dt className="text-gray-500 dark:text-gray-400">{text.balance}</dt>
+                        <dd className="font-semibold text-gray-900 dark:text-white">
+                          {formatNumber(Number(formatUnits(position.balance, EVENT_TOKEN_DECIMALS)), locale, {
+                            maximumFractionDigits: 4,
+                          })}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500 dark:text-gray-400">{text.price}</dt>
+                        <dd className="font-semibold text-gray-900 dark:text-white">
+                          {position.currentPrice > 0 ? `${formatPrice(position.currentPrice, locale)} ${symbol}` : "—"}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500 dark:text-gray-400">{text.value}</dt>
+                        <dd className="font-semibold text-gray-900 dark:text-white">
+                          {formatCurrency(position.value, symbol, locale)}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500 dark:text-gray-400">{text.averageEntryPrice}</dt>
+                        <dd className="font-semibold text-gray-900 dark:text-white">
+                          {position.averageEntryPrice !== null
+                            ? `${formatPrice(position.averageEntryPrice, locale)} ${symbol}`
+                            : "—"}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500 dark:text-gray-400">{text.unrealizedPnl}</dt>
+                        <dd
+                          className={`font-semibold ${
+                            position.unrealizedPnl !== null ? pnlColor(position.unrealizedPnl) : "text-gray-900 dark:text-white"
+                          }`}
+                        >
+                          {position.unrealizedPnl !== null ? formatPnl(position.unrealizedPnl, symbol, locale) : "—"}
+                        </dd>
+                      </div>
+                      <div>
+                        <dt className="text-gray-500 dark:text-gray-400">{text.realizedPnl}</dt>
+                        <dd className={`font-semibold ${pnlColor(position.realizedPnl)}`}>
+                          {formatPnl(position.realizedPnl, symbol, locale)}
+                        </dd>
+                      </div>
+                    </dl>
+
+                    {position.hasTokensWithoutCost && (
+                      <p className="mt-4 text-xs text-gray-500 dark:text-gray-400">
+                        {text.withoutCost}
+                      </p>
+                    )}
+                  </article>
+                );
+              })}
+            </section>
+          </>
+        )}
+      </main>
+
+      {/* Application Footer */}
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import type { NextRequest } from "next/server";
+import { getPoolId } from "@unifans/shared";
+import { serverClient } from "../../../../../config/chains";
+import { getEventMetadata } from "../../../../../config/events";
+import {
+  ApiRequestError,
+  apiErrorResponse,
+  apiJson,
+  parseInteger,
+  parseLimit,
+  parseTokenAddress,
+  withQuery,
+} from "../../../../../lib/api";
+import { fetchEventData } from "../../../../../lib/events";
+import { buildPriceCandles, candleIntervals, fetchPriceSamples, type CandleInterval } from "../../../../../lib/priceHistory";
+import type { ApiCandle, ApiPage } from "../../../../../types/api";
+
+/** Candles per page unless ?limit= says otherwise */
+const DEFAULT_LIMIT = 100;
+
+/** Largest ?limit= accepted */
+const MAX_LIMIT = 500;
+
+/**
+ * @interface CandlesRouteContext
+ * @description Route params of /api/events/[token]/candles
+ */
+interface CandlesRouteContext {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * @function GET
+ * @description Open, high, low and close pool prices of an event, from its Initialize and Swap events
+ *
+ * Query:
+ * - `interval`: 1m, 5m, 15m, 1h (default), 4h or 1d
+ * - `limit`: candles per page (default 100, at most 500)
+ * - `before`: unix seconds the page ends at, from the `next` link of the previous page. Defaults to now.
+ *
+ * Pages go back in time. The last page is the one reaching the pool initialization.
+ *
+ * @param {NextRequest} request - Incoming request
+ * @param {CandlesRouteContext} context - Route params
+ * @returns {Promise<Response>} ApiPage of ApiCandle, oldest first, cached for 30 seconds
+ */
+export async function GET(request: NextRequest, { params }: CandlesRouteContext) {
+  try {
+    const tokenAddress = parseTokenAddress((await params).token);
+    const { searchParams } = request.nextUrl;
+
+    const interval = (searchParams.get("interval") ?? "1h") as CandleInterval;
+    if (!Object.hasOwn(candleIntervals, interval)) {
+      throw new ApiRequestError(
+        400,
+        "invalid_parameter",
+        `interval must be one of ${Object.keys(candleIntervals).join(", ")}`
+      );
+    }
+    const intervalSeconds = candleIntervals[interval];
+    const limit = parseLimit(searchParams, DEFAULT_LIMIT, MAX_LIMIT);
+    const before = parseInteger(searchParams, "before", Math.floor(Date.now() / 1000));
+
+    // The page ends at an interval boundary, so the current interval is included while it is open
+    const end = Math.ceil(before / intervalSeconds) * intervalSeconds;
+    const start = end - intervalSeconds * limit;
+
+    const event = await fetchEventData(serverClient, getEventMetadata(tokenAddress));
+    const { poolKey, poolManager, backingAsset } = event;
+    let data: ApiCandle[] = [];
+
+    if (poolKey && poolManager && backingAsset) {
+      const samples = await fetchPriceSamples(serverClient, {
+        poolManager,
+        poolId: getPoolId(poolKey),
+        startBlock: event.startBlock,
+        tokenIsCurrency0: poolKey.currency0 === tokenAddress,
+        backingDecimals: backingAsset.decimals,
+        since: start - 1,
+      });
+      data = buildPriceCandles(samples, intervalSeconds, end, limit);
+    }
+
+    // A page starting after its first interval reached the pool initialization
+    const body: ApiPage<ApiCandle> = {
+      data,
+      pagination: {
+        limit,
+        total: null,
+        next: data.length > 0 && data[0].time === start ? withQuery(request.nextUrl, { before: start }) : null,
+      },
+    };
+
+    return apiJson(body, 30);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
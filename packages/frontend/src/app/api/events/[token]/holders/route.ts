@@ -0,0 +1,78 @@
+import type { NextRequest } from "next/server";
+import { formatUnits, type Address } from "viem";
+import { EVENT_TOKEN_DECIMALS } from "@unifans/shared";
+import { serverClient } from "../../../../../config/chains";
+import { getEventMetadata } from "../../../../../config/events";
+import {
+  ApiRequestError,
+  apiErrorResponse,
+  apiJson,
+  offsetPage,
+  parsePage,
+  parseTokenAddress,
+} from "../../../../../lib/api";
+import { fetchEventData } from "../../../../../lib/events";
+import { syncHolders } from "../../../../../lib/holders";
+import type { ApiHolder } from "../../../../../types/api";
+
+/** Holders per page unless ?limit= says otherwise */
+const DEFAULT_LIMIT = 20;
+
+/** Largest ?limit= accepted */
+const MAX_LIMIT = 100;
+
+/**
+ * @interface HoldersRouteContext
+ * @description Route params of /api/events/[token]/holders
+ */
+interface HoldersRouteContext {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * @function GET
+ * @description Fans holding an event token, biggest balance first, as on the event page leaderboard.
+ * The hook and the PoolManager hold the pool's liquidity and are left out.
+ *
+ * Balances come from a Transfer log scan cached by the server, which advances a bounded number of
+ * blocks per request. While it catches up with a long history the route answers 503 `holders_syncing`.
+ *
+ * Query: `offset` (default 0) and `limit` (default 20, at most 100).
+ *
+ * @param {NextRequest} request - Incoming request
+ * @param {HoldersRouteContext} context - Route params
+ * @returns {Promise<Response>} ApiPage of ApiHolder, cached for a minute
+ */
+export async function GET(request: NextRequest, { params }: HoldersRouteContext) {
+  try {
+    const tokenAddress = parseTokenAddress((await params).token);
+    const page = parsePage(request.nextUrl.searchParams, DEFAULT_LIMIT, MAX_LIMIT);
+    const event = await fetchEventData(serverClient, getEventMetadata(tokenAddress));
+
+    const snapshot = await syncHolders(serverClient, {
+      tokenAddress,
+      excluded: [event.hookAddress, event.poolManager].filter((address): address is Address => address !== null),
+      startBlock: event.startBlock,
+      limit: page.offset + page.limit,
+    });
+    if (!snapshot.synced) {
+      throw new ApiRequestError(503, "holders_syncing", "Holders are still being indexed, retry in a few seconds");
+    }
+
+    const data: ApiHolder[] = snapshot.topHolders.slice(page.offset).map((holder, index) => {
+      const tokens = Number(formatUnits(holder.balance, EVENT_TOKEN_DECIMALS));
+      return {
+        rank: page.offset + index + 1,
+        address: holder.address,
+        balance: holder.balance.toString(),
+        share: event.totalSupply > 0 ? (tokens / event.totalSupply) * 100 : 0,
+        firstBlock: holder.firstBlock.toString(),
+        firstTimestamp: holder.firstTimestamp,
+      };
+    });
+
+    return apiJson(offsetPage(data, page, snapshot.holderCount, request.nextUrl), 60);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
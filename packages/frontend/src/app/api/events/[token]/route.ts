@@ -0,0 +1,78 @@
+import type { NextRequest } from "next/server";
+import { serverClient } from "../../../../config/chains";
+import { poolManagerAddress } from "../../../../config/contracts";
+import { getEventMetadata } from "../../../../config/events";
+import { apiErrorResponse, apiJson, parseTokenAddress } from "../../../../lib/api";
+import { fetchEventData } from "../../../../lib/events";
+import { readLaunchProgress } from "../../../../lib/launch";
+import type { ApiEventDetail } from "../../../../types/api";
+
+/**
+ * @interface EventRouteContext
+ * @description Route params of /api/events/[token]
+ */
+interface EventRouteContext {
+  params: Promise<{ token: string }>;
+}
+
+/**
+ * @function GET
+ * @description Event metadata, price, interest, vesting, backing asset and launch state of an EventToken
+ * @param {NextRequest} _request - Incoming request
+ * @param {EventRouteContext} context - Route params
+ * @returns {Promise<Response>} ApiEventDetail, cached for 15 seconds
+ */
+export async function GET(_request: NextRequest, { params }: EventRouteContext) {
+  try {
+    const tokenAddress = parseTokenAddress((await params).token);
+    const metadata = getEventMetadata(tokenAddress);
+    const event = await fetchEventData(serverClient, metadata);
+    const launch = await readLaunchProgress(serverClient, {
+      tokenAddress,
+      backingAsset: event.backingAsset?.address ?? null,
+      poolManager: event.poolManager ?? poolManagerAddress,
+      fee: metadata.poolFee,
+      tickSpacing: metadata.tickSpacing,
+    });
+
+    const body: ApiEventDetail = {
+      tokenAddress,
+      name: event.name,
+      symbol: event.tokenSymbol,
+      eventDate: event.eventDate,
+      location: event.location,
+      promoter: event.promoter,
+      description: event.description,
+      organizer: event.organizer,
+      hookAddress: event.hookAddress,
+      poolManager: event.poolManager,
+      poolKey: event.poolKey,
+      startBlock: event.startBlock.toString(),
+      backingAsset: event.backingAsset,
+      price: event.currentPrice,
+      totalSupply: event.totalSupply,
+      availableForPurchase: event.availableForPurchase,
+      raised: event.raised,
+      minInterest: event.minInterest,
+      vesting: {
+        startTime: Number(event.vesting.startTime),
+        endTime: Number(event.vesting.endTime),
+        totalAmount: event.vesting.totalAmount.toString(),
+        transferable: event.vesting.transferable.toString(),
+        remaining: event.vesting.remaining.toString(),
+        progress: event.vestingProgress,
+      },
+      bootstrap: {
+        launchStep: launch.step,
+        backingAssetDeposited: event.backingAssetDeposited,
+        initialBackingAmount: event.initialBackingAmount,
+        poolInitialized: event.sqrtPriceX96 !== 0n,
+        liquidityBootstrapped: launch.step === "done",
+      },
+    };
+
+    return apiJson(body, 15);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
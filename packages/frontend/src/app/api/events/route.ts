@@ -0,0 +1,42 @@
+import type { NextRequest } from "next/server";
+import { serverClient } from "../../../config/chains";
+import { listedEvents } from "../../../config/events";
+import { apiErrorResponse, apiJson, offsetPage, parsePage } from "../../../lib/api";
+import { fetchEventSummaries } from "../../../lib/events";
+import type { ApiEventSummary } from "../../../types/api";
+
+/** Events per page unless ?limit= says otherwise */
+const DEFAULT_LIMIT = 20;
+
+/** Largest ?limit= accepted */
+const MAX_LIMIT = 100;
+
+/**
+ * @function GET
+ * @description Lists the events shown on /events, in the same order
+ *
+ * Query: `offset` (default 0) and `limit` (default 20, at most 100).
+ *
+ * @param {NextRequest} request - Incoming request
+ * @returns {Promise<Response>} ApiPage of ApiEventSummary, cached for a minute
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const page = parsePage(request.nextUrl.searchParams, DEFAULT_LIMIT, MAX_LIMIT);
+    const summaries = await fetchEventSummaries(serverClient, listedEvents.slice(page.offset, page.offset + page.limit));
+
+    const data: ApiEventSummary[] = summaries.map((summary) => ({
+      tokenAddress: summary.tokenAddress,
+      name: summary.name,
+      symbol: summary.tokenSymbol,
+      eventDate: summary.eventDate,
+      location: summary.location,
+      promoter: summary.promoter,
+      url: `/api/events/${summary.tokenAddress}`,
+    }));
+
+    return apiJson(offsetPage(data, page, listedEvents.length, request.nextUrl), 60);
+  } catch (error) {
+    return apiErrorResponse(error);
+  }
+}
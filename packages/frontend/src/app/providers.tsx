@@ -0,0 +1,39 @@
+"use client";
+
+import { useState } from "react";
+import { WagmiProvider } from "wagmi";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import NotificationProvider from "../components/NotificationProvider";
+import LocaleProvider from "../components/LocaleProvider";
+import { wagmiConfig } from "../config/wagmi";
+import type { Locale } from "../config/i18n";
+
+/**
+ * @component Providers
+ * @description Client-side context providers for the application
+ *
+ * Features:
+ * - Wagmi configuration for contract reads and wallet access
+ * - React Query client caching contract reads across components
+ * - Notification stack shared by every page
+ * - Locale of the page for messages and number formatting
+ *
+ * @param {Object} props - Component props
+ * @param {Locale} props.locale - Locale of the page
+ * @param {React.ReactNode} props.children - Child components to render
+ * @returns {JSX.Element} Children wrapped in the locale, wagmi, query and notification providers
+ */
+export default function Providers({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  // One query client per browser session, created lazily to avoid sharing state between requests
+  const [queryClient] = useState(() => new QueryClient());
+
+  return (
+    <LocaleProvider locale={locale}>
+      <WagmiProvider config={wagmiConfig}>
+        <QueryClientProvider client={queryClient}>
+          <NotificationProvider>{children}</NotificationProvider>
+        </QueryClientProvider>
+      </WagmiProvider>
+    </LocaleProvider>
+  );
+}
@@ -0,0 +1,218 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { ACTIVITY_PAGE_SIZE, useActivity } from "../hooks/useActivity";
+import { useI18n } from "../hooks/useI18n";
+import { formatCurrency, formatDate, formatPrice, formatRelativeTime, formatTokenAmount, shortenAddress } from "../lib/format";
+import { getErrorMessage } from "../lib/errors";
+import { getActivityPage, type TradeSide } from "../lib/activity";
+import type { EventData } from "../types/event";
+
+/** How often relative times are refreshed */
+const CLOCK_INTERVAL_MS = 30_000;
+
+/**
+ * @interface ActivityFeedProps
+ * @description Props for the ActivityFeed component
+ */
+interface ActivityFeedProps {
+  /** Event whose pool trades to list */
+  event: EventData;
+  /** Symbol of the event token, without the leading $ */
+  tokenSymbol: string;
+  /** Symbol of the backing asset trades are paid in */
+  backingSymbol: string;
+}
+
+/**
+ * @component ActivityFeed
+ * @description Latest buys and sells of an event token, read from the swaps of its Uniswap v4 pool
+ *
+ * Features:
+ * - Trader, token amount, backing asset amount, execution price and time of each trade
+ * - New trades added to the top as they are mined
+ * - Organizer trades labelled, by address or by organizer tokens moved in the trade
+ * - Filter by side (all, buys, sells)
+ * - Pages of ten trades, older trades read from the chain as they are needed
+ * - Loading, error and empty states
+ * - Amounts and times in the locale of the page
+ *
+ * @param {ActivityFeedProps} props - Component props
+ * @returns {JSX.Element} Rendered activity feed
+ */
+export default function ActivityFeed({ event, tokenSymbol, backingSymbol }: ActivityFeedProps) {
+  const { trades, hasMore, loadMore, isLoading, isLoadingMore, error } = useActivity(event);
+  const { locale, messages, t } = useI18n();
+  const text = messages.activity;
+  const [side, setSide] = useState<TradeSide | "all">("all");
+  const [page, setPage] = useState(0);
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  // Keeps "2 minutes ago" current between trades
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), CLOCK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  const { trades: visible, needsMore, hasOlder } = getActivityPage(trades, side, page, ACTIVITY_PAGE_SIZE, hasMore);
+
+  // Reads older trades until the page is full, a filter can skip most of a batch
+  useEffect(() => {
+    if (needsMore && !isLoading && !isLoadingMore && !error) loadMore();
+  }, [needsMore, isLoading, isLoadingMore, error, loadMore]);
+
+  const sideOptions = [
+    { value: "all", label: text.all },
+    { value: "buy", label: text.buys },
+    { value: "sell", label: text.sells },
+  ] as const;
+
+  /**
+   * @function selectSide
+   * @description Filters the feed and goes back to its first page
+   * @param {TradeSide | "all"} value - Side to show
+   */
+  const selectSide = (value: TradeSide | "all") => {
+    setSide(value);
+    setPage(0);
+  };
+
+  const status = isLoading
+    ? text.loading
+    : error && visible.length === 0
+      ? t(text.loadError, { error: getErrorMessage(error, locale) })
+      : visible.length === 0 && !needsMore
+        ? trades.length === 0
+          ? text.empty
+          : text.emptyFiltered
+        : null;
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg">
+      {/* Component Header */}
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <div>
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white">{text.title}</h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">{t(text.subtitle, { symbol: tokenSymbol })}</p>
+        </div>
+        <div className="flex space-x-1 bg-gray-100 dark:bg-gray-700 rounded-lg p-1" role="group" aria-label={text.filterLabel}>
+          {sideOptions.map((option) => (
+            <button
+              key={option.value}
+              onClick={() => selectSide(option.value)}
+              className={`px-3 py-1 rounded-md text-sm font-medium transition-all duration-200 ${
+                side === option.value
+                  ? "bg-white dark:bg-gray-600 text-purple-600 dark:text-purple-400 shadow-sm"
+                  : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+              }`}
+              aria-pressed={side === option.value}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {status ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">{status}</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th scope="col" className="py-2 pr-2 font-medium">{text.side}</th>
+                <th scope="col" className="py-2 pr-2 font-medium">{text.trader}</th>
+                <th scope="col" className="py-2 pr-2 font-medium text-right">{t(text.tokens, { symbol: tokenSymbol })}</th>
+                <th scope="col" className="py-2 pr-2 font-medium text-right">{t(text.amount, { symbol: backingSymbol })}</th>
+                <th scope="col" className="py-2 pr-2 font-medium text-right">{text.price}</th>
+                <th scope="col" className="py-2 font-medium text-right">{text.time}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map((trade) => (
+                <tr
+                  key={`${trade.transactionHash}-${trade.logIndex}`}
+                  className="border-b border-gray-100 dark:border-gray-700/50 last:border-0"
+                >
+                  <td className="py-3 pr-2">
+                    <span
+                      className={`text-xs font-medium px-2 py-0.5 rounded-full ${
+                        trade.side === "buy"
+                          ? "bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-300"
+                          : "bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-300"
+                      }`}
+                    >
+                      {trade.side === "buy" ? text.buy : text.sell}
+                    </span>
+                  </td>
+                  <td className="py-3 pr-2 whitespace-nowrap">
+                    <span className="font-mono text-gray-900 dark:text-white" title={trade.trader}>
+                      {shortenAddress(trade.trader)}
+                    </span>
+                    {trade.isOrganizer && (
+                      <span className="ml-2 text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 px-2 py-0.5 rounded-full">
+                        {text.organizer}
+                      </span>
+                    )}
+                  </td>
+                  <td className="py-3 pr-2 text-right text-gray-900 dark:text-white tabular-nums">
+                    {formatTokenAmount(trade.tokenAmount, locale, 2)}
+                  </td>
+                  <td className="py-3 pr-2 text-right text-gray-600 dark:text-gray-300 tabular-nums">
+                    {formatCurrency(trade.backingAmount, "", locale)}
+                  </td>
+                  <td className="py-3 pr-2 text-right text-gray-600 dark:text-gray-300 tabular-nums">
+                    {formatPrice(trade.price, locale)}
+                  </td>
+                  <td className="py-3 text-right text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                    <time
+                      dateTime={new Date(trade.timestamp * 1000).toISOString()}
+                      title={formatDate(trade.timestamp, locale, {
+                        month: "short",
+                        day: "numeric",
+                        year: "numeric",
+                        hour: "numeric",
+                        minute: "2-digit",
+                        second: "2-digit",
+                      })}
+                    >
+                      {formatRelativeTime(trade.timestamp, now, locale)}
+                    </time>
+                  </td>
+                </tr>
+              ))}
+              {needsMore && (
+                <tr>
+                  <td colSpan={6} className="py-3 text-center text-gray-500 dark:text-gray-400">
+                    {error ? t(text.loadError, { error: getErrorMessage(error, locale) }) : text.loadingMore}
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {/* Pagination */}
+      {(page > 0 || hasOlder) && !isLoading && (
+        <nav className="flex justify-between items-center mt-4 text-sm" aria-label={text.pagination}>
+          <button
+            onClick={() => setPage(page - 1)}
+            disabled={page === 0}
+            className="px-3 py-1 rounded-md font-medium text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            ← {text.previous}
+          </button>
+          <span className="text-gray-500 dark:text-gray-400">{t(text.page, { page: page + 1 })}</span>
+          <button
+            onClick={() => setPage(page + 1)}
+            disabled={!hasOlder}
+            className="px-3 py-1 rounded-md font-medium text-purple-600 dark:text-purple-400 hover:bg-purple-50 dark:hover:bg-purple-900/20 disabled:opacity-40 disabled:hover:bg-transparent"
+          >
+            {text.next} →
+          </button>
+        </nav>
+      )}
+    </div>
+  );
+}
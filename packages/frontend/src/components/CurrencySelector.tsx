@@ -0,0 +1,37 @@
+"use client";
+
+import { useDisplayCurrency } from "../hooks/useDisplayCurrency";
+import { useI18n } from "../hooks/useI18n";
+import { fiatCurrencies } from "../lib/priceOracle";
+import type { DisplayCurrency } from "../lib/displayCurrency";
+
+/**
+ * @component CurrencySelector
+ * @description Picks the fiat currency backing asset amounts are converted into
+ *
+ * Features:
+ * - Backing asset only, or an approximate USD or MXN value next to it
+ * - Choice saved in localStorage and shared across tabs
+ *
+ * @returns {JSX.Element} Rendered currency select
+ */
+export default function CurrencySelector() {
+  const { currency, setCurrency } = useDisplayCurrency();
+  const { messages } = useI18n();
+
+  return (
+    <select
+      value={currency}
+      onChange={(e) => setCurrency(e.target.value as DisplayCurrency)}
+      className="text-sm bg-transparent text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-purple-500"
+      aria-label={messages.currency.label}
+    >
+      <option value="backing">{messages.currency.backing}</option>
+      {fiatCurrencies.map((fiat) => (
+        <option key={fiat} value={fiat}>
+          {fiat}
+        </option>
+      ))}
+    </select>
+  );
+}
@@ -0,0 +1,352 @@
+"use client";
+
+import { useMemo } from "react";
+import type { Address } from "viem";
+import Header from "./Header";
+import Footer from "./Footer";
+import PurchaseForm from "./PurchaseForm";
+import TokenChart from "./TokenChart";
+import UnlockProgress from "./UnlockProgress";
+import HolderLeaderboard from "./HolderLeaderboard";
+import ActivityFeed from "./ActivityFeed";
+import { useEventData } from "../hooks/useEventData";
+import { useVesting } from "../hooks/useVesting";
+import { useHolders } from "../hooks/useHolders";
+import { useLiveEvent } from "../hooks/useLiveEvent";
+import { useI18n } from "../hooks/useI18n";
+import { useFiat } from "../hooks/useFiat";
+import { getEventMetadata } from "../config/events";
+import { formatDate, formatNumber, formatPercent, formatPrice, shortenAddress } from "../lib/format";
+import { getErrorMessage } from "../lib/errors";
+
+/**
+ * @interface EventPageProps
+ * @description Props for the EventPage component
+ */
+interface EventPageProps {
+  /** EventToken of the event to show */
+  tokenAddress: Address;
+}
+
+/**
+ * @component EventPage
+ * @description Page of a single event, rendered by /events/[tokenAddress] for any EventToken
+ * 
+ * Features:
+ * - Event showcase with hero section, read live from the event contracts
+ * - Live updates of the price, pre-support progress, holders, chart and unlocks as swaps and transfers land
+ * - Off-chain metadata for listed events, the organizer address for the rest
+ * - Loading and error states while contract data is fetched
+ * - Pre-support progress tracking
+ * - Token price converted into the fiat currency picked in the header
+ * - Token price chart from on-chain swaps
+ * - Wallet connection with a wrong network guard
+ * - Token buying and selling
+ * - Live feed of the latest buys and sells, organizer trades labelled
+ * - Organizer token unlock progress, ticking every second
+ * - Holder count and top-holder leaderboard from the token's transfers
+ * - Educational content about the platform
+ * - Text, numbers and dates in the locale of the page
+ * - Responsive design with dark mode support
+ * - Transaction notifications from the shared notification stack
+ * - FAQ section for user guidance
+ * 
+ * The page demonstrates a pre-support model where fans can show interest
+ * in events before they're confirmed, helping promoters validate demand.
+ * 
+ * @param {EventPageProps} props - Component props
+ * @returns {JSX.Element} Complete event page with all sections
+ */
+export default function EventPage({ tokenAddress }: EventPageProps) {
+  // Live event data read from EventToken and EventCoinSimpleHook
+  const metadata = useMemo(() => getEventMetadata(tokenAddress), [tokenAddress]);
+  const { data: eventData, isLoading, error, refetch } = useEventData(metadata);
+  // Vesting is re-read on its own schedule to keep the unlock counter in line with the chain
+  const { vesting: liveVesting, clockOffset, syncedAt } = useVesting(tokenAddress);
+  const vesting = liveVesting ?? eventData?.vesting;
+  // Holders are rebuilt from Transfer events, leaving out the token, hook and PoolManager
+  const holders = useHolders(eventData);
+  // New swaps and transfers are pushed into the queries above as they are mined
+  const live = useLiveEvent(eventData);
+  const { locale, messages, t, rich } = useI18n();
+  const text = messages.eventPage;
+  const tokenSymbol = eventData?.tokenSymbol ?? "";
+  const backingSymbol = eventData?.backingAsset?.symbol ?? "";
+  const fiat = useFiat(eventData?.backingAsset ?? null);
+  const fiatPrice = eventData ? fiat.toFiat(eventData.currentPrice) : null;
+
+  const liveLabel = live.error
+    ? text.liveError
+    : live.status === "connecting"
+      ? text.liveConnecting
+      : live.status === "polling"
+        ? t(text.livePolling, { seconds: formatNumber(live.pollingInterval / 1000, locale) })
+        : text.liveSubscribed;
+
+  // Calculate progress percentage for the interest indicator
+  const interestPercentage = eventData ? (eventData.raised / eventData.minInterest) * 100 : 0;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 dark:from-gray-900 dark:via-purple-900 dark:to-indigo-900">
+      {/* Application Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {isLoading && (
+          /* Loading State */
+          <section
+            className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl p-16 mb-8 flex flex-col items-center"
+            aria-busy="true"
+          >
+            <div className="w-10 h-10 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mb-4"></div>
+            <p className="text-gray-600 dark:text-gray-300">{text.loading}</p>
+          </section>
+        )}
+
+        {!isLoading && error && (
+          /* Error State */
+          <section className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl p-16 mb-8 text-center" role="alert">
+            <span className="text-4xl mb-4 block" aria-hidden="true">⚠️</span>
+            <h1 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">
+              {text.loadError}
+            </h1>
+            <p className="text-gray-600 dark:text-gray-300 mb-6 break-words">
+              {getErrorMessage(error, locale)}
+            </p>
+            <button
+              onClick={refetch}
+              className="bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-2 rounded-full font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2"
+            >
+              {messages.common.tryAgain}
+            </button>
+          </section>
+        )}
+
+        {eventData && !error && (
+          <>
+            {/* Event Hero Section */}
+            <section className="bg-white dark:bg-gray-800 rounded-3xl shadow-xl overflow-hidden mb-8">
+              <div className="relative h-80 bg-gradient-to-r from-purple-600 via-pink-600 to-red-600">
+                <div className="absolute inset-0 bg-black/20"></div>
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="text-center text-white px-4">
+                    <h1 className="text-4xl md:text-6xl font-bold mb-4">{eventData.name}</h1>
+                    <p className="text-xl md:text-2xl mb-2">{formatDate(eventData.eventDate, locale)}</p>
+                    {eventData.location && (
+                      <p className="text-lg md:text-xl opacity-90">{eventData.location}</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+              <div className="p-8">
+                <div className="flex items-center justify-center mb-4 space-x-2">
+                  {eventData.promoter ? (
+                    <>
+                      <span className="text-gray-700 dark:text-gray-300 font-medium">
+                        {t(text.promoter, { promoter: eventData.promoter })}
+                      </span>
+                      <div className="bg-blue-500 text-white w-5 h-5 rounded-full flex items-center justify-center">
+                        <span className="text-xs" aria-label={text.verified}>✓</span>
+                      </div>
+                    </>
+                  ) : (
+                    /* Events without curated metadata are attributed to their organizer wallet */
+                    <span className="text-gray-700 dark:text-gray-300 font-medium">
+                      {rich(text.organizer, {
+                        organizer: (
+                          <span className="font-mono" title={eventData.organizer}>
+                            {shortenAddress(eventData.organizer)}
+                          </span>
+                        ),
+                      })}
+                    </span>
+                  )}
+                </div>
+                <p className="text-gray-600 dark:text-gray-300 text-lg leading-relaxed text-center">
+                  {rich(text.intro, {
+                    preSupport: <strong>{text.introPreSupport}</strong>,
+                    name: eventData.name,
+                    onlyIfConfirmed: <strong>{text.introOnlyIfConfirmed}</strong>,
+                  })}
+                </p>
+              </div>
+            </section>
+
+            {/* Pre-Support Status Section */}
+            <section className="bg-white dark:bg-gray-800 rounded-2xl p-8 shadow-lg mb-8">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2 text-center">
+                {text.statusTitle}
+              </h2>
+              <p
+                className="flex items-center justify-center gap-2 text-xs text-gray-500 dark:text-gray-400 mb-6"
+                title={live.latestBlock ? t(text.liveBlock, { block: live.latestBlock.number.toString() }) : undefined}
+              >
+                <span
+                  className={`w-2 h-2 rounded-full ${
+                    live.error ? "bg-red-500" : live.status === "connecting" ? "bg-gray-400" : "bg-green-500 animate-pulse"
+                  }`}
+                  aria-hidden="true"
+                ></span>
+                {liveLabel}
+              </p>
+              
+              {/* Interest Progress Bar */}
+              <div className="mb-6">
+                <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
+                  <span>
+                    {t(text.interestShown, {
+                      raised: formatNumber(eventData.raised, locale),
+                      goal: formatNumber(eventData.minInterest, locale),
+                    })}
+                  </span>
+                  <span>{formatPercent(interestPercentage, locale)}</span>
+                </div>
+                <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-4 mb-2">
+                  <div 
+                    className="bg-gradient-to-r from-orange-500 to-red-500 h-4 rounded-full transition-all duration-1000"
+                    style={{ width: `${Math.min(interestPercentage, 100)}%` }}
+                    role="progressbar"
+                    aria-valuenow={interestPercentage}
+                    aria-valuemin={0}
+                    aria-valuemax={100}
+                    aria-label={t(text.interestLabel, { percent: formatPercent(interestPercentage, locale) })}
+                  ></div>
+                </div>
+                <p className="text-sm text-gray-500 dark:text-gray-400 text-center">
+                  {interestPercentage >= 100 ? 
+                    text.interestConfirmed : 
+                    t(text.tokensNeeded, { count: formatNumber(eventData.minInterest - eventData.raised, locale) })
+                  }
+                </p>
+              </div>
+
+              {/* Event Statistics */}
+              {fiat.isUnavailable && fiat.currency && (
+                <p className="text-xs text-gray-500 dark:text-gray-400 text-center mb-4">
+                  {t(messages.currency.unavailable, { currency: fiat.currency, symbol: backingSymbol })}
+                </p>
+              )}
+              <div className="grid grid-cols-3 gap-6 text-center">
+                <div>
+                  <div className="text-3xl font-bold text-green-600 mb-2">
+                    {holders.holderCount !== null ? formatNumber(holders.holderCount, locale) : "—"}
+                  </div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">{text.supportingFans}</div>
+                </div>
+                <div>
+                  <div className="text-3xl font-bold text-blue-600 mb-2">
+                    {formatPrice(eventData.currentPrice, locale)} {backingSymbol}
+                  </div>
+                  {fiatPrice && (
+                    <div className="text-sm text-blue-500 -mt-1 mb-1" title={fiat.rateSource ?? undefined}>
+                      {fiatPrice}
+                    </div>
+                  )}
+                  <div className="text-sm text-gray-500 dark:text-gray-400">{text.pricePerToken}</div>
+                </div>
+                <div>
+                  <div className="text-3xl font-bold text-purple-600 mb-2">
+                    {formatNumber(eventData.daysLeft, locale)}
+                  </div>
+                  <div className="text-sm text-gray-500 dark:text-gray-400">{text.daysRemaining}</div>
+                </div>
+              </div>
+            </section>
+
+            {/* What Happens Next Section */}
+            <section className="bg-white dark:bg-gray-800 rounded-2xl p-8 shadow-lg mb-8">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6 text-center">
+                {text.nextTitle}
+              </h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div className="text-center">
+                  <div className="w-16 h-16 bg-orange-100 dark:bg-orange-900/30 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <span className="text-2xl" aria-hidden="true">🎯</span>
+                  </div>
+                  <h3 className="text-lg font-semibold mb-2">{text.ifConfirmedTitle}</h3>
+                  <p className="text-gray-600 dark:text-gray-400">{text.ifConfirmedBody}</p>
+                </div>
+                <div className="text-center">
+                  <div className="w-16 h-16 bg-blue-100 dark:bg-blue-900/30 rounded-full flex items-center justify-center mx-auto mb-4">
+                    <span className="text-2xl" aria-hidden="true">💎</span>
+                  </div>
+                  <h3 className="text-lg font-semibold mb-2">{text.ifNotConfirmedTitle}</h3>
+                  <p className="text-gray-600 dark:text-gray-400">{text.ifNotConfirmedBody}</p>
+                </div>
+              </div>
+            </section>
+
+            {/* Token Price Chart */}
+            <section className="mb-8">
+              <TokenChart event={eventData} tokenSymbol={tokenSymbol} backingSymbol={backingSymbol} />
+            </section>
+
+            {/* Token Purchase Form */}
+            <section className="bg-white dark:bg-gray-800 rounded-2xl shadow-lg mb-8">
+              <PurchaseForm 
+                event={eventData}
+                tokenSymbol={tokenSymbol}
+                backingSymbol={backingSymbol}
+                onTrade={refetch}
+              />
+            </section>
+
+            {/* Trade Activity */}
+            <section className="mb-8">
+              <ActivityFeed event={eventData} tokenSymbol={tokenSymbol} backingSymbol={backingSymbol} />
+            </section>
+
+            {/* Organizer Token Unlocks */}
+            {vesting && (
+              <section className="mb-8">
+                <UnlockProgress
+                  startTime={vesting.startTime}
+                  endTime={vesting.endTime}
+                  totalAmount={vesting.totalAmount}
+                  remaining={vesting.remaining}
+                  clockOffset={clockOffset}
+                  syncedAt={syncedAt}
+                  tokenSymbol={tokenSymbol}
+                />
+              </section>
+            )}
+
+            {/* Top Holders */}
+            <section className="mb-8">
+              <HolderLeaderboard
+                holders={holders.topHolders}
+                totalSupply={eventData.totalSupply}
+                organizer={eventData.organizer}
+                tokenSymbol={tokenSymbol}
+                isLoading={holders.isLoading}
+                error={holders.error}
+              />
+            </section>
+
+            {/* FAQ Section */}
+            <section className="bg-white dark:bg-gray-800 rounded-2xl p-8 shadow-lg">
+              <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-6 text-center">
+                {text.faqTitle}
+              </h2>
+              <div className="space-y-4">
+                {text.faq.map((item, index) => (
+                  <div
+                    key={item.question}
+                    className={index < text.faq.length - 1 ? "border-b border-gray-200 dark:border-gray-700 pb-4" : undefined}
+                  >
+                    <h3 className="font-semibold text-gray-900 dark:text-white mb-2">{item.question}</h3>
+                    <p className="text-gray-600 dark:text-gray-400">{item.answer}</p>
+                  </div>
+                ))}
+              </div>
+            </section>
+          </>
+        )}
+      </main>
+
+      {/* Application Footer */}
+      <Footer />
+    </div>
+  );
+}
\ No newline at end of file
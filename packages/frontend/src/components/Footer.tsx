@@ -0,0 +1,22 @@
+"use client";
+
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * @component Footer
+ * @description Application footer shared by every page
+ * @returns {JSX.Element} Rendered footer
+ */
+export default function Footer() {
+  const { messages } = useI18n();
+
+  return (
+    <footer className="bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-700 mt-16">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <div className="text-center text-gray-600 dark:text-gray-400">
+          <p>{messages.footer.tagline}</p>
+        </div>
+      </div>
+    </footer>
+  );
+}
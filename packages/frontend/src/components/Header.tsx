@@ -0,0 +1,94 @@
+"use client";
+
+import Link from "next/link";
+import { usePathname } from "next/navigation";
+import WalletMenu from "./WalletMenu";
+import CurrencySelector from "./CurrencySelector";
+import { useI18n } from "../hooks/useI18n";
+import { getLocalePath, localeNames, locales, stripLocale } from "../config/i18n";
+
+/**
+ * @component Header
+ * @description Sticky application header shared by every page
+ *
+ * Features:
+ * - Brand logo linking back to the home page
+ * - Navigation to the events index, the portfolio and the launch wizard
+ * - Language switcher keeping the current page
+ * - Display currency selector
+ * - Wallet connection menu
+ *
+ * @returns {JSX.Element} Rendered header
+ */
+export default function Header() {
+  const { locale, messages, localize } = useI18n();
+  // Path of the current page without its locale, to open it in another language
+  const path = stripLocale(usePathname());
+
+  return (
+    <header className="bg-white/80 dark:bg-gray-900/80 backdrop-blur-md border-b border-gray-200 dark:border-gray-700 sticky top-0 z-50">
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="flex justify-between items-center py-4">
+          {/* Brand Logo and Name */}
+          <Link href={localize("/")} className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-r from-purple-600 to-blue-600 rounded-full flex items-center justify-center">
+              <span className="text-white font-bold text-lg" aria-hidden="true">U</span>
+            </div>
+            <span className="text-xl font-bold text-gray-900 dark:text-white">UniFans</span>
+          </Link>
+
+          <div className="flex items-center space-x-6">
+            {/* Navigation */}
+            <nav aria-label={messages.header.mainNavigation} className="flex items-center space-x-6">
+              <Link
+                href={localize("/events")}
+                className="text-gray-700 dark:text-gray-300 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+              >
+                {messages.header.events}
+              </Link>
+              <Link
+                href={localize("/portfolio")}
+                className="text-gray-700 dark:text-gray-300 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+              >
+                {messages.header.portfolio}
+              </Link>
+              <Link
+                href={localize("/launch")}
+                className="text-gray-700 dark:text-gray-300 font-medium hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+              >
+                {messages.header.launch}
+              </Link>
+            </nav>
+
+            {/* Language Switcher */}
+            <nav aria-label={messages.header.language} className="flex items-center space-x-2 text-sm">
+              {locales.map((option) => (
+                <Link
+                  key={option}
+                  href={getLocalePath(option, path)}
+                  hrefLang={option}
+                  lang={option}
+                  title={localeNames[option]}
+                  aria-current={option === locale ? "page" : undefined}
+                  className={
+                    option === locale
+                      ? "font-semibold text-purple-600 dark:text-purple-400"
+                      : "text-gray-500 dark:text-gray-400 hover:text-purple-600 dark:hover:text-purple-400 transition-colors"
+                  }
+                >
+                  {option.split("-")[0].toUpperCase()}
+                </Link>
+              ))}
+            </nav>
+
+            {/* Display Currency */}
+            <CurrencySelector />
+
+            {/* Wallet Connection */}
+            <WalletMenu />
+          </div>
+        </div>
+      </div>
+    </header>
+  );
+}
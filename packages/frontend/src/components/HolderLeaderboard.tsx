@@ -0,0 +1,142 @@
+"use client";
+
+import { formatUnits, isAddressEqual, type Address } from "viem";
+import { EVENT_TOKEN_DECIMALS } from "@unifans/shared";
+import { useI18n } from "../hooks/useI18n";
+import { formatDate, formatPercent, formatTokenAmount, shortenAddress } from "../lib/format";
+import { getErrorMessage } from "../lib/errors";
+import type { HolderBalance } from "../lib/holders";
+
+/**
+ * @interface HolderLeaderboardProps
+ * @description Props for the HolderLeaderboard component
+ */
+interface HolderLeaderboardProps {
+  /** Largest holders, biggest balance first */
+  holders: HolderBalance[];
+  /** Total supply of the event token in whole tokens */
+  totalSupply: number;
+  /** Organizer of the event, labelled on the leaderboard */
+  organizer: Address;
+  /** Symbol of the event token, without the leading $ */
+  tokenSymbol: string;
+  /** Whether holders are still being read */
+  isLoading: boolean;
+  /** Error raised while reading holders */
+  error: Error | null;
+}
+
+/**
+ * @component HolderLeaderboard
+ * @description Ranking of the largest event token holders
+ *
+ * Features:
+ * - Balances rebuilt from the EventToken's Transfer events
+ * - Share of the total supply held by each fan
+ * - Time of each holder's first purchase
+ * - Organizer wallet labelled in the ranking
+ * - Loading, error and empty states
+ * - Balances and dates in the locale of the page
+ *
+ * @param {HolderLeaderboardProps} props - Component props
+ * @returns {JSX.Element} Rendered holder leaderboard
+ */
+export default function HolderLeaderboard({
+  holders,
+  totalSupply,
+  organizer,
+  tokenSymbol,
+  isLoading,
+  error,
+}: HolderLeaderboardProps) {
+  const { locale, messages, t } = useI18n();
+  const text = messages.holders;
+
+  /**
+   * @function toTokens
+   * @description Converts a raw amount into whole tokens
+   * @param {bigint} amount - Raw token amount
+   * @returns {number} Whole tokens
+   */
+  const toTokens = (amount: bigint): number => Number(formatUnits(amount, EVENT_TOKEN_DECIMALS));
+
+  /**
+   * @function formatFirstBuy
+   * @description Formats the time of a holder's first purchase
+   * @param {number | null} timestamp - Unix time in seconds, null when unknown
+   * @returns {string} Date and time like "Mar 4, 2025, 3:15 PM"
+   */
+  const formatFirstBuy = (timestamp: number | null): string =>
+    timestamp === null
+      ? "—"
+      : formatDate(timestamp, locale, {
+          month: "short",
+          day: "numeric",
+          year: "numeric",
+          hour: "numeric",
+          minute: "2-digit",
+        });
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg">
+      {/* Component Header */}
+      <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
+        {t(text.title, { symbol: tokenSymbol })}
+      </h3>
+
+      {(isLoading || error || holders.length === 0) ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400 text-center py-8">
+          {isLoading
+            ? text.loading
+            : error
+              ? t(text.loadError, { error: getErrorMessage(error, locale) })
+              : text.empty}
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                <th scope="col" className="py-2 pr-2 font-medium">#</th>
+                <th scope="col" className="py-2 pr-2 font-medium">{text.holder}</th>
+                <th scope="col" className="py-2 pr-2 font-medium text-right">{text.balance}</th>
+                <th scope="col" className="py-2 pr-2 font-medium text-right">{text.share}</th>
+                <th scope="col" className="py-2 font-medium text-right">{text.firstBuy}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {holders.map((holder, index) => {
+                const balance = toTokens(holder.balance);
+                const share = totalSupply > 0 ? (balance / totalSupply) * 100 : 0;
+                return (
+                  <tr key={holder.address} className="border-b border-gray-100 dark:border-gray-700/50 last:border-0">
+                    <td className="py-3 pr-2 text-gray-500 dark:text-gray-400">{index + 1}</td>
+                    <td className="py-3 pr-2">
+                      <span className="font-mono text-gray-900 dark:text-white" title={holder.address}>
+                        {shortenAddress(holder.address)}
+                      </span>
+                      {isAddressEqual(holder.address, organizer) && (
+                        <span className="ml-2 text-xs bg-purple-100 dark:bg-purple-900/30 text-purple-700 dark:text-purple-300 px-2 py-0.5 rounded-full">
+                          {text.organizer}
+                        </span>
+                      )}
+                    </td>
+                    <td className="py-3 pr-2 text-right text-gray-900 dark:text-white tabular-nums">
+                      {formatTokenAmount(balance, locale)}
+                    </td>
+                    <td className="py-3 pr-2 text-right text-gray-600 dark:text-gray-300 tabular-nums">
+                      {formatPercent(share, locale, 2)}
+                    </td>
+                    <td className="py-3 text-right text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      {formatFirstBuy(holder.firstTimestamp)}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
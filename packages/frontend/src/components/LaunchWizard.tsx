@@ -0,0 +1,457 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { useReadContracts } from "wagmi";
+import { erc20Abi, formatUnits, isAddress, parseUnits, zeroAddress, type Address } from "viem";
+import Header from "./Header";
+import Footer from "./Footer";
+import { useLaunch } from "../hooks/useLaunch";
+import { useWallet } from "../hooks/useWallet";
+import { useNotify } from "../hooks/useNotify";
+import { useI18n } from "../hooks/useI18n";
+import { poolManagerAddress } from "../config/contracts";
+import { getEventPath } from "../config/events";
+import { activeChain } from "../config/wagmi";
+import { launchSteps } from "../lib/launch";
+import { getErrorMessage } from "../lib/errors";
+import { formatNumber, shortenAddress } from "../lib/format";
+
+/**
+ * @interface LaunchWizardProps
+ * @description Props for the LaunchWizard component, taken from the /launch query string
+ */
+interface LaunchWizardProps {
+  /** EventToken of a launch in progress */
+  tokenAddress: Address | null;
+  /** Backing asset picked for the launch */
+  backingAsset: Address | null;
+}
+
+/**
+ * @function getLaunchPath
+ * @description /launch URL of a launch in progress, which is what lets the wizard resume after a refresh
+ * @param {Address} tokenAddress - EventToken being launched
+ * @param {Address | null} backingAsset - Backing asset picked for the launch
+ * @returns {string} Path with the launch in the query string
+ */
+const getLaunchPath = (tokenAddress: Address, backingAsset: Address | null): string => {
+  const params = new URLSearchParams({ token: tokenAddress });
+  if (backingAsset) params.set("backing", backingAsset);
+  return `/launch?${params}`;
+};
+
+/**
+ * @component LaunchWizard
+ * @description Organizer wizard that launches an event from the browser
+ *
+ * Features:
+ * - Deploys the EventToken with the connected wallet as organizer
+ * - Mines a flag-valid CREATE2 salt and deploys the hook through the CREATE2 deployer
+ * - Sets the hook, approves and deposits the backing asset
+ * - Initializes the pool at the deposit's price, with the manual bootstrap as a fallback
+ * - Every step is detected from on-chain state, so the wizard resumes after a refresh
+ * - Only the organizer of a token can continue its launch
+ * - Steps, hints and amounts in the locale of the page
+ *
+ * @param {LaunchWizardProps} props - Component props
+ * @returns {JSX.Element} Launch wizard page
+ */
+export default function LaunchWizard({ tokenAddress, backingAsset }: LaunchWizardProps) {
+  const router = useRouter();
+  const { notifyError } = useNotify();
+  const { locale, messages, t, localize } = useI18n();
+  const text = messages.launch;
+  const [eventName, setEventName] = useState("");
+  const [symbol, setSymbol] = useState("");
+  const [eventDate, setEventDate] = useState("");
+  const [backingInput, setBackingInput] = useState<string>(backingAsset ?? "");
+  const [depositAmount, setDepositAmount] = useState("");
+  const [isProcessing, setIsProcessing] = useState(false);
+  const {
+    address: account,
+    isConnected,
+    isConnecting,
+    connectors,
+    isWrongChain,
+    isSwitching,
+    connect,
+    switchToActiveChain,
+  } = useWallet();
+
+  // Until the hook is deployed the backing asset comes from the form
+  const pickedBacking = isAddress(backingInput) ? backingInput : null;
+  const launch = useLaunch({ tokenAddress, backingAsset: backingAsset ?? pickedBacking });
+  const { progress, status } = launch;
+  const step = progress?.step;
+  const assetAddress = progress?.backingAsset ?? pickedBacking;
+
+  const { data: assetInfo } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: assetAddress ?? zeroAddress, abi: erc20Abi, functionName: "symbol", chainId: activeChain.id },
+      { address: assetAddress ?? zeroAddress, abi: erc20Abi, functionName: "decimals", chainId: activeChain.id },
+      {
+        address: assetAddress ?? zeroAddress,
+        abi: erc20Abi,
+        functionName: "balanceOf",
+        args: [account ?? zeroAddress],
+        chainId: activeChain.id,
+      },
+    ],
+    query: { enabled: assetAddress !== null },
+  });
+  const [assetSymbol, assetDecimals, assetBalance] = assetInfo ?? [];
+
+  const isOrganizer =
+    !progress?.organizer || (account !== undefined && progress.organizer.toLowerCase() === account.toLowerCase());
+  const eventTimestamp = eventDate ? Math.floor(new Date(`${eventDate}T00:00:00`).getTime() / 1000) : 0;
+
+  /**
+   * @function parseDepositAmount
+   * @description Converts the deposit input into a raw backing asset amount
+   * @returns {bigint} Raw amount, 0 for empty or invalid input or an unknown asset
+   */
+  const parseDepositAmount = (): bigint => {
+    if (assetDecimals === undefined || !depositAmount) return 0n;
+    try {
+      return parseUnits(depositAmount, assetDecimals);
+    } catch {
+      return 0n;
+    }
+  };
+
+  const rawDeposit = parseDepositAmount();
+
+  /**
+   * @function canRunStep
+   * @description Whether the inputs of the current step are complete
+   * @returns {boolean} True when the step action can be sent
+   */
+  const canRunStep = (): boolean => {
+    switch (step) {
+      case "deployToken":
+        return (
+          eventName.trim() !== "" &&
+          symbol.trim() !== "" &&
+          eventTimestamp > Date.now() / 1000 &&
+          assetSymbol !== undefined
+        );
+      case "deployHook":
+        return assetSymbol !== undefined && progress?.hookSalt !== null;
+      case "deposit":
+        return rawDeposit > 0n && assetBalance !== undefined && rawDeposit <= assetBalance;
+      case "setHook":
+      case "initialize":
+      case "bootstrap":
+        return true;
+      default:
+        return false;
+    }
+  };
+
+  /**
+   * @function handleStep
+   * @description Sends the transaction of the current step; its notification reports the outcome
+   */
+  const handleStep = async () => {
+    setIsProcessing(true);
+    try {
+      switch (step) {
+        case "deployToken": {
+          const deployedToken = await launch.deployToken({
+            eventName: eventName.trim(),
+            symbol: symbol.trim().toUpperCase(),
+            eventDate: BigInt(eventTimestamp),
+          });
+          router.replace(localize(getLaunchPath(deployedToken, pickedBacking)), { scroll: false });
+          break;
+        }
+        case "deployHook":
+          await launch.deployHook();
+          if (tokenAddress && !backingAsset) {
+            router.replace(localize(getLaunchPath(tokenAddress, pickedBacking)), { scroll: false });
+          }
+          break;
+        case "setHook":
+          await launch.setHook();
+          break;
+        case "deposit":
+          await launch.deposit(rawDeposit);
+          break;
+        case "initialize":
+          await launch.initializePool();
+          break;
+        case "bootstrap":
+          await launch.bootstrap();
+          break;
+      }
+    } catch (error) {
+      notifyError(error);
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  const currentIndex = step === "done" ? launchSteps.length : launchSteps.findIndex((item) => item === step);
+  const inputClassName =
+    "w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent dark:bg-gray-700 dark:text-white disabled:opacity-60";
+  const buttonClassName =
+    "w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-4 rounded-xl font-semibold text-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2";
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-50 via-blue-50 to-indigo-100 dark:from-gray-900 dark:via-purple-900 dark:to-indigo-900">
+      {/* Application Header */}
+      <Header />
+
+      {/* Main Content */}
+      <main className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <h1 className="text-3xl md:text-4xl font-bold text-gray-900 dark:text-white mb-2">{text.title}</h1>
+        <p className="text-gray-600 dark:text-gray-300 mb-8">{text.intro}</p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {/* Step List */}
+          <section className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg" aria-label={text.stepsLabel}>
+            <ol className="space-y-4">
+              {launchSteps.map((item, index) => {
+                const isDone = index < currentIndex;
+                const isCurrent = index === currentIndex;
+                return (
+                  <li key={item} className="flex items-center space-x-3" aria-current={isCurrent ? "step" : undefined}>
+                    <span
+                      className={`w-8 h-8 rounded-full flex items-center justify-center text-sm font-bold flex-shrink-0 ${
+                        isDone
+                          ? "bg-green-500 text-white"
+                          : isCurrent
+                            ? "bg-gradient-to-r from-purple-600 to-blue-600 text-white"
+                            : "bg-gray-200 dark:bg-gray-700 text-gray-500 dark:text-gray-400"
+                      }`}
+                      aria-hidden="true"
+                    >
+                      {isDone ? "✓" : index + 1}
+                    </span>
+                    <span
+                      className={
+                        isCurrent ? "font-semibold text-gray-900 dark:text-white" : "text-gray-600 dark:text-gray-400"
+                      }
+                    >
+                      {text.steps[item]}
+                    </span>
+                  </li>
+                );
+              })}
+            </ol>
+          </section>
+
+          {/* Current Step */}
+          <section className="md:col-span-2 bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg space-y-4">
+            {poolManagerAddress === zeroAddress ? (
+              <p className="text-red-600 dark:text-red-400" role="alert">
+                {t(text.noPoolManager, { chain: activeChain.name })}
+              </p>
+            ) : launch.error ? (
+              <div role="alert">
+                <p className="text-red-600 dark:text-red-400 mb-4">
+                  {t(text.readError, { error: getErrorMessage(launch.error, locale) })}
+                </p>
+                <button onClick={() => launch.refetch()} className="text-purple-600 hover:text-purple-700 font-medium">
+                  {messages.common.tryAgain}
+                </button>
+              </div>
+            ) : !progress ? (
+              <div className="flex items-center space-x-3 text-gray-600 dark:text-gray-300" aria-busy="true">
+                <div className="w-5 h-5 border-2 border-purple-600 border-t-transparent rounded-full animate-spin"></div>
+                <span>{text.reading}</span>
+              </div>
+            ) : !isOrganizer ? (
+              <p className="text-red-600 dark:text-red-400" role="alert">
+                {t(text.notOrganizer, { address: shortenAddress(progress.organizer!) })}
+              </p>
+            ) : step === "done" ? (
+              /* Launch Complete */
+              <div className="text-center py-8">
+                <span className="text-5xl mb-4 block" aria-hidden="true">🎉</span>
+                <h2 className="text-2xl font-bold text-gray-900 dark:text-white mb-2">{text.liveTitle}</h2>
+                <p className="text-gray-600 dark:text-gray-300 mb-6">{text.liveBody}</p>
+                {tokenAddress && (
+                  <Link
+                    href={localize(getEventPath(tokenAddress))}
+                    className="inline-block bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-3 rounded-xl font-semibold hover:from-purple-700 hover:to-blue-700 transition-all duration-200"
+                  >
+                    {text.openEvent}
+                  </Link>
+                )}
+              </div>
+            ) : (
+              <>
+                <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                  {text.steps[launchSteps[currentIndex]]}
+                </h2>
+
+                {/* Event Details, only before the token exists */}
+                {step === "deployToken" && (
+                  <>
+                    <div>
+                      <label htmlFor="event-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                        {text.eventName}
+                      </label>
+                      <input
+                        id="event-name"
+                        value={eventName}
+                        onChange={(e) => setEventName(e.target.value)}
+                        placeholder={text.eventNamePlaceholder}
+                        className={inputClassName}
+                      />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <label htmlFor="event-symbol" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                          {text.tokenSymbol}
+                        </label>
+                        <input
+                          id="event-symbol"
+                          value={symbol}
+                          onChange={(e) => setSymbol(e.target.value)}
+                          placeholder="SWIFTIEMX"
+                          maxLength={11}
+                          className={`${inputClassName} uppercase`}
+                        />
+                      </div>
+                      <div>
+                        <label htmlFor="event-date" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                          {text.eventDate}
+                        </label>
+                        <input
+                          id="event-date"
+                          type="date"
+                          value={eventDate}
+                          onChange={(e) => setEventDate(e.target.value)}
+                          className={inputClassName}
+                        />
+                      </div>
+                    </div>
+                  </>
+                )}
+
+                {/* Backing Asset, editable until the hook is deployed with it */}
+                {(step === "deployToken" || step === "deployHook") && (
+                  <div>
+                    <label htmlFor="backing-asset" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      {text.backingAsset}
+                    </label>
+                    <input
+                      id="backing-asset"
+                      value={backingInput}
+                      onChange={(e) => setBackingInput(e.target.value.trim())}
+                      placeholder="0x..."
+                      disabled={backingAsset !== null}
+                      className={`${inputClassName} font-mono text-sm`}
+                      aria-invalid={backingInput !== "" && assetSymbol === undefined}
+                    />
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                      {assetSymbol !== undefined ? t(text.backingPicked, { symbol: assetSymbol }) : text.backingHint}
+                    </p>
+                  </div>
+                )}
+
+                {step === "deployHook" && (
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {progress.hookAddress
+                      ? t(text.hookAddress, { address: progress.hookAddress })
+                      : text.hookAddressPending}
+                  </p>
+                )}
+
+                {step === "setHook" && (
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {text.setHookHint}
+                  </p>
+                )}
+
+                {/* Deposit Amount */}
+                {step === "deposit" && (
+                  <div>
+                    <label htmlFor="deposit-amount" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                      {text.depositAmount}
+                    </label>
+                    <div className="relative">
+                      <input
+                        id="deposit-amount"
+                        type="number"
+                        min="0"
+                        value={depositAmount}
+                        onChange={(e) => setDepositAmount(e.target.value)}
+                        placeholder="0.00"
+                        className={`${inputClassName} pr-24`}
+                      />
+                      <div className="absolute right-3 top-3 text-purple-600 font-semibold pointer-events-none">
+                        {assetSymbol}
+                      </div>
+                    </div>
+                    <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
+                      {assetBalance !== undefined && assetDecimals !== undefined
+                        ? `${t(text.walletBalance, {
+                            amount: formatNumber(Number(formatUnits(assetBalance, assetDecimals)), locale),
+                            symbol: assetSymbol ?? "",
+                          })} `
+                        : ""}
+                      {text.depositHint}
+                    </p>
+                  </div>
+                )}
+
+                {step === "initialize" && (
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {text.initializeHint}
+                  </p>
+                )}
+
+                {step === "bootstrap" && (
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    {text.bootstrapHint}
+                  </p>
+                )}
+
+                {/* Step Action */}
+                {!isConnected ? (
+                  <button
+                    onClick={() => connect(connectors[0]).catch(notifyError)}
+                    disabled={isConnecting || connectors.length === 0}
+                    className={buttonClassName}
+                  >
+                    <span>👛</span>
+                    <span>{isConnecting ? messages.common.connecting : text.connectToLaunch}</span>
+                  </button>
+                ) : isWrongChain ? (
+                  <button
+                    onClick={() => switchToActiveChain().catch(notifyError)}
+                    disabled={isSwitching}
+                    className="w-full bg-red-600 text-white py-4 rounded-xl font-semibold text-lg hover:bg-red-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                  >
+                    <span>⚠️</span>
+                    <span>{isSwitching ? messages.common.switching : t(messages.common.switchTo, { chain: activeChain.name })}</span>
+                  </button>
+                ) : (
+                  <button onClick={handleStep} disabled={!canRunStep() || isProcessing} className={buttonClassName}>
+                    {isProcessing ? (
+                      <>
+                        <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                        <span>{text.status[status]}</span>
+                      </>
+                    ) : (
+                      <span>{step ? text.actions[step] : ""}</span>
+                    )}
+                  </button>
+                )}
+              </>
+            )}
+          </section>
+        </div>
+      </main>
+
+      {/* Application Footer */}
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,23 @@
+"use client";
+
+import { createContext } from "react";
+import type { Locale } from "../config/i18n";
+
+/** Locale of the page, taken from its [locale] route segment */
+export const LocaleContext = createContext<Locale | null>(null);
+
+/**
+ * @component LocaleProvider
+ * @description Makes the locale of the current route available to client components
+ *
+ * Must wrap every component that shows text or formatted numbers, they read their
+ * messages and number format through useI18n().
+ *
+ * @param {Object} props - Component props
+ * @param {Locale} props.locale - Locale of the page
+ * @param {React.ReactNode} props.children - Child components to render
+ * @returns {JSX.Element} Children with the locale context
+ */
+export default function LocaleProvider({ locale, children }: { locale: Locale; children: React.ReactNode }) {
+  return <LocaleContext.Provider value={locale}>{children}</LocaleContext.Provider>;
+}
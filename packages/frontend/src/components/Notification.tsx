@@ -1,6 +1,13 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
+import { useI18n } from "../hooks/useI18n";
+
+/**
+ * @type NotificationType
+ * @description Kind of notification, pending ones stay open until they are resolved
+ */
+export type NotificationType = "success" | "error" | "info" | "pending";
 
 /**
  * @interface NotificationProps
@@ -10,46 +17,58 @@ interface NotificationProps {
   /** The message to display in the notification */
   message: string;
   /** The type of notification affecting styling and icon */
-  type: "success" | "error" | "info";
-  /** Whether the notification is currently visible */
-  isVisible: boolean;
+  type: NotificationType;
+  /** Suggested next step shown under the message */
+  hint?: string | null;
+  /** Block explorer page of the transaction the notification is about */
+  explorerUrl?: string | null;
   /** Callback function called when notification should be closed */
   onClose: () => void;
 }
 
+/** How long a resolved notification stays open, in milliseconds */
+const AUTO_DISMISS_MS = 5000;
+
 /**
  * @component Notification
- * @description Toast notification component for displaying temporary messages
- * 
+ * @description Toast notification for one message of the notification stack
+ *
  * Features:
- * - Multiple notification types (success, error, info)
- * - Auto-dismiss functionality with 5-second timer
+ * - Multiple notification types (success, error, info, pending)
+ * - Auto-dismiss after 5 seconds, paused while hovered and never while pending
+ * - Suggested fix under failed actions
+ * - Block explorer link for transaction notifications
  * - Manual close button
  * - Smooth fade-in animation
- * - Fixed positioning in top-right corner
  * - Responsive design with proper contrast
  * - Accessibility support with proper ARIA labels
- * 
+ *
  * @param {NotificationProps} props - Component props
- * @returns {JSX.Element | null} Rendered notification or null if not visible
+ * @returns {JSX.Element} Rendered notification
  */
-export default function Notification({ message, type, isVisible, onClose }: NotificationProps) {
+export default function Notification({ message, type, hint, explorerUrl, onClose }: NotificationProps) {
+  const [isHovered, setIsHovered] = useState(false);
+  const { messages } = useI18n();
+  const onCloseRef = useRef(onClose);
+
+  // Keep the latest close callback without restarting the timer on every render
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
   /**
    * Auto-dismiss timer effect
-   * Automatically closes the notification after 5 seconds
+   * Starts over whenever the notification resolves or the pointer leaves it
    */
   useEffect(() => {
-    if (isVisible) {
-      const timer = setTimeout(() => {
-        onClose();
-      }, 5000);
+    if (type === "pending" || isHovered) return;
 
-      return () => clearTimeout(timer);
-    }
-  }, [isVisible, onClose]);
+    const timer = setTimeout(() => {
+      onCloseRef.current();
+    }, AUTO_DISMISS_MS);
 
-  // Don't render if not visible
-  if (!isVisible) return null;
+    return () => clearTimeout(timer);
+  }, [type, isHovered]);
 
   /**
    * @function getIcon
@@ -62,6 +81,8 @@ export default function Notification({ message, type, isVisible, onClose }: Noti
         return "✅";
       case "error":
         return "❌";
+      case "pending":
+        return "⏳";
       case "info":
         return "ℹ️";
       default:
@@ -80,6 +101,8 @@ export default function Notification({ message, type, isVisible, onClose }: Noti
         return "bg-green-500";
       case "error":
         return "bg-red-500";
+      case "pending":
+        return "bg-purple-600";
       case "info":
         return "bg-blue-500";
       default:
@@ -95,44 +118,55 @@ export default function Notification({ message, type, isVisible, onClose }: Noti
   const getAriaLabel = (): string => {
     switch (type) {
       case "success":
-        return "Success notification";
+        return messages.notification.success;
       case "error":
-        return "Error notification";
-      case "info":
-        return "Information notification";
+        return messages.notification.error;
+      case "pending":
+        return messages.notification.pending;
       default:
-        return "Notification";
+        return messages.notification.info;
     }
   };
 
   return (
-    <div className="fixed top-4 right-4 z-50 animate-fade-in-up">
-      <div 
-        className={`${getBgColor()} text-white px-6 py-4 rounded-xl shadow-lg max-w-sm flex items-center space-x-3`}
-        role="alert"
-        aria-live="polite"
-        aria-label={getAriaLabel()}
-      >
-        {/* Notification Icon */}
-        <span className="text-xl" aria-hidden="true">
-          {getIcon()}
-        </span>
-        
-        {/* Message Content */}
-        <div className="flex-1">
-          <p className="font-medium">{message}</p>
-        </div>
-        
-        {/* Close Button */}
-        <button
-          onClick={onClose}
-          className="text-white/80 hover:text-white transition-colors p-1 rounded-md hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-white/50"
-          aria-label="Close notification"
-          type="button"
-        >
-          <span aria-hidden="true">✕</span>
-        </button>
+    <div
+      className={`${getBgColor()} text-white px-6 py-4 rounded-xl shadow-lg w-full max-w-sm flex items-center space-x-3 animate-fade-in-up pointer-events-auto`}
+      role={type === "error" ? "alert" : "status"}
+      aria-live="polite"
+      aria-label={getAriaLabel()}
+      onMouseEnter={() => setIsHovered(true)}
+      onMouseLeave={() => setIsHovered(false)}
+    >
+      {/* Notification Icon */}
+      <span className={`text-xl ${type === "pending" ? "animate-pulse" : ""}`} aria-hidden="true">
+        {getIcon()}
+      </span>
+
+      {/* Message Content */}
+      <div className="flex-1 min-w-0">
+        <p className="font-medium break-words">{message}</p>
+        {hint && <p className="text-sm text-white/90 break-words mt-1">{hint}</p>}
+        {explorerUrl && (
+          <a
+            href={explorerUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-white/80 underline hover:text-white"
+          >
+            {messages.notification.viewOnExplorer}
+          </a>
+        )}
       </div>
+
+      {/* Close Button */}
+      <button
+        onClick={onClose}
+        className="text-white/80 hover:text-white transition-colors p-1 rounded-md hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-white/50"
+        aria-label={messages.notification.close}
+        type="button"
+      >
+        <span aria-hidden="true">✕</span>
+      </button>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { createContext, useCallback, useMemo, useRef, useState } from "react";
+import { useConfig } from "wagmi";
+import { waitForTransactionReceipt } from "wagmi/actions";
+import type { Hash, TransactionReceipt } from "viem";
+import Notification, { type NotificationType } from "./Notification";
+import { useI18n } from "../hooks/useI18n";
+import { activeChain, getExplorerTxUrl } from "../config/wagmi";
+import { TransactionFailedError, getErrorHint, getErrorMessage } from "../lib/errors";
+
+/**
+ * @interface Toast
+ * @description One notification of the stack
+ */
+interface Toast {
+  id: number;
+  message: string;
+  type: NotificationType;
+  /** Suggested fix, set for decoded contract reverts */
+  hint: string | null;
+  /** Block explorer page of the transaction, null for plain messages */
+  explorerUrl: string | null;
+}
+
+/**
+ * @interface TransactionMessages
+ * @description Messages shown by a transaction notification over its lifecycle
+ */
+export interface TransactionMessages {
+  /** Shown while the transaction waits for confirmation */
+  pending: string;
+  /** Shown once it is confirmed, optionally built from the receipt */
+  success: string | ((receipt: TransactionReceipt) => string);
+  /** Shown when it reverts, defaults to a generic message in the page locale */
+  error?: string;
+}
+
+/**
+ * @interface NotifyApi
+ * @description Functions exposed by useNotify()
+ */
+export interface NotifyApi {
+  /** Shows a message and returns its id */
+  notify: (message: string, type?: NotificationType) => number;
+  /** Shows the message and suggested fix of a failed action, unless its toast already shows it */
+  notifyError: (error: unknown) => void;
+  /** Closes a notification */
+  dismiss: (id: number) => void;
+  /**
+   * Shows a pending notification for a sent transaction, turns it into a success or
+   * error once the receipt is in and resolves with the successful receipt
+   */
+  trackTransaction: (hash: Hash, messages: TransactionMessages) => Promise<TransactionReceipt>;
+}
+
+/** Notification functions of the nearest NotificationProvider */
+export const NotificationContext = createContext<NotifyApi | null>(null);
+
+/** Most notifications kept on screen, older ones are dropped first */
+const MAX_VISIBLE = 5;
+
+/**
+ * @component NotificationProvider
+ * @description Owns the notification stack shared by every page
+ *
+ * Features:
+ * - Several toasts stacked in the top-right corner, newest at the bottom
+ * - Pending transaction toasts that resolve to success or error on confirmation
+ * - Block explorer links built from the active chain config
+ * - Resolved toasts auto-dismiss unless hovered; pending ones stay open
+ *
+ * Must live inside the WagmiProvider, transaction receipts are read through its config,
+ * and inside the LocaleProvider for its own messages.
+ *
+ * @param {Object} props - Component props
+ * @param {React.ReactNode} props.children - Child components to render
+ * @returns {JSX.Element} Children with the notification stack
+ */
+export default function NotificationProvider({ children }: { children: React.ReactNode }) {
+  const config = useConfig();
+  const { locale, messages: catalog } = useI18n();
+  const revertedMessage = catalog.notification.reverted;
+  const [toasts, setToasts] = useState<Toast[]>([]);
+  const nextId = useRef(0);
+
+  const dismiss = useCallback((id: number) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const show = useCallback(
+    (message: string, type: NotificationType, explorerUrl: string | null = null, hint: string | null = null) => {
+      const id = nextId.current++;
+      setToasts((current) => {
+        const next = [...current, { id, message, type, hint, explorerUrl }];
+        // Never drop a pending toast, its transaction is still waiting
+        while (next.length > MAX_VISIBLE) {
+          const oldest = next.findIndex((toast) => toast.type !== "pending");
+          if (oldest === -1) break;
+          next.splice(oldest, 1);
+        }
+        return next;
+      });
+      return id;
+    },
+    []
+  );
+
+  const update = useCallback((id: number, patch: Pick<Toast, "message" | "type"> & Partial<Pick<Toast, "hint">>) => {
+    setToasts((current) => current.map((toast) => (toast.id === id ? { ...toast, ...patch } : toast)));
+  }, []);
+
+  const notifyError = useCallback(
+    (error: unknown) => {
+      if (error instanceof TransactionFailedError) return;
+      show(getErrorMessage(error, locale), "error", null, getErrorHint(error, locale));
+    },
+    [show, locale]
+  );
+
+  const trackTransaction = useCallback(
+    async (hash: Hash, messages: TransactionMessages): Promise<TransactionReceipt> => {
+      const id = show(messages.pending, "pending", getExplorerTxUrl(hash));
+
+      let receipt: TransactionReceipt;
+      try {
+        receipt = await waitForTransactionReceipt(config, { hash, chainId: activeChain.id });
+      } catch (error) {
+        const message = getErrorMessage(error, locale);
+        update(id, { message, type: "error", hint: getErrorHint(error, locale) });
+        throw new TransactionFailedError(message, hash);
+      }
+
+      if (receipt.status === "reverted") {
+        const message = messages.error ?? revertedMessage;
+        update(id, { message, type: "error" });
+        throw new TransactionFailedError(message, hash);
+      }
+
+      const success = typeof messages.success === "function" ? messages.success(receipt) : messages.success;
+      update(id, { message: success, type: "success" });
+      return receipt;
+    },
+    [config, show, update, revertedMessage, locale]
+  );
+
+  const api = useMemo<NotifyApi>(
+    () => ({
+      notify: (message, type = "info") => show(message, type),
+      notifyError,
+      dismiss,
+      trackTransaction,
+    }),
+    [show, notifyError, dismiss, trackTransaction]
+  );
+
+  return (
+    <NotificationContext.Provider value={api}>
+      {children}
+
+      {/* Notification Stack */}
+      <div className="fixed top-4 right-4 z-50 flex flex-col items-end space-y-3 pointer-events-none">
+        {toasts.map((toast) => (
+          <Notification
+            key={toast.id}
+            message={toast.message}
+            type={toast.type}
+            hint={toast.hint}
+            explorerUrl={toast.explorerUrl}
+            onClose={() => dismiss(toast.id)}
+          />
+        ))}
+      </div>
+    </NotificationContext.Provider>
+  );
+}
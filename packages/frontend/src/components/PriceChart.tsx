@@ -0,0 +1,407 @@
+"use client";
+
+import { useId, useMemo, useState, type KeyboardEvent, type PointerEvent } from "react";
+import { useI18n } from "../hooks/useI18n";
+import { findNearestIndex, getPriceRange, getTicks } from "../lib/chartScale";
+import { formatCurrency, formatDate, formatNumber, formatPrice } from "../lib/format";
+import type { PriceCandle, PricePoint } from "../lib/priceHistory";
+
+/**
+ * @type ChartMode
+ * @description How PriceChart draws prices: a stepped line of closing prices or OHLC candlesticks
+ */
+export type ChartMode = "line" | "candles";
+
+/**
+ * @interface PriceChartProps
+ * @description Props for the PriceChart component
+ */
+interface PriceChartProps {
+  mode: ChartMode;
+  /** Closing prices, oldest first, drawn in line mode */
+  points: PricePoint[];
+  /** Candles of the same window, drawn in candle mode and as volume bars */
+  candles: PriceCandle[];
+  /** Length of one candle in seconds */
+  intervalSeconds: number;
+  /** Start and end of the window in seconds */
+  start: number;
+  end: number;
+  /** Whether times on the axis show the hour rather than the day */
+  intraday: boolean;
+  /** Symbol of the backing asset prices and volume are quoted in */
+  backingSymbol: string;
+  /** Fiat value of a backing asset amount, null when no currency is picked */
+  toFiat: (amount: number) => string | null;
+  /** Accessible name of the chart */
+  label: string;
+}
+
+/** Vertical layout of the plot in viewBox units: prices on top, volume bars below */
+const PRICE_TOP = 4;
+const PRICE_BOTTOM = 74;
+const VOLUME_TOP = 80;
+const VOLUME_BOTTOM = 100;
+
+/** Number of labels on the price and time axes */
+const PRICE_TICKS = 5;
+const TIME_TICKS = 5;
+
+/** Points skipped by PageUp and PageDown */
+const PAGE_STEP = 10;
+
+/**
+ * @component PriceChart
+ * @description Interactive SVG chart of a price series with time and price axes and volume bars
+ *
+ * Features:
+ * - Stepped line or candlestick drawing of the same window
+ * - Volume bars per candle under the price series
+ * - Labeled price axis and time axis
+ * - Crosshair and tooltip with the time, price or OHLC values and volume of the point under the pointer
+ * - Keyboard navigation: arrow keys move between points, Home and End jump to the ends,
+ *   PageUp and PageDown skip ten points and Escape hides the crosshair
+ * - The focused point is announced to screen readers
+ *
+ * @param {PriceChartProps} props - Component props
+ * @returns {JSX.Element} Rendered chart
+ */
+export default function PriceChart({
+  mode,
+  points,
+  candles,
+  intervalSeconds,
+  start,
+  end,
+  intraday,
+  backingSymbol,
+  toFiat,
+  label,
+}: PriceChartProps) {
+  const { locale, messages } = useI18n();
+  const text = messages.chart;
+  const descriptionId = useId();
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+
+  // Times the crosshair snaps to: line points, or the middle of each candle
+  const slotTimes = useMemo(
+    () => (mode === "line" ? points.map((point) => point.timestamp) : candles.map((c) => c.time + intervalSeconds / 2)),
+    [mode, points, candles, intervalSeconds]
+  );
+  const slotCount = slotTimes.length;
+  const active = activeIndex !== null && activeIndex < slotCount ? activeIndex : null;
+
+  const priceRange = useMemo(
+    () =>
+      getPriceRange(
+        mode === "line" ? points.map((point) => point.price) : candles.flatMap((candle) => [candle.high, candle.low])
+      ),
+    [mode, points, candles]
+  );
+  const maxVolume = Math.max(0, ...candles.map((candle) => candle.volume));
+
+  const getX = (time: number) => ((time - start) / (end - start)) * 100;
+  const getY = (price: number) =>
+    PRICE_BOTTOM - ((price - priceRange.min) / (priceRange.max - priceRange.min)) * (PRICE_BOTTOM - PRICE_TOP);
+  const getVolumeHeight = (volume: number) => (maxVolume > 0 ? (volume / maxVolume) * (VOLUME_BOTTOM - VOLUME_TOP) : 0);
+
+  /**
+   * @function formatAxisTime
+   * @description Formats a time axis label
+   * @param {number} timestamp - Time in seconds
+   * @returns {string} Hour and minute for intraday windows, day otherwise
+   */
+  const formatAxisTime = (timestamp: number) =>
+    formatDate(
+      timestamp,
+      locale,
+      intraday ? { hour: "2-digit", minute: "2-digit", hour12: false } : { month: "short", day: "numeric" }
+    );
+
+  /**
+   * @function getActiveCandle
+   * @description Candle under the crosshair: the candle itself in candle mode, the one a line point closes otherwise
+   * @param {number} index - Active slot
+   * @returns {PriceCandle | undefined} Candle, undefined when no candle ends at a line point
+   */
+  const getActiveCandle = (index: number): PriceCandle | undefined =>
+    mode === "candles"
+      ? candles[index]
+      : candles.find((candle) => candle.time + intervalSeconds === points[index].timestamp);
+
+  /**
+   * @function getTooltipLines
+   * @description Values shown for the point under the crosshair
+   * @param {number} index - Active slot
+   * @returns {{ label: string; value: string }[]} Labeled values
+   */
+  const getTooltipLines = (index: number) => {
+    const candle = getActiveCandle(index);
+    const price = (value: number) => `${formatPrice(value, locale)} ${backingSymbol}`;
+    const lines: { label: string; value: string }[] = [];
+
+    if (mode === "line") {
+      const close = points[index].price;
+      lines.push({ label: text.price, value: price(close) });
+      const fiat = toFiat(close);
+      if (fiat) lines.push({ label: "", value: fiat });
+    } else if (candle) {
+      lines.push(
+        { label: text.open, value: price(candle.open) },
+        { label: text.high, value: price(candle.high) },
+        { label: text.low, value: price(candle.low) },
+        { label: text.close, value: price(candle.close) }
+      );
+    }
+    if (candle) lines.push({ label: text.volume, value: formatCurrency(candle.volume, backingSymbol, locale) });
+    return lines;
+  };
+
+  /**
+   * @function getActiveTime
+   * @description Time shown in the tooltip of a slot
+   * @param {number} index - Active slot
+   * @returns {string} Date and time of the point, or of the start of the candle
+   */
+  const getActiveTime = (index: number) =>
+    formatDate(mode === "line" ? points[index].timestamp : candles[index].time, locale, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+      hour12: false,
+    });
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    if (rect.width === 0 || slotCount === 0) return;
+    const time = start + ((e.clientX - rect.left) / rect.width) * (end - start);
+    setActiveIndex(findNearestIndex(slotTimes, time));
+  };
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (slotCount === 0) return;
+    const current = active ?? slotCount - 1;
+    const moves: Record<string, number> = {
+      ArrowLeft: current - 1,
+      ArrowRight: current + 1,
+      PageUp: current - PAGE_STEP,
+      PageDown: current + PAGE_STEP,
+      Home: 0,
+      End: slotCount - 1,
+    };
+
+    if (e.key === "Escape") {
+      setActiveIndex(null);
+    } else if (e.key in moves) {
+      e.preventDefault();
+      setActiveIndex(Math.min(slotCount - 1, Math.max(0, active === null ? current : moves[e.key])));
+    }
+  };
+
+  const activeX = active !== null ? getX(slotTimes[active]) : null;
+  const activeY =
+    active !== null ? getY(mode === "line" ? points[active].price : candles[active].close) : null;
+  const tooltipLines = active !== null ? getTooltipLines(active) : [];
+  const announcement =
+    active !== null
+      ? [getActiveTime(active), ...tooltipLines.map((line) => (line.label ? `${line.label} ${line.value}` : line.value))].join(", ")
+      : "";
+
+  // Stepped line, since the price holds between swaps
+  const linePoints = points
+    .map((point, index) => {
+      const x = getX(point.timestamp);
+      const y = getY(point.price);
+      return index === 0 ? `${x},${y}` : `${x},${getY(points[index - 1].price)} ${x},${y}`;
+    })
+    .join(" ");
+  const candleWidth = (intervalSeconds / (end - start)) * 100;
+
+  return (
+    <div className="mb-4">
+      <div className="flex">
+        {/* Plot */}
+        <div
+          className="relative h-64 flex-1 rounded-lg touch-none focus:outline-none focus-visible:ring-2 focus-visible:ring-purple-500"
+          tabIndex={slotCount > 0 ? 0 : -1}
+          role="group"
+          aria-label={label}
+          aria-describedby={descriptionId}
+          onPointerMove={handlePointerMove}
+          onPointerDown={handlePointerMove}
+          onPointerLeave={() => setActiveIndex(null)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setActiveIndex(null)}
+        >
+          <svg className="w-full h-full" viewBox="0 0 100 100" preserveAspectRatio="none" aria-hidden="true">
+            {/* Grid lines at the price ticks */}
+            {getTicks({ min: PRICE_TOP, max: PRICE_BOTTOM }, PRICE_TICKS).map((y) => (
+              <line
+                key={y}
+                x1="0"
+                y1={y}
+                x2="100"
+                y2={y}
+                stroke="currentColor"
+                strokeWidth="1"
+                vectorEffect="non-scaling-stroke"
+                className="text-gray-200 dark:text-gray-700"
+              />
+            ))}
+            <line
+              x1="0"
+              y1={VOLUME_BOTTOM}
+              x2="100"
+              y2={VOLUME_BOTTOM}
+              stroke="currentColor"
+              strokeWidth="1"
+              vectorEffect="non-scaling-stroke"
+              className="text-gray-200 dark:text-gray-700"
+            />
+
+            {/* Volume bars */}
+            {candles.map((candle) => {
+              const height = getVolumeHeight(candle.volume);
+              return (
+                height > 0 && (
+                  <rect
+                    key={candle.time}
+                    x={getX(candle.time) + candleWidth * 0.15}
+                    y={VOLUME_BOTTOM - height}
+                    width={candleWidth * 0.7}
+                    height={height}
+                    className={candle.close >= candle.open ? "fill-green-500/40" : "fill-red-500/40"}
+                  />
+                )
+              );
+            })}
+
+            {/* Price series */}
+            {mode === "line" && points.length >= 2 && (
+              <polyline
+                fill="none"
+                stroke="url(#gradient)"
+                strokeWidth="2"
+                vectorEffect="non-scaling-stroke"
+                points={linePoints}
+              />
+            )}
+            {mode === "candles" &&
+              candles.map((candle) => {
+                const center = getX(candle.time) + candleWidth / 2;
+                const bodyTop = getY(Math.max(candle.open, candle.close));
+                const bodyBottom = getY(Math.min(candle.open, candle.close));
+                const color = candle.close >= candle.open ? "text-green-500" : "text-red-500";
+                return (
+                  <g key={candle.time} className={color}>
+                    <line
+                      x1={center}
+                      y1={getY(candle.high)}
+                      x2={center}
+                      y2={getY(candle.low)}
+                      stroke="currentColor"
+                      strokeWidth="1"
+                      vectorEffect="non-scaling-stroke"
+                    />
+                    <rect
+                      x={getX(candle.time) + candleWidth * 0.15}
+                      y={bodyTop}
+                      width={candleWidth * 0.7}
+                      height={Math.max(bodyBottom - bodyTop, 0.4)}
+                      fill="currentColor"
+                    />
+                  </g>
+                );
+              })}
+
+            {/* Crosshair */}
+            {activeX !== null && activeY !== null && (
+              <g className="text-gray-400 dark:text-gray-500">
+                <line
+                  x1={activeX}
+                  y1="0"
+                  x2={activeX}
+                  y2={VOLUME_BOTTOM}
+                  stroke="currentColor"
+                  strokeWidth="1"
+                  strokeDasharray="4 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+                <line
+                  x1="0"
+                  y1={activeY}
+                  x2="100"
+                  y2={activeY}
+                  stroke="currentColor"
+                  strokeWidth="1"
+                  strokeDasharray="4 3"
+                  vectorEffect="non-scaling-stroke"
+                />
+              </g>
+            )}
+
+            <defs>
+              <linearGradient id="gradient" x1="0%" y1="0%" x2="0%" y2="100%">
+                <stop offset="0%" stopColor="#8B5CF6" />
+                <stop offset="100%" stopColor="#3B82F6" />
+              </linearGradient>
+            </defs>
+          </svg>
+
+          {/* Tooltip, kept on the side of the crosshair with more room */}
+          {active !== null && activeX !== null && (
+            <div
+              className="absolute top-2 z-10 pointer-events-none rounded-lg bg-gray-900/90 dark:bg-gray-700/95 text-white text-xs px-3 py-2 shadow-lg whitespace-nowrap"
+              style={activeX > 55 ? { right: `calc(${100 - activeX}% + 8px)` } : { left: `calc(${activeX}% + 8px)` }}
+            >
+              <div className="font-semibold mb-1">{getActiveTime(active)}</div>
+              {tooltipLines.map((line, index) => (
+                <div key={index} className="flex justify-between gap-3 tabular-nums">
+                  {line.label && <span className="text-gray-300">{line.label}</span>}
+                  <span className={line.label ? "" : "text-gray-300"}>{line.value}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Price axis */}
+        <div className="relative w-20 h-64 ml-2 text-xs text-gray-500 dark:text-gray-400 tabular-nums" aria-hidden="true">
+          {getTicks(priceRange, PRICE_TICKS).map((price) => (
+            <span key={price} className="absolute left-0 -translate-y-1/2" style={{ top: `${getY(price)}%` }}>
+              {formatPrice(price, locale)}
+            </span>
+          ))}
+          {maxVolume > 0 && (
+            <span className="absolute left-0" style={{ top: `${VOLUME_TOP}%` }} title={text.volume}>
+              {formatNumber(maxVolume, locale, { notation: "compact", maximumFractionDigits: 1 })}
+            </span>
+          )}
+        </div>
+      </div>
+
+      {/* Time axis */}
+      <div className="relative h-5 mt-1 mr-22 text-xs text-gray-500 dark:text-gray-400" aria-hidden="true">
+        {getTicks({ min: start, max: end }, TIME_TICKS).map((time, index) => (
+          <span
+            key={time}
+            className={`absolute whitespace-nowrap ${
+              index === 0 ? "" : index === TIME_TICKS - 1 ? "-translate-x-full" : "-translate-x-1/2"
+            }`}
+            style={{ left: `${getX(time)}%` }}
+          >
+            {formatAxisTime(time)}
+          </span>
+        ))}
+      </div>
+
+      <p id={descriptionId} className="sr-only">
+        {text.keyboardHint}
+      </p>
+      <p className="sr-only" aria-live="polite">
+        {announcement}
+      </p>
+    </div>
+  );
+}
@@ -1,175 +1,571 @@
 "use client";
 
 import { useState } from "react";
+import { useReadContracts } from "wagmi";
+import { formatUnits, zeroAddress } from "viem";
+import { useSwap, type SwapStatus } from "../hooks/useSwap";
+import { useWallet } from "../hooks/useWallet";
+import { useNotify } from "../hooks/useNotify";
+import { useTradeQuote } from "../hooks/useTradeQuote";
+import { useTradeSettings } from "../hooks/useTradeSettings";
+import { useI18n } from "../hooks/useI18n";
+import { useFiat } from "../hooks/useFiat";
+import { EVENT_TOKEN_DECIMALS, eventTokenAbi } from "@unifans/shared";
+import { formatBps, formatNumber, formatPercent, formatPrice, parseAmountInput } from "../lib/format";
+import { getErrorMessage } from "../lib/errors";
+import { HIGH_PRICE_IMPACT, getTradeLimits, type ExactAmount } from "../lib/quote";
+import TradeSettings from "./TradeSettings";
+import { activeChain } from "../config/wagmi";
+import type { Locale } from "../config/i18n";
+import type { Messages } from "../messages";
+import type { EventData } from "../types/event";
+
+/**
+ * @type TradeMode
+ * @description Whether the form buys or sells event tokens
+ */
+type TradeMode = "buy" | "sell";
 
 /**
  * @interface PurchaseFormProps
  * @description Props for the PurchaseForm component
  */
 interface PurchaseFormProps {
-  /** Current token price in USD */
-  currentPrice: number;
-  /** Callback function called when purchase is initiated */
-  onPurchase: (amount: number) => void;
+  /** Event whose pool the tokens are traded in */
+  event: EventData;
+  /** Symbol of the event token, without the leading $ */
+  tokenSymbol: string;
+  /** Symbol of the backing asset paid and received */
+  backingSymbol: string;
+  /** Callback function called once a purchase or sale transaction is confirmed */
+  onTrade: () => void;
 }
 
+/**
+ * @function getStatusLabels
+ * @description Button labels for each step of the swap flow
+ * @param {Messages["purchase"]} text - Purchase form messages of the page locale
+ * @returns {Record<SwapStatus, string>} Label of each step
+ */
+const getStatusLabels = (text: Messages["purchase"]): Record<SwapStatus, string> => ({
+  idle: text.statusIdle,
+  approving: text.statusApproving,
+  swapping: text.statusSwapping,
+  confirming: text.statusConfirming,
+});
+
+/**
+ * @function formatImpact
+ * @description Formats a price impact as a percentage
+ * @param {number} impact - Price impact as a fraction
+ * @param {Locale} locale - Active locale
+ * @returns {string} Percentage with two decimals, or "<0.01%" for negligible impact
+ */
+const formatImpact = (impact: number, locale: Locale): string =>
+  impact < 0.0001 ? `<${formatPercent(0.01, locale, 2)}` : formatPercent(impact * 100, locale, 2);
+
 /**
  * @component PurchaseForm
- * @description Interactive form component for purchasing event tokens
- * 
+ * @description Interactive form component for buying and selling event tokens
+ *
  * Features:
- * - Token amount input with validation
- * - Real-time total cost calculation
+ * - Buy and sell modes sharing the same amount input
+ * - Exact token amount or exact backing asset amount, the other one being quoted
+ * - Amounts parsed as bigint with the real token decimals
+ * - Validation against the wallet's sellable balance
+ * - Organizer sells limited to the tokens unlocked by vesting
+ * - Quotes replaying the swap against the pool's liquidity, with average price,
+ *   price impact, minimum received and maximum paid
+ * - Slippage tolerance and quote expiry settings applied to every trade
+ * - Warning before trades that move the price more than 5%
  * - Quick amount selection buttons
- * - Purchase simulation with loading states
+ * - Uniswap v4 swap execution with allowance handling and per-step loading states
  * - Responsive design with gradient styling
  * - Educational information about token benefits
- * 
+ * - Text and amounts in the locale of the page
+ * - Backing asset amounts and prices also shown in the fiat currency picked in the header
+ *
  * @param {PurchaseFormProps} props - Component props
  * @returns {JSX.Element} Rendered purchase form component
  */
-export default function PurchaseForm({ currentPrice, onPurchase }: PurchaseFormProps) {
-  const [purchaseAmount, setPurchaseAmount] = useState("");
+export default function PurchaseForm({
+  event,
+  tokenSymbol,
+  backingSymbol,
+  onTrade,
+}: PurchaseFormProps) {
+  const [mode, setMode] = useState<TradeMode>("buy");
+  const [exact, setExact] = useState<ExactAmount>("token");
+  const [amountInput, setAmountInput] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
+  const {
+    address: account,
+    isConnected,
+    isConnecting,
+    connectors,
+    isWrongChain,
+    isSwitching,
+    connect,
+    switchToActiveChain,
+  } = useWallet();
+  const { trade, status } = useSwap(event);
+  const { settings } = useTradeSettings();
+  const { notifyError } = useNotify();
+  const { locale, messages, t } = useI18n();
+  const text = messages.purchase;
+  const fiat = useFiat(event.backingAsset);
+  const currentPrice = event.currentPrice;
+  const isOrganizer = account !== undefined && account.toLowerCase() === event.organizer.toLowerCase();
+
+  // Wallet balance and, for the organizer, the amount vesting currently allows to move
+  const token = { address: event.tokenAddress, abi: eventTokenAbi, chainId: activeChain.id } as const;
+  const { data: sellLimits, refetch: refetchSellLimits } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { ...token, functionName: "balanceOf", args: [account ?? zeroAddress] },
+      { ...token, functionName: "organizerTransferableAmount" },
+    ],
+    query: { enabled: isConnected && mode === "sell" },
+  });
+
+  // EventToken reverts organizer transfers and approvals above organizerTransferableAmount().
+  // Both stay unknown until read, so a balance still loading is never taken for zero.
+  const isVestingLimited = sellLimits !== undefined && isOrganizer && sellLimits[1] < sellLimits[0];
+  const maxSellable = sellLimits === undefined ? null : isVestingLimited ? sellLimits[1] : sellLimits[0];
+  const isLoadingSellLimits = mode === "sell" && isConnected && maxSellable === null;
+
+  const backingDecimals = event.backingAsset?.decimals ?? 18;
+  const inputDecimals = exact === "token" ? EVENT_TOKEN_DECIMALS : backingDecimals;
+  const inputSymbol = exact === "token" ? `$${tokenSymbol}` : backingSymbol;
 
   /**
-   * @function handlePurchase
-   * @description Handles the token purchase process with simulation
+   * @function parseAmount
+   * @description Converts the input value into a raw amount of the token the user fixed
+   * @returns {{ amount: bigint, inputError: string | null }} Raw amount, 0 with an error for invalid input
    */
-  const handlePurchase = async () => {
-    if (!purchaseAmount || parseFloat(purchaseAmount) <= 0) return;
-    
+  const parseAmount = (): { amount: bigint; inputError: string | null } => {
+    try {
+      return { amount: parseAmountInput(amountInput, inputDecimals), inputError: null };
+    } catch (error) {
+      return { amount: 0n, inputError: getErrorMessage(error, locale) };
+    }
+  };
+
+  const { amount, inputError } = parseAmount();
+  const { quote, isLoading: isQuoting, error: quoteError } = useTradeQuote(event, { side: mode, exact, amount });
+  const limits = quote ? getTradeLimits(quote, settings.slippageBps) : null;
+  const isHighImpact = quote !== null && quote.priceImpact > HIGH_PRICE_IMPACT;
+
+  // Selling an exact backing amount may take up to the quoted tokens plus the slippage tolerance
+  const tokensToSell = exact === "token" ? amount : (limits?.maxAmountIn ?? 0n);
+  const exceedsSellable = mode === "sell" && maxSellable !== null && tokensToSell > maxSellable;
+
+  /**
+   * @function handleTrade
+   * @description Executes the swap for the current mode and tells the parent once it is confirmed.
+   * Transaction progress and the exchanged amounts are shown by the swap's notifications.
+   */
+  const handleTrade = async () => {
+    if (!quote || exceedsSellable) return;
+
     setIsProcessing(true);
-    
-    // Simulate processing delay for realistic UX
-    setTimeout(() => {
-      onPurchase(parseFloat(purchaseAmount));
-      setPurchaseAmount("");
+
+    try {
+      await trade(quote, settings);
+      if (mode === "sell") refetchSellLimits();
+      setAmountInput("");
+      onTrade();
+    } catch (error) {
+      notifyError(error);
+    } finally {
       setIsProcessing(false);
-    }, 2000);
+    }
   };
 
-  // Calculate total cost in real-time
-  const totalCost = purchaseAmount ? parseFloat(purchaseAmount) * currentPrice : 0;
+  /**
+   * @function switchMode
+   * @description Switches between buying and selling, clearing the amount
+   * @param {TradeMode} nextMode - Mode to switch to
+   */
+  const switchMode = (nextMode: TradeMode): void => {
+    setMode(nextMode);
+    setAmountInput("");
+  };
+
+  /**
+   * @function switchExact
+   * @description Switches which amount the user enters, clearing the amount
+   * @param {ExactAmount} nextExact - Amount to fix
+   */
+  const switchExact = (nextExact: ExactAmount): void => {
+    setExact(nextExact);
+    setAmountInput("");
+  };
 
-  // Quick amount options for user convenience
-  const quickAmounts = [10, 50, 100, 250, 500, 1000];
+  /**
+   * @function withFiat
+   * @description Appends the fiat value of a backing asset amount when a currency is picked
+   * @param {string} formatted - Amount already formatted in the backing asset
+   * @param {number} amount - Amount in backing asset units
+   * @returns {string} Formatted amount, like "12.50 USDC (≈ MX$230.63)"
+   */
+  const withFiat = (formatted: string, amount: number): string => {
+    const converted = fiat.toFiat(amount);
+    return converted ? `${formatted} (${converted})` : formatted;
+  };
+
+  /**
+   * @function formatBacking
+   * @description Formats a raw backing asset amount
+   * @param {bigint} amount - Raw backing asset amount
+   * @returns {string} Amount with two decimals and the backing asset symbol, followed by its fiat value
+   */
+  const formatBacking = (amount: bigint): string => {
+    const value = Number(formatUnits(amount, backingDecimals));
+    return withFiat(
+      `${formatNumber(value, locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} ${backingSymbol}`,
+      value,
+    );
+  };
+
+  /**
+   * @function formatBackingPrice
+   * @description Formats a price per token in the backing asset
+   * @param {number} price - Backing asset units per token
+   * @returns {string} Price with the backing asset symbol, followed by its fiat value
+   */
+  const formatBackingPrice = (price: number): string =>
+    withFiat(`${formatPrice(price, locale)} ${backingSymbol}`, price);
+
+  /**
+   * @function formatTokens
+   * @description Formats a raw event token amount
+   * @param {bigint} amount - Raw event token amount
+   * @returns {string} Amount with at most four decimals and the token symbol
+   */
+  const formatTokens = (amount: bigint): string =>
+    `${formatNumber(Number(formatUnits(amount, EVENT_TOKEN_DECIMALS)), locale, {
+      maximumFractionDigits: 4,
+    })} $${tokenSymbol}`;
+
+  // Purchases pay the backing asset for tokens, sales the other way around
+  const formatPaid = mode === "buy" ? formatBacking : formatTokens;
+  const formatReceived = mode === "buy" ? formatTokens : formatBacking;
+
+  // The amount the user didn't fix is the one the quote fills in
+  const quotedLabels: Record<TradeMode, Record<ExactAmount, string>> = {
+    buy: { token: text.totalCost, backing: text.youReceive },
+    sell: { token: text.youReceive, backing: text.tokensSold },
+  };
+  const quotedAmount = quote
+    ? exact === "token"
+      ? formatBacking(quote.backingAmount)
+      : formatTokens(quote.tokenAmount)
+    : "—";
+
+  const inputLabels: Record<TradeMode, Record<ExactAmount, string>> = {
+    buy: { token: text.buyTokenAmount, backing: t(text.buyBackingAmount, { symbol: backingSymbol }) },
+    sell: { token: text.sellTokenAmount, backing: t(text.sellBackingAmount, { symbol: backingSymbol }) },
+  };
+
+  // Quick amount options for user convenience, kept as text so they parse like typed input
+  const quickAmounts = ["10", "50", "100", "250", "500", "1000"];
+
+  const modes: { value: TradeMode; label: string }[] = [
+    { value: "buy", label: text.buy },
+    { value: "sell", label: text.sell },
+  ];
+
+  const exactOptions: { value: ExactAmount; label: string }[] = [
+    { value: "token", label: `$${tokenSymbol}` },
+    { value: "backing", label: backingSymbol },
+  ];
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg">
       {/* Form Header */}
-      <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-6">
-        🎫 Buy Event Tokens
-      </h3>
-      
-      {/* Educational Information */}
-      <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 rounded-xl">
-        <p className="text-sm text-green-700 dark:text-green-300">
-          <strong>Why buy tokens?</strong> Each token gives you access to exclusive benefits 
-          like meet & greets, special merch, private soundchecks, and more unique experiences.
-        </p>
+      <div className="flex justify-between items-center mb-6">
+        <h3 className="text-xl font-bold text-gray-900 dark:text-white">
+          {mode === "buy" ? text.buyTitle : text.sellTitle}
+        </h3>
+        <div className="flex items-center space-x-2">
+          <div className="flex space-x-1 bg-gray-100 dark:bg-gray-700 rounded-lg p-1" role="tablist">
+            {modes.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => switchMode(option.value)}
+                disabled={isProcessing}
+                role="tab"
+                aria-selected={mode === option.value}
+                className={`px-4 py-1 rounded-md text-sm font-medium transition-all duration-200 ${
+                  mode === option.value
+                    ? "bg-white dark:bg-gray-600 text-purple-600 dark:text-purple-400 shadow-sm"
+                    : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <TradeSettings disabled={isProcessing} />
+        </div>
       </div>
-      
+
+      {/* Educational Information */}
+      {mode === "buy" ? (
+        <div className="mb-4 p-4 bg-green-50 dark:bg-green-900/20 rounded-xl">
+          <p className="text-sm text-green-700 dark:text-green-300">
+            <strong>{text.whyBuyTitle}</strong> {text.whyBuyBody}
+          </p>
+        </div>
+      ) : (
+        <div className="mb-4 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
+          <p className="text-sm text-blue-700 dark:text-blue-300">
+            {isOrganizer ? (
+              <>
+                <strong>{text.organizerVestingTitle}</strong> {text.organizerVestingBody}
+              </>
+            ) : (
+              <>
+                <strong>{text.changedPlansTitle}</strong> {text.changedPlansBody}
+              </>
+            )}
+          </p>
+        </div>
+      )}
+
       <div className="space-y-4">
-        {/* Token Amount Input */}
+        {/* Exact Amount Selection */}
+        <div className="flex items-center justify-between">
+          <span className="text-sm text-gray-600 dark:text-gray-400">{text.enterAmountIn}</span>
+          <div className="flex space-x-1 bg-gray-100 dark:bg-gray-700 rounded-lg p-1" role="radiogroup">
+            {exactOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={() => switchExact(option.value)}
+                disabled={isProcessing}
+                role="radio"
+                aria-checked={exact === option.value}
+                className={`px-3 py-1 rounded-md text-xs font-medium transition-all duration-200 ${
+                  exact === option.value
+                    ? "bg-white dark:bg-gray-600 text-purple-600 dark:text-purple-400 shadow-sm"
+                    : "text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-white"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {/* Amount Input */}
         <div>
-          <label 
-            htmlFor="token-amount"
-            className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2"
-          >
-            Number of tokens to purchase
-          </label>
+          <div className="flex justify-between items-center mb-2">
+            <label
+              htmlFor="token-amount"
+              className="block text-sm font-medium text-gray-700 dark:text-gray-300"
+            >
+              {inputLabels[mode][exact]}
+            </label>
+            {mode === "sell" && exact === "token" && isConnected && (
+              <button
+                onClick={() => maxSellable !== null && setAmountInput(formatUnits(maxSellable, EVENT_TOKEN_DECIMALS))}
+                disabled={maxSellable === null || maxSellable === 0n || isProcessing}
+                className="text-sm font-medium text-purple-600 hover:text-purple-700 disabled:opacity-50"
+                aria-label={text.maxLabel}
+              >
+                {t(text.max, {
+                  amount:
+                    maxSellable === null
+                      ? "…"
+                      : formatNumber(Number(formatUnits(maxSellable, EVENT_TOKEN_DECIMALS)), locale),
+                })}
+              </button>
+            )}
+          </div>
           <div className="relative">
             <input
               id="token-amount"
-              type="number"
-              value={purchaseAmount}
-              onChange={(e) => setPurchaseAmount(e.target.value)}
+              type="text"
+              inputMode="decimal"
+              autoComplete="off"
+              value={amountInput}
+              onChange={(e) => setAmountInput(e.target.value)}
               placeholder="0.00"
-              min="0"
-              step="0.01"
               className="w-full px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-xl focus:ring-2 focus:ring-purple-500 focus:border-transparent dark:bg-gray-700 dark:text-white pr-24"
               aria-describedby="token-symbol"
+              aria-invalid={inputError !== null || exceedsSellable}
             />
-            <div 
+            <div
               id="token-symbol"
               className="absolute right-3 top-3 text-purple-600 font-semibold pointer-events-none"
             >
-              $SWIFTIEMX
+              {inputSymbol}
             </div>
           </div>
+          {inputError && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400" role="alert">
+              {inputError}
+            </p>
+          )}
+          {exceedsSellable && (
+            <p className="mt-2 text-sm text-red-600 dark:text-red-400" role="alert">
+              {isVestingLimited
+                ? text.exceedsVesting
+                : text.exceedsBalance}
+            </p>
+          )}
         </div>
 
         {/* Price Information Panel */}
         <div className="bg-gradient-to-r from-purple-50 to-blue-50 dark:from-purple-900/20 dark:to-blue-900/20 rounded-xl p-4">
           <div className="space-y-3">
             <div className="flex justify-between items-center">
-              <span className="text-gray-600 dark:text-gray-400">Price per token:</span>
+              <span className="text-gray-600 dark:text-gray-400">{text.spotPrice}</span>
               <span className="font-semibold text-gray-900 dark:text-white">
-                ${currentPrice.toFixed(4)}
+                {formatBackingPrice(currentPrice)}
               </span>
             </div>
             <div className="flex justify-between items-center">
-              <span className="text-gray-600 dark:text-gray-400">Quantity:</span>
+              <span className="text-gray-600 dark:text-gray-400">{text.averagePrice}</span>
               <span className="font-semibold text-gray-900 dark:text-white">
-                {purchaseAmount || "0.00"} $SWIFTIEMX
+                {quote ? formatBackingPrice(quote.averagePrice) : "—"}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-600 dark:text-gray-400">{text.priceImpact}</span>
+              <span
+                className={`font-semibold ${
+                  isHighImpact ? "text-red-600 dark:text-red-400" : "text-gray-900 dark:text-white"
+                }`}
+              >
+                {quote ? formatImpact(quote.priceImpact, locale) : "—"}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-600 dark:text-gray-400">{text.slippageTolerance}</span>
+              <span className="font-semibold text-gray-900 dark:text-white">{formatBps(settings.slippageBps, locale)}</span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-600 dark:text-gray-400">{text.minimumReceived}</span>
+              <span className="font-semibold text-gray-900 dark:text-white">
+                {limits ? formatReceived(limits.minAmountOut) : "—"}
+              </span>
+            </div>
+            <div className="flex justify-between items-center">
+              <span className="text-gray-600 dark:text-gray-400">
+                {mode === "buy" ? text.maximumCost : text.maximumSold}
+              </span>
+              <span className="font-semibold text-gray-900 dark:text-white">
+                {limits ? formatPaid(limits.maxAmountIn) : "—"}
               </span>
             </div>
             <div className="border-t border-gray-200 dark:border-gray-600 pt-3">
               <div className="flex justify-between items-center">
-                <span className="text-lg font-semibold text-gray-900 dark:text-white">
-                  Total cost:
-                </span>
-                <span className="text-2xl font-bold text-purple-600">
-                  ${totalCost.toFixed(2)}
-                </span>
+                <span className="text-lg font-semibold text-gray-900 dark:text-white">{quotedLabels[mode][exact]}</span>
+                <span className="text-2xl font-bold text-purple-600">{isQuoting ? "…" : quotedAmount}</span>
               </div>
             </div>
           </div>
         </div>
 
-        {/* Purchase Button */}
-        <button
-          onClick={handlePurchase}
-          disabled={!purchaseAmount || parseFloat(purchaseAmount) <= 0 || isProcessing}
-          className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-4 rounded-xl font-semibold text-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
-          aria-label={isProcessing ? "Processing purchase" : "Purchase tokens"}
-        >
-          {isProcessing ? (
-            <>
-              <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
-              <span>Processing...</span>
-            </>
-          ) : (
-            <>
-              <span>🎫</span>
-              <span>Buy Tokens</span>
-            </>
-          )}
-        </button>
+        {/* Quote Warnings */}
+        {quoteError && (
+          <p className="text-sm text-red-600 dark:text-red-400" role="alert">
+            {getErrorMessage(quoteError, locale)}
+          </p>
+        )}
+        {isHighImpact && (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 rounded-xl" role="alert">
+            <p className="text-sm text-red-700 dark:text-red-300">
+              <strong>{text.highImpactTitle}</strong>{" "}
+              {t(mode === "buy" ? text.highImpactBuy : text.highImpactSell, {
+                impact: formatImpact(quote.priceImpact, locale),
+                average: `${formatPrice(quote.averagePrice, locale)} ${backingSymbol}`,
+                spot: formatPrice(currentPrice, locale),
+              })}
+            </p>
+          </div>
+        )}
+
+        {/* Trade Button */}
+        {isConnected && isWrongChain ? (
+          <button
+            onClick={() => switchToActiveChain().catch(notifyError)}
+            disabled={isSwitching}
+            className="w-full bg-red-600 text-white py-4 rounded-xl font-semibold text-lg hover:bg-red-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            aria-label={t(text.switchToTradeLabel, { chain: activeChain.name })}
+          >
+            <span>⚠️</span>
+            <span>{isSwitching ? messages.common.switching : t(text.switchToTrade, { chain: activeChain.name })}</span>
+          </button>
+        ) : isConnected ? (
+          <button
+            onClick={handleTrade}
+            disabled={quote === null || inputError !== null || exceedsSellable || isLoadingSellLimits || isProcessing}
+            className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-4 rounded-xl font-semibold text-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            aria-label={isProcessing ? text.processingLabel : mode === "buy" ? text.purchaseLabel : text.sellLabel}
+          >
+            {isProcessing ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                <span>{getStatusLabels(text)[status]}</span>
+              </>
+            ) : isLoadingSellLimits ? (
+              <>
+                <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+                <span>{text.loadingBalance}</span>
+              </>
+            ) : mode === "buy" ? (
+              <>
+                <span>🎫</span>
+                <span>{text.buyTokens}</span>
+              </>
+            ) : (
+              <>
+                <span>💸</span>
+                <span>{text.sellTokens}</span>
+              </>
+            )}
+          </button>
+        ) : (
+          <button
+            onClick={() => connect(connectors[0]).catch(notifyError)}
+            disabled={isConnecting || connectors.length === 0}
+            className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white py-4 rounded-xl font-semibold text-lg hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+            aria-label={text.connectToTradeLabel}
+          >
+            <span>👛</span>
+            <span>{isConnecting ? messages.common.connecting : text.connectToTrade}</span>
+          </button>
+        )}
 
         {/* Information Text */}
         <div className="text-center text-sm text-gray-500 dark:text-gray-400">
-          <p>Tokens will be transferred to your wallet immediately after purchase.</p>
+          <p>
+            {mode === "buy"
+              ? text.buyInfo
+              : text.sellInfo}
+          </p>
         </div>
       </div>
 
       {/* Quick Amount Selection */}
       <div className="mt-6">
-        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">Quick amounts:</p>
+        <p className="text-sm text-gray-600 dark:text-gray-400 mb-3">{text.quickAmounts}</p>
         <div className="grid grid-cols-3 gap-2">
           {quickAmounts.map((amount) => (
             <button
               key={amount}
-              onClick={() => setPurchaseAmount(amount.toString())}
+              onClick={() => setAmountInput(amount)}
               className="px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors focus:ring-2 focus:ring-purple-500 focus:border-transparent"
-              aria-label={`Set amount to ${amount} tokens`}
+              aria-label={t(text.quickAmountLabel, { amount, symbol: inputSymbol })}
             >
-              {amount}
+              {formatNumber(Number(amount), locale)}
             </button>
           ))}
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
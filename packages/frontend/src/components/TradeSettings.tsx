@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { useTradeSettings } from "../hooks/useTradeSettings";
+import { useI18n } from "../hooks/useI18n";
+import { formatBps, parseAmountInput } from "../lib/format";
+import {
+  MAX_QUOTE_EXPIRY_MINUTES,
+  MAX_SLIPPAGE_BPS,
+  MIN_QUOTE_EXPIRY_MINUTES,
+  MIN_SLIPPAGE_BPS,
+} from "../lib/tradeSettings";
+
+/**
+ * Slippage tolerances offered as one-click presets, in basis points
+ */
+const slippagePresets = [10, 50, 100];
+
+/** Below this tolerance, ordinary pool activity is likely to make trades fail */
+const LOW_SLIPPAGE_BPS = 10;
+
+/** Above this tolerance, trades can be filled at a much worse price */
+const HIGH_SLIPPAGE_BPS = 500;
+
+/**
+ * @interface TradeSettingsProps
+ * @description Props for the TradeSettings component
+ */
+interface TradeSettingsProps {
+  /** Disables the settings while a trade is in progress */
+  disabled?: boolean;
+}
+
+/**
+ * @component TradeSettings
+ * @description Gear button opening the trade protection settings
+ *
+ * Features:
+ * - Slippage tolerance presets and a custom percentage
+ * - Quote expiry in minutes
+ * - Warnings for tolerances likely to fail or to fill at a bad price
+ * - Notes on how the router enforces each setting: the tolerance as a price limit that
+ *   can fill partially, the expiry only before the swap is sent
+ * - Settings saved in localStorage and shared across tabs
+ *
+ * @param {TradeSettingsProps} props - Component props
+ * @returns {JSX.Element} Rendered settings button and panel
+ */
+export default function TradeSettings({ disabled = false }: TradeSettingsProps) {
+  const { settings, updateSettings } = useTradeSettings();
+  const { locale, messages, t } = useI18n();
+  const text = messages.tradeSettings;
+  const [isOpen, setIsOpen] = useState(false);
+  // Text being typed, null while the inputs show the saved settings
+  const [slippageInput, setSlippageInput] = useState<string | null>(null);
+  const [expiryInput, setExpiryInput] = useState<string | null>(null);
+  const [slippageError, setSlippageError] = useState<string | null>(null);
+  const [expiryError, setExpiryError] = useState<string | null>(null);
+
+  const isPreset = slippagePresets.includes(settings.slippageBps);
+  const customSlippage = slippageInput ?? (isPreset ? "" : (settings.slippageBps / 100).toString());
+  const isSelected = (bps: number) => settings.slippageBps === bps && slippageInput === null;
+
+  /**
+   * @function changeSlippage
+   * @description Saves a custom slippage percentage once it parses within the accepted range
+   * @param {string} value - Text of the slippage input, in percent
+   */
+  const changeSlippage = (value: string): void => {
+    setSlippageInput(value);
+    if (value.trim() === "") {
+      setSlippageError(null);
+      return;
+    }
+
+    try {
+      // Percentages with two decimals are whole basis points
+      const bps = parseAmountInput(value, 2);
+      if (bps < BigInt(MIN_SLIPPAGE_BPS) || bps > BigInt(MAX_SLIPPAGE_BPS)) {
+        setSlippageError(
+          t(text.slippageRange, { min: formatBps(MIN_SLIPPAGE_BPS, locale), max: formatBps(MAX_SLIPPAGE_BPS, locale) })
+        );
+        return;
+      }
+      setSlippageError(null);
+      updateSettings({ slippageBps: Number(bps) });
+    } catch {
+      setSlippageError(text.slippageFormat);
+    }
+  };
+
+  /**
+   * @function changeExpiry
+   * @description Saves the quote expiry once it is a whole number of minutes within the accepted range
+   * @param {string} value - Text of the expiry input
+   */
+  const changeExpiry = (value: string): void => {
+    setExpiryInput(value);
+    const minutes = /^\d+$/.test(value.trim()) ? Number(value) : NaN;
+
+    if (!(minutes >= MIN_QUOTE_EXPIRY_MINUTES && minutes <= MAX_QUOTE_EXPIRY_MINUTES)) {
+      setExpiryError(t(text.expiryRange, { min: MIN_QUOTE_EXPIRY_MINUTES, max: MAX_QUOTE_EXPIRY_MINUTES }));
+      return;
+    }
+    setExpiryError(null);
+    updateSettings({ quoteExpiryMinutes: minutes });
+  };
+
+  /**
+   * @function resetInputs
+   * @description Shows the saved settings again once an input loses focus
+   */
+  const resetInputs = (): void => {
+    setSlippageInput(null);
+    setExpiryInput(null);
+    setSlippageError(null);
+    setExpiryError(null);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        className="p-2 rounded-lg text-gray-600 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+        aria-label={text.open}
+        aria-expanded={isOpen}
+        aria-controls="trade-settings"
+      >
+        ⚙️
+      </button>
+
+      {isOpen && (
+        <div
+          id="trade-settings"
+          className="absolute right-0 z-10 mt-2 w-72 p-4 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-xl shadow-lg space-y-4"
+        >
+          {/* Slippage Tolerance */}
+          <div>
+            <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">{text.slippage}</p>
+            <div className="flex space-x-2">
+              {slippagePresets.map((bps) => (
+                <button
+                  key={bps}
+                  onClick={() => {
+                    resetInputs();
+                    updateSettings({ slippageBps: bps });
+                  }}
+                  className={`px-3 py-1 rounded-lg text-sm font-medium transition-colors ${
+                    isSelected(bps)
+                      ? "bg-purple-600 text-white"
+                      : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                  }`}
+                  aria-pressed={isSelected(bps)}
+                >
+                  {formatBps(bps, locale)}
+                </button>
+              ))}
+              <div className="relative flex-1">
+                <input
+                  type="text"
+                  inputMode="decimal"
+                  value={customSlippage}
+                  onChange={(e) => changeSlippage(e.target.value)}
+                  onBlur={resetInputs}
+                  placeholder={text.custom}
+                  className="w-full px-2 py-1 pr-6 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                  aria-label={text.customLabel}
+                  aria-invalid={slippageError !== null}
+                  aria-describedby="trade-slippage-note"
+                />
+                <span className="absolute right-2 top-1 text-sm text-gray-500 pointer-events-none">%</span>
+              </div>
+            </div>
+            {slippageError ? (
+              <p className="mt-2 text-xs text-red-600 dark:text-red-400" role="alert">
+                {slippageError}
+              </p>
+            ) : settings.slippageBps < LOW_SLIPPAGE_BPS ? (
+              <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+                {text.lowSlippage}
+              </p>
+            ) : settings.slippageBps > HIGH_SLIPPAGE_BPS ? (
+              <p className="mt-2 text-xs text-yellow-700 dark:text-yellow-400">
+                {text.highSlippage}
+              </p>
+            ) : null}
+            <p id="trade-slippage-note" className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {text.slippageNote}
+            </p>
+          </div>
+
+          {/* Quote Expiry */}
+          <div>
+            <label htmlFor="trade-quote-expiry" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              {text.expiry}
+            </label>
+            <div className="flex items-center space-x-2">
+              <input
+                id="trade-quote-expiry"
+                type="text"
+                inputMode="numeric"
+                value={expiryInput ?? settings.quoteExpiryMinutes.toString()}
+                onChange={(e) => changeExpiry(e.target.value)}
+                onBlur={resetInputs}
+                className="w-20 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                aria-invalid={expiryError !== null}
+                aria-describedby="trade-quote-expiry-note"
+              />
+              <span className="text-sm text-gray-600 dark:text-gray-400">{text.minutes}</span>
+            </div>
+            {expiryError && (
+              <p className="mt-2 text-xs text-red-600 dark:text-red-400" role="alert">
+                {expiryError}
+              </p>
+            )}
+            <p id="trade-quote-expiry-note" className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+              {text.expiryNote}
+            </p>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
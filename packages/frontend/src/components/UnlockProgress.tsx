@@ -1,102 +1,168 @@
 "use client";
 
+import { useEffect, useState } from "react";
+import { formatUnits } from "viem";
+import {
+  EVENT_TOKEN_DECIMALS,
+  getTokensPerSecond,
+  getTransferableAmount,
+  getUnlockTime,
+  getUnlockedAmount,
+} from "@unifans/shared";
+import { useI18n } from "../hooks/useI18n";
+import { formatDate, formatPercent, formatTokenAmount } from "../lib/format";
+
 /**
  * @interface UnlockProgressProps
- * @description Props for the UnlockProgress component
+ * @description Props for the UnlockProgress component, raw values from EventToken.getVestingInfo()
  */
 interface UnlockProgressProps {
-  /** Number of tokens already unlocked and available */
-  unlockedTokens: number;
-  /** Number of tokens still locked and waiting to be unlocked */
-  remainingToUnlock: number;
-  /** Total number of tokens allocated to the organizer */
-  totalOrganizerTokens: number;
+  /** When vesting started (token deployment), unix seconds */
+  startTime: bigint;
+  /** When vesting ends (event date), unix seconds */
+  endTime: bigint;
+  /** Raw organizer allocation */
+  totalAmount: bigint;
+  /** Raw organizer balance still tracked by the token, the cap on what can be transferred */
+  remaining: bigint;
+  /** Seconds the chain clock is ahead of the browser clock */
+  clockOffset?: number;
+  /** Browser time in milliseconds of the latest on-chain read */
+  syncedAt?: number;
+  /** Symbol of the event token, without the leading $ */
+  tokenSymbol: string;
 }
 
+/** Shares of the allocation shown on the unlock timeline */
+const timelineMilestones = [25, 50, 75, 100];
+
 /**
  * @component UnlockProgress
- * @description Displays the progress of organizer token unlocking over time
- * 
+ * @description Displays the progress of organizer token unlocking, ticking every second
+ *
  * Features:
+ * - Unlocked amount recomputed every second like organizerTransferableAmount()
+ *   (`tokensPerSecond * elapsed`, capped by the organizer balance)
  * - Visual progress bar with percentage completion
  * - Detailed breakdown of unlocked vs remaining tokens
+ * - Projected unlock timeline up to the event date
  * - Educational information about gradual unlocking
- * - Animated progress visualization
+ * - Amounts and dates in the locale of the page
  * - Responsive design with gradient styling
- * 
+ *
  * The gradual unlocking mechanism helps maintain token price stability
  * by preventing large sell-offs that could harm the fan community.
- * 
+ *
  * @param {UnlockProgressProps} props - Component props
  * @returns {JSX.Element} Rendered unlock progress component
  */
-export default function UnlockProgress({ 
-  unlockedTokens, 
-  remainingToUnlock, 
-  totalOrganizerTokens 
+export default function UnlockProgress({
+  startTime,
+  endTime,
+  totalAmount,
+  remaining,
+  clockOffset = 0,
+  syncedAt,
+  tokenSymbol,
 }: UnlockProgressProps) {
-  // Calculate percentages for progress visualization
-  const unlockPercentage = (unlockedTokens / totalOrganizerTokens) * 100;
-  const remainingPercentage = (remainingToUnlock / totalOrganizerTokens) * 100;
+  const [nowMs, setNowMs] = useState(() => Date.now());
+  const { locale, messages, t } = useI18n();
+  const text = messages.unlock;
+
+  // Tick every second; the counter is computed locally between on-chain reads
+  useEffect(() => {
+    const timer = setInterval(() => setNowMs(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const vesting = { startTime, endTime, totalAmount, remaining };
+  const chainNow = BigInt(Math.floor(nowMs / 1000) + clockOffset);
+  const unlocked = getUnlockedAmount(vesting, chainNow);
+  const transferable = getTransferableAmount(vesting, chainNow);
+  const tokensPerSecond = chainNow < endTime ? getTokensPerSecond(vesting) : 0n;
 
   /**
-   * @function formatTokenAmount
-   * @description Formats large token numbers with proper locale formatting
-   * @param {number} amount - The token amount to format
-   * @returns {string} Formatted number string with thousand separators
+   * @function toTokens
+   * @description Converts a raw amount into whole tokens
+   * @param {bigint} amount - Raw token amount
+   * @returns {number} Whole tokens
    */
-  const formatTokenAmount = (amount: number): string => {
-    return amount.toLocaleString('en-US');
-  };
+  const toTokens = (amount: bigint): number => Number(formatUnits(amount, EVENT_TOKEN_DECIMALS));
+
+  /**
+   * @function formatTokens
+   * @description Formats a raw token amount as whole tokens in the page locale
+   * @param {bigint} amount - Raw token amount
+   * @returns {string} Amount with thousand separators
+   */
+  const formatTokens = (amount: bigint): string => formatTokenAmount(amount, locale);
+
+  // Calculate percentages for progress visualization
+  const unlockPercentage = totalAmount > 0n ? (toTokens(unlocked) / toTokens(totalAmount)) * 100 : 0;
+  const remainingPercentage = 100 - unlockPercentage;
+  const secondsSinceSync = syncedAt ? Math.max(0, Math.floor((nowMs - syncedAt) / 1000)) : null;
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-2xl p-6 shadow-lg">
       {/* Component Header */}
       <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-4">
-        🔒 Organizer Tokens
+        {t(text.title, { symbol: tokenSymbol })}
       </h3>
-      
+
       {/* Educational Information */}
       <div className="mb-4 p-4 bg-blue-50 dark:bg-blue-900/20 rounded-xl">
         <p className="text-sm text-blue-700 dark:text-blue-300">
-          <strong>Why are tokens unlocked gradually?</strong><br/>
-          To maintain stable pricing and prevent sudden drops that could affect all fans.
+          <strong>{text.whyTitle}</strong><br/>
+          {text.whyBody}
         </p>
       </div>
-      
+
+      {/* Live Counter */}
+      <div className="mb-6 text-center">
+        <div className="text-sm text-gray-500 dark:text-gray-400 mb-1">{text.transferableNow}</div>
+        <div className="text-3xl font-bold text-gray-900 dark:text-white tabular-nums" aria-live="off">
+          {formatTokens(transferable)}
+        </div>
+        <div className="text-sm text-green-600">
+          {tokensPerSecond > 0n
+            ? t(text.perSecond, { amount: formatTokens(tokensPerSecond) })
+            : text.complete}
+        </div>
+      </div>
+
       {/* Main Progress Bar */}
       <div className="mb-6">
         <div className="flex justify-between text-sm text-gray-600 dark:text-gray-400 mb-2">
-          <span>Unlock Progress</span>
-          <span>{unlockPercentage.toFixed(1)}%</span>
+          <span>{text.progress}</span>
+          <span className="tabular-nums">{formatPercent(unlockPercentage, locale, 4)}</span>
         </div>
         <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-4 relative overflow-hidden">
-          <div 
-            className="bg-gradient-to-r from-green-500 to-blue-500 h-4 rounded-full transition-all duration-1000 ease-out"
+          <div
+            className="bg-gradient-to-r from-green-500 to-blue-500 h-4 rounded-full transition-all duration-1000 ease-linear"
             style={{ width: `${unlockPercentage}%` }}
             role="progressbar"
             aria-valuenow={unlockPercentage}
             aria-valuemin={0}
             aria-valuemax={100}
-            aria-label={`${unlockPercentage.toFixed(1)}% of organizer tokens unlocked`}
+            aria-label={t(text.progressLabel, { percent: formatPercent(unlockPercentage, locale) })}
           ></div>
         </div>
       </div>
 
       {/* Token Distribution Breakdown */}
-      <div className="space-y-4">
+      <div className="space-y-4 mb-6">
         {/* Unlocked Tokens */}
         <div className="flex items-center justify-between p-4 bg-gradient-to-r from-green-50 to-emerald-50 dark:from-green-900/20 dark:to-emerald-900/20 rounded-xl">
           <div className="flex items-center space-x-3">
             <div className="w-3 h-3 bg-green-500 rounded-full" aria-hidden="true"></div>
-            <span className="text-gray-700 dark:text-gray-300">Already Unlocked</span>
+            <span className="text-gray-700 dark:text-gray-300">{text.unlocked}</span>
           </div>
           <div className="text-right">
-            <div className="text-lg font-bold text-green-600">
-              {formatTokenAmount(unlockedTokens)}
+            <div className="text-lg font-bold text-green-600 tabular-nums">
+              {formatTokens(unlocked)}
             </div>
             <div className="text-sm text-green-500">
-              {unlockPercentage.toFixed(1)}%
+              {formatPercent(unlockPercentage, locale)}
             </div>
           </div>
         </div>
@@ -105,14 +171,14 @@ export default function UnlockProgress({
         <div className="flex items-center justify-between p-4 bg-gradient-to-r from-yellow-50 to-orange-50 dark:from-yellow-900/20 dark:to-orange-900/20 rounded-xl">
           <div className="flex items-center space-x-3">
             <div className="w-3 h-3 bg-orange-500 rounded-full" aria-hidden="true"></div>
-            <span className="text-gray-700 dark:text-gray-300">To Be Unlocked</span>
+            <span className="text-gray-700 dark:text-gray-300">{text.toBeUnlocked}</span>
           </div>
           <div className="text-right">
-            <div className="text-lg font-bold text-orange-600">
-              {formatTokenAmount(remainingToUnlock)}
+            <div className="text-lg font-bold text-orange-600 tabular-nums">
+              {formatTokens(totalAmount - unlocked)}
             </div>
             <div className="text-sm text-orange-500">
-              {remainingPercentage.toFixed(1)}%
+              {formatPercent(remainingPercentage, locale)}
             </div>
           </div>
         </div>
@@ -121,16 +187,52 @@ export default function UnlockProgress({
         <div className="flex items-center justify-between p-4 bg-gradient-to-r from-purple-50 to-pink-50 dark:from-purple-900/20 dark:to-pink-900/20 rounded-xl">
           <div className="flex items-center space-x-3">
             <div className="w-3 h-3 bg-purple-500 rounded-full" aria-hidden="true"></div>
-            <span className="text-gray-700 dark:text-gray-300">Total Organizer</span>
+            <span className="text-gray-700 dark:text-gray-300">{text.total}</span>
           </div>
           <div className="text-right">
             <div className="text-lg font-bold text-purple-600">
-              {formatTokenAmount(totalOrganizerTokens)}
+              {formatTokens(totalAmount)}
+            </div>
+            <div className="text-sm text-purple-500">
+              {t(text.moved, { amount: formatTokens(totalAmount - remaining) })}
             </div>
-            <div className="text-sm text-purple-500">100%</div>
           </div>
         </div>
       </div>
+
+      {/* Projected Unlock Timeline */}
+      <div>
+        <h4 className="font-semibold text-gray-900 dark:text-white mb-3">{text.timeline}</h4>
+        <ol className="space-y-2">
+          {timelineMilestones.map((percent) => {
+            const time = getUnlockTime(vesting, percent);
+            const isReached = chainNow >= time;
+            return (
+              <li key={percent} className="flex items-center justify-between text-sm">
+                <span className="flex items-center space-x-2">
+                  <span
+                    className={`w-5 h-5 rounded-full flex items-center justify-center text-xs ${
+                      isReached ? "bg-green-500 text-white" : "bg-gray-200 dark:bg-gray-700 text-gray-500"
+                    }`}
+                    aria-hidden="true"
+                  >
+                    {isReached ? "✓" : ""}
+                  </span>
+                  <span className="text-gray-700 dark:text-gray-300">
+                    {percent === 100 ? text.eventDay : t(text.milestone, { percent: formatPercent(percent, locale, 0) })}
+                  </span>
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">{formatDate(time, locale, { month: "short", day: "numeric", year: "numeric" })}</span>
+              </li>
+            );
+          })}
+        </ol>
+        {secondsSinceSync !== null && (
+          <p className="mt-4 text-xs text-gray-400 dark:text-gray-500">
+            {t(text.synced, { seconds: secondsSinceSync })}
+          </p>
+        )}
+      </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,203 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { formatUnits } from "viem";
+import type { Connector } from "wagmi";
+import { useWallet } from "../hooks/useWallet";
+import { useNotify } from "../hooks/useNotify";
+import { useI18n } from "../hooks/useI18n";
+import { activeChain } from "../config/wagmi";
+import { formatNumber, shortenAddress } from "../lib/format";
+import type { Messages } from "../messages";
+
+/**
+ * @function getConnectorLabel
+ * @description Human readable name of a wagmi connector
+ * @param {Connector} connector - Connector to describe
+ * @param {Messages["wallet"]} labels - Wallet messages of the page locale
+ * @returns {string} Label shown in the connect menu
+ */
+const getConnectorLabel = (connector: Connector, labels: Messages["wallet"]): string => {
+  if (connector.type === "mock") return labels.localAccount;
+  if (connector.id === "injected") return labels.browserWallet;
+  return connector.name;
+};
+
+/**
+ * @component WalletMenu
+ * @description Header wallet control replacing account creation with a real wallet session
+ *
+ * Features:
+ * - Connect with the browser wallet, or the anvil dev account in local development
+ * - Connected address and native balance with a dropdown menu
+ * - Disconnect action
+ * - Wrong network guard offering to switch to the active chain
+ * - Connection results and failures reported as notifications
+ * - Closes on outside click and Escape
+ *
+ * @returns {JSX.Element} Rendered wallet button and menu
+ */
+export default function WalletMenu() {
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const {
+    address,
+    isConnected,
+    isConnecting,
+    connectors,
+    isWrongChain,
+    isSwitching,
+    balance,
+    connect,
+    disconnect,
+    switchToActiveChain,
+  } = useWallet();
+  const { notify, notifyError } = useNotify();
+  const { locale, messages, t } = useI18n();
+  const labels = messages.wallet;
+
+  // Close the menu when clicking outside of it or pressing Escape
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) setIsOpen(false);
+    };
+    const handleKey = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    document.addEventListener("keydown", handleKey);
+    return () => {
+      document.removeEventListener("mousedown", handleClick);
+      document.removeEventListener("keydown", handleKey);
+    };
+  }, [isOpen]);
+
+  /**
+   * @function handleConnect
+   * @description Connects with the chosen connector and reports the result
+   * @param {Connector} connector - Connector picked by the user
+   */
+  const handleConnect = async (connector: Connector) => {
+    setIsOpen(false);
+    try {
+      const connected = await connect(connector);
+      notify(t(labels.connected, { address: shortenAddress(connected) }), "success");
+    } catch (error) {
+      notifyError(error);
+    }
+  };
+
+  /**
+   * @function handleSwitch
+   * @description Asks the wallet to move to the active chain
+   */
+  const handleSwitch = async () => {
+    try {
+      await switchToActiveChain();
+    } catch (error) {
+      notifyError(error);
+    }
+  };
+
+  const buttonClassName =
+    "bg-gradient-to-r from-purple-600 to-blue-600 text-white px-6 py-2 rounded-full font-medium hover:from-purple-700 hover:to-blue-700 transition-all duration-200 disabled:opacity-50 flex items-center space-x-2 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2";
+  const formattedBalance = balance
+    ? `${formatNumber(Number(formatUnits(balance.value, balance.decimals)), locale, { maximumFractionDigits: 4 })} ${balance.symbol}`
+    : "—";
+
+  // Wrong network: trading is blocked until the wallet switches
+  if (isConnected && isWrongChain) {
+    return (
+      <button
+        onClick={handleSwitch}
+        disabled={isSwitching}
+        className="bg-red-600 text-white px-6 py-2 rounded-full font-medium hover:bg-red-700 transition-all duration-200 disabled:opacity-50 flex items-center space-x-2 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+        aria-label={t(labels.wrongNetwork, { chain: activeChain.name })}
+      >
+        <span aria-hidden="true">⚠️</span>
+        <span>{isSwitching ? messages.common.switching : t(messages.common.switchTo, { chain: activeChain.name })}</span>
+      </button>
+    );
+  }
+
+  return (
+    <div className="relative" ref={menuRef}>
+      {isConnected && address ? (
+        <button
+          onClick={() => setIsOpen((open) => !open)}
+          className={buttonClassName}
+          aria-haspopup="menu"
+          aria-expanded={isOpen}
+          aria-label={labels.openMenu}
+        >
+          <span aria-hidden="true">👛</span>
+          <span className="font-mono">{shortenAddress(address)}</span>
+          <span className="hidden sm:inline text-white/80 text-sm">{formattedBalance}</span>
+        </button>
+      ) : (
+        <button
+          onClick={() => (connectors.length === 1 ? handleConnect(connectors[0]) : setIsOpen((open) => !open))}
+          disabled={isConnecting}
+          className={buttonClassName}
+          aria-haspopup={connectors.length > 1 ? "menu" : undefined}
+          aria-expanded={connectors.length > 1 ? isOpen : undefined}
+          aria-label={isConnecting ? labels.connectingWallet : labels.connectWallet}
+        >
+          {isConnecting ? (
+            <>
+              <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+              <span>{messages.common.connecting}</span>
+            </>
+          ) : (
+            <>
+              <span aria-hidden="true">👛</span>
+              <span>{messages.common.connectWallet}</span>
+            </>
+          )}
+        </button>
+      )}
+
+      {/* Dropdown Menu */}
+      {isOpen && (
+        <div
+          className="absolute right-0 mt-2 w-64 bg-white dark:bg-gray-800 rounded-xl shadow-xl border border-gray-200 dark:border-gray-700 p-2 z-50"
+          role="menu"
+        >
+          {isConnected && address ? (
+            <>
+              <div className="px-3 py-2 border-b border-gray-200 dark:border-gray-700 mb-2">
+                <p className="text-xs text-gray-500 dark:text-gray-400">{t(labels.connectedOn, { chain: activeChain.name })}</p>
+                <p className="font-mono text-sm text-gray-900 dark:text-white break-all">{address}</p>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mt-1">{t(labels.balance, { balance: formattedBalance })}</p>
+              </div>
+              <button
+                onClick={() => {
+                  setIsOpen(false);
+                  disconnect();
+                }}
+                className="w-full text-left px-3 py-2 rounded-lg text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition-colors"
+                role="menuitem"
+              >
+                {labels.disconnect}
+              </button>
+            </>
+          ) : (
+            connectors.map((connector) => (
+              <button
+                key={connector.uid}
+                onClick={() => handleConnect(connector)}
+                className="w-full text-left px-3 py-2 rounded-lg text-gray-900 dark:text-white hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                role="menuitem"
+              >
+                {getConnectorLabel(connector, labels)}
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
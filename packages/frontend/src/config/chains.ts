@@ -0,0 +1,60 @@
+import { createPublicClient, http } from "viem";
+import { foundry, unichainSepolia, baseSepolia } from "viem/chains";
+import { getDeployment, parseLocalDeployment, type ChainDeployment } from "@unifans/shared";
+
+/**
+ * Chains UniFans can be deployed to. Anvil (foundry) is used for local development,
+ * the testnets are where Uniswap v4 and the event contracts are deployed today.
+ */
+export const supportedChains = [foundry, unichainSepolia, baseSepolia] as const;
+
+/**
+ * @type SupportedChainId
+ * @description Chain ids accepted by the wagmi config
+ */
+export type SupportedChainId = (typeof supportedChains)[number]["id"];
+
+/**
+ * Chain the app reads event data from, selected with NEXT_PUBLIC_CHAIN_ID.
+ * Falls back to the local anvil chain when the variable is missing or unknown.
+ */
+export const activeChain =
+  supportedChains.find((chain) => chain.id === Number(process.env.NEXT_PUBLIC_CHAIN_ID)) ?? foundry;
+
+/**
+ * Contracts the sandbox deployed, from deployments/local.json at the repository root.
+ * next.config.ts inlines the file, so it is null when the sandbox has not been run.
+ */
+export const localDeployment = process.env.NEXT_PUBLIC_LOCAL_DEPLOYMENT
+  ? parseLocalDeployment(process.env.NEXT_PUBLIC_LOCAL_DEPLOYMENT)
+  : null;
+
+/**
+ * Uniswap v4 contracts and events of the active chain: the sandbox deployment when it
+ * is on the active chain, the shared deployments map otherwise.
+ */
+export const activeDeployment: ChainDeployment | undefined =
+  localDeployment?.chainId === activeChain.id ? localDeployment : getDeployment(activeChain.id);
+
+/**
+ * RPC endpoint for the active chain. NEXT_PUBLIC_RPC_URL overrides the sandbox node
+ * and the chain's public RPC.
+ */
+export const activeRpcUrl =
+  process.env.NEXT_PUBLIC_RPC_URL ||
+  (localDeployment?.chainId === activeChain.id ? localDeployment.rpcUrl : undefined);
+
+/**
+ * WebSocket endpoint for the active chain, selected with NEXT_PUBLIC_WS_URL. Anvil serves
+ * WebSockets on its HTTP port, so the sandbox node is used by default on anvil. Without
+ * one, live updates poll the RPC endpoint instead of subscribing.
+ */
+export const activeWsUrl =
+  process.env.NEXT_PUBLIC_WS_URL ||
+  (localDeployment?.chainId === activeChain.id ? localDeployment.rpcUrl.replace(/^http/, "ws") : undefined);
+
+/**
+ * Client of the active chain for server rendering, e.g. page metadata and share images.
+ * Kept apart from the wagmi config, which only loads in client components.
+ */
+export const serverClient = createPublicClient({ chain: activeChain, transport: http(activeRpcUrl) });
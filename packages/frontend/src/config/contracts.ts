@@ -0,0 +1,17 @@
+import { zeroAddress, type Address } from "viem";
+import { activeDeployment } from "./chains";
+
+/**
+ * PoolSwapTest router used to execute swaps on the active chain. Comes from the sandbox
+ * or shared deployments, NEXT_PUBLIC_SWAP_ROUTER_ADDRESS overrides it.
+ */
+export const swapRouterAddress: Address =
+  (process.env.NEXT_PUBLIC_SWAP_ROUTER_ADDRESS as Address | undefined) || (activeDeployment?.swapRouter ?? zeroAddress);
+
+/**
+ * Uniswap v4 PoolManager event pools are initialized in by the launch wizard. Comes from the
+ * sandbox or shared deployments, NEXT_PUBLIC_POOL_MANAGER_ADDRESS overrides it.
+ */
+export const poolManagerAddress: Address =
+  (process.env.NEXT_PUBLIC_POOL_MANAGER_ADDRESS as Address | undefined) ||
+  (activeDeployment?.poolManager ?? zeroAddress);
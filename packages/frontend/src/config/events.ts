@@ -0,0 +1,132 @@
+import { getAddress, isAddress, zeroAddress, type Address } from "viem";
+import { activeDeployment } from "./chains";
+
+/**
+ * @interface EventMetadata
+ * @description Off-chain details of an event that are not stored in EventToken
+ */
+export interface EventMetadata {
+  /** Address of the deployed EventToken */
+  tokenAddress: Address;
+  /** Venue and city where the event takes place, empty when unknown */
+  location: string;
+  /** Name of the promoter running the event, empty when the event is not curated */
+  promoter: string;
+  /** Short pitch shown in the event hero */
+  description: string;
+  /** Tokens fans must hold before the event is confirmed */
+  minInterest: number;
+  /** LP fee of the event pool in hundredths of a bip (3000 = 0.3%) */
+  poolFee: number;
+  /** Tick spacing of the event pool */
+  tickSpacing: number;
+  /** Block the EventToken was deployed at, where log scans start */
+  startBlock: bigint;
+}
+
+/** LP fee of event pools created by the launch wizard, in hundredths of a bip */
+export const EVENT_POOL_FEE = 3000;
+
+/** Tick spacing of event pools created by the launch wizard */
+export const EVENT_TICK_SPACING = 60;
+
+/**
+ * Metadata of events nobody has described off-chain. Pool parameters match the
+ * ones the launch wizard uses, the interest threshold is half of the supply fans can buy.
+ */
+const defaultEventMetadata: Omit<EventMetadata, "tokenAddress"> = {
+  location: "",
+  promoter: "",
+  description: "",
+  minInterest: 300_000_000,
+  poolFee: EVENT_POOL_FEE,
+  tickSpacing: EVENT_TICK_SPACING,
+  startBlock: 0n,
+};
+
+/** First event of the active chain's deployment, featured when no token address is configured */
+const firstDeployedEvent = activeDeployment?.events[0];
+
+/**
+ * Event featured on the home page. The token address comes from
+ * NEXT_PUBLIC_EVENT_TOKEN_ADDRESS so a new event can go live without code changes,
+ * and defaults to the first deployed event, like the sandbox's.
+ */
+export const featuredEvent: EventMetadata = {
+  tokenAddress:
+    (process.env.NEXT_PUBLIC_EVENT_TOKEN_ADDRESS as Address | undefined) ||
+    (firstDeployedEvent?.eventToken ?? zeroAddress),
+  location: "Azteca Stadium, Mexico City",
+  promoter: "Páramo Presenta",
+  description:
+    "A magical night with Taylor Swift on her most anticipated world tour. Be part of history by buying event tokens and join the most passionate fan community in the world.",
+  minInterest: 500_000_000,
+  poolFee: 3000,
+  tickSpacing: 60,
+  startBlock: BigInt(
+    process.env.NEXT_PUBLIC_EVENT_START_BLOCK ||
+      (!process.env.NEXT_PUBLIC_EVENT_TOKEN_ADDRESS && firstDeployedEvent ? firstDeployedEvent.startBlock : 0)
+  ),
+};
+
+/**
+ * @function parseAddressList
+ * @description Parses a comma separated list of addresses, skipping invalid entries
+ * @param {string} value - Raw list
+ * @returns {Address[]} Checksummed addresses
+ */
+function parseAddressList(value: string): Address[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => isAddress(entry))
+    .map((entry) => getAddress(entry));
+}
+
+/**
+ * Events listed on /events: the featured event, the EventTokens in
+ * NEXT_PUBLIC_EVENT_TOKEN_ADDRESSES and the events of the active chain's sandbox or
+ * shared deployment. The first entry for an address wins.
+ */
+export const listedEvents: readonly EventMetadata[] = [
+  ...(featuredEvent.tokenAddress !== zeroAddress ? [featuredEvent] : []),
+  ...parseAddressList(process.env.NEXT_PUBLIC_EVENT_TOKEN_ADDRESSES ?? "").map((tokenAddress) => ({
+    ...defaultEventMetadata,
+    tokenAddress,
+  })),
+  ...(activeDeployment?.events ?? []).map((event) => ({
+    ...defaultEventMetadata,
+    tokenAddress: event.eventToken,
+    poolFee: event.fee,
+    tickSpacing: event.tickSpacing,
+    startBlock: event.startBlock,
+  })),
+].filter(
+  (event, index, all) =>
+    all.findIndex((other) => other.tokenAddress.toLowerCase() === event.tokenAddress.toLowerCase()) === index
+);
+
+/**
+ * @function getEventMetadata
+ * @description Looks up the off-chain metadata of an event
+ * @param {Address} tokenAddress - EventToken address
+ * @returns {EventMetadata} Listed metadata, or defaults for EventTokens that are not listed
+ */
+export function getEventMetadata(tokenAddress: Address): EventMetadata {
+  return (
+    listedEvents.find((event) => event.tokenAddress.toLowerCase() === tokenAddress.toLowerCase()) ?? {
+      ...defaultEventMetadata,
+      tokenAddress,
+    }
+  );
+}
+
+/**
+ * @function getEventPath
+ * @description Route of an event page
+ * @param {Address} tokenAddress - EventToken address
+ * @returns {string} Path like /events/0x…
+ */
+export function getEventPath(tokenAddress: Address): string {
+  return `/events/${tokenAddress}`;
+}
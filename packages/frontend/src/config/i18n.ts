@@ -0,0 +1,95 @@
+/**
+ * Locales the app is translated into, the first path segment of every page
+ */
+export const locales = ["en", "es-MX"] as const;
+
+/**
+ * @type Locale
+ * @description Locale of a page, taken from its URL
+ */
+export type Locale = (typeof locales)[number];
+
+/** Locale used when the browser asks for none of the supported ones */
+export const defaultLocale: Locale = "en";
+
+/** Cookie remembering the locale the visitor last picked */
+export const LOCALE_COOKIE = "NEXT_LOCALE";
+
+/** Name of each locale in its own language, for the language switcher */
+export const localeNames: Record<Locale, string> = {
+  en: "English",
+  "es-MX": "Español (México)",
+};
+
+/** BCP 47 tag used by Intl number and date formatting */
+export const intlLocales: Record<Locale, string> = {
+  en: "en-US",
+  "es-MX": "es-MX",
+};
+
+/** Open Graph locale of each page locale */
+export const openGraphLocales: Record<Locale, string> = {
+  en: "en_US",
+  "es-MX": "es_MX",
+};
+
+/**
+ * @function isLocale
+ * @description Checks whether a path segment is a supported locale
+ * @param {string} value - Path segment or cookie value
+ * @returns {boolean} True for a supported locale
+ */
+export function isLocale(value: string): value is Locale {
+  return (locales as readonly string[]).includes(value);
+}
+
+/**
+ * @function matchLocale
+ * @description Picks the supported locale closest to an Accept-Language header.
+ * Any Spanish variant gets es-MX, since most of the audience is Latin American.
+ * @param {string | null} acceptLanguage - Accept-Language header
+ * @returns {Locale} Best supported locale, the default one when nothing matches
+ */
+export function matchLocale(acceptLanguage: string | null): Locale {
+  const requested = (acceptLanguage ?? "")
+    .split(",")
+    .map((entry) => {
+      const [tag, ...params] = entry.trim().split(";");
+      const quality = params.find((param) => param.trim().startsWith("q="));
+      return { tag: tag.toLowerCase(), quality: quality ? Number(quality.trim().slice(2)) : 1 };
+    })
+    .filter(({ tag, quality }) => tag !== "" && quality > 0)
+    .sort((a, b) => b.quality - a.quality);
+
+  for (const { tag } of requested) {
+    const exact = locales.find((locale) => locale.toLowerCase() === tag);
+    if (exact) return exact;
+    const language = tag.split("-")[0];
+    const sameLanguage = locales.find((locale) => locale.toLowerCase().split("-")[0] === language);
+    if (sameLanguage) return sameLanguage;
+  }
+
+  return defaultLocale;
+}
+
+/**
+ * @function getLocalePath
+ * @description Prefixes an app path with a locale
+ * @param {Locale} locale - Locale of the page
+ * @param {string} path - Path without locale, like /events
+ * @returns {string} Path like /es-MX/events
+ */
+export function getLocalePath(locale: Locale, path: string): string {
+  return path === "/" ? `/${locale}` : `/${locale}${path}`;
+}
+
+/**
+ * @function stripLocale
+ * @description Removes the locale segment from a pathname
+ * @param {string} pathname - Pathname like /es-MX/events
+ * @returns {string} Path without locale, like /events
+ */
+export function stripLocale(pathname: string): string {
+  const [, first, ...rest] = pathname.split("/");
+  return isLocale(first) ? `/${rest.join("/")}` : pathname;
+}
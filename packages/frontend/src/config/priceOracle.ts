@@ -0,0 +1,45 @@
+import { getAddress, isAddress, type Client } from "viem";
+import { createChainlinkOracle, createStaticOracle, type PriceFeeds, type PriceOracle } from "../lib/priceOracle";
+import fiatRates from "./fiatRates.json";
+
+/**
+ * Adapter converting backing asset amounts into fiat: "chainlink" when
+ * NEXT_PUBLIC_PRICE_ORACLE says so, else the static rates of fiatRates.json
+ */
+export const priceOracleSource = process.env.NEXT_PUBLIC_PRICE_ORACLE === "chainlink" ? "chainlink" : "static";
+
+/**
+ * @function parsePriceFeeds
+ * @description Parses a comma separated list of PAIR=feed entries, skipping invalid ones
+ * @param {string} value - Raw list, like "0xAsset/USD=0xFeed,MXN/USD=0xFeed"
+ * @returns {PriceFeeds} Feed address of each pair, asset addresses lower-cased and currencies upper-cased
+ */
+function parsePriceFeeds(value: string): PriceFeeds {
+  const feeds: PriceFeeds = {};
+  for (const entry of value.split(",")) {
+    const [pair, feed] = entry.split("=").map((part) => part.trim());
+    const [base, quote] = pair?.split("/") ?? [];
+    if (!base || !quote || !feed || !isAddress(feed)) continue;
+    const key = isAddress(base) ? base.toLowerCase() : base.toUpperCase();
+    feeds[`${key}/${quote.toUpperCase()}`] = getAddress(feed);
+  }
+  return feeds;
+}
+
+/**
+ * Chainlink-style feeds of the active chain, from NEXT_PUBLIC_PRICE_FEEDS
+ */
+export const priceFeeds = parsePriceFeeds(process.env.NEXT_PUBLIC_PRICE_FEEDS ?? "");
+
+/** Static adapter, shared since its table never changes */
+const staticOracle = createStaticOracle(fiatRates);
+
+/**
+ * @function getPriceOracle
+ * @description Price oracle picked by NEXT_PUBLIC_PRICE_ORACLE
+ * @param {Client} client - Client of the active chain, where the feeds are read
+ * @returns {PriceOracle} Configured price oracle
+ */
+export function getPriceOracle(client: Client): PriceOracle {
+  return priceOracleSource === "chainlink" ? createChainlinkOracle(client, priceFeeds) : staticOracle;
+}
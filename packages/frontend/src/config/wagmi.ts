@@ -0,0 +1,62 @@
+import { http, createConfig, fallback, injected, mock, webSocket, type Transport } from "wagmi";
+import { foundry, unichainSepolia, baseSepolia } from "wagmi/chains";
+import type { Hash } from "viem";
+import { activeChain, activeRpcUrl, activeWsUrl, supportedChains, type SupportedChainId } from "./chains";
+
+export { activeChain, supportedChains, type SupportedChainId } from "./chains";
+
+/**
+ * @function getExplorerTxUrl
+ * @description Block explorer page of a transaction on the active chain
+ * @param {Hash} hash - Transaction hash
+ * @returns {string | null} Explorer URL, null when the chain has no explorer (anvil)
+ */
+export function getExplorerTxUrl(hash: Hash): string | null {
+  const explorerUrl = activeChain.blockExplorers?.default.url;
+  return explorerUrl ? `${explorerUrl}/tx/${hash}` : null;
+}
+
+/** First funded anvil account. Anvil keeps it unlocked, so the mock connector can send as it. */
+const ANVIL_DEV_ACCOUNT = "0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266";
+
+/**
+ * Whether the mock connector is offered. It is always on for anvil and can be
+ * enabled elsewhere with NEXT_PUBLIC_ENABLE_MOCK_CONNECTOR=true.
+ */
+export const isMockConnectorEnabled =
+  activeChain.id === foundry.id || process.env.NEXT_PUBLIC_ENABLE_MOCK_CONNECTOR === "true";
+
+/**
+ * @function getTransport
+ * @description Transport of a supported chain. The active chain uses the configured endpoints,
+ * with a WebSocket first when there is one so contract events are pushed rather than polled.
+ * @param {SupportedChainId} chainId - Chain to connect to
+ * @returns {Transport} Transport for the wagmi config
+ */
+function getTransport(chainId: SupportedChainId): Transport {
+  if (chainId !== activeChain.id) return http();
+  return activeWsUrl ? fallback([webSocket(activeWsUrl), http(activeRpcUrl)]) : http(activeRpcUrl);
+}
+
+/**
+ * Wagmi configuration shared by every client component through the Providers wrapper
+ */
+export const wagmiConfig = createConfig({
+  chains: supportedChains,
+  connectors: [
+    injected(),
+    ...(isMockConnectorEnabled ? [mock({ accounts: [ANVIL_DEV_ACCOUNT], features: { reconnect: true } })] : []),
+  ],
+  ssr: true,
+  transports: {
+    [foundry.id]: getTransport(foundry.id),
+    [unichainSepolia.id]: getTransport(unichainSepolia.id),
+    [baseSepolia.id]: getTransport(baseSepolia.id),
+  },
+});
+
+declare module "wagmi" {
+  interface Register {
+    config: typeof wagmiConfig;
+  }
+}
@@ -0,0 +1,77 @@
+"use client";
+
+import { useCallback } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { getPoolId } from "@unifans/shared";
+import { activeChain } from "../config/wagmi";
+import { fetchTrades, type Trade } from "../lib/activity";
+import type { EventData } from "../types/event";
+
+/** Trades shown per page of the activity feed, and wanted per read */
+export const ACTIVITY_PAGE_SIZE = 10;
+
+/**
+ * @interface UseActivityResult
+ * @description Return value of the useActivity hook
+ */
+export interface UseActivityResult {
+  /** Trades read so far, newest first */
+  trades: Trade[];
+  /** Whether older trades are left to read */
+  hasMore: boolean;
+  /** Reads the next batch of older trades */
+  loadMore: () => void;
+  /** Whether the first trades are still being read */
+  isLoading: boolean;
+  /** Whether older trades are being read */
+  isLoadingMore: boolean;
+  /** Error raised while reading the logs */
+  error: Error | null;
+}
+
+/**
+ * @hook useActivity
+ * @description Reads the trades of an event pool from PoolManager Swap events, newest first
+ *
+ * Trades are read back from the latest block a batch at a time; useLiveEvent adds new
+ * swaps to the top as they happen.
+ *
+ * @param {EventData} event - Event whose pool to read
+ * @returns {UseActivityResult} Trades with paging, loading and error state
+ */
+export function useActivity(event: EventData): UseActivityResult {
+  const client = usePublicClient({ chainId: activeChain.id });
+  const { poolKey, poolManager, backingAsset } = event;
+  const poolId = poolKey ? getPoolId(poolKey) : null;
+
+  const query = useInfiniteQuery({
+    queryKey: ["activity", activeChain.id, poolId],
+    queryFn: ({ pageParam }) =>
+      fetchTrades(client!, {
+        tokenAddress: event.tokenAddress,
+        poolManager: poolManager!,
+        poolId: poolId!,
+        organizer: event.organizer,
+        tokenIsCurrency0: poolKey!.currency0 === event.tokenAddress,
+        backingDecimals: backingAsset!.decimals,
+        startBlock: event.startBlock,
+        toBlock: pageParam,
+        count: ACTIVITY_PAGE_SIZE,
+      }),
+    initialPageParam: null as bigint | null,
+    getNextPageParam: (lastPage) => lastPage.nextBlock,
+    enabled: client !== undefined && poolId !== null && poolManager !== null && backingAsset !== null,
+  });
+  const { fetchNextPage } = query;
+  const loadMore = useCallback(() => void fetchNextPage(), [fetchNextPage]);
+
+  return {
+    trades: query.data?.pages.flatMap((page) => page.trades) ?? [],
+    hasMore: query.hasNextPage,
+    loadMore,
+    isLoading: query.isLoading,
+    isLoadingMore: query.isFetchingNextPage,
+    error: query.error,
+  };
+}
@@ -0,0 +1,21 @@
+"use client";
+
+import { useSyncExternalStore } from "react";
+import {
+  DEFAULT_DISPLAY_CURRENCY,
+  readDisplayCurrency,
+  subscribeDisplayCurrency,
+  writeDisplayCurrency,
+  type DisplayCurrency,
+} from "../lib/displayCurrency";
+
+/**
+ * @hook useDisplayCurrency
+ * @description Currency picked for amounts, saved in localStorage and shared by every
+ * component and tab. The default is used while rendering on the server.
+ * @returns {{ currency: DisplayCurrency, setCurrency: (currency: DisplayCurrency) => void }} Current currency and a setter
+ */
+export function useDisplayCurrency() {
+  const currency = useSyncExternalStore<DisplayCurrency>(subscribeDisplayCurrency, readDisplayCurrency, () => DEFAULT_DISPLAY_CURRENCY);
+  return { currency, setCurrency: writeDisplayCurrency };
+}
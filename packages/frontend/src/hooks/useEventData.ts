@@ -0,0 +1,53 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { isAddress, zeroAddress } from "viem";
+import { activeChain } from "../config/wagmi";
+import { fetchEventData } from "../lib/events";
+import type { EventMetadata } from "../config/events";
+import type { EventData } from "../types/event";
+
+/**
+ * @interface UseEventDataResult
+ * @description Return value of the useEventData hook
+ */
+export interface UseEventDataResult {
+  /** Event data, undefined while loading or after an error */
+  data: EventData | undefined;
+  /** Whether the contract reads are still pending */
+  isLoading: boolean;
+  /** Error raised by the contract reads */
+  error: Error | null;
+  /** Re-runs every contract read */
+  refetch: () => void;
+}
+
+/**
+ * @hook useEventData
+ * @description Reads an event from its EventToken and EventCoinSimpleHook contracts,
+ * see fetchEventData for the reads
+ *
+ * @param {EventMetadata} metadata - Off-chain metadata of the event to load
+ * @returns {UseEventDataResult} Event data with loading and error state
+ */
+export function useEventData(metadata: EventMetadata): UseEventDataResult {
+  const client = usePublicClient({ chainId: activeChain.id });
+  const { tokenAddress } = metadata;
+  const hasToken = isAddress(tokenAddress) && tokenAddress !== zeroAddress;
+
+  const query = useQuery({
+    queryKey: ["eventData", activeChain.id, tokenAddress, metadata.poolFee, metadata.tickSpacing],
+    queryFn: () => fetchEventData(client!, metadata),
+    enabled: client !== undefined && hasToken,
+  });
+
+  const error = hasToken ? query.error : new Error("The zero address is not an EventToken.");
+
+  return {
+    data: query.data,
+    isLoading: hasToken && !error && !query.data,
+    error,
+    refetch: () => void query.refetch(),
+  };
+}
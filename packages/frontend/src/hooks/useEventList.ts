@@ -0,0 +1,52 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { activeChain } from "../config/wagmi";
+import { fetchEventSummaries, type EventSummary } from "../lib/events";
+import type { EventMetadata } from "../config/events";
+
+/**
+ * @interface UseEventListResult
+ * @description Return value of the useEventList hook
+ */
+export interface UseEventListResult {
+  /** One summary per event, in the order of the metadata list */
+  events: EventSummary[];
+  /** Whether the contract reads are still pending */
+  isLoading: boolean;
+}
+
+/**
+ * @hook useEventList
+ * @description Reads name, symbol and date of every listed event
+ *
+ * Reads are allowed to fail one by one, so a wrong address in the list only
+ * blanks its own card. Until they are done every card shows its metadata only.
+ *
+ * @param {readonly EventMetadata[]} metadata - Events to summarize
+ * @returns {UseEventListResult} Event summaries with loading state
+ */
+export function useEventList(metadata: readonly EventMetadata[]): UseEventListResult {
+  const client = usePublicClient({ chainId: activeChain.id });
+
+  const query = useQuery({
+    queryKey: ["eventList", activeChain.id, ...metadata.map((event) => event.tokenAddress)],
+    queryFn: () => fetchEventSummaries(client!, metadata),
+    enabled: client !== undefined && metadata.length > 0,
+  });
+
+  return {
+    events:
+      query.data ??
+      metadata.map((event) => ({
+        tokenAddress: event.tokenAddress,
+        location: event.location,
+        promoter: event.promoter,
+        name: null,
+        tokenSymbol: null,
+        eventDate: null,
+      })),
+    isLoading: query.isLoading,
+  };
+}
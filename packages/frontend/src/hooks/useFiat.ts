@@ -0,0 +1,75 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import type { BackingAssetInfo } from "@unifans/shared";
+import { useDisplayCurrency } from "./useDisplayCurrency";
+import { useI18n } from "./useI18n";
+import { activeChain } from "../config/wagmi";
+import { getPriceOracle, priceOracleSource } from "../config/priceOracle";
+import { formatDate, formatFiat } from "../lib/format";
+import type { FiatCurrency, FiatRate } from "../lib/priceOracle";
+
+/** How long a fetched rate is reused before it is read again, in milliseconds */
+const RATE_STALE_MS = 60_000;
+
+/**
+ * @interface UseFiatResult
+ * @description Return value of the useFiat hook
+ */
+export interface UseFiatResult {
+  /** Fiat currency picked by the user, null when amounts stay in the backing asset */
+  currency: FiatCurrency | null;
+  /** Rate of the backing asset in that currency, null when there is none */
+  rate: FiatRate | null;
+  /** Whether a currency is picked but the oracle has no rate for the backing asset */
+  isUnavailable: boolean;
+  /** Where the rate comes from and when it was updated, for a tooltip */
+  rateSource: string | null;
+  /**
+   * Formats a backing asset amount in the picked currency, like "≈ MX$14.62".
+   * Returns null when no currency is picked or there is no rate.
+   */
+  toFiat: (amount: number) => string | null;
+}
+
+/**
+ * @hook useFiat
+ * @description Converts amounts of an event's backing asset into the fiat currency picked
+ * in the currency selector, with the rate of the configured price oracle
+ *
+ * @param {BackingAssetInfo | null} backingAsset - Backing asset of the event, null while loading
+ * @returns {UseFiatResult} Picked currency, its rate and a formatter
+ */
+export function useFiat(backingAsset: BackingAssetInfo | null): UseFiatResult {
+  const client = usePublicClient({ chainId: activeChain.id });
+  const { currency: displayCurrency } = useDisplayCurrency();
+  const { locale, messages, t } = useI18n();
+  const currency = displayCurrency === "backing" ? null : displayCurrency;
+
+  const query = useQuery({
+    queryKey: ["fiatRate", priceOracleSource, activeChain.id, backingAsset?.address, currency],
+    queryFn: () => getPriceOracle(client!).getRate(backingAsset!, currency!),
+    enabled: client !== undefined && backingAsset !== null && currency !== null,
+    staleTime: RATE_STALE_MS,
+  });
+
+  const rate = currency !== null ? (query.data ?? null) : null;
+
+  return {
+    currency,
+    rate,
+    isUnavailable: currency !== null && backingAsset !== null && !query.isLoading && rate === null,
+    rateSource:
+      rate !== null
+        ? t(messages.currency.rateSource, {
+            source: messages.currency.sources[priceOracleSource],
+            date: formatDate(rate.updatedAt, locale),
+          })
+        : null,
+    toFiat: (amount) =>
+      currency !== null && rate !== null
+        ? t(messages.currency.approximate, { amount: formatFiat(amount * rate.rate, currency, locale) })
+        : null,
+  };
+}
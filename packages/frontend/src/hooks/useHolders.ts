@@ -0,0 +1,64 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import type { Address } from "viem";
+import { activeChain } from "../config/wagmi";
+import { fetchHolders, type HolderBalance } from "../lib/holders";
+import type { EventData } from "../types/event";
+
+/** Number of holders shown on the leaderboard */
+export const LEADERBOARD_SIZE = 10;
+
+/**
+ * @interface UseHoldersResult
+ * @description Return value of the useHolders hook
+ */
+export interface UseHoldersResult {
+  /** Number of fans holding the event token, null while loading */
+  holderCount: number | null;
+  /** Largest holders, biggest balance first */
+  topHolders: HolderBalance[];
+  /** Whether the logs are still being read */
+  isLoading: boolean;
+  /** Error raised while reading the logs */
+  error: Error | null;
+}
+
+/**
+ * @hook useHolders
+ * @description Counts event token holders and ranks the largest ones from EventToken Transfer events
+ *
+ * The hook and the PoolManager hold the pool's liquidity, not fans' tokens, so they
+ * are not counted. Logs are read once; useLiveEvent applies new transfers to the
+ * snapshot as they happen.
+ *
+ * @param {EventData | undefined} event - Event whose token holders to read, undefined while it loads
+ * @returns {UseHoldersResult} Holder count and leaderboard with loading and error state
+ */
+export function useHolders(event: EventData | undefined): UseHoldersResult {
+  const client = usePublicClient({ chainId: activeChain.id });
+  const excluded = [event?.hookAddress ?? null, event?.poolManager ?? null].filter(
+    (address): address is Address => address !== null
+  );
+
+  const query = useQuery({
+    queryKey: ["holders", activeChain.id, event?.tokenAddress, ...excluded],
+    queryFn: () =>
+      fetchHolders(client!, {
+        tokenAddress: event!.tokenAddress,
+        excluded,
+        startBlock: event!.startBlock,
+        limit: LEADERBOARD_SIZE,
+      }),
+    enabled: client !== undefined && event !== undefined,
+    placeholderData: (previous) => previous,
+  });
+
+  return {
+    holderCount: query.data?.holderCount ?? null,
+    topHolders: query.data?.topHolders ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -0,0 +1,47 @@
+"use client";
+
+import { Fragment, createElement, useContext, type ReactNode } from "react";
+import { LocaleContext } from "../components/LocaleProvider";
+import { getLocalePath, type Locale } from "../config/i18n";
+import { catalogs, interpolate, type Messages } from "../messages";
+
+/**
+ * @interface I18n
+ * @description Return value of the useI18n hook
+ */
+export interface I18n {
+  /** Locale of the page */
+  locale: Locale;
+  /** Message catalog of the locale */
+  messages: Messages;
+  /** Fills the {name} placeholders of a message */
+  t: (template: string, values?: Record<string, string | number>) => string;
+  /** Fills the {name} placeholders of a message with elements, for messages with emphasis or links */
+  rich: (template: string, values: Record<string, ReactNode>) => ReactNode;
+  /** Prefixes an app path with the locale of the page */
+  localize: (path: string) => string;
+}
+
+/**
+ * @hook useI18n
+ * @description Messages and locale of the page from the nearest LocaleProvider
+ * @returns {I18n} Locale, messages and helpers to fill them in
+ */
+export function useI18n(): I18n {
+  const locale = useContext(LocaleContext);
+  if (!locale) throw new Error("useI18n must be used inside a LocaleProvider");
+
+  return {
+    locale,
+    messages: catalogs[locale],
+    t: (template, values = {}) => interpolate(template, values),
+    rich: (template, values) =>
+      createElement(
+        Fragment,
+        null,
+        // Odd parts of the split are placeholder names
+        ...template.split(/\{(\w+)\}/g).map((part, index) => (index % 2 === 1 ? (values[part] ?? `{${part}}`) : part))
+      ),
+    localize: (path) => getLocalePath(locale, path),
+  };
+}
@@ -0,0 +1,319 @@
+"use client";
+
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useAccount, useConfig, usePublicClient } from "wagmi";
+import {
+  call,
+  deployContract,
+  readContract,
+  sendTransaction,
+  simulateContract,
+  writeContract,
+} from "wagmi/actions";
+import { concat, encodeDeployData, erc20Abi, zeroAddress, type Address, type ContractFunctionArgs, type Hash } from "viem";
+import {
+  CREATE2_DEPLOYER,
+  eventCoinSimpleHookAbi,
+  eventTokenAbi,
+  eventTokenBytecode,
+  poolManagerAbi,
+} from "@unifans/shared";
+import { poolManagerAddress } from "../config/contracts";
+import { EVENT_POOL_FEE, EVENT_TICK_SPACING } from "../config/events";
+import { activeChain } from "../config/wagmi";
+import { shortenAddress } from "../lib/format";
+import {
+  getHookInitCode,
+  getInitialSqrtPriceX96,
+  readLaunchProgress,
+  type LaunchProgress,
+} from "../lib/launch";
+import { useI18n } from "./useI18n";
+import { useNotify } from "./useNotify";
+import type { TransactionMessages } from "../components/NotificationProvider";
+
+/**
+ * @type LaunchStatus
+ * @description Part of a launch transaction currently in progress
+ */
+export type LaunchStatus = "idle" | "approving" | "signing" | "confirming";
+
+/**
+ * @interface EventTokenInput
+ * @description Constructor arguments of a new EventToken
+ */
+export interface EventTokenInput {
+  eventName: string;
+  symbol: string;
+  /** Event date as a unix timestamp in seconds, must be in the future */
+  eventDate: bigint;
+}
+
+/**
+ * @interface UseLaunchParams
+ * @description Launch the hook reads and advances
+ */
+export interface UseLaunchParams {
+  /** EventToken being launched, null before it is deployed */
+  tokenAddress: Address | null;
+  /** Backing asset picked by the organizer */
+  backingAsset: Address | null;
+}
+
+/**
+ * @hook useLaunch
+ * @description Reads the progress of an event launch from the chain and sends the transaction of each step
+ *
+ * Every action is simulated first, so reverts are reported before anything is signed.
+ * It then waits for its receipt behind a transaction notification, throws if it
+ * reverted and then re-reads the progress, so the wizard always shows the step the
+ * chain is actually at.
+ *
+ * @param {UseLaunchParams} params - Launch to follow
+ * @returns Launch progress with loading and error state, step actions and transaction status
+ */
+export function useLaunch({ tokenAddress, backingAsset }: UseLaunchParams) {
+  const config = useConfig();
+  const client = usePublicClient({ chainId: activeChain.id });
+  const { address: account } = useAccount();
+  const [status, setStatus] = useState<LaunchStatus>("idle");
+  const { trackTransaction } = useNotify();
+  const { messages, t } = useI18n();
+  const text = messages.launch;
+
+  const query = useQuery({
+    queryKey: ["launch", activeChain.id, tokenAddress, backingAsset],
+    queryFn: () =>
+      readLaunchProgress(client!, {
+        tokenAddress,
+        backingAsset,
+        poolManager: poolManagerAddress,
+        fee: EVENT_POOL_FEE,
+        tickSpacing: EVENT_TICK_SPACING,
+      }),
+    enabled: client !== undefined && poolManagerAddress !== zeroAddress,
+  });
+
+  /**
+   * @function confirm
+   * @description Waits for a launch transaction and re-reads the launch progress
+   * @param {Hash} hash - Transaction hash
+   * @param {TransactionMessages} messages - Notification messages of the transaction
+   * @returns Confirmed receipt
+   */
+  const confirm = async (hash: Hash, messages: TransactionMessages) => {
+    setStatus("confirming");
+    const receipt = await trackTransaction(hash, { error: text.reverted, ...messages });
+    await query.refetch();
+    return receipt;
+  };
+
+  /**
+   * @function run
+   * @description Runs a launch action, resetting the status once it settles
+   * @param {Function} action - Action to run
+   * @returns Result of the action
+   */
+  const run = async <T>(action: (progress: LaunchProgress, account: Address) => Promise<T>): Promise<T> => {
+    if (!account) throw new Error(text.connectWallet);
+    if (!query.data) throw new Error(text.stillLoading);
+    try {
+      return await action(query.data, account);
+    } finally {
+      setStatus("idle");
+    }
+  };
+
+  /**
+   * @function deployToken
+   * @description Deploys the EventToken with the connected account as organizer
+   * @param {EventTokenInput} input - Event name, symbol and date
+   * @returns {Promise<Address>} Address of the new EventToken
+   */
+  const deployToken = (input: EventTokenInput): Promise<Address> =>
+    run(async (_progress, account) => {
+      const deployment = {
+        abi: eventTokenAbi,
+        bytecode: eventTokenBytecode,
+        args: [input.eventName, input.symbol, input.eventDate, account],
+      } as const;
+      // Runs the constructor without sending anything, so its require checks are reported first
+      await call(config, { account, data: encodeDeployData(deployment), chainId: activeChain.id });
+
+      setStatus("signing");
+      const hash = await deployContract(config, { ...deployment, chainId: activeChain.id });
+      const receipt = await confirm(hash, {
+        pending: t(text.creatingToken, { symbol: input.symbol }),
+        success: ({ contractAddress }) =>
+          contractAddress
+            ? t(text.tokenCreatedAt, { symbol: input.symbol, address: shortenAddress(contractAddress) })
+            : t(text.tokenCreated, { symbol: input.symbol }),
+      });
+      if (!receipt.contractAddress) throw new Error(text.tokenNotCreated);
+      return receipt.contractAddress;
+    });
+
+  /**
+   * @function deployHook
+   * @description Deploys the EventCoinSimpleHook through the CREATE2 deployer at its mined, flag-valid address
+   */
+  const deployHook = (): Promise<void> =>
+    run(async (progress, account) => {
+      if (!tokenAddress || !progress.organizer || !progress.backingAsset || !progress.hookSalt) {
+        throw new Error(text.pickBackingFirst);
+      }
+      const initCode = getHookInitCode(poolManagerAddress, progress.organizer, tokenAddress, progress.backingAsset);
+      const deployment = { to: CREATE2_DEPLOYER, data: concat([progress.hookSalt, initCode]) };
+      // Simulates the deployment at the mined address. The CREATE2 deployer drops the
+      // constructor's revert data, so a failure here only reports a plain revert
+      await call(config, { account, ...deployment, chainId: activeChain.id });
+
+      setStatus("signing");
+      const hash = await sendTransaction(config, { ...deployment, chainId: activeChain.id });
+      await confirm(hash, { pending: text.deployingHook, success: text.hookDeployed });
+    });
+
+  /**
+   * @function setHook
+   * @description Points the EventToken at the hook, moving the liquidity allocation to it
+   */
+  const setHook = (): Promise<void> =>
+    run(async (progress) => {
+      if (!tokenAddress || !progress.hookAddress) throw new Error(text.deployHookFirst);
+
+      setStatus("signing");
+      const { request } = await simulateContract(config, {
+        address: tokenAddress,
+        abi: eventTokenAbi,
+        functionName: "setHook",
+        args: [progress.hookAddress],
+        chainId: activeChain.id,
+      });
+      const hash = await writeContract(config, request);
+      await confirm(hash, {
+        pending: text.connectingHook,
+        success: text.hookConnected,
+      });
+    });
+
+  /**
+   * @function deposit
+   * @description Approves the hook for the backing asset when needed and deposits it
+   * @param {bigint} amount - Raw backing asset amount
+   */
+  const deposit = (amount: bigint): Promise<void> =>
+    run(async (progress, account) => {
+      const { hookAddress, backingAsset: asset } = progress;
+      if (!hookAddress || !asset) throw new Error(text.connectHookFirst);
+
+      const allowance = await readContract(config, {
+        address: asset,
+        abi: erc20Abi,
+        functionName: "allowance",
+        args: [account, hookAddress],
+        chainId: activeChain.id,
+      });
+      if (allowance < amount) {
+        setStatus("approving");
+        const { request: approveRequest } = await simulateContract(config, {
+          address: asset,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [hookAddress, amount],
+          chainId: activeChain.id,
+        });
+        const approveHash = await writeContract(config, approveRequest);
+        await trackTransaction(approveHash, {
+          pending: text.approvingBacking,
+          success: text.backingApproved,
+          error: text.backingApprovalReverted,
+        });
+      }
+
+      setStatus("signing");
+      const { request } = await simulateContract(config, {
+        address: hookAddress,
+        abi: eventCoinSimpleHookAbi,
+        functionName: "depositBackingAsset",
+        args: [amount],
+        chainId: activeChain.id,
+      });
+      const hash = await writeContract(config, request);
+      await confirm(hash, { pending: text.depositing, success: text.deposited });
+    });
+
+  /**
+   * @function initializePool
+   * @description Initializes the event pool at the price of the deposit, which makes the hook
+   * bootstrap liquidity in the same transaction
+   */
+  const initializePool = (): Promise<void> =>
+    run(async (progress) => {
+      const { poolKey, hookAddress, initialBackingAmount } = progress;
+      if (!tokenAddress || !poolKey || !hookAddress) throw new Error(text.depositFirst);
+
+      const tokenAmount = await readContract(config, {
+        address: hookAddress,
+        abi: eventCoinSimpleHookAbi,
+        functionName: "INITIAL_TOKEN_AMOUNT",
+        chainId: activeChain.id,
+      });
+
+      // Typed from the ABI so the PoolKey struct is checked against its tuple components
+      const args: ContractFunctionArgs<typeof poolManagerAbi, "nonpayable", "initialize"> = [
+        poolKey,
+        getInitialSqrtPriceX96(poolKey, tokenAddress, initialBackingAmount, tokenAmount),
+      ];
+
+      setStatus("signing");
+      const { request } = await simulateContract(config, {
+        address: poolManagerAddress,
+        abi: poolManagerAbi,
+        functionName: "initialize",
+        args,
+        chainId: activeChain.id,
+      });
+      const hash = await writeContract(config, request);
+      await confirm(hash, { pending: text.openingPool, success: text.poolOpened });
+    });
+
+  /**
+   * @function bootstrap
+   * @description Adds the initial liquidity by hand, the fallback when initializing did not bootstrap it
+   */
+  const bootstrap = (): Promise<void> =>
+    run(async (progress) => {
+      const { poolKey, hookAddress } = progress;
+      if (!poolKey || !hookAddress) throw new Error(text.openPoolFirst);
+
+      const args: ContractFunctionArgs<typeof eventCoinSimpleHookAbi, "nonpayable", "bootstrapInitialLiquidity"> = [
+        poolKey,
+      ];
+
+      setStatus("signing");
+      const { request } = await simulateContract(config, {
+        address: hookAddress,
+        abi: eventCoinSimpleHookAbi,
+        functionName: "bootstrapInitialLiquidity",
+        args,
+        chainId: activeChain.id,
+      });
+      const hash = await writeContract(config, request);
+      await confirm(hash, { pending: text.bootstrapping, success: text.bootstrapped });
+    });
+
+  return {
+    progress: query.data,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+    status,
+    deployToken,
+    deployHook,
+    setHook,
+    deposit,
+    initializePool,
+    bootstrap,
+  };
+}
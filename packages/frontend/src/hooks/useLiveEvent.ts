@@ -0,0 +1,175 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useQueryClient, type InfiniteData } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { readContractQueryKey } from "wagmi/query";
+import type { Address } from "viem";
+import { getPoolId } from "@unifans/shared";
+import { activeChain } from "../config/wagmi";
+import { LEADERBOARD_SIZE } from "./useHolders";
+import { usesSubscriptions, watchEventActivity, type WatchedBlock } from "../lib/liveEvents";
+import { mergePriceSamples, readPriceSamples, type PriceSample } from "../lib/priceHistory";
+import { prependTrades, readTrades, type TradePage } from "../lib/activity";
+import { applyHolderTransfers, type HolderSnapshot } from "../lib/holders";
+import type { BlockTimestamps } from "../lib/blockTimestamps";
+import type { EventData } from "../types/event";
+
+/**
+ * @type LiveStatus
+ * @description How the page learns about new activity
+ * - `connecting`: no block seen yet
+ * - `subscribed`: the node pushes new blocks and logs over a WebSocket
+ * - `polling`: the node is asked for them every polling interval
+ */
+export type LiveStatus = "connecting" | "subscribed" | "polling";
+
+/**
+ * @interface UseLiveEventResult
+ * @description Return value of the useLiveEvent hook
+ */
+export interface UseLiveEventResult {
+  status: LiveStatus;
+  /** Latest block seen, null before the first one */
+  latestBlock: WatchedBlock | null;
+  /** Milliseconds between polls when polling */
+  pollingInterval: number;
+  /** Error of the latest subscription or poll, cleared by the next block */
+  error: Error | null;
+}
+
+/**
+ * @hook useLiveEvent
+ * @description Keeps the queries of an event page up to date with new blocks and logs
+ *
+ * Swaps are appended to the usePriceHistory samples and the useActivity feed, and
+ * transfers applied to the useHolders snapshot, so none of them re-reads its logs.
+ * Event data (price and pre-support progress) is re-read after swaps and after
+ * transfers in or out of the hook and the PoolManager, and the useVesting read after
+ * organizer transfers.
+ *
+ * Logs are pushed over a WebSocket when the chain has one configured. If the
+ * subscription fails, the hook falls back to polling and re-reads the price history,
+ * holders and trades once, in case logs were missed in between.
+ *
+ * @param {EventData | undefined} event - Event to watch, undefined while it loads
+ * @returns {UseLiveEventResult} Connection status and latest block
+ */
+export function useLiveEvent(event: EventData | undefined): UseLiveEventResult {
+  const client = usePublicClient({ chainId: activeChain.id });
+  const queryClient = useQueryClient();
+  const [latestBlock, setLatestBlock] = useState<WatchedBlock | null>(null);
+  const [error, setError] = useState<Error | null>(null);
+  const [forcePolling, setForcePolling] = useState(false);
+
+  const tokenAddress = event?.tokenAddress;
+  const organizer = event?.organizer;
+  const hookAddress = event?.hookAddress ?? null;
+  const poolManager = event?.poolManager ?? null;
+  const poolId = event?.poolKey ? getPoolId(event.poolKey) : null;
+  const tokenIsCurrency0 = event?.poolKey?.currency0 === tokenAddress;
+  const backingDecimals = event?.backingAsset?.decimals ?? null;
+  const isPolling = forcePolling || (client !== undefined && !usesSubscriptions(client));
+
+  useEffect(() => {
+    if (!client || !tokenAddress || !organizer) return;
+
+    const timestamps: BlockTimestamps = new Map();
+    const excluded = [hookAddress, poolManager].filter((address): address is Address => address !== null);
+    const poolContracts = new Set(excluded.map((address) => address.toLowerCase()));
+    const priceHistoryKey = ["priceHistory", activeChain.id, poolId];
+    const holdersKey = ["holders", activeChain.id, tokenAddress];
+    const activityKey = ["activity", activeChain.id, poolId];
+    const refetchEvent = () => void queryClient.invalidateQueries({ queryKey: ["eventData", activeChain.id, tokenAddress] });
+    // Each batch starts from the snapshot the previous one left, so updates never overlap
+    let holderUpdates = Promise.resolve();
+
+    return watchEventActivity(
+      client,
+      { tokenAddress, poolManager, poolId },
+      {
+        onBlock: (block) => {
+          timestamps.set(block.number, block.timestamp);
+          setLatestBlock(block);
+          setError(null);
+        },
+        onSwaps: (logs) => {
+          refetchEvent();
+          if (backingDecimals === null || poolManager === null || poolId === null) return;
+          const pricing = { tokenIsCurrency0, backingDecimals };
+          readPriceSamples(client, logs, pricing, timestamps)
+            .then((samples) =>
+              queryClient.setQueriesData<PriceSample[]>({ queryKey: priceHistoryKey }, (current) =>
+                current ? mergePriceSamples(current, samples) : current
+              )
+            )
+            .catch(setError);
+          readTrades(client, logs, { ...pricing, tokenAddress, poolManager, poolId, organizer }, timestamps)
+            .then((trades) =>
+              queryClient.setQueriesData<InfiniteData<TradePage, bigint | null>>({ queryKey: activityKey }, (current) =>
+                current
+                  ? {
+                      ...current,
+                      pages: current.pages.map((page, index) =>
+                        index === 0 ? { ...page, trades: prependTrades(page.trades, trades) } : page
+                      ),
+                    }
+                  : current
+              )
+            )
+            .catch(setError);
+        },
+        onTransfers: (logs) => {
+          holderUpdates = holderUpdates
+            .then(async () => {
+              for (const [queryKey, snapshot] of queryClient.getQueriesData<HolderSnapshot>({ queryKey: holdersKey })) {
+                if (!snapshot) continue;
+                const params = { tokenAddress, excluded, limit: LEADERBOARD_SIZE };
+                queryClient.setQueryData(queryKey, await applyHolderTransfers(client, snapshot, logs, params, timestamps));
+              }
+            })
+            .catch(setError);
+
+          // Tokens leaving or entering the pool contracts move the pre-support progress
+          const touchesPool = logs.some(
+            ({ args: { from, to } }) => poolContracts.has(from?.toLowerCase() ?? "") || poolContracts.has(to?.toLowerCase() ?? "")
+          );
+          if (touchesPool) refetchEvent();
+        },
+        onOrganizerTransfers: () => {
+          refetchEvent();
+          void queryClient.invalidateQueries({
+            queryKey: readContractQueryKey({ address: tokenAddress, functionName: "getVestingInfo", chainId: activeChain.id }),
+          });
+        },
+        onError: (watchError) => {
+          setError(watchError);
+          if (forcePolling || !usesSubscriptions(client)) return;
+          setForcePolling(true);
+          void queryClient.invalidateQueries({ queryKey: priceHistoryKey });
+          void queryClient.invalidateQueries({ queryKey: holdersKey });
+          void queryClient.invalidateQueries({ queryKey: activityKey });
+        },
+      },
+      forcePolling
+    );
+  }, [
+    client,
+    queryClient,
+    tokenAddress,
+    organizer,
+    hookAddress,
+    poolManager,
+    poolId,
+    tokenIsCurrency0,
+    backingDecimals,
+    forcePolling,
+  ]);
+
+  return {
+    status: latestBlock === null ? "connecting" : isPolling ? "polling" : "subscribed",
+    latestBlock,
+    pollingInterval: client?.pollingInterval ?? 0,
+    error,
+  };
+}
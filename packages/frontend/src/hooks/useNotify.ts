@@ -0,0 +1,15 @@
+"use client";
+
+import { useContext } from "react";
+import { NotificationContext, type NotifyApi } from "../components/NotificationProvider";
+
+/**
+ * @hook useNotify
+ * @description Notification functions of the app-wide NotificationProvider
+ * @returns {NotifyApi} Functions to show, dismiss and track notifications
+ */
+export function useNotify(): NotifyApi {
+  const api = useContext(NotificationContext);
+  if (!api) throw new Error("useNotify must be used inside a NotificationProvider");
+  return api;
+}
@@ -0,0 +1,51 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import type { Address } from "viem";
+import { activeChain } from "../config/wagmi";
+import { listedEvents } from "../config/events";
+import { fetchPortfolio, type PortfolioPosition } from "../lib/portfolio";
+
+/**
+ * @interface UsePortfolioResult
+ * @description Return value of the usePortfolio hook
+ */
+export interface UsePortfolioResult {
+  /** Positions held first, then closed ones, by event date */
+  positions: PortfolioPosition[];
+  /** Listed EventTokens that couldn't be read, left out of the positions */
+  failedEvents: Address[];
+  /** Whether the positions are still being read */
+  isLoading: boolean;
+  /** Error raised while reading the chain */
+  error: Error | null;
+  /** Reads the positions again */
+  refetch: () => void;
+}
+
+/**
+ * @hook usePortfolio
+ * @description Reads an account's positions in every listed event token, with their value
+ * at the pool price and the cost basis rebuilt from the account's own transfers
+ *
+ * @param {Address | undefined} account - Account whose portfolio to read, undefined while disconnected
+ * @returns {UsePortfolioResult} Positions and unreadable events with loading and error state
+ */
+export function usePortfolio(account: Address | undefined): UsePortfolioResult {
+  const client = usePublicClient({ chainId: activeChain.id });
+
+  const query = useQuery({
+    queryKey: ["portfolio", activeChain.id, account],
+    queryFn: () => fetchPortfolio(client!, account!, listedEvents),
+    enabled: client !== undefined && account !== undefined,
+  });
+
+  return {
+    positions: query.data?.positions ?? [],
+    failedEvents: query.data?.failedEvents ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: () => void query.refetch(),
+  };
+}
@@ -0,0 +1,57 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { getPoolId } from "@unifans/shared";
+import { activeChain } from "../config/wagmi";
+import { HISTORY_WINDOW_SECONDS, fetchPriceSamples, type PriceSample } from "../lib/priceHistory";
+import type { EventData } from "../types/event";
+
+/**
+ * @interface UsePriceHistoryResult
+ * @description Return value of the usePriceHistory hook
+ */
+export interface UsePriceHistoryResult {
+  /** Pool prices of the last 30 days plus the opening price, oldest first */
+  samples: PriceSample[];
+  /** Whether the logs are still being read */
+  isLoading: boolean;
+  /** Error raised while reading the logs */
+  error: Error | null;
+}
+
+/**
+ * @hook usePriceHistory
+ * @description Reads the price history of an event pool from PoolManager events
+ *
+ * Logs are read once; useLiveEvent appends new swaps to the samples as they happen.
+ *
+ * @param {EventData} event - Event whose pool to read
+ * @returns {UsePriceHistoryResult} Price samples with loading and error state
+ */
+export function usePriceHistory(event: EventData): UsePriceHistoryResult {
+  const client = usePublicClient({ chainId: activeChain.id });
+  const { poolKey, poolManager, backingAsset } = event;
+  const poolId = poolKey ? getPoolId(poolKey) : null;
+
+  const query = useQuery({
+    queryKey: ["priceHistory", activeChain.id, poolId],
+    queryFn: () =>
+      fetchPriceSamples(client!, {
+        poolManager: poolManager!,
+        poolId: poolId!,
+        startBlock: event.startBlock,
+        tokenIsCurrency0: poolKey!.currency0 === event.tokenAddress,
+        backingDecimals: backingAsset!.decimals,
+        since: Math.floor(Date.now() / 1000) - HISTORY_WINDOW_SECONDS,
+      }),
+    enabled: client !== undefined && poolId !== null && poolManager !== null && backingAsset !== null,
+    placeholderData: (previous) => previous,
+  });
+
+  return {
+    samples: query.data ?? [],
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
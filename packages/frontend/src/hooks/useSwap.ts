@@ -0,0 +1,282 @@
+"use client";
+
+import { useState } from "react";
+import { useAccount, useConfig } from "wagmi";
+import { readContract, simulateContract, writeContract } from "wagmi/actions";
+import { erc20Abi, formatUnits, parseEventLogs, zeroAddress, type Address, type Hex } from "viem";
+import { EVENT_TOKEN_DECIMALS, decodeBalanceDelta, poolSwapTestAbi, type PoolKey } from "@unifans/shared";
+import { swapRouterAddress } from "../config/contracts";
+import { activeChain } from "../config/wagmi";
+import { useNotify } from "./useNotify";
+import { useI18n } from "./useI18n";
+import { formatBps, formatNumber } from "../lib/format";
+import { getTradeLimits, type TradeLimits, type TradeQuote } from "../lib/quote";
+import type { TradeSettings } from "../lib/tradeSettings";
+import type { EventData } from "../types/event";
+
+/**
+ * @type SwapStatus
+ * @description Step of the swap flow currently in progress
+ */
+export type SwapStatus = "idle" | "approving" | "swapping" | "confirming";
+
+/**
+ * @interface SwapResult
+ * @description Amounts actually exchanged by a confirmed swap, in raw units
+ */
+export interface SwapResult {
+  hash: Hex;
+  tokenAmount: bigint;
+  backingAmount: bigint;
+}
+
+/**
+ * @type TransferLogs
+ * @description ERC20 Transfer logs parsed from a swap receipt
+ */
+type TransferLogs = ReturnType<typeof parseEventLogs<typeof erc20Abi, true, "Transfer">>;
+
+/**
+ * @function sumTransfers
+ * @description Sums the Transfer logs of a token sent from or to an account
+ * @param {TransferLogs} logs - Parsed Transfer logs
+ * @param {Address} token - Token that emitted the logs
+ * @param {"from" | "to"} side - Whether the account is the sender or the recipient
+ * @param {Address} account - Account to match
+ * @returns {bigint} Total amount transferred
+ */
+const sumTransfers = (logs: TransferLogs, token: Address, side: "from" | "to", account: Address): bigint =>
+  logs
+    .filter(
+      (log) =>
+        log.address.toLowerCase() === token.toLowerCase() &&
+        log.args[side].toLowerCase() === account.toLowerCase()
+    )
+    .reduce((total, log) => total + log.args.value, 0n);
+
+/**
+ * @hook useSwap
+ * @description Executes Uniswap v4 swaps against an event pool through the PoolSwapTest router
+ *
+ * Each trade reads the allowance of the token being paid, approves the router when needed,
+ * submits the swap and resolves only once the swap receipt is confirmed. The approval and
+ * the swap each get their own transaction notification.
+ *
+ * PoolSwapTest takes neither a deadline nor a minimum output, so the user's settings are
+ * enforced around it: quotes older than the quote expiry are refused, the swap stops at a
+ * price limit derived from the slippage tolerance, and the simulated amounts are checked
+ * against the min-out/max-in limits before the transaction is sent. Nothing stops a sent
+ * swap from confirming late; it then fills at most up to the price limit, possibly partially.
+ *
+ * Notifications and the expiry and slippage errors are worded in the locale of the page.
+ *
+ * @param {EventData} event - Event whose pool is traded
+ * @returns {{ trade: (quote: TradeQuote, settings: TradeSettings) => Promise<SwapResult>, status: SwapStatus }} Swap action and progress
+ */
+export function useSwap(event: EventData) {
+  const config = useConfig();
+  const { address: account } = useAccount();
+  const [status, setStatus] = useState<SwapStatus>("idle");
+  const { trackTransaction } = useNotify();
+  const { locale, messages, t } = useI18n();
+  const text = messages.swap;
+
+  /**
+   * @function getMarket
+   * @description Validates that the wallet, router and pool are ready to trade
+   * @returns Connected account and pool details of the event
+   */
+  const getMarket = () => {
+    const { poolKey, poolManager, backingAsset, sqrtPriceX96, tokenAddress } = event;
+
+    if (!account) throw new Error(text.connectWallet);
+    if (swapRouterAddress === zeroAddress) throw new Error(text.routerNotConfigured);
+    if (!poolKey || !poolManager || !backingAsset || sqrtPriceX96 === 0n) {
+      throw new Error(text.poolNotLive);
+    }
+
+    return {
+      account,
+      poolKey,
+      poolManager,
+      backingAsset,
+      tokenAddress,
+      tokenIsCurrency0: poolKey.currency0 === tokenAddress,
+    };
+  };
+
+  /**
+   * @function formatAmount
+   * @description Formats a raw amount for a notification
+   * @param {bigint} amount - Raw amount
+   * @param {number} decimals - Decimals of the token
+   * @returns {string} Amount with thousand separators and at most two decimals
+   */
+  const formatAmount = (amount: bigint, decimals: number): string =>
+    formatNumber(Number(formatUnits(amount, decimals)), locale, { maximumFractionDigits: 2 });
+
+  /**
+   * @function assertQuoteFresh
+   * @description Refuses to send a trade whose quote is older than the quote expiry
+   * @param {TradeQuote} quote - Quote the user accepted
+   * @param {TradeSettings} settings - Slippage tolerance and quote expiry
+   */
+  const assertQuoteFresh = (quote: TradeQuote, settings: TradeSettings): void => {
+    if (Date.now() - quote.quotedAt > settings.quoteExpiryMinutes * 60_000) {
+      throw new Error(t(text.quoteExpired, { minutes: settings.quoteExpiryMinutes }));
+    }
+  };
+
+  /**
+   * @function ensureAllowance
+   * @description Approves the swap router for an amount of a token if the current allowance is lower
+   * @param {Address} token - Token the router will pull
+   * @param {string} symbol - Symbol of the token, for the notification
+   * @param {Address} owner - Account paying the token
+   * @param {bigint} amount - Raw amount the router must be able to pull
+   */
+  const ensureAllowance = async (token: Address, symbol: string, owner: Address, amount: bigint): Promise<void> => {
+    const allowance = await readContract(config, {
+      address: token,
+      abi: erc20Abi,
+      functionName: "allowance",
+      args: [owner, swapRouterAddress],
+      chainId: activeChain.id,
+    });
+
+    if (allowance >= amount) return;
+
+    setStatus("approving");
+    const { request } = await simulateContract(config, {
+      address: token,
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [swapRouterAddress, amount],
+      chainId: activeChain.id,
+    });
+    const hash = await writeContract(config, request);
+    await trackTransaction(hash, {
+      pending: t(text.approving, { symbol }),
+      success: t(text.approved, { symbol }),
+      error: t(text.approvalReverted, { symbol }),
+    });
+  };
+
+  /**
+   * @function executeSwap
+   * @description Simulates a swap, checks its amounts against the trade limits, then submits it
+   * to the router and waits for its receipt
+   * @param {PoolKey} poolKey - Pool to swap in
+   * @param {TradeQuote} quote - Quote the user accepted
+   * @param {TradeLimits} limits - Maximum paid, minimum received and price limit of the trade
+   * @param {number} slippageBps - Slippage tolerance, for the error message
+   * @param {string} pending - Notification shown while the swap confirms
+   * @param {Function} describe - Builds the success notification from the swap's Transfer logs
+   * @returns {Promise<{ hash: Hex, transfers: TransferLogs }>} Transaction hash and the Transfer logs it emitted
+   */
+  const executeSwap = async (
+    poolKey: PoolKey,
+    quote: TradeQuote,
+    limits: TradeLimits,
+    slippageBps: number,
+    pending: string,
+    describe: (transfers: TransferLogs) => string
+  ) => {
+    setStatus("swapping");
+    const { request, result } = await simulateContract(config, {
+      address: swapRouterAddress,
+      abi: poolSwapTestAbi,
+      functionName: "swap",
+      args: [
+        poolKey,
+        {
+          zeroForOne: quote.zeroForOne,
+          amountSpecified: quote.amountSpecified,
+          sqrtPriceLimitX96: limits.sqrtPriceLimitX96,
+        },
+        { takeClaims: false, settleUsingBurn: false },
+        "0x",
+      ],
+      chainId: activeChain.id,
+    });
+
+    // The delta is negative for what the caller pays and positive for what it receives
+    const { amount0, amount1 } = decodeBalanceDelta(result);
+    const [paid, received] = quote.zeroForOne ? [-amount0, amount1] : [-amount1, amount0];
+    if (paid > limits.maxAmountIn || received < limits.minAmountOut) {
+      throw new Error(t(text.slippageExceeded, { slippage: formatBps(slippageBps, locale) }));
+    }
+
+    const hash = await writeContract(config, request);
+
+    setStatus("confirming");
+    const receipt = await trackTransaction(hash, {
+      pending,
+      success: (confirmed) => describe(parseEventLogs({ abi: erc20Abi, eventName: "Transfer", logs: confirmed.logs })),
+      error: text.swapReverted,
+    });
+
+    return { hash, transfers: parseEventLogs({ abi: erc20Abi, eventName: "Transfer", logs: receipt.logs }) };
+  };
+
+  /**
+   * @function trade
+   * @description Buys or sells event tokens as quoted, within the user's slippage tolerance
+   * and quote expiry.
+   * The approval covers only the most the trade may pay, so it stays within an organizer's
+   * vesting limit when selling.
+   * @param {TradeQuote} quote - Quote the user accepted
+   * @param {TradeSettings} settings - Slippage tolerance and quote expiry
+   * @returns {Promise<SwapResult>} Amounts exchanged once the swap is confirmed
+   */
+  const trade = async (quote: TradeQuote, settings: TradeSettings): Promise<SwapResult> => {
+    const { account, poolKey, backingAsset, tokenAddress } = getMarket();
+    const isBuy = quote.side === "buy";
+    const symbol = `$${event.tokenSymbol}`;
+    const limits = getTradeLimits(quote, settings.slippageBps);
+
+    const tokens = (transfers: TransferLogs) => sumTransfers(transfers, tokenAddress, isBuy ? "to" : "from", account);
+    const backing = (transfers: TransferLogs) =>
+      sumTransfers(transfers, backingAsset.address, isBuy ? "from" : "to", account);
+
+    // Past the price limit the swap stops early, leaving the exact amount only partly traded
+    const isPartial = (transfers: TransferLogs) =>
+      (quote.exact === "token" ? tokens(transfers) : backing(transfers)) < quote.amount;
+
+    assertQuoteFresh(quote, settings);
+
+    try {
+      if (isBuy) {
+        await ensureAllowance(backingAsset.address, backingAsset.symbol, account, limits.maxAmountIn);
+      } else {
+        await ensureAllowance(tokenAddress, symbol, account, limits.maxAmountIn);
+      }
+
+      // The approval may have taken a while to confirm
+      assertQuoteFresh(quote, settings);
+
+      const { hash, transfers } = await executeSwap(
+        poolKey,
+        quote,
+        limits,
+        settings.slippageBps,
+        t(isBuy ? text.buying : text.selling, {
+          amount: formatAmount(quote.tokenAmount, EVENT_TOKEN_DECIMALS),
+          symbol,
+        }),
+        (logs) =>
+          t(isBuy ? text.bought : text.sold, {
+            tokens: formatAmount(tokens(logs), EVENT_TOKEN_DECIMALS),
+            symbol,
+            backing: `${formatAmount(backing(logs), backingAsset.decimals)} ${backingAsset.symbol}`,
+          }) + (isPartial(logs) ? text.partialFill : "")
+      );
+
+      return { hash, tokenAmount: tokens(transfers), backingAmount: backing(transfers) };
+    } finally {
+      setStatus("idle");
+    }
+  };
+
+  return { trade, status };
+}
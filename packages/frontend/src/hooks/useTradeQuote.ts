@@ -0,0 +1,58 @@
+"use client";
+
+import { useQuery } from "@tanstack/react-query";
+import { usePublicClient } from "wagmi";
+import { activeChain } from "../config/wagmi";
+import { quoteTrade, type TradeQuote, type TradeRequest } from "../lib/quote";
+import type { EventData } from "../types/event";
+
+/**
+ * @interface UseTradeQuoteResult
+ * @description Return value of the useTradeQuote hook
+ */
+export interface UseTradeQuoteResult {
+  /** Quote of the trade, null without an amount or a live pool */
+  quote: TradeQuote | null;
+  /** Whether the pool state is still being read */
+  isLoading: boolean;
+  /** Error raised while quoting, e.g. when the pool can't fill the amount */
+  error: Error | null;
+}
+
+/**
+ * @hook useTradeQuote
+ * @description Quotes a buy or sale of event tokens by replaying the swap against the pool's
+ * price, in-range liquidity and initialized ticks. Either the event token amount or the
+ * backing asset amount is fixed, and the other one is quoted.
+ *
+ * The quote is re-read whenever the pool price changes, so it follows trades made from
+ * the page once the event data is refetched.
+ *
+ * @param {EventData} event - Event whose pool is traded
+ * @param {TradeRequest} request - Side of the trade and the raw amount the user fixed, 0 for no quote
+ * @returns {UseTradeQuoteResult} Quote with loading and error state
+ */
+export function useTradeQuote(event: EventData, request: TradeRequest): UseTradeQuoteResult {
+  const client = usePublicClient({ chainId: activeChain.id });
+  const { tokenAddress, poolKey, poolManager, backingAsset, sqrtPriceX96 } = event;
+  const { side, exact, amount } = request;
+  const isLive = poolKey !== null && poolManager !== null && backingAsset !== null && sqrtPriceX96 !== 0n;
+
+  const query = useQuery({
+    queryKey: ["tradeQuote", activeChain.id, tokenAddress, side, exact, amount.toString(), sqrtPriceX96.toString()],
+    queryFn: () =>
+      quoteTrade(
+        client!,
+        { tokenAddress, poolKey: poolKey!, poolManager: poolManager!, backingAsset: backingAsset! },
+        { side, exact, amount }
+      ),
+    enabled: client !== undefined && isLive && amount > 0n,
+    retry: false,
+  });
+
+  return {
+    quote: amount > 0n ? (query.data ?? null) : null,
+    isLoading: query.isLoading,
+    error: query.error,
+  };
+}
@@ -0,0 +1,26 @@
+"use client";
+
+import { useCallback, useSyncExternalStore } from "react";
+import {
+  DEFAULT_TRADE_SETTINGS,
+  readTradeSettings,
+  subscribeTradeSettings,
+  writeTradeSettings,
+  type TradeSettings,
+} from "../lib/tradeSettings";
+
+/**
+ * @hook useTradeSettings
+ * @description Slippage tolerance and quote expiry saved in localStorage, shared by
+ * every component and tab using them. The defaults are used while rendering on the server.
+ * @returns {{ settings: TradeSettings, updateSettings: (patch: Partial<TradeSettings>) => void }} Current settings and a setter
+ */
+export function useTradeSettings() {
+  const settings = useSyncExternalStore(subscribeTradeSettings, readTradeSettings, () => DEFAULT_TRADE_SETTINGS);
+
+  const updateSettings = useCallback((patch: Partial<TradeSettings>) => {
+    writeTradeSettings({ ...readTradeSettings(), ...patch });
+  }, []);
+
+  return { settings, updateSettings };
+}
@@ -0,0 +1,72 @@
+"use client";
+
+import { useMemo } from "react";
+import { useReadContract } from "wagmi";
+import type { Address } from "viem";
+import { eventTokenAbi, getTokensPerSecond, type VestingInfo } from "@unifans/shared";
+import { activeChain } from "../config/wagmi";
+
+/** How often the vesting state is re-read to correct the client-side counter */
+export const VESTING_SYNC_INTERVAL_MS = 30_000;
+
+/**
+ * @interface UseVestingResult
+ * @description Return value of the useVesting hook
+ */
+export interface UseVestingResult {
+  /** Vesting state from the latest read, undefined while loading */
+  vesting: VestingInfo | undefined;
+  /** Seconds the chain clock is ahead of the browser clock, 0 when it cannot be told from the vesting state */
+  clockOffset: number;
+  /** Browser time in milliseconds of the latest on-chain read, 0 before it */
+  syncedAt: number;
+  /** Error raised by the latest read */
+  error: Error | null;
+}
+
+/**
+ * @hook useVesting
+ * @description Reads EventToken.getVestingInfo() and re-reads it periodically
+ *
+ * While vesting runs and the transferable amount is not capped by the organizer's
+ * balance, `transferable / tokensPerSecond` is exactly the number of seconds the
+ * chain has seen since vesting started. That gives the offset between the chain
+ * clock and the browser clock, so a per-second counter computed in the browser stays
+ * in line with organizerTransferableAmount() (e.g. on anvil after time travel).
+ *
+ * @param {Address} tokenAddress - EventToken address
+ * @returns {UseVestingResult} Vesting state, chain clock offset and sync time
+ */
+export function useVesting(tokenAddress: Address): UseVestingResult {
+  const vestingRead = useReadContract({
+    address: tokenAddress,
+    abi: eventTokenAbi,
+    functionName: "getVestingInfo",
+    chainId: activeChain.id,
+    query: { refetchInterval: VESTING_SYNC_INTERVAL_MS },
+  });
+
+  const vesting = useMemo<VestingInfo | undefined>(() => {
+    if (!vestingRead.data) return undefined;
+    const [startTime, endTime, totalAmount, transferable, remaining] = vestingRead.data;
+    return { startTime, endTime, totalAmount, transferable, remaining };
+  }, [vestingRead.data]);
+
+  const clockOffset = useMemo(() => {
+    if (!vesting) return 0;
+    const tokensPerSecond = getTokensPerSecond(vesting);
+    const isVesting = vesting.transferable > 0n && vesting.transferable < vesting.remaining;
+    if (!isVesting || tokensPerSecond === 0n) return 0;
+
+    // Measured against the time of the read, not the time of the render
+    const chainTime = vesting.startTime + vesting.transferable / tokensPerSecond;
+    return Number(chainTime) - Math.floor(vestingRead.dataUpdatedAt / 1000);
+  }, [vesting, vestingRead.dataUpdatedAt]);
+
+  return {
+    vesting,
+    clockOffset,
+    syncedAt: vestingRead.dataUpdatedAt,
+    error: vestingRead.error,
+  };
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import { useAccount, useBalance, useConnect, useDisconnect, useSwitchChain, type Connector } from "wagmi";
+import type { Address } from "viem";
+import { activeChain } from "../config/wagmi";
+
+/**
+ * @interface WalletBalance
+ * @description Native balance of the connected account on the active chain
+ */
+export interface WalletBalance {
+  value: bigint;
+  decimals: number;
+  symbol: string;
+}
+
+/**
+ * @interface UseWalletResult
+ * @description Return value of the useWallet hook
+ */
+export interface UseWalletResult {
+  /** Connected account, undefined while disconnected */
+  address: Address | undefined;
+  /** Whether a wallet is connected */
+  isConnected: boolean;
+  /** Whether a connection request is waiting for the wallet */
+  isConnecting: boolean;
+  /** Connectors configured in wagmi (browser wallet, and the mock account in development) */
+  connectors: readonly Connector[];
+  /** Whether the wallet is on a different chain than the one the app reads from */
+  isWrongChain: boolean;
+  /** Whether a network switch is waiting for the wallet */
+  isSwitching: boolean;
+  /** Native balance of the connected account */
+  balance: WalletBalance | undefined;
+  /** Connects with a connector and resolves with the account, rejecting when the user declines */
+  connect: (connector: Connector) => Promise<Address>;
+  /** Disconnects the current wallet */
+  disconnect: () => void;
+  /** Asks the wallet to switch to the active chain */
+  switchToActiveChain: () => Promise<void>;
+}
+
+/**
+ * @hook useWallet
+ * @description Wallet session of the current visitor: connection, network and balance
+ *
+ * The active chain is the one configured with NEXT_PUBLIC_CHAIN_ID. A wallet on
+ * any other chain is flagged with `isWrongChain` so callers can offer a switch.
+ *
+ * @returns {UseWalletResult} Wallet state and actions
+ */
+export function useWallet(): UseWalletResult {
+  const { address, chainId, isConnected } = useAccount();
+  const { connectAsync, connectors, isPending: isConnecting } = useConnect();
+  const { disconnect } = useDisconnect();
+  const { switchChainAsync, isPending: isSwitching } = useSwitchChain();
+  const { data: balance } = useBalance({
+    address,
+    chainId: activeChain.id,
+    query: { enabled: isConnected },
+  });
+
+  return {
+    address,
+    isConnected,
+    isConnecting,
+    connectors,
+    isWrongChain: isConnected && chainId !== activeChain.id,
+    isSwitching,
+    balance,
+    connect: async (connector) => {
+      const { accounts } = await connectAsync({ connector, chainId: activeChain.id });
+      return accounts[0];
+    },
+    disconnect: () => disconnect(),
+    switchToActiveChain: async () => {
+      await switchChainAsync({ chainId: activeChain.id });
+    },
+  };
+}
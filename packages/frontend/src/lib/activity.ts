@@ -0,0 +1,263 @@
+import { erc20Abi, formatUnits, getAbiItem, isAddressEqual, type Address, type Client, type Hash, type Hex } from "viem";
+import { getBlockNumber, getLogs, getTransaction } from "viem/actions";
+import { EVENT_TOKEN_DECIMALS, eventTokenAbi, poolManagerAbi } from "@unifans/shared";
+import { readBlockTimestamps, type BlockTimestamps } from "./blockTimestamps";
+import { scanLogsBackward } from "./logScan";
+import type { PoolPriceLog, PoolPricing } from "./priceHistory";
+
+/** Events read to describe a trade */
+const swapEvent = getAbiItem({ abi: poolManagerAbi, name: "Swap" });
+const transferEvent = getAbiItem({ abi: erc20Abi, name: "Transfer" });
+const organizerTransferEvent = getAbiItem({ abi: eventTokenAbi, name: "OrganizerTransfer" });
+
+/**
+ * @type TradeSide
+ * @description Whether a trade bought or sold event tokens
+ */
+export type TradeSide = "buy" | "sell";
+
+/**
+ * @interface Trade
+ * @description Swap in an event pool, seen from the fan's side
+ */
+export interface Trade {
+  transactionHash: Hash;
+  blockNumber: bigint;
+  logIndex: number;
+  /** Block timestamp in seconds */
+  timestamp: number;
+  /** Account that received the tokens bought or sent the tokens sold */
+  trader: Address;
+  side: TradeSide;
+  /** Event tokens bought or sold, in whole tokens */
+  tokenAmount: number;
+  /** Backing asset paid or received */
+  backingAmount: number;
+  /** Backing asset per token the trade executed at */
+  price: number;
+  /** Whether the organizer traded: their address, or organizer tokens moved in the transaction */
+  isOrganizer: boolean;
+}
+
+/**
+ * @interface SwapLog
+ * @description Decoded PoolManager Swap log, as returned by getLogs or watchContractEvent
+ */
+export interface SwapLog extends PoolPriceLog {
+  transactionHash: Hash | null;
+}
+
+/**
+ * @interface TradeParams
+ * @description Event pool to read trades of
+ */
+export interface TradeParams extends PoolPricing {
+  /** EventToken address */
+  tokenAddress: Address;
+  /** PoolManager holding the event pool */
+  poolManager: Address;
+  /** Id of the event pool */
+  poolId: Hex;
+  /** Organizer of the event, from EventToken.organizer() */
+  organizer: Address;
+}
+
+/**
+ * @interface TradePage
+ * @description Trades found scanning back from a block
+ */
+export interface TradePage {
+  /** Trades, newest first */
+  trades: Trade[];
+  /** Block to continue scanning back from, null once the scan reached the start block */
+  nextBlock: bigint | null;
+}
+
+/**
+ * @interface ActivityPage
+ * @description One page of the activity feed
+ */
+export interface ActivityPage {
+  /** Trades of the page, newest first */
+  trades: Trade[];
+  /** Whether older trades have to be read to fill the page */
+  needsMore: boolean;
+  /** Whether there is a page after this one, read or still on chain */
+  hasOlder: boolean;
+}
+
+/**
+ * @function compareNewestFirst
+ * @description Orders two trades from the newest to the oldest
+ * @param {Trade} a - First trade
+ * @param {Trade} b - Second trade
+ * @returns {number} Negative when a is newer, positive when b is, 0 for the same swap
+ */
+const compareNewestFirst = (a: Trade, b: Trade): number =>
+  a.blockNumber === b.blockNumber ? b.logIndex - a.logIndex : a.blockNumber > b.blockNumber ? -1 : 1;
+
+/**
+ * @function readTrades
+ * @description Turns Swap logs of an event pool into trades
+ *
+ * Swaps go through a router, so the Swap event names the router rather than the fan.
+ * The fan is the other side of the event token Transfer to or from the PoolManager in
+ * the same transaction, or the transaction sender when there is none. Organizer trades
+ * are the ones by EventToken.organizer() or with an OrganizerTransfer in the transaction,
+ * which the token emits whenever vested organizer tokens move.
+ *
+ * @param {Client} client - Client of the chain the pool lives on
+ * @param {SwapLog[]} logs - Swap logs of the event pool, pending logs are skipped
+ * @param {TradeParams} params - Pool, token and organizer of the event
+ * @param {BlockTimestamps} timestamps - Block timestamps already known, filled with the blocks read
+ * @returns {Promise<Trade[]>} Trades, newest first
+ */
+export async function readTrades(
+  client: Client,
+  logs: SwapLog[],
+  params: TradeParams,
+  timestamps: BlockTimestamps = new Map()
+): Promise<Trade[]> {
+  const { tokenAddress, poolManager, organizer, tokenIsCurrency0, backingDecimals } = params;
+  const swaps = logs.filter(
+    (log): log is SwapLog & { transactionHash: Hash; blockNumber: bigint; logIndex: number } =>
+      log.transactionHash !== null &&
+      log.blockNumber !== null &&
+      log.logIndex !== null &&
+      log.args.amount0 !== undefined &&
+      log.args.amount1 !== undefined
+  );
+  if (swaps.length === 0) return [];
+
+  const blockNumbers = swaps.map((log) => log.blockNumber);
+  const range = {
+    address: tokenAddress,
+    fromBlock: blockNumbers.reduce((min, block) => (block < min ? block : min)),
+    toBlock: blockNumbers.reduce((max, block) => (block > max ? block : max)),
+  };
+  const [transfers, organizerTransfers] = await Promise.all([
+    getLogs(client, { ...range, event: transferEvent }),
+    getLogs(client, { ...range, event: organizerTransferEvent }),
+    readBlockTimestamps(client, blockNumbers, timestamps),
+  ]);
+  const organizerTransactions = new Set(organizerTransfers.map((log) => log.transactionHash));
+
+  const trades = swaps.map((log) => {
+    // Swap deltas are signed from the swapper's side: positive amounts left the pool
+    const tokenDelta = (tokenIsCurrency0 ? log.args.amount0 : log.args.amount1)!;
+    const backingDelta = (tokenIsCurrency0 ? log.args.amount1 : log.args.amount0)!;
+    const side: TradeSide = tokenDelta > 0n ? "buy" : "sell";
+    const tokenAmount = Number(formatUnits(tokenDelta < 0n ? -tokenDelta : tokenDelta, EVENT_TOKEN_DECIMALS));
+    const backingAmount = Number(formatUnits(backingDelta < 0n ? -backingDelta : backingDelta, backingDecimals));
+
+    const transfer = transfers.find(
+      ({ transactionHash, args: { from, to } }) =>
+        transactionHash === log.transactionHash &&
+        from !== undefined &&
+        to !== undefined &&
+        isAddressEqual(side === "buy" ? from : to, poolManager)
+    );
+
+    return {
+      transactionHash: log.transactionHash,
+      blockNumber: log.blockNumber,
+      logIndex: log.logIndex,
+      timestamp: timestamps.get(log.blockNumber)!,
+      trader: (side === "buy" ? transfer?.args.to : transfer?.args.from) ?? null,
+      side,
+      tokenAmount,
+      backingAmount,
+      price: tokenAmount > 0 ? backingAmount / tokenAmount : 0,
+      isOrganizer: organizerTransactions.has(log.transactionHash),
+    };
+  });
+
+  // Swaps without a matching transfer, e.g. paid out to another contract, fall back to the sender
+  const unmatched = [...new Set(trades.filter((trade) => trade.trader === null).map((trade) => trade.transactionHash))];
+  const transactions = await Promise.all(unmatched.map((hash) => getTransaction(client, { hash })));
+  const senders = new Map(transactions.map((transaction) => [transaction.hash, transaction.from]));
+
+  return trades
+    .map((trade) => {
+      const trader = trade.trader ?? senders.get(trade.transactionHash)!;
+      return { ...trade, trader, isOrganizer: trade.isOrganizer || isAddressEqual(trader, organizer) };
+    })
+    .sort(compareNewestFirst);
+}
+
+/**
+ * @function fetchTrades
+ * @description Reads the latest trades of an event pool, scanning Swap logs back from a block
+ *
+ * Logs are scanned backwards in chunks until `count` trades are found or `startBlock`
+ * is reached. A page holds every trade of the chunks it scanned, so it can hold more.
+ *
+ * @param {Client} client - Client of the chain the pool lives on
+ * @param {TradeParams & { startBlock: bigint; toBlock: bigint | null; count: number }} params -
+ * Event pool, first block to scan, block to scan back from (the latest when null) and trades wanted
+ * @returns {Promise<TradePage>} Trades, newest first, and where the next page starts
+ */
+export async function fetchTrades(
+  client: Client,
+  params: TradeParams & { startBlock: bigint; toBlock: bigint | null; count: number }
+): Promise<TradePage> {
+  const { poolManager, poolId, startBlock, count } = params;
+  const timestamps: BlockTimestamps = new Map();
+  const trades: Trade[] = [];
+  const toBlock = params.toBlock ?? (await getBlockNumber(client));
+
+  const nextBlock = await scanLogsBackward(startBlock, toBlock, async (range) => {
+    const logs = await getLogs(client, { address: poolManager, event: swapEvent, args: { id: poolId }, ...range });
+    trades.push(...(await readTrades(client, logs, params, timestamps)));
+    return trades.length >= count;
+  });
+
+  return { trades, nextBlock };
+}
+
+/**
+ * @function prependTrades
+ * @description Adds live trades to the top of a feed
+ *
+ * Trades at or before the newest one of the feed are dropped, so logs delivered by a
+ * subscription that overlaps the feed read are only listed once.
+ *
+ * @param {Trade[]} trades - Feed, newest first
+ * @param {Trade[]} added - New trades, in any order
+ * @returns {Trade[]} The feed with the new trades on top
+ */
+export function prependTrades(trades: Trade[], added: Trade[]): Trade[] {
+  const newest = trades[0];
+  const newer = added.filter((trade) => !newest || compareNewestFirst(trade, newest) < 0).sort(compareNewestFirst);
+  return newer.length > 0 ? [...newer, ...trades] : trades;
+}
+
+/**
+ * @function getActivityPage
+ * @description Picks one page of the trades read so far, keeping only one side when filtered
+ *
+ * The filter applies to the trades already read, so a page of buys can need several
+ * reads of older trades when most of them are sells.
+ *
+ * @param {Trade[]} trades - Trades read so far, newest first
+ * @param {TradeSide | "all"} side - Side to show
+ * @param {number} page - Page index, 0 for the newest trades
+ * @param {number} pageSize - Trades per page
+ * @param {boolean} hasMore - Whether older trades are left on chain
+ * @returns {ActivityPage} Trades of the page and whether more have to be read
+ */
+export function getActivityPage(
+  trades: Trade[],
+  side: TradeSide | "all",
+  page: number,
+  pageSize: number,
+  hasMore: boolean
+): ActivityPage {
+  const filtered = side === "all" ? trades : trades.filter((trade) => trade.side === side);
+  const end = (page + 1) * pageSize;
+  return {
+    trades: filtered.slice(page * pageSize, end),
+    needsMore: filtered.length < end && hasMore,
+    hasOlder: filtered.length > end || hasMore,
+  };
+}
@@ -0,0 +1,175 @@
+import { NextResponse } from "next/server";
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  ContractFunctionZeroDataError,
+  getAddress,
+  isAddress,
+  type Address,
+} from "viem";
+import { defaultLocale } from "../config/i18n";
+import { getErrorMessage } from "./errors";
+import type { ApiError, ApiPage } from "../types/api";
+
+/**
+ * @class ApiRequestError
+ * @description Error thrown by route handlers for requests they refuse, turned into a JSON error response
+ */
+export class ApiRequestError extends Error {
+  /** HTTP status of the response */
+  readonly status: number;
+  /** Machine readable code of the response */
+  readonly code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = "ApiRequestError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+/**
+ * @interface PageParams
+ * @description Page requested with ?offset=&limit=
+ */
+export interface PageParams {
+  offset: number;
+  limit: number;
+}
+
+/**
+ * @function apiJson
+ * @description JSON response that shared caches may keep for a while
+ * @param {T} body - Response body
+ * @param {number} maxAge - Seconds caches serve the response without asking again.
+ * They may serve it stale for five times as long while it is refreshed.
+ * @returns {NextResponse<T>} JSON response with Cache-Control headers
+ */
+export function apiJson<T>(body: T, maxAge: number): NextResponse<T> {
+  return NextResponse.json(body, {
+    headers: { "Cache-Control": `public, max-age=0, s-maxage=${maxAge}, stale-while-revalidate=${maxAge * 5}` },
+  });
+}
+
+/**
+ * @function apiErrorResponse
+ * @description JSON error response for anything a route handler throws
+ *
+ * - ApiRequestError: its own status and code
+ * - a contract read that reverts or returns nothing: 404, the address is not an EventToken
+ * - anything else: 502, the chain could not be read
+ *
+ * @param {unknown} error - Error thrown while handling the request
+ * @returns {NextResponse<ApiError>} Uncached JSON error response
+ */
+export function apiErrorResponse(error: unknown): NextResponse<ApiError> {
+  let status = 502;
+  let code = "chain_unavailable";
+  let message = getErrorMessage(error, defaultLocale);
+
+  if (error instanceof ApiRequestError) {
+    ({ status, code, message } = error);
+  } else if (
+    error instanceof BaseError &&
+    error.walk((cause) => cause instanceof ContractFunctionRevertedError || cause instanceof ContractFunctionZeroDataError)
+  ) {
+    status = 404;
+    code = "event_not_found";
+    message = "No EventToken at this address";
+  }
+
+  return NextResponse.json({ error: { code, message } }, { status, headers: { "Cache-Control": "no-store" } });
+}
+
+/**
+ * @function parseTokenAddress
+ * @description Validates the [token] segment of a route
+ * @param {string} token - Route segment
+ * @returns {Address} Checksummed address
+ * @throws {ApiRequestError} 400 when the segment is not an address
+ */
+export function parseTokenAddress(token: string): Address {
+  if (!isAddress(token)) throw new ApiRequestError(400, "invalid_address", `${token} is not an address`);
+  return getAddress(token);
+}
+
+/**
+ * @function parseInteger
+ * @description Reads a non-negative integer query parameter
+ * @param {URLSearchParams} searchParams - Query of the request
+ * @param {string} name - Parameter name
+ * @param {number} fallback - Value when the parameter is missing
+ * @param {number} [max] - Largest accepted value
+ * @returns {number} Parameter value
+ * @throws {ApiRequestError} 400 when the value is not an integer in range
+ */
+export function parseInteger(searchParams: URLSearchParams, name: string, fallback: number, max?: number): number {
+  const raw = searchParams.get(name);
+  if (raw === null || raw === "") return fallback;
+
+  const value = Number(raw);
+  if (!Number.isSafeInteger(value) || value < 0 || (max !== undefined && value > max)) {
+    const range = max !== undefined ? ` between 0 and ${max}` : "";
+    throw new ApiRequestError(400, "invalid_parameter", `${name} must be a whole number${range}`);
+  }
+  return value;
+}
+
+/**
+ * @function parseLimit
+ * @description Reads the ?limit= page size of a paginated list
+ * @param {URLSearchParams} searchParams - Query of the request
+ * @param {number} defaultLimit - Page size when limit is missing
+ * @param {number} maxLimit - Largest page size accepted
+ * @returns {number} Page size
+ * @throws {ApiRequestError} 400 when the value is not between 1 and maxLimit
+ */
+export function parseLimit(searchParams: URLSearchParams, defaultLimit: number, maxLimit: number): number {
+  const limit = parseInteger(searchParams, "limit", defaultLimit, maxLimit);
+  if (limit === 0) throw new ApiRequestError(400, "invalid_parameter", "limit must be at least 1");
+  return limit;
+}
+
+/**
+ * @function parsePage
+ * @description Reads ?offset=&limit= of a paginated list
+ * @param {URLSearchParams} searchParams - Query of the request
+ * @param {number} defaultLimit - Page size when limit is missing
+ * @param {number} maxLimit - Largest page size accepted
+ * @returns {PageParams} Requested page
+ * @throws {ApiRequestError} 400 for invalid values
+ */
+export function parsePage(searchParams: URLSearchParams, defaultLimit: number, maxLimit: number): PageParams {
+  return { offset: parseInteger(searchParams, "offset", 0), limit: parseLimit(searchParams, defaultLimit, maxLimit) };
+}
+
+/**
+ * @function offsetPage
+ * @description Wraps one page of a list whose length is known
+ * @param {T[]} data - Items of the page
+ * @param {PageParams} page - Requested page
+ * @param {number} total - Items in the whole list
+ * @param {URL} url - Request URL, whose other query parameters the next page keeps
+ * @returns {ApiPage<T>} Page with the path of the next one
+ */
+export function offsetPage<T>(data: T[], page: PageParams, total: number, url: URL): ApiPage<T> {
+  const nextOffset = page.offset + page.limit;
+  return {
+    data,
+    pagination: { limit: page.limit, total, next: nextOffset < total ? withQuery(url, { offset: nextOffset }) : null },
+  };
+}
+
+/**
+ * @function withQuery
+ * @description Path and query of a request with some parameters replaced
+ * @param {URL} url - Request URL
+ * @param {Record<string, string | number>} values - Parameters to set
+ * @returns {string} Path with the updated query, like /api/events?offset=20&limit=20
+ */
+export function withQuery(url: URL, values: Record<string, string | number>): string {
+  const searchParams = new URLSearchParams(url.searchParams);
+  for (const [name, value] of Object.entries(values)) searchParams.set(name, String(value));
+  return `${url.pathname}?${searchParams}`;
+}
@@ -0,0 +1,31 @@
+import type { Client } from "viem";
+import { getBlock } from "viem/actions";
+
+/**
+ * @type BlockTimestamps
+ * @description Timestamps in seconds of blocks already read, by block number
+ */
+export type BlockTimestamps = Map<bigint, number>;
+
+/**
+ * @function readBlockTimestamps
+ * @description Reads the timestamps of blocks, each block at most once per cache
+ *
+ * Logs often share a block (e.g. a swap and its transfers), so callers keep one cache
+ * across the logs they turn into samples or balances.
+ *
+ * @param {Client} client - Client of the chain the blocks belong to
+ * @param {bigint[]} blockNumbers - Blocks to read, duplicates allowed
+ * @param {BlockTimestamps} cache - Timestamps already known, filled with the blocks read
+ * @returns {Promise<BlockTimestamps>} The cache, holding every requested block
+ */
+export async function readBlockTimestamps(
+  client: Client,
+  blockNumbers: bigint[],
+  cache: BlockTimestamps = new Map()
+): Promise<BlockTimestamps> {
+  const missing = [...new Set(blockNumbers)].filter((blockNumber) => !cache.has(blockNumber));
+  const blocks = await Promise.all(missing.map((blockNumber) => getBlock(client, { blockNumber })));
+  for (const block of blocks) cache.set(block.number, Number(block.timestamp));
+  return cache;
+}
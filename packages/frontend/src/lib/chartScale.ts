@@ -0,0 +1,59 @@
+/**
+ * @interface ValueRange
+ * @description Lowest and highest value an axis shows
+ */
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+/** Share of the price range left empty above and below the series */
+const PRICE_PADDING = 0.08;
+
+/**
+ * @function getPriceRange
+ * @description Range of the price axis, padded so the series doesn't touch the edges
+ * @param {number[]} prices - Prices shown, may be empty
+ * @returns {ValueRange} Axis range; a flat series is centered in a ±5% band
+ */
+export function getPriceRange(prices: number[]): ValueRange {
+  if (prices.length === 0) return { min: 0, max: 1 };
+
+  const min = Math.min(...prices);
+  const max = Math.max(...prices);
+  if (min === max) return min === 0 ? { min: 0, max: 1 } : { min: min * 0.95, max: max * 1.05 };
+
+  const padding = (max - min) * PRICE_PADDING;
+  return { min: Math.max(0, min - padding), max: max + padding };
+}
+
+/**
+ * @function getTicks
+ * @description Evenly spaced axis ticks, both ends included
+ * @param {ValueRange} range - Axis range
+ * @param {number} count - Number of ticks, at least 2
+ * @returns {number[]} Tick values from min to max
+ */
+export function getTicks({ min, max }: ValueRange, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => min + ((max - min) * i) / (count - 1));
+}
+
+/**
+ * @function findNearestIndex
+ * @description Index of the value closest to a target in an ascending list
+ * @param {number[]} values - Ascending values, like point timestamps
+ * @param {number} target - Value to look for
+ * @returns {number} Index of the closest value, -1 for an empty list
+ */
+export function findNearestIndex(values: number[], target: number): number {
+  if (values.length === 0) return -1;
+
+  let low = 0;
+  let high = values.length - 1;
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (values[middle] < target) low = middle + 1;
+    else high = middle;
+  }
+  return low > 0 && target - values[low - 1] < values[low] - target ? low - 1 : low;
+}
@@ -0,0 +1,56 @@
+import { fiatCurrencies, type FiatCurrency } from "./priceOracle";
+
+/**
+ * @type DisplayCurrency
+ * @description Currency backing asset amounts are shown in: the asset itself, or a fiat currency
+ * next to it. Kept in localStorage.
+ */
+export type DisplayCurrency = "backing" | FiatCurrency;
+
+/** Currency used until the user picks one */
+export const DEFAULT_DISPLAY_CURRENCY: DisplayCurrency = "backing";
+
+/** localStorage key the currency is saved under */
+const STORAGE_KEY = "unifans:display-currency";
+
+/** Components to re-render when the currency changes in this tab */
+const listeners = new Set<() => void>();
+
+/**
+ * @function readDisplayCurrency
+ * @description Reads the saved currency, falling back to the default for missing or unknown values
+ * @returns {DisplayCurrency} Current display currency
+ */
+export function readDisplayCurrency(): DisplayCurrency {
+  const saved = window.localStorage.getItem(STORAGE_KEY);
+  return (fiatCurrencies as readonly string[]).includes(saved ?? "") ? (saved as FiatCurrency) : DEFAULT_DISPLAY_CURRENCY;
+}
+
+/**
+ * @function writeDisplayCurrency
+ * @description Saves the currency and notifies every component using it
+ * @param {DisplayCurrency} currency - Currency to save
+ */
+export function writeDisplayCurrency(currency: DisplayCurrency): void {
+  window.localStorage.setItem(STORAGE_KEY, currency);
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * @function subscribeDisplayCurrency
+ * @description Calls a listener whenever the currency changes, in this tab or another one
+ * @param {Function} listener - Called after a change
+ * @returns {Function} Unsubscribes the listener
+ */
+export function subscribeDisplayCurrency(listener: () => void): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
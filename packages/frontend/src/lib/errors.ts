@@ -0,0 +1,78 @@
+import { BaseError, type Hash } from "viem";
+import type { Locale } from "../config/i18n";
+import { catalogs, interpolate, type Messages } from "../messages";
+import { decodeRevert } from "./revert";
+
+/**
+ * @class TransactionFailedError
+ * @description Error thrown when a tracked transaction reverts or cannot be confirmed.
+ * Its toast already shows the failure, so callers don't notify it again.
+ */
+export class TransactionFailedError extends Error {
+  /** Hash of the failed transaction */
+  readonly hash: Hash;
+
+  constructor(message: string, hash: Hash) {
+    super(message);
+    this.name = "TransactionFailedError";
+    this.hash = hash;
+  }
+}
+
+/**
+ * @class LocalizedError
+ * @description Error thrown outside of React, e.g. by input parsing or quoting, whose message
+ * lives in the `errors` catalog section. The message is English, getErrorMessage translates it.
+ */
+export class LocalizedError extends Error {
+  /** Key of the message in the `errors` catalog section */
+  readonly key: keyof Messages["errors"];
+  /** Values of the message placeholders */
+  readonly values: Record<string, string | number>;
+
+  constructor(key: keyof Messages["errors"], values: Record<string, string | number> = {}) {
+    super(interpolate(catalogs.en.errors[key], values));
+    this.name = "LocalizedError";
+    this.key = key;
+    this.values = values;
+  }
+
+  /**
+   * @function localize
+   * @description Message of the error in a locale
+   * @param {Locale} locale - Locale to translate to
+   * @returns {string} Translated message
+   */
+  localize(locale: Locale): string {
+    return interpolate(catalogs[locale].errors[this.key], this.values);
+  }
+}
+
+/**
+ * @function getErrorMessage
+ * @description Extracts a short, user-facing message from viem, wagmi or generic errors.
+ * Reverts of the event contracts and LocalizedErrors are translated into the locale.
+ * @param {unknown} error - Error thrown by a contract call or wallet request
+ * @param {Locale} locale - Locale of the message
+ * @returns {string} Message suitable for a notification
+ */
+export function getErrorMessage(error: unknown, locale: Locale): string {
+  if (error instanceof LocalizedError) return error.localize(locale);
+  const revert = decodeRevert(error, locale);
+  if (revert) return revert.message;
+  if (error instanceof BaseError) return error.shortMessage;
+  if (error instanceof Error) return error.message;
+  return catalogs[locale].errors.unknown;
+}
+
+/**
+ * @function getErrorHint
+ * @description Suggested fix for a revert of the event contracts, with the error code for support
+ * @param {unknown} error - Error thrown by a contract call or wallet request
+ * @param {Locale} locale - Locale of the hint
+ * @returns {string | null} Hint shown under the notification message, null for other errors
+ */
+export function getErrorHint(error: unknown, locale: Locale): string | null {
+  const revert = decodeRevert(error, locale);
+  return revert ? interpolate(catalogs[locale].errors.hint, { fix: revert.fix, code: revert.code }) : null;
+}
@@ -0,0 +1,198 @@
+import { formatUnits, zeroAddress, type Address, type Client } from "viem";
+import { readContract } from "viem/actions";
+import {
+  EVENT_TOKEN_DECIMALS,
+  decodeSlot0,
+  eventCoinSimpleHookAbi,
+  eventTokenAbi,
+  getPoolId,
+  getPoolKey,
+  getPoolStateSlot,
+  poolManagerAbi,
+  sqrtPriceX96ToTokenPrice,
+  type BackingAssetInfo,
+  type PoolKey,
+} from "@unifans/shared";
+import type { EventMetadata } from "../config/events";
+import type { EventData } from "../types/event";
+
+/** Seconds in a day, used for the days remaining counter */
+const SECONDS_PER_DAY = 86_400;
+
+/**
+ * @interface EventSummary
+ * @description On-chain basics of an event shown on the events index
+ */
+export interface EventSummary {
+  tokenAddress: Address;
+  location: string;
+  promoter: string;
+  /** Event name, null when the EventToken could not be read */
+  name: string | null;
+  tokenSymbol: string | null;
+  /** Event date as a unix timestamp in seconds */
+  eventDate: number | null;
+}
+
+/**
+ * @function toTokens
+ * @description Converts a raw 18-decimal token amount into whole tokens
+ * @param {bigint} amount - Raw token amount
+ * @returns {number} Amount in whole tokens
+ */
+const toTokens = (amount: bigint): number => Number(formatUnits(amount, EVENT_TOKEN_DECIMALS));
+
+/**
+ * @function fetchEventSummaries
+ * @description Reads name, symbol and date of events
+ *
+ * Reads are allowed to fail one by one, so a wrong address in the list only
+ * blanks its own summary.
+ *
+ * @param {Client} client - Client of the chain the events live on
+ * @param {readonly EventMetadata[]} events - Events to summarize
+ * @returns {Promise<EventSummary[]>} One summary per event, in the order of the list
+ */
+export async function fetchEventSummaries(client: Client, events: readonly EventMetadata[]): Promise<EventSummary[]> {
+  return Promise.all(
+    events.map(async (event) => {
+      const token = { address: event.tokenAddress, abi: eventTokenAbi } as const;
+      const [name, symbol, date] = await Promise.allSettled([
+        readContract(client, { ...token, functionName: "eventName" }),
+        readContract(client, { ...token, functionName: "symbol" }),
+        readContract(client, { ...token, functionName: "eventDate" }),
+      ]);
+
+      return {
+        tokenAddress: event.tokenAddress,
+        location: event.location,
+        promoter: event.promoter,
+        name: name.status === "fulfilled" ? name.value : null,
+        tokenSymbol: symbol.status === "fulfilled" ? symbol.value : null,
+        eventDate: date.status === "fulfilled" ? Number(date.value) : null,
+      };
+    })
+  );
+}
+
+/**
+ * @function fetchEventData
+ * @description Reads an event from its EventToken and EventCoinSimpleHook contracts
+ *
+ * Reads happen in three dependent batches:
+ * 1. EventToken metadata, vesting state and the hook address
+ * 2. Hook backing asset info, deposit state and the PoolManager address
+ * 3. Event token balances held by the hook and PoolManager, and the pool's Slot0
+ *
+ * Events without a hook yet have no backing asset, pool or price.
+ *
+ * @param {Client} client - Client of the chain the event lives on
+ * @param {EventMetadata} metadata - Off-chain metadata of the event to load
+ * @returns {Promise<EventData>} Event data
+ */
+export async function fetchEventData(client: Client, metadata: EventMetadata): Promise<EventData> {
+  const { tokenAddress } = metadata;
+  const token = { address: tokenAddress, abi: eventTokenAbi } as const;
+
+  const [
+    eventName,
+    eventDate,
+    symbol,
+    totalSupply,
+    organizer,
+    hookAddress,
+    [vestingStart, vestingEnd, vestingTotal, transferable, organizerRemaining],
+    vestingProgress,
+  ] = await Promise.all([
+    readContract(client, { ...token, functionName: "eventName" }),
+    readContract(client, { ...token, functionName: "eventDate" }),
+    readContract(client, { ...token, functionName: "symbol" }),
+    readContract(client, { ...token, functionName: "totalSupply" }),
+    readContract(client, { ...token, functionName: "organizer" }),
+    readContract(client, { ...token, functionName: "eventHook" }),
+    readContract(client, { ...token, functionName: "getVestingInfo" }),
+    readContract(client, { ...token, functionName: "getVestingProgress" }),
+  ]);
+
+  const availableForPurchase = totalSupply - vestingTotal;
+  const eventTimestamp = Number(eventDate);
+  const secondsLeft = eventTimestamp - Math.floor(Date.now() / 1000);
+  const hasHook = hookAddress !== zeroAddress;
+
+  let backingAsset: BackingAssetInfo | null = null;
+  let poolKey: PoolKey | null = null;
+  let poolManager: Address | null = null;
+  let initialBackingAmount = 0;
+  let backingAssetDeposited = false;
+  let currentPrice = 0;
+  let sqrtPriceX96 = 0n;
+  let raised = 0n;
+
+  if (hasHook) {
+    const hook = { address: hookAddress, abi: eventCoinSimpleHookAbi } as const;
+    const [[asset, decimals, backingSymbol], initialAmount, deposited, manager] = await Promise.all([
+      readContract(client, { ...hook, functionName: "getBackingAssetInfo" }),
+      readContract(client, { ...hook, functionName: "initialBackingAmount" }),
+      readContract(client, { ...hook, functionName: "backingAssetDeposited" }),
+      readContract(client, { ...hook, functionName: "poolManager" }),
+    ]);
+    poolKey = getPoolKey(tokenAddress, asset, hookAddress, metadata.poolFee, metadata.tickSpacing);
+    poolManager = manager;
+
+    const [hookBalance, poolManagerBalance, slot0Word] = await Promise.all([
+      readContract(client, { ...token, functionName: "balanceOf", args: [hookAddress] }),
+      readContract(client, { ...token, functionName: "balanceOf", args: [manager] }),
+      readContract(client, {
+        address: manager,
+        abi: poolManagerAbi,
+        functionName: "extsload",
+        args: [getPoolStateSlot(getPoolId(poolKey))],
+      }),
+    ]);
+
+    backingAsset = { address: asset, decimals, symbol: backingSymbol };
+    initialBackingAmount = Number(formatUnits(initialAmount, decimals));
+    backingAssetDeposited = deposited;
+    sqrtPriceX96 = decodeSlot0(slot0Word).sqrtPriceX96;
+    currentPrice = sqrtPriceX96ToTokenPrice(sqrtPriceX96, poolKey.currency0 === tokenAddress, decimals);
+
+    // Tokens that left the hook and the pool are held by the community
+    const inCirculation = availableForPurchase - hookBalance - poolManagerBalance;
+    raised = inCirculation > 0n ? inCirculation : 0n;
+  }
+
+  return {
+    tokenAddress,
+    hookAddress: hasHook ? hookAddress : null,
+    organizer,
+    backingAsset,
+    poolKey,
+    poolManager,
+    startBlock: metadata.startBlock,
+    name: eventName,
+    eventDate: eventTimestamp,
+    location: metadata.location,
+    promoter: metadata.promoter,
+    description: metadata.description,
+    tokenSymbol: symbol,
+    currentPrice,
+    sqrtPriceX96,
+    totalSupply: toTokens(totalSupply),
+    organizerTokens: toTokens(vestingTotal),
+    vesting: {
+      startTime: vestingStart,
+      endTime: vestingEnd,
+      totalAmount: vestingTotal,
+      transferable,
+      remaining: organizerRemaining,
+    },
+    vestingProgress: Number(vestingProgress),
+    availableForPurchase: toTokens(availableForPurchase),
+    raised: toTokens(raised),
+    goal: toTokens(availableForPurchase),
+    minInterest: metadata.minInterest,
+    daysLeft: Math.max(0, Math.ceil(secondsLeft / SECONDS_PER_DAY)),
+    initialBackingAmount,
+    backingAssetDeposited,
+  };
+}
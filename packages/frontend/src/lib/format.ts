@@ -0,0 +1,170 @@
+import { formatUnits, parseUnits } from "viem";
+import { EVENT_TOKEN_DECIMALS } from "@unifans/shared";
+import { intlLocales, type Locale } from "../config/i18n";
+import { LocalizedError } from "./errors";
+import type { FiatCurrency } from "./priceOracle";
+
+/**
+ * @function formatNumber
+ * @description Formats a number with the separators of a locale
+ * @param {number} value - Number to format
+ * @param {Locale} locale - Active locale
+ * @param {Intl.NumberFormatOptions} [options] - Digits and style options
+ * @returns {string} Formatted number
+ */
+export function formatNumber(value: number, locale: Locale, options?: Intl.NumberFormatOptions): string {
+  return value.toLocaleString(intlLocales[locale], options);
+}
+
+/**
+ * @function formatPrice
+ * @description Formats a token price, keeping significant digits for very small prices
+ * @param {number} price - Price in backing asset units
+ * @param {Locale} locale - Active locale
+ * @returns {string} Formatted price without currency symbol
+ */
+export function formatPrice(price: number, locale: Locale): string {
+  if (price !== 0 && price < 0.0001) return formatNumber(price, locale, { maximumSignificantDigits: 4 });
+  return formatNumber(price, locale, { minimumFractionDigits: 4, maximumFractionDigits: 4 });
+}
+
+/**
+ * @function formatTokenAmount
+ * @description Formats an amount of event tokens
+ * @param {bigint | number} amount - Raw amount, or whole tokens
+ * @param {Locale} locale - Active locale
+ * @param {number} [maximumFractionDigits=0] - Decimals shown at most
+ * @returns {string} Amount like 1,250,000
+ */
+export function formatTokenAmount(amount: bigint | number, locale: Locale, maximumFractionDigits = 0): string {
+  const tokens = typeof amount === "bigint" ? Number(formatUnits(amount, EVENT_TOKEN_DECIMALS)) : amount;
+  return formatNumber(tokens, locale, { maximumFractionDigits });
+}
+
+/**
+ * @function formatCurrency
+ * @description Formats an amount of a backing asset. Backing assets are tokens without an
+ * ISO currency code, so the symbol follows the number.
+ * @param {number} amount - Amount in backing asset units
+ * @param {string} symbol - Backing asset symbol
+ * @param {Locale} locale - Active locale
+ * @returns {string} Amount like 1,234.50 USDC
+ */
+export function formatCurrency(amount: number, symbol: string, locale: Locale): string {
+  const number = formatNumber(amount, locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return symbol ? `${number} ${symbol}` : number;
+}
+
+/**
+ * @function formatFiat
+ * @description Formats a fiat amount with its currency sign, keeping two significant
+ * digits for amounts under a cent like token prices
+ * @param {number} amount - Amount in fiat units
+ * @param {FiatCurrency} currency - Fiat currency
+ * @param {Locale} locale - Active locale
+ * @returns {string} Amount like $14.62 or MX$270.10, depending on the locale
+ */
+export function formatFiat(amount: number, currency: FiatCurrency, locale: Locale): string {
+  const isFraction = amount !== 0 && Math.abs(amount) < 0.01;
+  return formatNumber(amount, locale, {
+    style: "currency",
+    currency,
+    ...(isFraction ? { maximumSignificantDigits: 2 } : {}),
+  });
+}
+
+/**
+ * @function formatPercent
+ * @description Formats a percentage
+ * @param {number} percent - Percentage (12.5 = 12.5%)
+ * @param {Locale} locale - Active locale
+ * @param {number} [fractionDigits=1] - Decimals shown
+ * @returns {string} Percentage like 12.5%
+ */
+export function formatPercent(percent: number, locale: Locale, fractionDigits = 1): string {
+  return formatNumber(percent / 100, locale, {
+    style: "percent",
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  });
+}
+
+/**
+ * @function formatBps
+ * @description Formats basis points as a percentage
+ * @param {number} bps - Basis points (100 = 1%)
+ * @param {Locale} locale - Active locale
+ * @returns {string} Percentage like 0.5%
+ */
+export function formatBps(bps: number, locale: Locale): string {
+  return formatNumber(bps / 10_000, locale, { style: "percent", maximumFractionDigits: 2 });
+}
+
+/**
+ * @function formatDate
+ * @description Formats a unix timestamp as a date
+ * @param {number | bigint} timestamp - Unix time in seconds
+ * @param {Locale} locale - Active locale
+ * @param {Intl.DateTimeFormatOptions} [options] - Date parts to show, a long date by default
+ * @returns {string} Date like "December 15, 2025" or "15 de diciembre de 2025"
+ */
+export function formatDate(
+  timestamp: number | bigint,
+  locale: Locale,
+  options: Intl.DateTimeFormatOptions = { year: "numeric", month: "long", day: "numeric" }
+): string {
+  return new Date(Number(timestamp) * 1000).toLocaleString(intlLocales[locale], options);
+}
+
+/**
+ * @function formatRelativeTime
+ * @description Formats how long ago a timestamp was, in the largest whole unit
+ * @param {number} timestamp - Unix time in seconds
+ * @param {number} now - Current unix time in seconds; later timestamps read as now
+ * @param {Locale} locale - Active locale
+ * @returns {string} Time like "5 minutes ago", "hace 2 horas" or "now"
+ */
+export function formatRelativeTime(timestamp: number, now: number, locale: Locale): string {
+  const formatter = new Intl.RelativeTimeFormat(intlLocales[locale], { numeric: "auto" });
+  const seconds = Math.max(0, now - timestamp);
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [
+    ["day", 86_400],
+    ["hour", 3_600],
+    ["minute", 60],
+  ];
+
+  for (const [unit, length] of units) {
+    if (seconds >= length) return formatter.format(-Math.floor(seconds / length), unit);
+  }
+  return formatter.format(0, "second");
+}
+
+/**
+ * @function shortenAddress
+ * @description Shortens an address to its first and last four hex digits
+ * @param {string} address - Full address
+ * @returns {string} Address like 0x1234…abcd
+ */
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+/**
+ * @function parseAmountInput
+ * @description Parses a decimal amount typed by the user into raw token units, without
+ * going through floating point
+ * @param {string} value - Text of the amount input
+ * @param {number} decimals - Decimals of the token
+ * @returns {bigint} Raw amount, 0 for an empty input
+ * @throws {LocalizedError} When the text isn't a plain decimal number or has more decimals than the token
+ */
+export function parseAmountInput(value: string, decimals: number): bigint {
+  const text = value.trim();
+  if (text === "") return 0n;
+  if (!/^(\d+\.?\d*|\.\d+)$/.test(text)) throw new LocalizedError("invalidAmount");
+
+  const fraction = text.split(".")[1] ?? "";
+  if (fraction.length > decimals) throw new LocalizedError("tooManyDecimals", { decimals });
+
+  return parseUnits(text, decimals);
+}
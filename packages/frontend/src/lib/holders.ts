@@ -0,0 +1,334 @@
+import { erc20Abi, getAbiItem, zeroAddress, type Address, type Client } from "viem";
+import { getBlockNumber, getLogs } from "viem/actions";
+import { readBlockTimestamps, type BlockTimestamps } from "./blockTimestamps";
+import { LOG_CHUNK_SIZE, scanLogsForward } from "./logScan";
+
+/** ERC-20 Transfer event emitted by the EventToken */
+const transferEvent = getAbiItem({ abi: erc20Abi, name: "Transfer" });
+
+/** Blocks one syncHolders call scans at most, so a request never replays a long history at once */
+export const MAX_SYNC_BLOCKS = 20n * LOG_CHUNK_SIZE;
+
+/** Blocks behind the head a cached scan stops at, so a reorg can't leave a removed transfer in it */
+export const SYNC_CONFIRMATIONS = 12n;
+
+/**
+ * @interface HolderBalance
+ * @description Event token balance of one holder, rebuilt from Transfer events
+ */
+export interface HolderBalance {
+  address: Address;
+  /** Raw token balance */
+  balance: bigint;
+  /** Block of the first transfer the holder received */
+  firstBlock: bigint;
+  /** Timestamp in seconds of the first transfer received, only read for the top holders */
+  firstTimestamp: number | null;
+}
+
+/**
+ * @interface HolderSnapshot
+ * @description Holders of an event token at the latest block
+ */
+export interface HolderSnapshot {
+  /** Number of accounts with a non-zero balance */
+  holderCount: number;
+  /** Largest holders, biggest balance first */
+  topHolders: HolderBalance[];
+  /** Every account that received tokens, emptied ones included, to apply later transfers to */
+  accounts: HolderBalance[];
+  /** Block the snapshot was taken at */
+  blockNumber: bigint;
+  /** Last log counted in that block, null when the whole block is counted */
+  logIndex: number | null;
+}
+
+/**
+ * @interface TransferLog
+ * @description Decoded EventToken Transfer log, as returned by getLogs or watchContractEvent
+ */
+export interface TransferLog {
+  blockNumber: bigint | null;
+  logIndex: number | null;
+  args: { from?: Address; to?: Address; value?: bigint };
+}
+
+/**
+ * @interface HoldersParams
+ * @description Event token to read holders for
+ */
+export interface HoldersParams {
+  /** EventToken address */
+  tokenAddress: Address;
+  /** Contracts holding tokens on behalf of the pool rather than fans */
+  excluded: Address[];
+  /** First block to scan, usually the EventToken deployment block */
+  startBlock: bigint;
+  /** Number of top holders to return */
+  limit: number;
+}
+
+/**
+ * @interface HolderScan
+ * @description Balances of an event token rebuilt up to a block, kept between server requests
+ */
+export interface HolderScan {
+  /** Balances by lowercased address */
+  holders: Map<string, HolderBalance>;
+  /** First block not scanned yet */
+  nextBlock: bigint;
+  /** Block timestamps already read for the top holders */
+  timestamps: BlockTimestamps;
+}
+
+/**
+ * @type HolderScanCache
+ * @description Holder scans by token and excluded contracts, see getScanKey
+ */
+export type HolderScanCache = Map<string, HolderScan>;
+
+/**
+ * @interface HolderSync
+ * @description Holders as far as a cached scan has reached
+ */
+export interface HolderSync extends HolderSnapshot {
+  /** Whether the snapshot is at the latest block, false while the scan is still catching up */
+  synced: boolean;
+}
+
+/** Holder scans of the server process, shared by the API routes and share images */
+const holderScans: HolderScanCache = new Map();
+
+/**
+ * @function getExcludedSet
+ * @description Lowercased addresses left out of the holders of a token
+ * @param {Omit<HoldersParams, "startBlock">} params - Token and contracts to leave out
+ * @returns {Set<string>} The zero address (mints and burns), the token and the excluded contracts
+ */
+function getExcludedSet({ tokenAddress, excluded }: Omit<HoldersParams, "startBlock">): Set<string> {
+  return new Set([zeroAddress, tokenAddress, ...excluded].map((address) => address.toLowerCase()));
+}
+
+/**
+ * @function applyTransfers
+ * @description Moves the amounts of Transfer logs between holder balances, in place
+ * @param {Map<string, HolderBalance>} holders - Balances by lowercased address
+ * @param {TransferLog[]} logs - Transfer logs in chain order
+ * @param {Set<string>} excluded - Lowercased addresses not tracked as holders
+ */
+function applyTransfers(holders: Map<string, HolderBalance>, logs: TransferLog[], excluded: Set<string>): void {
+  for (const log of logs) {
+    const { from, to, value } = log.args;
+    if (!from || !to || value === undefined || log.blockNumber === null) continue;
+
+    if (!excluded.has(from.toLowerCase())) {
+      const sender = holders.get(from.toLowerCase());
+      if (sender) sender.balance -= value;
+    }
+    if (!excluded.has(to.toLowerCase())) {
+      const receiver = holders.get(to.toLowerCase());
+      if (receiver) {
+        receiver.balance += value;
+      } else {
+        holders.set(to.toLowerCase(), { address: to, balance: value, firstBlock: log.blockNumber, firstTimestamp: null });
+      }
+    }
+  }
+}
+
+/**
+ * @function scanTransfers
+ * @description Applies the Transfer logs of a block range to holder balances, one eth_getLogs call per chunk
+ * @param {Client} client - Client of the chain the token lives on
+ * @param {Address} tokenAddress - EventToken address
+ * @param {Map<string, HolderBalance>} holders - Balances by lowercased address, updated in place
+ * @param {bigint} fromBlock - First block to scan
+ * @param {bigint} toBlock - Last block to scan
+ * @param {Set<string>} excluded - Lowercased addresses not tracked as holders
+ */
+async function scanTransfers(
+  client: Client,
+  tokenAddress: Address,
+  holders: Map<string, HolderBalance>,
+  fromBlock: bigint,
+  toBlock: bigint,
+  excluded: Set<string>
+): Promise<void> {
+  await scanLogsForward(fromBlock, toBlock, async (range) => {
+    const logs = await getLogs(client, { address: tokenAddress, event: transferEvent, ...range });
+    applyTransfers(holders, logs, excluded);
+  });
+}
+
+/**
+ * @function copyHolders
+ * @description Copies holder balances, so transfers applied to the copy leave the original untouched
+ * @param {Map<string, HolderBalance>} holders - Balances by lowercased address
+ * @returns {Map<string, HolderBalance>} Independent copy
+ */
+const copyHolders = (holders: Map<string, HolderBalance>): Map<string, HolderBalance> =>
+  new Map([...holders].map(([key, holder]) => [key, { ...holder }]));
+
+/**
+ * @function getScanKey
+ * @description Cache key of a holder scan. Balances depend on the excluded contracts, so they are part of it.
+ * @param {Omit<HoldersParams, "startBlock" | "limit">} params - Token and contracts to leave out
+ * @returns {string} Lowercased token and excluded addresses
+ */
+const getScanKey = ({ tokenAddress, excluded }: Omit<HoldersParams, "startBlock" | "limit">): string =>
+  [tokenAddress, ...[...excluded].sort()].join(":").toLowerCase();
+
+/**
+ * @function takeSnapshot
+ * @description Counts and ranks holder balances, reading the first transfer timestamp of the top holders
+ * @param {Client} client - Client of the chain the token lives on
+ * @param {Map<string, HolderBalance>} holders - Balances by lowercased address
+ * @param {number} limit - Number of top holders to return
+ * @param {Pick<HolderSnapshot, "blockNumber" | "logIndex">} position - Last log counted in the balances
+ * @param {BlockTimestamps} timestamps - Block timestamps already known
+ * @returns {Promise<HolderSnapshot>} Holder count and top holders
+ */
+async function takeSnapshot(
+  client: Client,
+  holders: Map<string, HolderBalance>,
+  limit: number,
+  { blockNumber, logIndex }: Pick<HolderSnapshot, "blockNumber" | "logIndex">,
+  timestamps: BlockTimestamps
+): Promise<HolderSnapshot> {
+  const current = [...holders.values()]
+    .filter((holder) => holder.balance > 0n)
+    .sort((a, b) => (a.balance === b.balance ? 0 : a.balance > b.balance ? -1 : 1));
+  const topHolders = current.slice(0, limit);
+
+  // Holders often share a block (e.g. the deployment), so each block is read once
+  const unknown = topHolders.filter((holder) => holder.firstTimestamp === null);
+  await readBlockTimestamps(client, unknown.map((holder) => holder.firstBlock), timestamps);
+  for (const holder of unknown) holder.firstTimestamp = timestamps.get(holder.firstBlock) ?? null;
+
+  return {
+    holderCount: current.length,
+    topHolders: topHolders.map((holder) => ({ ...holder })),
+    accounts: [...holders.values()],
+    blockNumber,
+    logIndex,
+  };
+}
+
+/**
+ * @function fetchHolders
+ * @description Rebuilds event token balances from every Transfer event of the EventToken
+ *
+ * Logs are scanned forwards from `startBlock` in chunks. The zero address (mints and
+ * burns) and the excluded contracts, i.e. the token itself, the hook and the PoolManager,
+ * are left out of both the count and the leaderboard. Block timestamps are only read
+ * for the first transfer of the top holders. Every call replays the whole history, which
+ * suits a browser reading it once; server code uses syncHolders.
+ *
+ * @param {Client} client - Client of the chain the token lives on
+ * @param {HoldersParams} params - Token to read and contracts to leave out
+ * @returns {Promise<HolderSnapshot>} Holder count and top holders
+ */
+export async function fetchHolders(client: Client, params: HoldersParams): Promise<HolderSnapshot> {
+  const { tokenAddress, startBlock, limit } = params;
+  const excluded = getExcludedSet(params);
+  const holders = new Map<string, HolderBalance>();
+  const latestBlock = await getBlockNumber(client);
+  await scanTransfers(client, tokenAddress, holders, startBlock, latestBlock, excluded);
+  return takeSnapshot(client, holders, limit, { blockNumber: latestBlock, logIndex: null }, new Map());
+}
+
+/**
+ * @function syncHolders
+ * @description Server-side holders of an event token, read from a scan cached between requests
+ *
+ * Each call scans at most MAX_SYNC_BLOCKS blocks past where the cached scan stopped,
+ * so a token with a long history is caught up over several requests instead of
+ * replaying every Transfer log on each one. The scan stays SYNC_CONFIRMATIONS blocks
+ * behind the head; the blocks after it are read again on every call and never cached,
+ * so a reorg of them doesn't corrupt the balances. Until the scan has caught up the
+ * snapshot is at the block it reached and `synced` is false.
+ *
+ * Concurrent calls each work on a copy and the further one is kept, so they never
+ * count a transfer twice.
+ *
+ * @param {Client} client - Client of the chain the token lives on
+ * @param {HoldersParams} params - Token to read and contracts to leave out
+ * @param {HolderScanCache} [cache] - Scans to continue from, the server process's by default
+ * @returns {Promise<HolderSync>} Holder count and top holders, and whether they are up to date
+ */
+export async function syncHolders(
+  client: Client,
+  params: HoldersParams,
+  cache: HolderScanCache = holderScans
+): Promise<HolderSync> {
+  const { tokenAddress, startBlock, limit } = params;
+  const excluded = getExcludedSet(params);
+  const key = getScanKey(params);
+  const cached = cache.get(key) ?? { holders: new Map(), nextBlock: startBlock, timestamps: new Map() };
+  const latestBlock = await getBlockNumber(client);
+
+  const safeBlock = latestBlock - SYNC_CONFIRMATIONS;
+  const scanEnd = cached.nextBlock + MAX_SYNC_BLOCKS - 1n;
+  const toBlock = scanEnd < safeBlock ? scanEnd : safeBlock;
+  let scan = cached;
+  if (toBlock >= cached.nextBlock) {
+    const holders = copyHolders(cached.holders);
+    await scanTransfers(client, tokenAddress, holders, cached.nextBlock, toBlock, excluded);
+    scan = { holders, nextBlock: toBlock + 1n, timestamps: cached.timestamps };
+    const current = cache.get(key);
+    if (!current || current.nextBlock < scan.nextBlock) cache.set(key, scan);
+  }
+
+  if (scan.nextBlock <= safeBlock) {
+    const snapshot = await takeSnapshot(
+      client,
+      copyHolders(scan.holders),
+      limit,
+      { blockNumber: scan.nextBlock - 1n, logIndex: null },
+      scan.timestamps
+    );
+    return { ...snapshot, synced: false };
+  }
+
+  // Unconfirmed blocks are counted in a copy only
+  const holders = copyHolders(scan.holders);
+  await scanTransfers(client, tokenAddress, holders, scan.nextBlock, latestBlock, excluded);
+  const snapshot = await takeSnapshot(client, holders, limit, { blockNumber: latestBlock, logIndex: null }, scan.timestamps);
+  return { ...snapshot, synced: true };
+}
+
+/**
+ * @function applyHolderTransfers
+ * @description Brings a holder snapshot up to date with Transfer logs received after it was taken
+ *
+ * Logs at or before the last one counted in the snapshot are skipped, so a
+ * subscription overlapping the snapshot read doesn't count a transfer twice.
+ *
+ * @param {Client} client - Client of the chain the token lives on
+ * @param {HolderSnapshot} snapshot - Snapshot to update, left untouched
+ * @param {TransferLog[]} logs - New Transfer logs of the EventToken, in chain order
+ * @param {Omit<HoldersParams, "startBlock">} params - Token, contracts to leave out and leaderboard size
+ * @param {BlockTimestamps} timestamps - Block timestamps already known, e.g. of the blocks the logs are in
+ * @returns {Promise<HolderSnapshot>} Snapshot at the last of the logs
+ */
+export async function applyHolderTransfers(
+  client: Client,
+  snapshot: HolderSnapshot,
+  logs: TransferLog[],
+  params: Omit<HoldersParams, "startBlock">,
+  timestamps: BlockTimestamps = new Map()
+): Promise<HolderSnapshot> {
+  const newer = logs.filter(
+    (log): log is TransferLog & { blockNumber: bigint; logIndex: number } =>
+      log.blockNumber !== null &&
+      log.logIndex !== null &&
+      (log.blockNumber > snapshot.blockNumber ||
+        (log.blockNumber === snapshot.blockNumber && snapshot.logIndex !== null && log.logIndex > snapshot.logIndex))
+  );
+  if (newer.length === 0) return snapshot;
+
+  const holders = new Map(snapshot.accounts.map((holder) => [holder.address.toLowerCase(), { ...holder }]));
+  applyTransfers(holders, newer, getExcludedSet(params));
+  const last = newer[newer.length - 1];
+  return takeSnapshot(client, holders, params.limit, { blockNumber: last.blockNumber, logIndex: last.logIndex }, timestamps);
+}
@@ -0,0 +1,203 @@
+import { hexToBigInt, zeroAddress, type Address, type Client, type Hex } from "viem";
+import { getCode, readContract } from "viem/actions";
+import {
+  decodeSlot0,
+  encodeSqrtPriceX96,
+  eventCoinSimpleHookAbi,
+  eventTokenAbi,
+  getEventHookInitCode,
+  getPoolId,
+  getPoolKey,
+  getPoolLiquiditySlot,
+  getPoolStateSlot,
+  mineHookSalt,
+  poolManagerAbi,
+  type MinedHookAddress,
+  type PoolKey,
+} from "@unifans/shared";
+
+/**
+ * @type LaunchStep
+ * @description Step of the event launch lifecycle, in the order they happen
+ */
+export type LaunchStep = "deployToken" | "deployHook" | "setHook" | "deposit" | "initialize" | "bootstrap" | "done";
+
+/** Launch steps in the order the wizard runs them */
+export const launchSteps: Exclude<LaunchStep, "done">[] = [
+  "deployToken",
+  "deployHook",
+  "setHook",
+  "deposit",
+  "initialize",
+  "bootstrap",
+];
+
+/**
+ * @interface LaunchParams
+ * @description What the wizard knows about a launch, from its URL
+ */
+export interface LaunchParams {
+  /** EventToken being launched, null before it is deployed */
+  tokenAddress: Address | null;
+  /** Backing asset picked by the organizer, needed until the hook is deployed */
+  backingAsset: Address | null;
+  /** PoolManager the event pool lives in */
+  poolManager: Address;
+  /** LP fee of the event pool */
+  fee: number;
+  /** Tick spacing of the event pool */
+  tickSpacing: number;
+}
+
+/**
+ * @interface LaunchProgress
+ * @description Launch state read back from the chain
+ */
+export interface LaunchProgress {
+  /** Next step to run, "done" once liquidity is bootstrapped */
+  step: LaunchStep;
+  /** Organizer of the EventToken, null before it is deployed */
+  organizer: Address | null;
+  /** Hook address, null until the backing asset is known */
+  hookAddress: Address | null;
+  /** CREATE2 salt the hook is deployed with, null once the hook is set on the token */
+  hookSalt: Hex | null;
+  /** Backing asset of the hook */
+  backingAsset: Address | null;
+  /** Backing asset deposited into the hook, 0 before the deposit */
+  initialBackingAmount: bigint;
+  /** Event pool key, null until the hook and backing asset are known */
+  poolKey: PoolKey | null;
+}
+
+/** Mined hook salts by init code, so a refetch does not mine again */
+const minedHooks = new Map<Hex, MinedHookAddress>();
+
+/**
+ * @function getHookInitCode
+ * @description Creation code of the EventCoinSimpleHook for an event, including constructor arguments
+ * @param {Address} poolManager - PoolManager the hook is attached to
+ * @param {Address} organizer - Organizer allowed to deposit the backing asset
+ * @param {Address} tokenAddress - EventToken of the event
+ * @param {Address} backingAsset - Backing asset of the event pool
+ * @returns {Hex} Init code to deploy through the CREATE2 deployer
+ */
+export function getHookInitCode(
+  poolManager: Address,
+  organizer: Address,
+  tokenAddress: Address,
+  backingAsset: Address
+): Hex {
+  return getEventHookInitCode({ poolManager, organizer, eventToken: tokenAddress, backingAsset });
+}
+
+/**
+ * @function findHookAddress
+ * @description Mines, or recalls, the CREATE2 salt giving the hook a flag-valid address.
+ * Mining always starts from salt 0, so the same init code always yields the same address.
+ * @param {Hex} initCode - Hook init code
+ * @returns {MinedHookAddress} Salt and hook address
+ */
+export function findHookAddress(initCode: Hex): MinedHookAddress {
+  const known = minedHooks.get(initCode);
+  if (known) return known;
+
+  const mined = mineHookSalt({ initCode });
+  minedHooks.set(initCode, mined);
+  return mined;
+}
+
+/**
+ * @function getInitialSqrtPriceX96
+ * @description Pool price at which the bootstrap liquidity uses all deposited backing asset and event tokens
+ * @param {PoolKey} poolKey - Event pool
+ * @param {Address} tokenAddress - EventToken of the pool
+ * @param {bigint} backingAmount - Raw backing asset deposited into the hook
+ * @param {bigint} tokenAmount - Raw event tokens the hook adds as liquidity
+ * @returns {bigint} sqrtPriceX96 to initialize the pool with
+ */
+export function getInitialSqrtPriceX96(
+  poolKey: PoolKey,
+  tokenAddress: Address,
+  backingAmount: bigint,
+  tokenAmount: bigint
+): bigint {
+  return poolKey.currency0 === tokenAddress
+    ? encodeSqrtPriceX96(backingAmount, tokenAmount)
+    : encodeSqrtPriceX96(tokenAmount, backingAmount);
+}
+
+/**
+ * @function readLaunchProgress
+ * @description Works out which launch step comes next from on-chain state only, so a launch
+ * can resume after a refresh
+ *
+ * - no token, or no hook code at the mined address: deploy it
+ * - `eventHook()` still zero: set the hook
+ * - `backingAssetDeposited()` false: deposit
+ * - pool Slot0 empty: initialize the pool, which bootstraps liquidity automatically
+ * - pool liquidity empty: run the manual bootstrap
+ *
+ * Only current state is read, never logs, so the cost doesn't grow with the chain's history.
+ *
+ * @param {Client} client - Public client of the active chain
+ * @param {LaunchParams} params - Launch being resumed
+ * @returns {Promise<LaunchProgress>} Next step and what is known about the launch
+ */
+export async function readLaunchProgress(client: Client, params: LaunchParams): Promise<LaunchProgress> {
+  const { tokenAddress, poolManager } = params;
+  const progress: LaunchProgress = {
+    step: "deployToken",
+    organizer: null,
+    hookAddress: null,
+    hookSalt: null,
+    backingAsset: params.backingAsset,
+    initialBackingAmount: 0n,
+    poolKey: null,
+  };
+  if (!tokenAddress) return progress;
+
+  const token = { address: tokenAddress, abi: eventTokenAbi } as const;
+  const [organizer, eventHook] = await Promise.all([
+    readContract(client, { ...token, functionName: "organizer" }),
+    readContract(client, { ...token, functionName: "eventHook" }),
+  ]);
+  progress.organizer = organizer;
+
+  if (eventHook === zeroAddress) {
+    if (!params.backingAsset) return { ...progress, step: "deployHook" };
+
+    // The hook address follows from its init code, so a deployed hook is found by its code
+    const hook = findHookAddress(getHookInitCode(poolManager, organizer, tokenAddress, params.backingAsset));
+    const code = await getCode(client, { address: hook.address });
+    return {
+      ...progress,
+      hookAddress: hook.address,
+      hookSalt: hook.salt,
+      step: code && code !== "0x" ? "setHook" : "deployHook",
+    };
+  }
+
+  const hookContract = { address: eventHook, abi: eventCoinSimpleHookAbi } as const;
+  const [backingAsset, deposited, initialBackingAmount] = await Promise.all([
+    readContract(client, { ...hookContract, functionName: "backingAsset" }),
+    readContract(client, { ...hookContract, functionName: "backingAssetDeposited" }),
+    readContract(client, { ...hookContract, functionName: "initialBackingAmount" }),
+  ]);
+  const poolKey = getPoolKey(tokenAddress, backingAsset, eventHook, params.fee, params.tickSpacing);
+  const hooked: LaunchProgress = { ...progress, hookAddress: eventHook, backingAsset, initialBackingAmount, poolKey };
+
+  if (!deposited) return { ...hooked, step: "deposit" };
+
+  const poolId = getPoolId(poolKey);
+  const extsload = (slot: Hex) =>
+    readContract(client, { address: poolManager, abi: poolManagerAbi, functionName: "extsload", args: [slot] });
+  const [slot0Word, liquidityWord] = await Promise.all([
+    extsload(getPoolStateSlot(poolId)),
+    extsload(getPoolLiquiditySlot(poolId)),
+  ]);
+
+  if (decodeSlot0(slot0Word).sqrtPriceX96 === 0n) return { ...hooked, step: "initialize" };
+  // The bootstrap adds full-range liquidity, so an open pool without in-range liquidity still needs it
+  return { ...hooked, step: hexToBigInt(liquidityWord) === 0n ? "bootstrap" : "done" };
+}
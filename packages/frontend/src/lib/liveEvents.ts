@@ -0,0 +1,122 @@
+import type { Address, Client, Hex } from "viem";
+import { watchBlocks, watchContractEvent } from "viem/actions";
+import { eventTokenAbi, poolManagerAbi } from "@unifans/shared";
+import type { SwapLog } from "./activity";
+import type { TransferLog } from "./holders";
+
+/**
+ * @interface EventWatchTarget
+ * @description Contracts of an event whose activity is watched
+ */
+export interface EventWatchTarget {
+  /** EventToken address */
+  tokenAddress: Address;
+  /** PoolManager holding the event pool, null before the hook is set */
+  poolManager: Address | null;
+  /** Id of the event pool, null before the hook is set */
+  poolId: Hex | null;
+}
+
+/**
+ * @interface WatchedBlock
+ * @description Head of the chain seen by the watcher
+ */
+export interface WatchedBlock {
+  number: bigint;
+  /** Block timestamp in seconds */
+  timestamp: number;
+}
+
+/**
+ * @interface EventWatchHandlers
+ * @description Callbacks of watchEventActivity, each called with the logs of one batch in chain order
+ */
+export interface EventWatchHandlers {
+  /** New chain head */
+  onBlock: (block: WatchedBlock) => void;
+  /** Swaps in the event pool */
+  onSwaps: (logs: SwapLog[]) => void;
+  /** EventToken transfers, organizer transfers included */
+  onTransfers: (logs: TransferLog[]) => void;
+  /** Organizer transfers, which use up the vested amount */
+  onOrganizerTransfers: () => void;
+  /** A subscription or poll failed */
+  onError: (error: Error) => void;
+}
+
+/**
+ * @function usesSubscriptions
+ * @description Whether watchers on a client subscribe to the node instead of polling it,
+ * which viem does when the client's first transport is a WebSocket
+ * @param {Client} client - Client to watch with
+ * @returns {boolean} True for WebSocket transports, false for HTTP ones
+ */
+export function usesSubscriptions(client: Client): boolean {
+  const transport =
+    client.transport.type === "fallback" ? client.transport.transports[0]?.config.type : client.transport.type;
+  return transport === "webSocket";
+}
+
+/**
+ * @function watchEventActivity
+ * @description Watches new blocks, pool swaps and EventToken transfers of an event
+ *
+ * Logs are pushed over `eth_subscribe` when the client has a WebSocket transport and
+ * polled every `client.pollingInterval` otherwise, through filters or getLogs when the
+ * node has no filters. Passing `poll` forces polling, e.g. after a subscription broke.
+ *
+ * @param {Client} client - Client of the chain the event lives on
+ * @param {EventWatchTarget} target - Contracts to watch
+ * @param {EventWatchHandlers} handlers - Callbacks for blocks, logs and errors
+ * @param {boolean} [poll] - Poll even when the transport could subscribe
+ * @returns {() => void} Stops every watcher
+ */
+export function watchEventActivity(
+  client: Client,
+  { tokenAddress, poolManager, poolId }: EventWatchTarget,
+  handlers: EventWatchHandlers,
+  poll?: boolean
+): () => void {
+  // Polling is only passed when forced, viem picks subscriptions or polling from the transport otherwise
+  const mode = poll ? ({ poll: true } as const) : {};
+  const unwatchers = [
+    watchBlocks(client, {
+      ...mode,
+      emitOnBegin: true,
+      onBlock: (block) => handlers.onBlock({ number: block.number, timestamp: Number(block.timestamp) }),
+      onError: handlers.onError,
+    }),
+    watchContractEvent(client, {
+      ...mode,
+      address: tokenAddress,
+      abi: eventTokenAbi,
+      eventName: "Transfer",
+      onLogs: handlers.onTransfers,
+      onError: handlers.onError,
+    }),
+    watchContractEvent(client, {
+      ...mode,
+      address: tokenAddress,
+      abi: eventTokenAbi,
+      eventName: "OrganizerTransfer",
+      onLogs: () => handlers.onOrganizerTransfers(),
+      onError: handlers.onError,
+    }),
+  ];
+
+  if (poolManager && poolId) {
+    unwatchers.push(
+      watchContractEvent(client, {
+        ...mode,
+        address: poolManager,
+        abi: poolManagerAbi,
+        eventName: "Swap",
+        args: { id: poolId },
+        onLogs: handlers.onSwaps,
+        onError: handlers.onError,
+      })
+    );
+  }
+
+  return () => unwatchers.forEach((unwatch) => unwatch());
+}
@@ -0,0 +1,59 @@
+/** Blocks requested per eth_getLogs call, kept below common RPC range limits */
+export const LOG_CHUNK_SIZE = 5_000n;
+
+/**
+ * @interface BlockRange
+ * @description Inclusive block range of one eth_getLogs call
+ */
+export interface BlockRange {
+  fromBlock: bigint;
+  toBlock: bigint;
+}
+
+/**
+ * @function scanLogsForward
+ * @description Walks a block range oldest first, one LOG_CHUNK_SIZE chunk at a time
+ * @param {bigint} fromBlock - First block to read
+ * @param {bigint} toBlock - Last block to read
+ * @param {Function} read - Reads the logs of a chunk
+ */
+export async function scanLogsForward(
+  fromBlock: bigint,
+  toBlock: bigint,
+  read: (range: BlockRange) => Promise<void>
+): Promise<void> {
+  for (let chunkStart = fromBlock; chunkStart <= toBlock; chunkStart += LOG_CHUNK_SIZE) {
+    const chunkEnd = chunkStart + LOG_CHUNK_SIZE - 1n < toBlock ? chunkStart + LOG_CHUNK_SIZE - 1n : toBlock;
+    await read({ fromBlock: chunkStart, toBlock: chunkEnd });
+  }
+}
+
+/**
+ * @function scanLogsBackward
+ * @description Walks a block range newest first, one LOG_CHUNK_SIZE chunk at a time
+ *
+ * `read` receives each chunk and returns true once it has found what it needs, which
+ * stops the scan. The scan also stops after the chunk holding `startBlock`.
+ *
+ * @param {bigint} startBlock - First block that can hold the logs
+ * @param {bigint} toBlock - Block to scan back from
+ * @param {Function} read - Reads the logs of a chunk, returns true to stop
+ * @returns {Promise<bigint | null>} Block a later scan would continue from, null once `startBlock` was read
+ */
+export async function scanLogsBackward(
+  startBlock: bigint,
+  toBlock: bigint,
+  read: (range: BlockRange) => Promise<boolean>
+): Promise<bigint | null> {
+  let chunkEnd = toBlock;
+
+  while (chunkEnd >= startBlock) {
+    const chunkStart = chunkEnd - LOG_CHUNK_SIZE + 1n > startBlock ? chunkEnd - LOG_CHUNK_SIZE + 1n : startBlock;
+    const done = await read({ fromBlock: chunkStart, toBlock: chunkEnd });
+    if (chunkStart === startBlock) return null;
+    chunkEnd = chunkStart - 1n;
+    if (done) return chunkEnd;
+  }
+
+  return null;
+}
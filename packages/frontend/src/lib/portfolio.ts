@@ -0,0 +1,359 @@
+import { erc20Abi, formatUnits, getAbiItem, zeroAddress, type Address, type Client, type Hex } from "viem";
+import { getBlockNumber, getLogs, readContract } from "viem/actions";
+import {
+  EVENT_TOKEN_DECIMALS,
+  decodeSlot0,
+  eventCoinSimpleHookAbi,
+  eventTokenAbi,
+  getPoolId,
+  getPoolKey,
+  getPoolStateSlot,
+  poolManagerAbi,
+  sqrtPriceX96ToTokenPrice,
+  type BackingAssetInfo,
+} from "@unifans/shared";
+import type { EventMetadata } from "../config/events";
+import { scanLogsForward } from "./logScan";
+
+/** ERC-20 Transfer event of the event token and the backing asset */
+const transferEvent = getAbiItem({ abi: erc20Abi, name: "Transfer" });
+
+/**
+ * @type EventLifecycle
+ * @description Stage of an event, from its launch to its date
+ * - launching: the pool is not open yet
+ * - preSupport: fans are buying, the interest threshold is not reached
+ * - confirmed: fans hold at least the interest threshold
+ * - ended: the event date has passed
+ */
+export type EventLifecycle = "launching" | "preSupport" | "confirmed" | "ended";
+
+/**
+ * @interface PositionLedger
+ * @description Cost basis of an event token position, rebuilt from the account's transfers.
+ * Amounts are raw units of the event token and the backing asset.
+ */
+interface PositionLedger {
+  /** Event tokens held according to the transfers */
+  tokens: bigint;
+  /** Backing asset paid for the tokens still held, at their average cost */
+  costBasis: bigint;
+  /** Proceeds of sales minus the average cost of the tokens sold */
+  realizedPnl: bigint;
+  /** Event tokens received without paying the backing asset, e.g. transfers and mints */
+  receivedWithoutCost: bigint;
+}
+
+/**
+ * @interface PortfolioPosition
+ * @description Event token held, or once traded, by an account
+ */
+export interface PortfolioPosition {
+  tokenAddress: Address;
+  name: string;
+  tokenSymbol: string;
+  /** Event date as a unix timestamp in seconds */
+  eventDate: number;
+  lifecycle: EventLifecycle;
+  /** Backing asset of the pool, null before the hook is set */
+  backingAsset: BackingAssetInfo | null;
+  /** Raw event token balance */
+  balance: bigint;
+  /** Pool price in backing asset units per token, 0 before the pool opens */
+  currentPrice: number;
+  /** Balance valued at the pool price, in backing asset units */
+  value: number;
+  /** Backing asset paid per token held, null without purchases */
+  averageEntryPrice: number | null;
+  /** Value minus cost basis, in backing asset units, null without purchases */
+  unrealizedPnl: number | null;
+  /** Realized profit or loss of sales, in backing asset units */
+  realizedPnl: number;
+  /** Whether part of the balance was received without a purchase and counts at zero cost */
+  hasTokensWithoutCost: boolean;
+}
+
+/**
+ * @interface Portfolio
+ * @description Positions of an account and the listed events that couldn't be read
+ */
+export interface Portfolio {
+  /** Positions held first, then closed ones, by event date */
+  positions: PortfolioPosition[];
+  /** EventTokens whose contracts or logs couldn't be read, left out of the positions */
+  failedEvents: Address[];
+}
+
+/**
+ * @interface TransferLog
+ * @description Transfer from or to the account, reduced to what the ledger needs
+ */
+interface TransferLog {
+  transactionHash: Hex;
+  blockNumber: bigint;
+  logIndex: number;
+  from: Address;
+  to: Address;
+  value: bigint;
+}
+
+/**
+ * @function fetchAccountTransfers
+ * @description Reads every Transfer of a token sent from or to an account
+ * @param {Client} client - Client of the chain the token lives on
+ * @param {Address} token - Token emitting the logs
+ * @param {Address} account - Sender or recipient to match
+ * @param {bigint} fromBlock - First block to scan
+ * @param {bigint} toBlock - Last block to scan
+ * @returns {Promise<TransferLog[]>} Transfers in both directions, unsorted
+ */
+async function fetchAccountTransfers(
+  client: Client,
+  token: Address,
+  account: Address,
+  fromBlock: bigint,
+  toBlock: bigint
+): Promise<TransferLog[]> {
+  const transfers: TransferLog[] = [];
+
+  await scanLogsForward(fromBlock, toBlock, async (range) => {
+    const filter = { address: token, event: transferEvent, ...range } as const;
+    const [sent, received] = await Promise.all([
+      getLogs(client, { ...filter, args: { from: account } }),
+      getLogs(client, { ...filter, args: { to: account } }),
+    ]);
+
+    for (const log of [...sent, ...received]) {
+      const { from, to, value } = log.args;
+      if (!from || !to || value === undefined || log.blockNumber === null || log.logIndex === null) continue;
+      // Transfers to oneself match both filters and change nothing
+      if (from.toLowerCase() === to.toLowerCase()) continue;
+      transfers.push({
+        transactionHash: log.transactionHash,
+        blockNumber: log.blockNumber,
+        logIndex: log.logIndex,
+        from,
+        to,
+        value,
+      });
+    }
+  });
+
+  return transfers;
+}
+
+/**
+ * @function buildPositionLedger
+ * @description Replays an account's event token and backing asset transfers into a cost basis
+ *
+ * Swaps go through a router, so PoolManager events don't name the trader. A transaction
+ * where the account receives event tokens and pays the backing asset is a purchase, one
+ * where it sends event tokens and receives the backing asset is a sale. Sales realize
+ * their proceeds against the average cost of the tokens held. Any other movement of event
+ * tokens is a transfer: received tokens count at zero cost, sent tokens leave at average cost.
+ *
+ * @param {Address} account - Account the transfers belong to
+ * @param {TransferLog[]} tokenTransfers - Event token transfers from or to the account
+ * @param {TransferLog[]} backingTransfers - Backing asset transfers from or to the account
+ * @returns {PositionLedger} Tokens held, cost basis and realized profit or loss
+ */
+function buildPositionLedger(
+  account: Address,
+  tokenTransfers: TransferLog[],
+  backingTransfers: TransferLog[]
+): PositionLedger {
+  const isAccount = (address: Address) => address.toLowerCase() === account.toLowerCase();
+  const netFlow = (transfers: TransferLog[]) =>
+    transfers.reduce((total, log) => total + (isAccount(log.to) ? log.value : -log.value), 0n);
+
+  const transactions = new Map<Hex, { order: [bigint, number]; tokens: TransferLog[]; backing: TransferLog[] }>();
+  for (const log of tokenTransfers) {
+    const transaction = transactions.get(log.transactionHash) ?? {
+      order: [log.blockNumber, log.logIndex] as [bigint, number],
+      tokens: [],
+      backing: [],
+    };
+    transaction.tokens.push(log);
+    transactions.set(log.transactionHash, transaction);
+  }
+  for (const log of backingTransfers) transactions.get(log.transactionHash)?.backing.push(log);
+
+  const ledger: PositionLedger = { tokens: 0n, costBasis: 0n, realizedPnl: 0n, receivedWithoutCost: 0n };
+  const ordered = [...transactions.values()].sort(({ order: [blockA, indexA] }, { order: [blockB, indexB] }) =>
+    blockA === blockB ? indexA - indexB : blockA < blockB ? -1 : 1
+  );
+
+  for (const { tokens, backing } of ordered) {
+    const tokenFlow = netFlow(tokens);
+    const backingFlow = netFlow(backing);
+
+    if (tokenFlow > 0n) {
+      ledger.tokens += tokenFlow;
+      if (backingFlow < 0n) {
+        ledger.costBasis -= backingFlow;
+      } else {
+        ledger.receivedWithoutCost += tokenFlow;
+      }
+    } else if (tokenFlow < 0n && ledger.tokens > 0n) {
+      const sold = -tokenFlow < ledger.tokens ? -tokenFlow : ledger.tokens;
+      const soldCost = (ledger.costBasis * sold) / ledger.tokens;
+      ledger.tokens -= sold;
+      ledger.costBasis -= soldCost;
+      if (backingFlow > 0n) ledger.realizedPnl += backingFlow - soldCost;
+    }
+  }
+
+  return ledger;
+}
+
+/**
+ * @function getEventLifecycle
+ * @description Derives the stage of an event the same way the event page presents it
+ * @param {number} eventDate - Event date in seconds
+ * @param {boolean} isPoolOpen - Whether the event pool has a price
+ * @param {bigint} inCirculation - Raw event tokens held by the community
+ * @param {number} minInterest - Whole tokens fans must hold to confirm the event
+ * @returns {EventLifecycle} Stage of the event
+ */
+function getEventLifecycle(
+  eventDate: number,
+  isPoolOpen: boolean,
+  inCirculation: bigint,
+  minInterest: number
+): EventLifecycle {
+  if (eventDate <= Math.floor(Date.now() / 1000)) return "ended";
+  if (!isPoolOpen) return "launching";
+  return inCirculation >= BigInt(minInterest) * 10n ** BigInt(EVENT_TOKEN_DECIMALS) ? "confirmed" : "preSupport";
+}
+
+/**
+ * @function fetchPosition
+ * @description Reads an event and rebuilds an account's position in its token
+ * @param {Client} client - Client of the chain the event lives on
+ * @param {Address} account - Account whose position to read
+ * @param {EventMetadata} metadata - Listed event
+ * @param {bigint} latestBlock - Last block to scan
+ * @returns {Promise<PortfolioPosition | null>} Position, null when the account never held the token
+ */
+async function fetchPosition(
+  client: Client,
+  account: Address,
+  metadata: EventMetadata,
+  latestBlock: bigint
+): Promise<PortfolioPosition | null> {
+  const { tokenAddress } = metadata;
+  const token = { address: tokenAddress, abi: eventTokenAbi } as const;
+
+  const [balance, name, tokenSymbol, eventDate, totalSupply, hookAddress, vestingInfo, tokenTransfers] =
+    await Promise.all([
+      readContract(client, { ...token, functionName: "balanceOf", args: [account] }),
+      readContract(client, { ...token, functionName: "eventName" }),
+      readContract(client, { ...token, functionName: "symbol" }),
+      readContract(client, { ...token, functionName: "eventDate" }),
+      readContract(client, { ...token, functionName: "totalSupply" }),
+      readContract(client, { ...token, functionName: "eventHook" }),
+      readContract(client, { ...token, functionName: "getVestingInfo" }),
+      fetchAccountTransfers(client, tokenAddress, account, metadata.startBlock, latestBlock),
+    ]);
+  if (balance === 0n && tokenTransfers.length === 0) return null;
+
+  let backingAsset: BackingAssetInfo | null = null;
+  let sqrtPriceX96 = 0n;
+  let currentPrice = 0;
+  let inCirculation = 0n;
+  let ledger: PositionLedger | null = null;
+
+  if (hookAddress !== zeroAddress) {
+    const hook = { address: hookAddress, abi: eventCoinSimpleHookAbi } as const;
+    const [[asset, decimals, backingSymbol], poolManager] = await Promise.all([
+      readContract(client, { ...hook, functionName: "getBackingAssetInfo" }),
+      readContract(client, { ...hook, functionName: "poolManager" }),
+    ]);
+    const poolKey = getPoolKey(tokenAddress, asset, hookAddress, metadata.poolFee, metadata.tickSpacing);
+
+    // Only backing asset transfers in the blocks that moved event tokens can belong to a trade,
+    // buildPositionLedger then keeps those sharing a transaction with an event token transfer
+    const tradedBlocks = tokenTransfers.map((log) => log.blockNumber);
+    const firstTradedBlock = tradedBlocks.reduce((min, block) => (block < min ? block : min), latestBlock);
+    const lastTradedBlock = tradedBlocks.reduce((max, block) => (block > max ? block : max), 0n);
+    const [slot0Word, hookBalance, poolManagerBalance, backingTransfers] = await Promise.all([
+      readContract(client, {
+        address: poolManager,
+        abi: poolManagerAbi,
+        functionName: "extsload",
+        args: [getPoolStateSlot(getPoolId(poolKey))],
+      }),
+      readContract(client, { ...token, functionName: "balanceOf", args: [hookAddress] }),
+      readContract(client, { ...token, functionName: "balanceOf", args: [poolManager] }),
+      fetchAccountTransfers(client, asset, account, firstTradedBlock, lastTradedBlock),
+    ]);
+
+    backingAsset = { address: asset, decimals, symbol: backingSymbol };
+    sqrtPriceX96 = decodeSlot0(slot0Word).sqrtPriceX96;
+    currentPrice =
+      sqrtPriceX96 === 0n ? 0 : sqrtPriceX96ToTokenPrice(sqrtPriceX96, poolKey.currency0 === tokenAddress, decimals);
+    // Tokens that left the hook and the pool are held by the community
+    inCirculation = totalSupply - vestingInfo[2] - hookBalance - poolManagerBalance;
+    ledger = buildPositionLedger(account, tokenTransfers, backingTransfers);
+  }
+
+  const toBacking = (amount: bigint) => Number(formatUnits(amount, backingAsset?.decimals ?? 18));
+  const tokens = Number(formatUnits(balance, EVENT_TOKEN_DECIMALS));
+  const value = tokens * currentPrice;
+  const hasPurchases = ledger !== null && ledger.tokens > 0n && ledger.costBasis > 0n;
+
+  return {
+    tokenAddress,
+    name,
+    tokenSymbol,
+    eventDate: Number(eventDate),
+    lifecycle: getEventLifecycle(Number(eventDate), sqrtPriceX96 !== 0n, inCirculation, metadata.minInterest),
+    backingAsset,
+    balance,
+    currentPrice,
+    value,
+    averageEntryPrice: hasPurchases
+      ? toBacking(ledger!.costBasis) / Number(formatUnits(ledger!.tokens, EVENT_TOKEN_DECIMALS))
+      : null,
+    unrealizedPnl: hasPurchases ? value - toBacking(ledger!.costBasis) : null,
+    realizedPnl: ledger ? toBacking(ledger.realizedPnl) : 0,
+    hasTokensWithoutCost: ledger !== null && ledger.receivedWithoutCost > 0n && balance > 0n,
+  };
+}
+
+/**
+ * @function fetchPortfolio
+ * @description Reads an account's positions in every listed event token
+ *
+ * Events are read one after another, so their log scans never run side by side. An event
+ * whose contracts or logs can't be read is reported in `failedEvents`, so a wrong address
+ * in the list doesn't hide the rest of the portfolio.
+ *
+ * @param {Client} client - Client of the chain the events live on
+ * @param {Address} account - Account whose portfolio to read
+ * @param {readonly EventMetadata[]} events - Listed events
+ * @returns {Promise<Portfolio>} Positions and the events left out of them
+ */
+export async function fetchPortfolio(
+  client: Client,
+  account: Address,
+  events: readonly EventMetadata[]
+): Promise<Portfolio> {
+  const latestBlock = await getBlockNumber(client);
+  const positions: PortfolioPosition[] = [];
+  const failedEvents: Address[] = [];
+
+  for (const metadata of events) {
+    try {
+      const position = await fetchPosition(client, account, metadata, latestBlock);
+      if (position) positions.push(position);
+    } catch {
+      failedEvents.push(metadata.tokenAddress);
+    }
+  }
+
+  positions.sort((a, b) =>
+    (a.balance > 0n) === (b.balance > 0n) ? a.eventDate - b.eventDate : a.balance > 0n ? -1 : 1
+  );
+  return { positions, failedEvents };
+}
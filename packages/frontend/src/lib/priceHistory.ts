@@ -0,0 +1,338 @@
+import { formatUnits, getAbiItem, type Address, type Client, type Hex } from "viem";
+import { getBlockNumber, getLogs } from "viem/actions";
+import { poolManagerAbi, sqrtPriceX96ToTokenPrice } from "@unifans/shared";
+import { readBlockTimestamps, type BlockTimestamps } from "./blockTimestamps";
+import { scanLogsBackward } from "./logScan";
+
+/**
+ * @type Timeframe
+ * @description Chart timeframes offered by TokenChart
+ */
+export type Timeframe = "1h" | "24h" | "7d" | "30d";
+
+/**
+ * @interface TimeframeConfig
+ * @description Bucketing of one chart timeframe
+ */
+export interface TimeframeConfig {
+  /** Button label */
+  label: string;
+  /** Length of one bucket in seconds */
+  bucketSeconds: number;
+  /** Number of buckets covering the timeframe */
+  buckets: number;
+}
+
+/** Bucketing of every timeframe, ordered as shown in the chart */
+export const timeframes: Record<Timeframe, TimeframeConfig> = {
+  "1h": { label: "1H", bucketSeconds: 60, buckets: 60 },
+  "24h": { label: "24H", bucketSeconds: 3_600, buckets: 24 },
+  "7d": { label: "7D", bucketSeconds: 21_600, buckets: 28 },
+  "30d": { label: "30D", bucketSeconds: 86_400, buckets: 30 },
+};
+
+/** Longest timeframe in seconds, the window price history is fetched for */
+export const HISTORY_WINDOW_SECONDS = Math.max(
+  ...Object.values(timeframes).map(({ bucketSeconds, buckets }) => bucketSeconds * buckets)
+);
+
+/** PoolManager events carrying the pool price */
+const initializeEvent = getAbiItem({ abi: poolManagerAbi, name: "Initialize" });
+const swapEvent = getAbiItem({ abi: poolManagerAbi, name: "Swap" });
+
+/**
+ * @interface PriceSample
+ * @description Pool price right after an Initialize or Swap event
+ */
+export interface PriceSample {
+  /** Block timestamp in seconds */
+  timestamp: number;
+  /** Price of one event token in the backing asset */
+  price: number;
+  /** Backing asset paid or received by the swap, 0 for the pool initialization */
+  volume: number;
+  /** Block of the event */
+  blockNumber: bigint;
+  /** Position of the event in its block */
+  logIndex: number;
+}
+
+/**
+ * @interface PoolPriceLog
+ * @description Decoded PoolManager Initialize or Swap log, as returned by getLogs or watchContractEvent
+ */
+export interface PoolPriceLog {
+  blockNumber: bigint | null;
+  logIndex: number | null;
+  args: { sqrtPriceX96?: bigint; amount0?: bigint; amount1?: bigint };
+}
+
+/**
+ * @interface PoolPricing
+ * @description How pool prices and amounts of an event pool are read
+ */
+export interface PoolPricing {
+  /** Whether the event token is currency0 of the pool */
+  tokenIsCurrency0: boolean;
+  /** Decimals of the backing asset */
+  backingDecimals: number;
+}
+
+/**
+ * @interface PricePoint
+ * @description Closing price of one chart bucket
+ */
+export interface PricePoint {
+  /** End of the bucket in seconds */
+  timestamp: number;
+  /** Price of one event token in the backing asset */
+  price: number;
+}
+
+/**
+ * @interface PriceHistoryParams
+ * @description Pool to read price history for
+ */
+export interface PriceHistoryParams extends PoolPricing {
+  /** PoolManager holding the event pool */
+  poolManager: Address;
+  /** Id of the event pool */
+  poolId: Hex;
+  /** First block to scan, usually the EventToken deployment block */
+  startBlock: bigint;
+  /** Oldest timestamp (seconds) the history has to cover */
+  since: number;
+}
+
+/**
+ * @function comparePosition
+ * @description Orders two samples by their position on chain
+ * @param {PriceSample} a - First sample
+ * @param {PriceSample} b - Second sample
+ * @returns {number} Negative when a comes first, positive when b does, 0 for the same event
+ */
+const comparePosition = (a: PriceSample, b: PriceSample): number =>
+  a.blockNumber === b.blockNumber ? a.logIndex - b.logIndex : a.blockNumber < b.blockNumber ? -1 : 1;
+
+/**
+ * @function readPriceSamples
+ * @description Turns PoolManager Initialize and Swap logs into price samples
+ * @param {Client} client - Client of the chain the pool lives on, to read block timestamps
+ * @param {PoolPriceLog[]} logs - Logs of the event pool, pending logs are skipped
+ * @param {PoolPricing} pricing - How to read prices and amounts of the pool
+ * @param {BlockTimestamps} timestamps - Block timestamps already known, filled with the blocks read
+ * @returns {Promise<PriceSample[]>} One sample per log, in the order of the logs
+ */
+export async function readPriceSamples(
+  client: Client,
+  logs: PoolPriceLog[],
+  { tokenIsCurrency0, backingDecimals }: PoolPricing,
+  timestamps: BlockTimestamps = new Map()
+): Promise<PriceSample[]> {
+  const mined = logs.filter(
+    (log): log is PoolPriceLog & { blockNumber: bigint; logIndex: number; args: { sqrtPriceX96: bigint } } =>
+      log.blockNumber !== null && log.logIndex !== null && log.args.sqrtPriceX96 !== undefined
+  );
+  await readBlockTimestamps(client, mined.map((log) => log.blockNumber), timestamps);
+
+  return mined.map(({ blockNumber, logIndex, args }) => {
+    // Swap deltas are signed from the swapper's side, the backing asset one is the trade size
+    const backingDelta = tokenIsCurrency0 ? args.amount1 : args.amount0;
+    return {
+      timestamp: timestamps.get(blockNumber)!,
+      price: sqrtPriceX96ToTokenPrice(args.sqrtPriceX96, tokenIsCurrency0, backingDecimals),
+      volume: backingDelta ? Number(formatUnits(backingDelta < 0n ? -backingDelta : backingDelta, backingDecimals)) : 0,
+      blockNumber,
+      logIndex,
+    };
+  });
+}
+
+/**
+ * @function mergePriceSamples
+ * @description Appends live samples to a price history
+ *
+ * Samples at or before the last one of the history are dropped, so logs delivered by
+ * a subscription that overlaps the history read are only counted once.
+ *
+ * @param {PriceSample[]} samples - History sorted oldest first
+ * @param {PriceSample[]} added - New samples, in any order
+ * @returns {PriceSample[]} The history with the new samples, oldest first
+ */
+export function mergePriceSamples(samples: PriceSample[], added: PriceSample[]): PriceSample[] {
+  const last = samples.at(-1);
+  const newer = added.filter((sample) => !last || comparePosition(sample, last) > 0).sort(comparePosition);
+  return newer.length > 0 ? [...samples, ...newer] : samples;
+}
+
+/**
+ * @function fetchPriceSamples
+ * @description Reads pool prices from Initialize and Swap events of the PoolManager
+ *
+ * Logs are scanned backwards from the latest block in chunks until a sample older
+ * than `since` is found (the opening price of the window) or `startBlock` is reached.
+ *
+ * @param {Client} client - Client of the chain the pool lives on
+ * @param {PriceHistoryParams} params - Pool and window to read
+ * @returns {Promise<PriceSample[]>} Samples sorted by timestamp, oldest first
+ */
+export async function fetchPriceSamples(client: Client, params: PriceHistoryParams): Promise<PriceSample[]> {
+  const { poolManager, poolId, startBlock, since } = params;
+  const timestamps: BlockTimestamps = new Map();
+  const samples: PriceSample[] = [];
+
+  await scanLogsBackward(startBlock, await getBlockNumber(client), async ({ fromBlock, toBlock }) => {
+    const filter = { address: poolManager, args: { id: poolId }, fromBlock, toBlock } as const;
+    const [initializeLogs, swapLogs] = await Promise.all([
+      getLogs(client, { ...filter, event: initializeEvent }),
+      getLogs(client, { ...filter, event: swapEvent }),
+    ]);
+
+    const chunkSamples = await readPriceSamples(client, [...initializeLogs, ...swapLogs], params, timestamps);
+    samples.push(...chunkSamples);
+    const reachedWindowStart = chunkSamples.some((sample) => sample.timestamp <= since);
+
+    // The pool can't have events before it was initialized
+    return reachedWindowStart || initializeLogs.length > 0;
+  });
+
+  return samples.sort(comparePosition);
+}
+
+/**
+ * @function buildPriceSeries
+ * @description Buckets price samples into the closing price of each interval of a timeframe
+ *
+ * Buckets without swaps carry the previous close forward. Buckets before the pool
+ * was initialized are left out, and the last point is the live pool price.
+ *
+ * @param {PriceSample[]} samples - Samples sorted by timestamp, oldest first
+ * @param {Timeframe} timeframe - Timeframe to bucket into
+ * @param {number} now - Current time in seconds
+ * @param {number} currentPrice - Live pool price
+ * @returns {PricePoint[]} Closing prices, oldest first
+ */
+export function buildPriceSeries(
+  samples: PriceSample[],
+  timeframe: Timeframe,
+  now: number,
+  currentPrice: number
+): PricePoint[] {
+  const { bucketSeconds, buckets } = timeframes[timeframe];
+  const windowStart = now - bucketSeconds * buckets;
+  const points: PricePoint[] = [];
+  let sampleIndex = 0;
+  let lastPrice: number | null = null;
+
+  for (let bucket = 0; bucket < buckets; bucket++) {
+    const bucketEnd = windowStart + bucketSeconds * bucket;
+    while (sampleIndex < samples.length && samples[sampleIndex].timestamp <= bucketEnd) {
+      lastPrice = samples[sampleIndex].price;
+      sampleIndex++;
+    }
+    if (lastPrice !== null) points.push({ timestamp: bucketEnd, price: lastPrice });
+  }
+
+  if (currentPrice > 0) points.push({ timestamp: now, price: currentPrice });
+  return points;
+}
+
+/**
+ * @function getPriceChange
+ * @description Relative change between the first and last price of a series
+ * @param {PricePoint[]} points - Price series, oldest first
+ * @returns {number | null} Change in percent, null when there is nothing to compare
+ */
+export function getPriceChange(points: PricePoint[]): number | null {
+  if (points.length < 2 || points[0].price === 0) return null;
+  return ((points[points.length - 1].price - points[0].price) / points[0].price) * 100;
+}
+
+/**
+ * @type CandleInterval
+ * @description Candle lengths offered by the public API
+ */
+export type CandleInterval = "1m" | "5m" | "15m" | "1h" | "4h" | "1d";
+
+/** Length of each candle interval in seconds */
+export const candleIntervals: Record<CandleInterval, number> = {
+  "1m": 60,
+  "5m": 300,
+  "15m": 900,
+  "1h": 3_600,
+  "4h": 14_400,
+  "1d": 86_400,
+};
+
+/**
+ * @interface PriceCandle
+ * @description Open, high, low and close price of one interval
+ */
+export interface PriceCandle {
+  /** Start of the interval in seconds */
+  time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  /** Price updates in the interval: swaps, and the pool initialization */
+  updates: number;
+  /** Backing asset traded in the interval */
+  volume: number;
+}
+
+/**
+ * @function buildPriceCandles
+ * @description Groups price samples into candles of consecutive intervals
+ *
+ * Intervals without swaps are flat candles at the previous close. Intervals before
+ * the pool was initialized are left out.
+ *
+ * @param {PriceSample[]} samples - Samples sorted by timestamp, oldest first, starting before the first interval
+ * @param {number} intervalSeconds - Length of one candle
+ * @param {number} end - End of the last interval in seconds
+ * @param {number} count - Number of intervals before `end`
+ * @returns {PriceCandle[]} Candles, oldest first
+ */
+export function buildPriceCandles(
+  samples: PriceSample[],
+  intervalSeconds: number,
+  end: number,
+  count: number
+): PriceCandle[] {
+  const start = end - intervalSeconds * count;
+  const candles: PriceCandle[] = [];
+  let sampleIndex = 0;
+  let lastPrice: number | null = null;
+
+  while (sampleIndex < samples.length && samples[sampleIndex].timestamp < start) {
+    lastPrice = samples[sampleIndex].price;
+    sampleIndex++;
+  }
+
+  for (let time = start; time < end; time += intervalSeconds) {
+    // Each candle opens at the previous close, or at the first price of the pool
+    let candle: PriceCandle | null =
+      lastPrice !== null
+        ? { time, open: lastPrice, high: lastPrice, low: lastPrice, close: lastPrice, updates: 0, volume: 0 }
+        : null;
+
+    while (sampleIndex < samples.length && samples[sampleIndex].timestamp < time + intervalSeconds) {
+      const { price, volume } = samples[sampleIndex];
+      candle ??= { time, open: price, high: price, low: price, close: price, updates: 0, volume: 0 };
+      candle.high = Math.max(candle.high, price);
+      candle.low = Math.min(candle.low, price);
+      candle.close = price;
+      candle.updates++;
+      candle.volume += volume;
+      sampleIndex++;
+    }
+
+    if (candle) {
+      candles.push(candle);
+      lastPrice = candle.close;
+    }
+  }
+
+  return candles;
+}
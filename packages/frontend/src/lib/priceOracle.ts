@@ -0,0 +1,164 @@
+import { formatUnits, type Address, type Client } from "viem";
+import { readContract } from "viem/actions";
+import type { BackingAssetInfo } from "@unifans/shared";
+
+/**
+ * Fiat currencies backing asset amounts can be shown in
+ */
+export const fiatCurrencies = ["USD", "MXN"] as const;
+
+/**
+ * @type FiatCurrency
+ * @description ISO 4217 code of a supported fiat currency
+ */
+export type FiatCurrency = (typeof fiatCurrencies)[number];
+
+/**
+ * @type PriceOracleSource
+ * @description Adapter a rate comes from
+ */
+export type PriceOracleSource = "static" | "chainlink";
+
+/**
+ * @interface FiatRate
+ * @description Value of one backing asset unit in a fiat currency
+ */
+export interface FiatRate {
+  /** Fiat units per backing asset unit */
+  rate: number;
+  /** When the rate was last updated, unix seconds */
+  updatedAt: number;
+}
+
+/**
+ * @interface PriceOracle
+ * @description Converts backing asset amounts into fiat. Adapters look assets up by
+ * address, since any token can claim a symbol, and return null for assets or currencies
+ * they have no rate for. They throw when a rate exists but can't be read.
+ */
+export interface PriceOracle {
+  /** Adapter the rates come from */
+  source: PriceOracleSource;
+  /** Rate of a backing asset in a fiat currency */
+  getRate: (asset: BackingAssetInfo, currency: FiatCurrency) => Promise<FiatRate | null>;
+}
+
+/**
+ * @interface StaticRates
+ * @description Rate table of the static adapter, as stored in src/config/fiatRates.json
+ */
+export interface StaticRates {
+  /** When the table was last refreshed, ISO 8601 */
+  updatedAt: string;
+  /** Fiat rates per backing asset, keyed by asset address */
+  rates: Record<string, Partial<Record<FiatCurrency, number>>>;
+}
+
+/**
+ * @type PriceFeeds
+ * @description Chainlink-style feed addresses keyed by pair. Backing asset pairs start with
+ * the lower-cased asset address, like "0x036c…cf7e/USD", fiat pairs with the currency, like "MXN/USD".
+ */
+export type PriceFeeds = Record<string, Address>;
+
+/** Oldest feed answer accepted, in seconds. Fiat feeds update at least once a day. */
+const FEED_MAX_AGE_SECONDS = 90_000;
+
+/**
+ * AggregatorV3Interface functions read by the on-chain adapter
+ */
+const aggregatorV3Abi = [
+  {
+    type: "function",
+    name: "decimals",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [{ name: "", type: "uint8" }],
+  },
+  {
+    type: "function",
+    name: "latestRoundData",
+    stateMutability: "view",
+    inputs: [],
+    outputs: [
+      { name: "roundId", type: "uint80" },
+      { name: "answer", type: "int256" },
+      { name: "startedAt", type: "uint256" },
+      { name: "updatedAt", type: "uint256" },
+      { name: "answeredInRound", type: "uint80" },
+    ],
+  },
+] as const;
+
+/**
+ * @function createStaticOracle
+ * @description Oracle reading a fixed rate table, which works offline and on local chains
+ * @param {StaticRates} table - Rates per backing asset
+ * @returns {PriceOracle} Static price oracle
+ */
+export function createStaticOracle(table: StaticRates): PriceOracle {
+  const updatedAt = Math.floor(Date.parse(table.updatedAt) / 1000);
+  // Addresses are matched case-insensitively, checksummed or not
+  const rates = new Map(Object.entries(table.rates).map(([address, value]) => [address.toLowerCase(), value]));
+
+  return {
+    source: "static",
+    getRate: async (asset, currency) => {
+      const rate = rates.get(asset.address.toLowerCase())?.[currency];
+      return rate === undefined ? null : { rate, updatedAt };
+    },
+  };
+}
+
+/**
+ * @function createChainlinkOracle
+ * @description Oracle reading Chainlink-style AggregatorV3 feeds. Uses the asset/currency
+ * feed when there is one, else the asset/USD feed divided by the currency/USD feed.
+ * @param {Client} client - Client of the chain the feeds live on
+ * @param {PriceFeeds} feeds - Feed address of each pair
+ * @returns {PriceOracle} On-chain price oracle
+ */
+export function createChainlinkOracle(client: Client, feeds: PriceFeeds): PriceOracle {
+  /**
+   * @function readFeed
+   * @description Reads the latest answer of a pair's feed
+   * @param {string} pair - Pair like "0x036c…cf7e/USD"
+   * @returns {Promise<FiatRate | null>} Answer of the feed, null when the pair has no feed
+   */
+  const readFeed = async (pair: string): Promise<FiatRate | null> => {
+    const feed = feeds[pair];
+    if (!feed) return null;
+
+    const [decimals, [, answer, , updatedAt]] = await Promise.all([
+      readContract(client, { address: feed, abi: aggregatorV3Abi, functionName: "decimals" }),
+      readContract(client, { address: feed, abi: aggregatorV3Abi, functionName: "latestRoundData" }),
+    ]);
+
+    if (answer <= 0n) throw new Error(`The ${pair} price feed has no price`);
+    if (Date.now() / 1000 - Number(updatedAt) > FEED_MAX_AGE_SECONDS) {
+      throw new Error(`The ${pair} price feed has not been updated for over a day`);
+    }
+
+    return { rate: Number(formatUnits(answer, decimals)), updatedAt: Number(updatedAt) };
+  };
+
+  return {
+    source: "chainlink",
+    getRate: async (asset, currency) => {
+      const base = asset.address.toLowerCase();
+      const direct = await readFeed(`${base}/${currency}`);
+      if (direct) return direct;
+
+      // Fiat feeds are quoted in USD, so other currencies go through the asset's USD price
+      const assetUsd = await readFeed(`${base}/USD`);
+      if (!assetUsd || currency === "USD") return assetUsd;
+      const currencyUsd = await readFeed(`${currency}/USD`);
+      if (!currencyUsd) return null;
+
+      return {
+        rate: assetUsd.rate / currencyUsd.rate,
+        updatedAt: Math.min(assetUsd.updatedAt, currencyUsd.updatedAt),
+      };
+    },
+  };
+}
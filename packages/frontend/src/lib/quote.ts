@@ -0,0 +1,208 @@
+import { formatUnits, hexToBigInt, type Address, type Client, type Hex } from "viem";
+import { readContract } from "viem/actions";
+import {
+  EVENT_TOKEN_DECIMALS,
+  decodeSlot0,
+  decodeTickLiquidityNet,
+  getMaximumAmountIn,
+  getMinimumAmountOut,
+  getPoolId,
+  getPoolLiquiditySlot,
+  getPoolStateSlot,
+  getSqrtPriceLimit,
+  getTickBitmapSlot,
+  getTickInfoSlot,
+  poolManagerAbi,
+  quoteSwap,
+  type BackingAssetInfo,
+  type PoolKey,
+  type PoolQuoteState,
+  type TickLiquidityReader,
+} from "@unifans/shared";
+import { LocalizedError } from "./errors";
+
+/**
+ * @type TradeSide
+ * @description Whether event tokens are bought or sold
+ */
+export type TradeSide = "buy" | "sell";
+
+/**
+ * @type ExactAmount
+ * @description Which amount of a trade the user fixes, the other one is quoted
+ */
+export type ExactAmount = "token" | "backing";
+
+/**
+ * @interface TradeRequest
+ * @description Trade entered in the purchase form
+ */
+export interface TradeRequest {
+  side: TradeSide;
+  exact: ExactAmount;
+  /** Raw amount of the event token or backing asset, depending on `exact` */
+  amount: bigint;
+}
+
+/**
+ * @interface TradeMarket
+ * @description Pool an event token trades in
+ */
+export interface TradeMarket {
+  tokenAddress: Address;
+  poolKey: PoolKey;
+  poolManager: Address;
+  backingAsset: BackingAssetInfo;
+}
+
+/**
+ * @interface TradeQuote
+ * @description What a trade of event tokens exchanges at the current pool state, in raw units
+ */
+export interface TradeQuote extends TradeRequest {
+  /** Event tokens received when buying, sold when selling */
+  tokenAmount: bigint;
+  /** Backing asset paid when buying, received when selling, pool fee included */
+  backingAmount: bigint;
+  /** Backing asset paid or received per whole event token, pool fee included */
+  averagePrice: number;
+  /** How much worse than the spot price the trade fills, fees excluded (0.01 = 1%) */
+  priceImpact: number;
+  /** Swap direction in the pool */
+  zeroForOne: boolean;
+  /** Swap amount in the v4 convention, negative for exact input */
+  amountSpecified: bigint;
+  /** Pool price once the trade is done */
+  sqrtPriceX96After: bigint;
+  /** When the quote was computed, in milliseconds */
+  quotedAt: number;
+}
+
+/**
+ * @interface TradeLimits
+ * @description Worst amounts a trade accepts under the slippage tolerance, in raw units
+ */
+export interface TradeLimits {
+  /** Most the trade may pay: the exact input, or the quoted input plus slippage */
+  maxAmountIn: bigint;
+  /** Least the trade may receive: the exact output, or the quoted output minus slippage */
+  minAmountOut: bigint;
+  /** Price the swap stops at, so later fills are partial instead of worse */
+  sqrtPriceLimitX96: bigint;
+}
+
+/** Price impact above which the form warns before trading (0.05 = 5%) */
+export const HIGH_PRICE_IMPACT = 0.05;
+
+/**
+ * @function readPoolQuoteState
+ * @description Reads the price, tick, fees and in-range liquidity of a pool from PoolManager storage
+ * @param {Client} client - Public client of the active chain
+ * @param {Address} poolManager - PoolManager address
+ * @param {PoolKey} key - Pool key
+ * @returns {Promise<PoolQuoteState>} State a quote starts from
+ */
+async function readPoolQuoteState(client: Client, poolManager: Address, key: PoolKey): Promise<PoolQuoteState> {
+  const poolId = getPoolId(key);
+  const extsload = (slot: Hex) =>
+    readContract(client, { address: poolManager, abi: poolManagerAbi, functionName: "extsload", args: [slot] });
+
+  const [slot0, liquidity] = await Promise.all([
+    extsload(getPoolStateSlot(poolId)),
+    extsload(getPoolLiquiditySlot(poolId)),
+  ]);
+  const { sqrtPriceX96, tick, lpFee, protocolFee } = decodeSlot0(slot0);
+
+  return { sqrtPriceX96, tick, liquidity: hexToBigInt(liquidity), lpFee, protocolFee, tickSpacing: key.tickSpacing };
+}
+
+/**
+ * @function createTickLiquidityReader
+ * @description Reads tick bitmap words and tick liquidity from PoolManager storage, once per word or tick
+ * @param {Client} client - Public client of the active chain
+ * @param {Address} poolManager - PoolManager address
+ * @param {Hex} poolId - Pool id
+ * @returns {TickLiquidityReader} Cached reader for one pool
+ */
+function createTickLiquidityReader(client: Client, poolManager: Address, poolId: Hex): TickLiquidityReader {
+  const words = new Map<number, Promise<bigint>>();
+  const ticks = new Map<number, Promise<bigint>>();
+  const extsload = (slot: Hex) =>
+    readContract(client, { address: poolManager, abi: poolManagerAbi, functionName: "extsload", args: [slot] });
+
+  return {
+    getTickBitmap: (wordPos) => {
+      if (!words.has(wordPos)) words.set(wordPos, extsload(getTickBitmapSlot(poolId, wordPos)).then(hexToBigInt));
+      return words.get(wordPos)!;
+    },
+    getLiquidityNet: (tick) => {
+      if (!ticks.has(tick)) ticks.set(tick, extsload(getTickInfoSlot(poolId, tick)).then(decodeTickLiquidityNet));
+      return ticks.get(tick)!;
+    },
+  };
+}
+
+/**
+ * @function quoteTrade
+ * @description Quotes a trade of event tokens by replaying the swap against the pool's
+ * current price, liquidity and initialized ticks
+ * @param {Client} client - Public client of the active chain
+ * @param {TradeMarket} market - Pool the event token trades in
+ * @param {TradeRequest} request - Side of the trade and the amount the user fixed
+ * @returns {Promise<TradeQuote>} Both amounts of the trade, average price and price impact
+ * @throws {Error} When the pool can't fill the amount or the amount is too small to trade
+ */
+export async function quoteTrade(client: Client, market: TradeMarket, request: TradeRequest): Promise<TradeQuote> {
+  const { tokenAddress, poolKey, poolManager, backingAsset } = market;
+  const { side, exact, amount } = request;
+  const tokenIsCurrency0 = poolKey.currency0 === tokenAddress;
+
+  // Buys pay the backing asset, sales pay the event token. Fixing the paid amount
+  // makes the swap exact input (negative), fixing the received one exact output.
+  const zeroForOne = side === "buy" ? !tokenIsCurrency0 : tokenIsCurrency0;
+  const paysExact = (side === "buy") === (exact === "backing");
+  const amountSpecified = paysExact ? -amount : amount;
+
+  const quote = await quoteSwap(
+    await readPoolQuoteState(client, poolManager, poolKey),
+    { zeroForOne, amountSpecified },
+    createTickLiquidityReader(client, poolManager, getPoolId(poolKey))
+  );
+  const [tokenAmount, backingAmount] =
+    side === "buy" ? [quote.amountOut, quote.amountIn] : [quote.amountIn, quote.amountOut];
+  if (tokenAmount === 0n || backingAmount === 0n) throw new LocalizedError("amountTooSmall");
+
+  return {
+    ...request,
+    tokenAmount,
+    backingAmount,
+    averagePrice: Number(
+      formatUnits((backingAmount * 10n ** BigInt(EVENT_TOKEN_DECIMALS)) / tokenAmount, backingAsset.decimals)
+    ),
+    priceImpact: quote.priceImpact,
+    zeroForOne,
+    amountSpecified,
+    sqrtPriceX96After: quote.sqrtPriceX96After,
+    quotedAt: Date.now(),
+  };
+}
+
+/**
+ * @function getTradeLimits
+ * @description Applies the slippage tolerance to a quote
+ * @param {TradeQuote} quote - Quote the user accepted
+ * @param {number} slippageBps - Slippage tolerance in basis points
+ * @returns {TradeLimits} Maximum paid, minimum received and the swap's price limit
+ */
+export function getTradeLimits(quote: TradeQuote, slippageBps: number): TradeLimits {
+  const slippage = BigInt(slippageBps);
+  const [amountIn, amountOut] =
+    quote.side === "buy" ? [quote.backingAmount, quote.tokenAmount] : [quote.tokenAmount, quote.backingAmount];
+  const exactInput = quote.amountSpecified < 0n;
+
+  return {
+    maxAmountIn: exactInput ? amountIn : getMaximumAmountIn(amountIn, slippage),
+    minAmountOut: exactInput ? getMinimumAmountOut(amountOut, slippage) : amountOut,
+    sqrtPriceLimitX96: getSqrtPriceLimit(quote.sqrtPriceX96After, quote.zeroForOne, slippage),
+  };
+}
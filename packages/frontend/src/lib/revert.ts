@@ -0,0 +1,128 @@
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  isHex,
+  decodeErrorResult,
+  formatUnits,
+  parseAbi,
+  type Abi,
+  type Hex,
+} from "viem";
+import { EVENT_TOKEN_DECIMALS, eventCoinSimpleHookAbi, eventTokenAbi } from "@unifans/shared";
+import type { Locale } from "../config/i18n";
+import { catalogs, interpolate } from "../messages";
+import { formatNumber } from "./format";
+
+/**
+ * @interface DecodedRevert
+ * @description Contract revert translated for the user, in their locale
+ */
+export interface DecodedRevert {
+  /** Custom error name or require string, quoted in support requests */
+  code: string;
+  /** What went wrong, in plain words */
+  message: string;
+  /** What the user can do about it */
+  fix: string;
+}
+
+/**
+ * PoolManager wraps reverts of hooks and token transfers, the original revert is in `reason`
+ */
+const wrappedErrorAbi = parseAbi(["error WrappedError(address target, bytes4 selector, bytes reason, bytes details)"]);
+
+/**
+ * PoolManager reverts swaps whose price limit the pool price has already passed
+ */
+const priceLimitErrorAbi = parseAbi([
+  "error PriceLimitAlreadyExceeded(uint160 sqrtPriceCurrentX96, uint160 sqrtPriceLimitX96)",
+]);
+
+/** Custom errors of both event contracts, plus the PoolManager wrapper and price limit */
+const revertAbi: Abi = [...eventTokenAbi, ...eventCoinSimpleHookAbi, ...wrappedErrorAbi, ...priceLimitErrorAbi].filter(
+  (item) => item.type === "error"
+);
+
+/**
+ * @function formatTokens
+ * @description Formats a raw event token amount from revert arguments
+ * @param {unknown} amount - Raw amount, a bigint when decoding worked
+ * @param {Locale} locale - Locale to format in
+ * @returns {string} Whole tokens with thousand separators
+ */
+function formatTokens(amount: unknown, locale: Locale): string {
+  if (typeof amount !== "bigint") return "?";
+  return formatNumber(Number(formatUnits(amount, EVENT_TOKEN_DECIMALS)), locale, { maximumFractionDigits: 0 });
+}
+
+/**
+ * @function describeRevert
+ * @description Looks up the message and fix of a revert in the `reverts` catalog section
+ * @param {string} code - Custom error name or require string
+ * @param {readonly unknown[]} args - Error arguments
+ * @param {Locale} locale - Locale of the message and fix
+ * @returns {DecodedRevert | null} Translated revert, null when it isn't one of the event contracts'
+ */
+function describeRevert(code: string, args: readonly unknown[], locale: Locale): DecodedRevert | null {
+  const reverts: Record<string, { message: string; fix: string }> = catalogs[locale].reverts;
+  if (!Object.hasOwn(reverts, code)) return null;
+  const { message, fix } = reverts[code];
+
+  // ExceedsTransferableAmount(requested, transferable) is the only revert whose arguments are shown
+  const [requested, transferable] = args;
+  const values = { requested: formatTokens(requested, locale), transferable: formatTokens(transferable, locale) };
+  return { code, message: interpolate(message, values), fix };
+}
+
+/**
+ * @function decodeRevertData
+ * @description Decodes revert data against the EventToken and EventCoinSimpleHook errors,
+ * unwrapping the PoolManager's WrappedError
+ * @param {Hex} data - Revert data
+ * @param {Locale} locale - Locale of the message and fix
+ * @returns {DecodedRevert | null} Translated revert, null when it can't be decoded
+ */
+function decodeRevertData(data: Hex, locale: Locale): DecodedRevert | null {
+  try {
+    const { errorName, args = [] } = decodeErrorResult({ abi: revertAbi, data });
+    if (errorName === "WrappedError") return decodeRevertData(args[2] as Hex, locale);
+    // Built-in Error(string) carries the require message
+    if (errorName === "Error") return describeRevert(String(args[0]), args, locale);
+    return describeRevert(errorName, args, locale);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @function decodeRevert
+ * @description Finds the contract revert behind a viem or wagmi error and translates it
+ *
+ * Writes are simulated, and deployments called, before they are sent, so a revert
+ * surfaces here with its data instead of as a failed transaction. The data is decoded against both event contract
+ * ABIs because a call to one contract often reverts in the other (e.g. a swap whose
+ * transfer hits the organizer's vesting limit).
+ *
+ * @param {unknown} error - Error thrown by a simulation, contract call or transaction
+ * @param {Locale} locale - Locale of the message and fix
+ * @returns {DecodedRevert | null} Translated revert, null when the error isn't a known revert
+ */
+export function decodeRevert(error: unknown, locale: Locale): DecodedRevert | null {
+  if (!(error instanceof BaseError)) return null;
+  const reverted = error.walk((cause) => cause instanceof ContractFunctionRevertedError);
+
+  // Plain calls, e.g. a deployment preflight, only carry the revert data on the RPC error
+  if (!(reverted instanceof ContractFunctionRevertedError)) {
+    const rpcError = error.walk((cause) => isHex((cause as { data?: unknown } | undefined)?.data));
+    const data = (rpcError as { data?: unknown } | null)?.data;
+    return isHex(data) ? decodeRevertData(data, locale) : null;
+  }
+
+  if (reverted.raw) {
+    const decoded = decodeRevertData(reverted.raw, locale);
+    if (decoded) return decoded;
+  }
+  if (reverted.reason) return describeRevert(reverted.reason, [], locale);
+  if (reverted.data) return describeRevert(reverted.data.errorName, reverted.data.args ?? [], locale);
+  return null;
+}
@@ -0,0 +1,105 @@
+/**
+ * @interface TradeSettings
+ * @description Trade protections chosen by the user, kept in localStorage
+ */
+export interface TradeSettings {
+  /** How far the price may move against a trade after its quote, in basis points */
+  slippageBps: number;
+  /**
+   * Minutes a quote stays valid for sending a trade. Checked in the browser only: the
+   * PoolSwapTest router has no deadline, so a sent swap can still confirm later
+   */
+  quoteExpiryMinutes: number;
+}
+
+/** Settings used until the user changes them */
+export const DEFAULT_TRADE_SETTINGS: TradeSettings = { slippageBps: 100, quoteExpiryMinutes: 20 };
+
+/** Accepted slippage tolerance, in basis points (0.01% to 50%) */
+export const MIN_SLIPPAGE_BPS = 1;
+export const MAX_SLIPPAGE_BPS = 5_000;
+
+/** Accepted quote expiry, in minutes */
+export const MIN_QUOTE_EXPIRY_MINUTES = 1;
+export const MAX_QUOTE_EXPIRY_MINUTES = 180;
+
+/** localStorage key the settings are saved under */
+const STORAGE_KEY = "unifans:trade-settings";
+
+/** Components to re-render when the settings change in this tab */
+const listeners = new Set<() => void>();
+
+/** Last parsed settings, so unchanged storage returns the same object */
+let cache: { raw: string | null; settings: TradeSettings } = { raw: null, settings: DEFAULT_TRADE_SETTINGS };
+
+/**
+ * @function clampInteger
+ * @description Keeps a stored value within its accepted range
+ * @param {unknown} value - Stored value
+ * @param {number} min - Lowest accepted value
+ * @param {number} max - Highest accepted value
+ * @param {number} fallback - Value used when the stored one isn't a number
+ * @returns {number} Integer within the range
+ */
+function clampInteger(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) return fallback;
+  return Math.min(Math.max(Math.round(value), min), max);
+}
+
+/**
+ * @function readTradeSettings
+ * @description Reads the saved settings, falling back to the defaults for missing or invalid values
+ * @returns {TradeSettings} Current trade settings
+ */
+export function readTradeSettings(): TradeSettings {
+  const raw = window.localStorage.getItem(STORAGE_KEY);
+  if (raw === cache.raw) return cache.settings;
+
+  let saved: Partial<Record<keyof TradeSettings, unknown>> = {};
+  try {
+    saved = raw ? JSON.parse(raw) : {};
+  } catch {
+    // Unreadable settings are replaced by the defaults
+  }
+
+  const settings = {
+    slippageBps: clampInteger(saved.slippageBps, MIN_SLIPPAGE_BPS, MAX_SLIPPAGE_BPS, DEFAULT_TRADE_SETTINGS.slippageBps),
+    quoteExpiryMinutes: clampInteger(
+      saved.quoteExpiryMinutes,
+      MIN_QUOTE_EXPIRY_MINUTES,
+      MAX_QUOTE_EXPIRY_MINUTES,
+      DEFAULT_TRADE_SETTINGS.quoteExpiryMinutes
+    ),
+  };
+  cache = { raw, settings };
+  return settings;
+}
+
+/**
+ * @function writeTradeSettings
+ * @description Saves the settings and notifies every component using them
+ * @param {TradeSettings} settings - Settings to save
+ */
+export function writeTradeSettings(settings: TradeSettings): void {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  listeners.forEach((listener) => listener());
+}
+
+/**
+ * @function subscribeTradeSettings
+ * @description Calls a listener whenever the settings change, in this tab or another one
+ * @param {Function} listener - Called after a change
+ * @returns {Function} Unsubscribes the listener
+ */
+export function subscribeTradeSettings(listener: () => void): () => void {
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener();
+  };
+
+  listeners.add(listener);
+  window.addEventListener("storage", onStorage);
+  return () => {
+    listeners.delete(listener);
+    window.removeEventListener("storage", onStorage);
+  };
+}
@@ -0,0 +1,523 @@
+/**
+ * English messages, the reference catalog every other locale must match.
+ * Placeholders like {name} are filled in by interpolate().
+ */
+export const en = {
+  metadata: {
+    title: "UniFans - Connecting Fans with Events Through Tokens",
+    description:
+      "Join the future of event experiences. Buy tokens, unlock exclusive benefits, and connect with fellow fans through blockchain technology.",
+    shareDescription: "Join the future of event experiences. Buy tokens, unlock exclusive benefits, and connect with fellow fans.",
+  },
+  share: {
+    title: "{name} · UniFans",
+    price: "{price} per token",
+    interest: "{percent} of the interest goal",
+    supporters: "{count} supporting fans",
+    preSupport: "Pre-support",
+    confirmed: "Confirmed",
+  },
+  common: {
+    tryAgain: "Try again",
+    connectWallet: "Connect Wallet",
+    connecting: "Connecting...",
+    switching: "Switching...",
+    switchTo: "Switch to {chain}",
+    tokens: "tokens",
+  },
+  header: {
+    mainNavigation: "Main",
+    events: "Events",
+    portfolio: "Portfolio",
+    launch: "Launch",
+    language: "Language",
+  },
+  footer: {
+    tagline: "© 2024 UniFans. Connecting fans with events through tokens.",
+  },
+  currency: {
+    label: "Display currency",
+    backing: "Backing asset",
+    approximate: "≈ {amount}",
+    unavailable: "No {currency} rate for {symbol}, amounts are shown in {symbol} only.",
+    rateSource: "Converted with {source}, updated {date}",
+    sources: {
+      static: "reference rates",
+      chainlink: "Chainlink price feeds",
+    },
+  },
+  wallet: {
+    localAccount: "Local dev account",
+    browserWallet: "Browser wallet",
+    connected: "Wallet connected: {address}",
+    wrongNetwork: "Wrong network, switch to {chain}",
+    openMenu: "Open wallet menu",
+    connectingWallet: "Connecting wallet...",
+    connectWallet: "Connect wallet",
+    connectedOn: "Connected on {chain}",
+    balance: "Balance: {balance}",
+    disconnect: "Disconnect",
+  },
+  notification: {
+    success: "Success notification",
+    error: "Error notification",
+    pending: "Pending transaction notification",
+    info: "Information notification",
+    viewOnExplorer: "View on explorer ↗",
+    close: "Close notification",
+    reverted: "The transaction reverted",
+  },
+  eventPage: {
+    loading: "Loading event from the blockchain...",
+    loadError: "We couldn't load this event",
+    promoter: "Promoter: {promoter}",
+    verified: "Verified",
+    organizer: "Organizer: {organizer}",
+    intro:
+      "This is a {preSupport} to validate interest in bringing {name}. Buy tokens to show your interest and receive exclusive benefits {onlyIfConfirmed}.",
+    introPreSupport: "pre-support",
+    introOnlyIfConfirmed: "only if the event is confirmed",
+    statusTitle: "Pre-Support Status",
+    liveConnecting: "Connecting to live updates…",
+    liveSubscribed: "Live",
+    livePolling: "Live, checked every {seconds}s",
+    liveError: "Live updates interrupted, retrying…",
+    liveBlock: "Up to date with block {block}",
+    interestShown: "Interest shown: {raised} / {goal} tokens",
+    interestLabel: "{percent} interest shown for event confirmation",
+    interestConfirmed: "Interest confirmed! The event will take place.",
+    tokensNeeded: "{count} more tokens needed to confirm the event",
+    supportingFans: "Supporting Fans",
+    pricePerToken: "Price per Token",
+    daysRemaining: "Days Remaining",
+    nextTitle: "What Happens Next?",
+    ifConfirmedTitle: "If Event is Confirmed",
+    ifConfirmedBody: "You receive all benefits: meet & greets, exclusive merch, private soundchecks, and more",
+    ifNotConfirmedTitle: "If Event is Not Confirmed",
+    ifNotConfirmedBody: "You can sell your tokens on the secondary market or keep them for future events",
+    faqTitle: "Frequently Asked Questions",
+    faq: [
+      {
+        question: "What is pre-support?",
+        answer:
+          "It's a way to show your interest in an event before it's confirmed. You help the promoter validate if there's enough demand.",
+      },
+      {
+        question: "When do I receive my benefits?",
+        answer: "Only if the event is confirmed. If it's not confirmed, you can sell your tokens or keep them.",
+      },
+      {
+        question: "Can I sell my tokens?",
+        answer: "Yes, you can sell them to other fans on the secondary market at any time.",
+      },
+    ],
+  },
+  chart: {
+    title: "${symbol} Token Price",
+    selectTimeframe: "Select {timeframe} timeframe",
+    inTheLast: "in the last {timeframe}",
+    whyTitle: "Why does the price change?",
+    whyBody: "The price reflects fan demand for exclusive event benefits and experiences.",
+    loading: "Loading trades...",
+    loadError: "Couldn't load price history: {error}",
+    noTrades: "No trades yet",
+    high: "High",
+    low: "Low",
+    volatility: "Volatility",
+    chartType: "Chart type",
+    line: "Line",
+    candles: "Candles",
+    chartLabel: "${symbol} price over {timeframe}",
+    keyboardHint: "Use the left and right arrow keys to move between data points, Home and End to jump to the first or last one.",
+    price: "Price",
+    open: "Open",
+    close: "Close",
+    volume: "Volume",
+  },
+  purchase: {
+    buyTitle: "🎫 Buy Event Tokens",
+    sellTitle: "💸 Sell Event Tokens",
+    buy: "Buy",
+    sell: "Sell",
+    statusIdle: "Processing...",
+    statusApproving: "Waiting for approval...",
+    statusSwapping: "Confirm in your wallet...",
+    statusConfirming: "Confirming transaction...",
+    whyBuyTitle: "Why buy tokens?",
+    whyBuyBody:
+      "Each token gives you access to exclusive benefits like meet & greets, special merch, private soundchecks, and more unique experiences.",
+    organizerVestingTitle: "Organizer tokens vest over time.",
+    organizerVestingBody:
+      "You can sell up to the amount unlocked so far; the rest becomes available gradually until the event date.",
+    changedPlansTitle: "Changed your plans?",
+    changedPlansBody: "Sell your tokens back to the pool at the current market price at any time.",
+    enterAmountIn: "Enter amount in:",
+    buyTokenAmount: "Number of tokens to purchase",
+    buyBackingAmount: "Amount of {symbol} to spend",
+    sellTokenAmount: "Number of tokens to sell",
+    sellBackingAmount: "Amount of {symbol} to receive",
+    max: "Max: {amount}",
+    maxLabel: "Set amount to the maximum sellable tokens",
+    exceedsVesting: "This is more than your vesting schedule has unlocked so far.",
+    exceedsBalance: "You don't have enough tokens.",
+    loadingBalance: "Loading your balance...",
+    spotPrice: "Spot price:",
+    averagePrice: "Average price:",
+    priceImpact: "Price impact:",
+    slippageTolerance: "Slippage tolerance:",
+    minimumReceived: "Minimum received:",
+    maximumCost: "Maximum cost:",
+    maximumSold: "Maximum sold:",
+    totalCost: "Total cost:",
+    youReceive: "You receive:",
+    tokensSold: "Tokens sold:",
+    highImpactTitle: "High price impact.",
+    highImpactBuy:
+      "This trade moves the pool price by {impact}, so you pay an average of {average} per token instead of {spot}. Consider splitting it into smaller trades.",
+    highImpactSell:
+      "This trade moves the pool price by {impact}, so you receive an average of {average} per token instead of {spot}. Consider splitting it into smaller trades.",
+    switchToTrade: "Switch to {chain} to Trade",
+    switchToTradeLabel: "Switch to {chain} to trade tokens",
+    processingLabel: "Processing trade",
+    purchaseLabel: "Purchase tokens",
+    sellLabel: "Sell tokens",
+    buyTokens: "Buy Tokens",
+    sellTokens: "Sell Tokens",
+    connectToTrade: "Connect Wallet to Trade",
+    connectToTradeLabel: "Connect wallet to trade tokens",
+    buyInfo: "Tokens will be transferred to your wallet immediately after purchase.",
+    sellInfo: "The backing asset will be transferred to your wallet immediately after the sale.",
+    quickAmounts: "Quick amounts:",
+    quickAmountLabel: "Set amount to {amount} {symbol}",
+  },
+  tradeSettings: {
+    open: "Trade settings",
+    slippage: "Slippage tolerance",
+    custom: "Custom",
+    customLabel: "Custom slippage tolerance in percent",
+    slippageRange: "Enter a tolerance between {min} and {max}",
+    slippageFormat: "Enter a percentage with at most two decimals",
+    lowSlippage: "Your trade may fail if the price moves before it confirms.",
+    highSlippage: "Your trade may be filled at a much worse price than quoted.",
+    slippageNote:
+      "Applied as a price limit on the swap: if the price moves further before it confirms, your order is partially filled instead of reverting. The amounts are checked against the tolerance only when the swap is sent.",
+    expiry: "Quote expiry",
+    expiryRange: "Enter a whole number of minutes between {min} and {max}",
+    expiryNote:
+      "Older quotes are refused before the swap is sent. The swap router has no on-chain deadline, so a swap left pending in your wallet or the network can still confirm later, within the price limit.",
+    minutes: "minutes",
+  },
+  unlock: {
+    title: "🔒 Organizer ${symbol} Tokens",
+    whyTitle: "Why are tokens unlocked gradually?",
+    whyBody:
+      "To maintain stable pricing and prevent sudden drops that could affect all fans. Tokens unlock every second until the event date.",
+    transferableNow: "Transferable by the organizer right now",
+    perSecond: "+{amount} tokens per second",
+    complete: "Vesting complete",
+    progress: "Unlock Progress",
+    progressLabel: "{percent} of organizer tokens unlocked",
+    unlocked: "Already Unlocked",
+    toBeUnlocked: "To Be Unlocked",
+    total: "Total Organizer",
+    moved: "{amount} already moved",
+    timeline: "Unlock Timeline",
+    milestone: "{percent} unlocked",
+    eventDay: "Event day: everything unlocked",
+    synced: "Checked against the blockchain {seconds}s ago",
+  },
+  holders: {
+    title: "🏆 Top ${symbol} Holders",
+    loading: "Reading holders from the blockchain...",
+    loadError: "Couldn't load holders: {error}",
+    empty: "No fans hold this token yet. Be the first!",
+    holder: "Holder",
+    balance: "Balance",
+    share: "Share",
+    firstBuy: "First Buy",
+    organizer: "Organizer",
+  },
+  activity: {
+    title: "🔥 Live Activity",
+    subtitle: "Every buy and sell of ${symbol}, as it happens",
+    filterLabel: "Show trades",
+    all: "All",
+    buys: "Buys",
+    sells: "Sells",
+    loading: "Reading trades from the blockchain...",
+    loadError: "Couldn't load trades: {error}",
+    empty: "No trades yet. Be the first to buy!",
+    emptyFiltered: "No matching trades yet.",
+    side: "Side",
+    buy: "Buy",
+    sell: "Sell",
+    trader: "Trader",
+    tokens: "${symbol}",
+    amount: "{symbol}",
+    price: "Price",
+    time: "Time",
+    organizer: "Organizer",
+    pagination: "Trade pages",
+    previous: "Newer",
+    next: "Older",
+    page: "Page {page}",
+    loadingMore: "Loading older trades...",
+  },
+  events: {
+    title: "Events",
+    subtitle: "Pre-support the events you want to see and trade their tokens with other fans.",
+    emptyTitle: "No events listed yet",
+    emptyBody: "Set NEXT_PUBLIC_EVENT_TOKEN_ADDRESSES to the EventTokens you want to list.",
+    unknownEvent: "Unknown event",
+  },
+  portfolio: {
+    title: "Portfolio",
+    subtitle: "Every event token you hold, what it is worth today and how your trades have done.",
+    connectTitle: "Connect your wallet to see your tokens",
+    loading: "Reading your trades from the blockchain...",
+    loadError: "We couldn't load your portfolio",
+    emptyTitle: "No event tokens yet",
+    emptyBody: "Buy tokens of the events you want to see and they will show up here.",
+    browseEvents: "Browse events →",
+    totalValue: "Value ({symbol})",
+    unrealizedPnl: "Unrealized P&L",
+    realizedPnl: "Realized P&L",
+    balance: "Balance",
+    price: "Price",
+    value: "Value",
+    averageEntryPrice: "Average entry price",
+    withoutCost:
+      "Part of this balance was received by transfer rather than bought, so it counts at zero cost in the entry price and P&L.",
+    readFailed: "Some events couldn't be read and are missing from your portfolio: {events}.",
+    lifecycle: {
+      launching: "Launching",
+      preSupport: "Pre-support",
+      confirmed: "Confirmed",
+      ended: "Ended",
+    },
+  },
+  swap: {
+    quoteExpired: "The quote is older than your {minutes} minute quote expiry. Review the new price and try again.",
+    slippageExceeded:
+      "The price moved more than your {slippage} slippage tolerance since the quote. Review the new price and try again.",
+    approving: "Approving {symbol}...",
+    approved: "{symbol} approved for trading",
+    approvalReverted: "The {symbol} approval reverted",
+    swapReverted: "The swap transaction reverted",
+    buying: "Buying {amount} {symbol}...",
+    selling: "Selling {amount} {symbol}...",
+    bought: "Purchase successful! You bought {tokens} {symbol} tokens for {backing}",
+    sold: "Sale successful! You sold {tokens} {symbol} tokens for {backing}",
+    partialFill: ". The price reached your slippage limit, so the order was partially filled.",
+    connectWallet: "Connect your wallet to trade tokens",
+    routerNotConfigured: "Swap router is not configured",
+    poolNotLive: "The event pool is not live yet",
+  },
+  launch: {
+    title: "Launch an Event",
+    intro:
+      "Create your event token and open its market in six transactions. You can leave and come back at any time: progress is read from the blockchain.",
+    stepsLabel: "Launch steps",
+    steps: {
+      deployToken: "Create the event token",
+      deployHook: "Deploy the liquidity hook",
+      setHook: "Connect the hook to the token",
+      deposit: "Deposit the backing asset",
+      initialize: "Open the pool",
+      bootstrap: "Bootstrap liquidity",
+    },
+    actions: {
+      deployToken: "Create Event Token",
+      deployHook: "Deploy Hook",
+      setHook: "Connect Hook to Token",
+      deposit: "Deposit Backing Asset",
+      initialize: "Open Pool",
+      bootstrap: "Bootstrap Liquidity",
+    },
+    status: {
+      idle: "Processing...",
+      approving: "Waiting for approval...",
+      signing: "Confirm in your wallet...",
+      confirming: "Confirming transaction...",
+    },
+    noPoolManager: "No PoolManager is known for {chain}. Set NEXT_PUBLIC_POOL_MANAGER_ADDRESS.",
+    readError: "We couldn't read this launch: {error}",
+    reading: "Reading the launch from the blockchain...",
+    notOrganizer: "Only the organizer of this event ({address}) can continue its launch.",
+    liveTitle: "Your event is live!",
+    liveBody: "Fans can now buy tokens from the pool.",
+    openEvent: "Open the event page",
+    eventName: "Event name",
+    eventNamePlaceholder: "Taylor Swift Mexico City",
+    tokenSymbol: "Token symbol",
+    eventDate: "Event date",
+    backingAsset: "Backing asset (ERC20 address)",
+    backingPicked: "Fans pay and receive {symbol}.",
+    backingHint: "The token fans pay with, e.g. a stablecoin.",
+    hookAddress: "The hook will be deployed at {address}, an address carrying its Uniswap v4 permissions.",
+    hookAddressPending: "Pick the backing asset to find the hook address.",
+    setHookHint: "Moves the 600M tokens reserved for liquidity from the token contract to the hook.",
+    depositAmount: "Backing asset to pair with the 600M liquidity tokens",
+    walletBalance: "Wallet balance: {amount} {symbol}.",
+    depositHint: "The deposit sets the opening price of the token.",
+    initializeHint:
+      "Opens the Uniswap v4 pool at the price set by your deposit. The hook adds the liquidity in the same transaction.",
+    bootstrapHint: "The pool is open but its liquidity was not added automatically. Add it now to let fans trade.",
+    connectToLaunch: "Connect Wallet to Launch",
+    connectWallet: "Connect your wallet to launch an event",
+    stillLoading: "The launch state is still loading",
+    reverted: "The launch transaction reverted",
+    creatingToken: "Creating ${symbol}...",
+    tokenCreated: "${symbol} created",
+    tokenCreatedAt: "${symbol} created at {address}",
+    tokenNotCreated: "The token deployment did not create a contract",
+    pickBackingFirst: "Pick a backing asset before deploying the hook",
+    deployingHook: "Deploying the hook...",
+    hookDeployed: "Hook deployed",
+    deployHookFirst: "Deploy the hook first",
+    connectingHook: "Connecting the hook...",
+    hookConnected: "Hook connected, the liquidity allocation moved to the hook",
+    connectHookFirst: "Connect the hook to the token first",
+    approvingBacking: "Approving the backing asset...",
+    backingApproved: "Backing asset approved",
+    backingApprovalReverted: "The backing asset approval reverted",
+    depositing: "Depositing the backing asset...",
+    deposited: "Backing asset deposited",
+    depositFirst: "Deposit the backing asset first",
+    openingPool: "Opening the pool...",
+    poolOpened: "Pool opened",
+    openPoolFirst: "Open the pool first",
+    bootstrapping: "Bootstrapping liquidity...",
+    bootstrapped: "Liquidity bootstrapped",
+  },
+  errors: {
+    unknown: "Something went wrong",
+    hint: "{fix} (code: {code})",
+    invalidAmount: "Enter a valid amount",
+    tooManyDecimals: "This token has at most {decimals} decimals",
+    amountTooSmall: "The amount is too small to trade",
+  },
+  /** Contract reverts by custom error name or require string, see lib/revert.ts */
+  reverts: {
+    // EventCoinSimpleHook
+    OnlyOrganizer: {
+      message: "Only the event organizer can do this.",
+      fix: "Switch your wallet to the organizer account and try again.",
+    },
+    BackingAssetAlreadyDeposited: {
+      message: "The backing asset was already deposited for this event.",
+      fix: "Reload the page to continue with opening the pool.",
+    },
+    NoBackingAssetDeposited: {
+      message: "The organizer hasn't deposited the backing asset yet.",
+      fix: "Deposit the backing asset before opening the pool.",
+    },
+    InsufficientEventTokens: {
+      message: "The hook doesn't hold enough event tokens to add the initial liquidity.",
+      fix: "Connect the hook to the token first, which moves the liquidity allocation to it.",
+    },
+    ZeroAmounts: {
+      message: "The amount can't be zero.",
+      fix: "Enter an amount greater than zero.",
+    },
+    InvalidCallbackId: {
+      message: "The hook received a callback it doesn't know.",
+      fix: "Retry from the app instead of calling the hook directly. If it keeps failing, contact support with this code.",
+    },
+    CallbackNotFromPoolManager: {
+      message: "Only the Uniswap PoolManager can call back into the hook.",
+      fix: "Use the app's buttons instead of calling the hook directly.",
+    },
+    NotPoolManager: {
+      message: "Only the Uniswap PoolManager can call the hook.",
+      fix: "Use the app's buttons instead of calling the hook directly.",
+    },
+    InvalidBackingAsset: {
+      message: "The backing asset address is empty.",
+      fix: "Pick the token the event pool should be priced in.",
+    },
+    BackingAssetNotERC20Metadata: {
+      message: "The backing asset is not an ERC-20 token with a symbol and decimals.",
+      fix: "Pick a standard ERC-20 token such as USDC.",
+    },
+    InvalidToken: {
+      message: "The event token address is empty.",
+      fix: "Create the event token first.",
+    },
+    SafeERC20FailedOperation: {
+      message: "A token transfer of the hook failed.",
+      fix: "Check your balance and approval of the backing asset, then try again.",
+    },
+    "Wrong hook": {
+      message: "This pool doesn't use the event's hook.",
+      fix: "Check the pool fee and tick spacing of the event.",
+    },
+    "Pool must contain backing asset": {
+      message: "The pool doesn't include the event's backing asset.",
+      fix: "Open the pool from the launch wizard, which pairs the token with its backing asset.",
+    },
+    "Pool must contain event token": {
+      message: "The pool doesn't include the event token.",
+      fix: "Open the pool from the launch wizard, which pairs the token with its backing asset.",
+    },
+
+    // EventToken vesting and setup
+    ExceedsTransferableAmount: {
+      message:
+        "The organizer can only move {transferable} tokens right now ({requested} requested). Organizer tokens unlock every second until the event.",
+      fix: "Use a smaller amount or wait for more tokens to unlock.",
+    },
+    "Event date must be in the future": {
+      message: "The event date must be in the future.",
+      fix: "Pick a later event date.",
+    },
+    InvalidEventDate: {
+      message: "The event date must be in the future.",
+      fix: "Pick a later event date.",
+    },
+    "Invalid organizer address": {
+      message: "The organizer address is empty.",
+      fix: "Connect the organizer wallet and try again.",
+    },
+    InvalidOrganizer: {
+      message: "The organizer address is empty.",
+      fix: "Connect the organizer wallet and try again.",
+    },
+    "Invalid hook address": {
+      message: "The hook address is empty.",
+      fix: "Deploy the hook before connecting it to the token.",
+    },
+    InvalidHook: {
+      message: "The hook address is empty.",
+      fix: "Deploy the hook before connecting it to the token.",
+    },
+    "Hook already set": {
+      message: "This token is already connected to its hook.",
+      fix: "Reload the page to continue with the next launch step.",
+    },
+    OwnableUnauthorizedAccount: {
+      message: "Only the account that created the event token can connect its hook.",
+      fix: "Switch your wallet to the account that created the token.",
+    },
+    ERC20InsufficientBalance: {
+      message: "Your token balance is lower than the amount.",
+      fix: "Lower the amount or add funds to your wallet.",
+    },
+    ERC20InsufficientAllowance: {
+      message: "The approved amount is lower than what the transaction spends.",
+      fix: "Approve the amount again and retry.",
+    },
+
+    // PoolManager swaps
+    PriceLimitAlreadyExceeded: {
+      message: "The price moved past your slippage tolerance since the quote.",
+      fix: "Review the new price and try again, or raise the slippage tolerance in the trade settings.",
+    },
+  },
+};
+
+/**
+ * @type Messages
+ * @description Shape of a message catalog
+ */
+export type Messages = typeof en;
@@ -0,0 +1,518 @@
+import type { Messages } from "./en";
+
+/**
+ * Spanish (Mexico) messages
+ */
+export const esMX: Messages = {
+  metadata: {
+    title: "UniFans - Conectando fans con eventos a través de tokens",
+    description:
+      "Únete al futuro de los eventos en vivo. Compra tokens, desbloquea beneficios exclusivos y conecta con otros fans gracias a la tecnología blockchain.",
+    shareDescription: "Únete al futuro de los eventos en vivo. Compra tokens, desbloquea beneficios exclusivos y conecta con otros fans.",
+  },
+  share: {
+    title: "{name} · UniFans",
+    price: "{price} por token",
+    interest: "{percent} de la meta de interés",
+    supporters: "{count} fans que apoyan",
+    preSupport: "Preventa",
+    confirmed: "Confirmado",
+  },
+  common: {
+    tryAgain: "Intentar de nuevo",
+    connectWallet: "Conectar wallet",
+    connecting: "Conectando...",
+    switching: "Cambiando...",
+    switchTo: "Cambiar a {chain}",
+    tokens: "tokens",
+  },
+  header: {
+    mainNavigation: "Principal",
+    events: "Eventos",
+    portfolio: "Portafolio",
+    launch: "Lanzar",
+    language: "Idioma",
+  },
+  footer: {
+    tagline: "© 2024 UniFans. Conectando fans con eventos a través de tokens.",
+  },
+  currency: {
+    label: "Moneda",
+    backing: "Activo de respaldo",
+    approximate: "≈ {amount}",
+    unavailable: "No hay tipo de cambio de {symbol} a {currency}; los montos se muestran solo en {symbol}.",
+    rateSource: "Convertido con {source}, actualizado el {date}",
+    sources: {
+      static: "tasas de referencia",
+      chainlink: "feeds de precios de Chainlink",
+    },
+  },
+  wallet: {
+    localAccount: "Cuenta local de desarrollo",
+    browserWallet: "Wallet del navegador",
+    connected: "Wallet conectada: {address}",
+    wrongNetwork: "Red incorrecta, cambia a {chain}",
+    openMenu: "Abrir menú de la wallet",
+    connectingWallet: "Conectando wallet...",
+    connectWallet: "Conectar wallet",
+    connectedOn: "Conectada en {chain}",
+    balance: "Saldo: {balance}",
+    disconnect: "Desconectar",
+  },
+  notification: {
+    success: "Notificación de éxito",
+    error: "Notificación de error",
+    pending: "Notificación de transacción pendiente",
+    info: "Notificación informativa",
+    viewOnExplorer: "Ver en el explorador ↗",
+    close: "Cerrar notificación",
+    reverted: "La transacción fue revertida",
+  },
+  eventPage: {
+    loading: "Cargando el evento desde la blockchain...",
+    loadError: "No pudimos cargar este evento",
+    promoter: "Promotor: {promoter}",
+    verified: "Verificado",
+    organizer: "Organizador: {organizer}",
+    intro:
+      "Esta es una {preSupport} para validar el interés en traer {name}. Compra tokens para mostrar tu interés y recibe beneficios exclusivos {onlyIfConfirmed}.",
+    introPreSupport: "preventa de apoyo",
+    introOnlyIfConfirmed: "solo si el evento se confirma",
+    statusTitle: "Estado de la preventa",
+    liveConnecting: "Conectando a las actualizaciones en vivo…",
+    liveSubscribed: "En vivo",
+    livePolling: "En vivo, se revisa cada {seconds} s",
+    liveError: "Actualizaciones en vivo interrumpidas, reintentando…",
+    liveBlock: "Actualizado al bloque {block}",
+    interestShown: "Interés mostrado: {raised} / {goal} tokens",
+    interestLabel: "{percent} del interés necesario para confirmar el evento",
+    interestConfirmed: "¡Interés confirmado! El evento se llevará a cabo.",
+    tokensNeeded: "Faltan {count} tokens para confirmar el evento",
+    supportingFans: "Fans que apoyan",
+    pricePerToken: "Precio por token",
+    daysRemaining: "Días restantes",
+    nextTitle: "¿Qué sigue?",
+    ifConfirmedTitle: "Si el evento se confirma",
+    ifConfirmedBody: "Recibes todos los beneficios: meet & greets, mercancía exclusiva, pruebas de sonido privadas y más",
+    ifNotConfirmedTitle: "Si el evento no se confirma",
+    ifNotConfirmedBody: "Puedes vender tus tokens en el mercado secundario o conservarlos para futuros eventos",
+    faqTitle: "Preguntas frecuentes",
+    faq: [
+      {
+        question: "¿Qué es la preventa de apoyo?",
+        answer:
+          "Es una forma de mostrar tu interés en un evento antes de que se confirme. Ayudas al promotor a validar si hay suficiente demanda.",
+      },
+      {
+        question: "¿Cuándo recibo mis beneficios?",
+        answer: "Solo si el evento se confirma. Si no se confirma, puedes vender tus tokens o conservarlos.",
+      },
+      {
+        question: "¿Puedo vender mis tokens?",
+        answer: "Sí, puedes vendérselos a otros fans en el mercado secundario en cualquier momento.",
+      },
+    ],
+  },
+  chart: {
+    title: "Precio del token ${symbol}",
+    selectTimeframe: "Seleccionar periodo de {timeframe}",
+    inTheLast: "en el periodo de {timeframe}",
+    whyTitle: "¿Por qué cambia el precio?",
+    whyBody: "El precio refleja la demanda de los fans por los beneficios y experiencias exclusivas del evento.",
+    loading: "Cargando operaciones...",
+    loadError: "No se pudo cargar el historial de precios: {error}",
+    noTrades: "Aún no hay operaciones",
+    high: "Máximo",
+    low: "Mínimo",
+    volatility: "Volatilidad",
+    chartType: "Tipo de gráfica",
+    line: "Línea",
+    candles: "Velas",
+    chartLabel: "Precio de ${symbol} en el periodo de {timeframe}",
+    keyboardHint: "Usa las flechas izquierda y derecha para moverte entre los puntos, Inicio y Fin para ir al primero o al último.",
+    price: "Precio",
+    open: "Apertura",
+    close: "Cierre",
+    volume: "Volumen",
+  },
+  purchase: {
+    buyTitle: "🎫 Comprar tokens del evento",
+    sellTitle: "💸 Vender tokens del evento",
+    buy: "Comprar",
+    sell: "Vender",
+    statusIdle: "Procesando...",
+    statusApproving: "Esperando la aprobación...",
+    statusSwapping: "Confirma en tu wallet...",
+    statusConfirming: "Confirmando la transacción...",
+    whyBuyTitle: "¿Por qué comprar tokens?",
+    whyBuyBody:
+      "Cada token te da acceso a beneficios exclusivos como meet & greets, mercancía especial, pruebas de sonido privadas y más experiencias únicas.",
+    organizerVestingTitle: "Los tokens del organizador se liberan con el tiempo.",
+    organizerVestingBody:
+      "Puedes vender hasta la cantidad liberada hasta ahora; el resto estará disponible poco a poco hasta la fecha del evento.",
+    changedPlansTitle: "¿Cambiaste de planes?",
+    changedPlansBody: "Vende tus tokens de vuelta al pool al precio actual del mercado en cualquier momento.",
+    enterAmountIn: "Ingresar cantidad en:",
+    buyTokenAmount: "Número de tokens a comprar",
+    buyBackingAmount: "Cantidad de {symbol} a gastar",
+    sellTokenAmount: "Número de tokens a vender",
+    sellBackingAmount: "Cantidad de {symbol} a recibir",
+    max: "Máx.: {amount}",
+    maxLabel: "Usar el máximo de tokens que puedes vender",
+    exceedsVesting: "Esto es más de lo que tu calendario de liberación ha desbloqueado hasta ahora.",
+    exceedsBalance: "No tienes suficientes tokens.",
+    loadingBalance: "Cargando tu saldo...",
+    spotPrice: "Precio actual:",
+    averagePrice: "Precio promedio:",
+    priceImpact: "Impacto en el precio:",
+    slippageTolerance: "Tolerancia de deslizamiento:",
+    minimumReceived: "Mínimo a recibir:",
+    maximumCost: "Costo máximo:",
+    maximumSold: "Máximo a vender:",
+    totalCost: "Costo total:",
+    youReceive: "Recibes:",
+    tokensSold: "Tokens vendidos:",
+    highImpactTitle: "Alto impacto en el precio.",
+    highImpactBuy:
+      "Esta operación mueve el precio del pool en {impact}, así que pagas un promedio de {average} por token en lugar de {spot}. Considera dividirla en operaciones más pequeñas.",
+    highImpactSell:
+      "Esta operación mueve el precio del pool en {impact}, así que recibes un promedio de {average} por token en lugar de {spot}. Considera dividirla en operaciones más pequeñas.",
+    switchToTrade: "Cambia a {chain} para operar",
+    switchToTradeLabel: "Cambiar a {chain} para operar tokens",
+    processingLabel: "Procesando la operación",
+    purchaseLabel: "Comprar tokens",
+    sellLabel: "Vender tokens",
+    buyTokens: "Comprar tokens",
+    sellTokens: "Vender tokens",
+    connectToTrade: "Conecta tu wallet para operar",
+    connectToTradeLabel: "Conectar la wallet para operar tokens",
+    buyInfo: "Los tokens se transferirán a tu wallet inmediatamente después de la compra.",
+    sellInfo: "El activo de respaldo se transferirá a tu wallet inmediatamente después de la venta.",
+    quickAmounts: "Cantidades rápidas:",
+    quickAmountLabel: "Usar {amount} {symbol}",
+  },
+  tradeSettings: {
+    open: "Ajustes de operación",
+    slippage: "Tolerancia de deslizamiento",
+    custom: "Otra",
+    customLabel: "Tolerancia de deslizamiento personalizada en porcentaje",
+    slippageRange: "Ingresa una tolerancia entre {min} y {max}",
+    slippageFormat: "Ingresa un porcentaje con máximo dos decimales",
+    lowSlippage: "Tu operación podría fallar si el precio cambia antes de confirmarse.",
+    highSlippage: "Tu operación podría ejecutarse a un precio mucho peor que el cotizado.",
+    slippageNote:
+      "Se aplica como un límite de precio en el swap: si el precio se mueve más antes de confirmarse, tu orden se ejecuta parcialmente en lugar de revertirse. Los montos se comparan con la tolerancia solo al enviar el swap.",
+    expiry: "Vigencia de la cotización",
+    expiryRange: "Ingresa un número entero de minutos entre {min} y {max}",
+    expiryNote:
+      "Las cotizaciones más antiguas se rechazan antes de enviar el swap. El router no tiene un plazo en la cadena, así que un swap pendiente en tu wallet o en la red aún puede confirmarse más tarde, dentro del límite de precio.",
+    minutes: "minutos",
+  },
+  unlock: {
+    title: "🔒 Tokens ${symbol} del organizador",
+    whyTitle: "¿Por qué los tokens se liberan poco a poco?",
+    whyBody:
+      "Para mantener un precio estable y evitar caídas repentinas que afecten a todos los fans. Los tokens se liberan cada segundo hasta la fecha del evento.",
+    transferableNow: "Transferibles por el organizador en este momento",
+    perSecond: "+{amount} tokens por segundo",
+    complete: "Liberación completa",
+    progress: "Progreso de liberación",
+    progressLabel: "{percent} de los tokens del organizador liberados",
+    unlocked: "Ya liberados",
+    toBeUnlocked: "Por liberar",
+    total: "Total del organizador",
+    moved: "{amount} ya transferidos",
+    timeline: "Calendario de liberación",
+    milestone: "{percent} liberado",
+    eventDay: "Día del evento: todo liberado",
+    synced: "Verificado con la blockchain hace {seconds} s",
+  },
+  holders: {
+    title: "🏆 Principales poseedores de ${symbol}",
+    loading: "Leyendo poseedores desde la blockchain...",
+    loadError: "No se pudieron cargar los poseedores: {error}",
+    empty: "Ningún fan tiene este token todavía. ¡Sé el primero!",
+    holder: "Poseedor",
+    balance: "Saldo",
+    share: "Participación",
+    firstBuy: "Primera compra",
+    organizer: "Organizador",
+  },
+  activity: {
+    title: "🔥 Actividad en vivo",
+    subtitle: "Cada compra y venta de ${symbol}, en cuanto sucede",
+    filterLabel: "Mostrar operaciones",
+    all: "Todas",
+    buys: "Compras",
+    sells: "Ventas",
+    loading: "Leyendo operaciones desde la blockchain...",
+    loadError: "No se pudieron cargar las operaciones: {error}",
+    empty: "Aún no hay operaciones. ¡Sé el primero en comprar!",
+    emptyFiltered: "Aún no hay operaciones de este tipo.",
+    side: "Tipo",
+    buy: "Compra",
+    sell: "Venta",
+    trader: "Fan",
+    tokens: "${symbol}",
+    amount: "{symbol}",
+    price: "Precio",
+    time: "Hora",
+    organizer: "Organizador",
+    pagination: "Páginas de operaciones",
+    previous: "Más recientes",
+    next: "Anteriores",
+    page: "Página {page}",
+    loadingMore: "Cargando operaciones anteriores...",
+  },
+  events: {
+    title: "Eventos",
+    subtitle: "Apoya por adelantado los eventos que quieres ver y opera sus tokens con otros fans.",
+    emptyTitle: "Aún no hay eventos publicados",
+    emptyBody: "Configura NEXT_PUBLIC_EVENT_TOKEN_ADDRESSES con los EventTokens que quieres publicar.",
+    unknownEvent: "Evento desconocido",
+  },
+  portfolio: {
+    title: "Portafolio",
+    subtitle: "Todos los tokens de eventos que tienes, cuánto valen hoy y cómo te ha ido con tus operaciones.",
+    connectTitle: "Conecta tu wallet para ver tus tokens",
+    loading: "Leyendo tus operaciones desde la blockchain...",
+    loadError: "No pudimos cargar tu portafolio",
+    emptyTitle: "Aún no tienes tokens de eventos",
+    emptyBody: "Compra tokens de los eventos que quieres ver y aparecerán aquí.",
+    browseEvents: "Ver eventos →",
+    totalValue: "Valor ({symbol})",
+    unrealizedPnl: "Ganancia/pérdida no realizada",
+    realizedPnl: "Ganancia/pérdida realizada",
+    balance: "Saldo",
+    price: "Precio",
+    value: "Valor",
+    averageEntryPrice: "Precio promedio de entrada",
+    withoutCost:
+      "Parte de este saldo se recibió por transferencia en lugar de comprarse, así que cuenta con costo cero en el precio de entrada y en la ganancia/pérdida.",
+    readFailed: "No pudimos leer algunos eventos y no aparecen en tu portafolio: {events}.",
+    lifecycle: {
+      launching: "En lanzamiento",
+      preSupport: "Preventa",
+      confirmed: "Confirmado",
+      ended: "Finalizado",
+    },
+  },
+  swap: {
+    quoteExpired:
+      "La cotización tiene más de los {minutes} minutos de vigencia que elegiste. Revisa el nuevo precio e inténtalo de nuevo.",
+    slippageExceeded:
+      "El precio se movió más que tu tolerancia de deslizamiento de {slippage} desde la cotización. Revisa el nuevo precio e inténtalo de nuevo.",
+    approving: "Aprobando {symbol}...",
+    approved: "{symbol} aprobado para operar",
+    approvalReverted: "La aprobación de {symbol} fue revertida",
+    swapReverted: "La transacción de intercambio fue revertida",
+    buying: "Comprando {amount} {symbol}...",
+    selling: "Vendiendo {amount} {symbol}...",
+    bought: "¡Compra exitosa! Compraste {tokens} tokens {symbol} por {backing}",
+    sold: "¡Venta exitosa! Vendiste {tokens} tokens {symbol} por {backing}",
+    partialFill: ". El precio alcanzó tu límite de deslizamiento, así que la orden se ejecutó parcialmente.",
+    connectWallet: "Conecta tu wallet para operar tokens",
+    routerNotConfigured: "El router de swaps no está configurado",
+    poolNotLive: "El pool del evento aún no está activo",
+  },
+  launch: {
+    title: "Lanza un evento",
+    intro:
+      "Crea el token de tu evento y abre su mercado en seis transacciones. Puedes salir y volver cuando quieras: el avance se lee de la blockchain.",
+    stepsLabel: "Pasos del lanzamiento",
+    steps: {
+      deployToken: "Crear el token del evento",
+      deployHook: "Desplegar el hook de liquidez",
+      setHook: "Conectar el hook al token",
+      deposit: "Depositar el activo de respaldo",
+      initialize: "Abrir el pool",
+      bootstrap: "Agregar la liquidez inicial",
+    },
+    actions: {
+      deployToken: "Crear token del evento",
+      deployHook: "Desplegar hook",
+      setHook: "Conectar hook al token",
+      deposit: "Depositar activo de respaldo",
+      initialize: "Abrir pool",
+      bootstrap: "Agregar liquidez inicial",
+    },
+    status: {
+      idle: "Procesando...",
+      approving: "Esperando la aprobación...",
+      signing: "Confirma en tu wallet...",
+      confirming: "Confirmando la transacción...",
+    },
+    noPoolManager: "No se conoce un PoolManager para {chain}. Configura NEXT_PUBLIC_POOL_MANAGER_ADDRESS.",
+    readError: "No pudimos leer este lanzamiento: {error}",
+    reading: "Leyendo el lanzamiento desde la blockchain...",
+    notOrganizer: "Solo el organizador de este evento ({address}) puede continuar su lanzamiento.",
+    liveTitle: "¡Tu evento está en vivo!",
+    liveBody: "Los fans ya pueden comprar tokens en el pool.",
+    openEvent: "Abrir la página del evento",
+    eventName: "Nombre del evento",
+    eventNamePlaceholder: "Taylor Swift Ciudad de México",
+    tokenSymbol: "Símbolo del token",
+    eventDate: "Fecha del evento",
+    backingAsset: "Activo de respaldo (dirección ERC20)",
+    backingPicked: "Los fans pagan y reciben {symbol}.",
+    backingHint: "El token con el que pagan los fans, por ejemplo una stablecoin.",
+    hookAddress: "El hook se desplegará en {address}, una dirección que lleva sus permisos de Uniswap v4.",
+    hookAddressPending: "Elige el activo de respaldo para encontrar la dirección del hook.",
+    setHookHint: "Mueve los 600M de tokens reservados para liquidez del contrato del token al hook.",
+    depositAmount: "Activo de respaldo para emparejar con los 600M de tokens de liquidez",
+    walletBalance: "Saldo de la wallet: {amount} {symbol}.",
+    depositHint: "El depósito fija el precio de apertura del token.",
+    initializeHint:
+      "Abre el pool de Uniswap v4 al precio que fija tu depósito. El hook agrega la liquidez en la misma transacción.",
+    bootstrapHint: "El pool está abierto pero su liquidez no se agregó automáticamente. Agrégala ahora para que los fans puedan operar.",
+    connectToLaunch: "Conecta tu wallet para lanzar",
+    connectWallet: "Conecta tu wallet para lanzar un evento",
+    stillLoading: "El estado del lanzamiento aún se está cargando",
+    reverted: "La transacción del lanzamiento se revirtió",
+    creatingToken: "Creando ${symbol}...",
+    tokenCreated: "${symbol} creado",
+    tokenCreatedAt: "${symbol} creado en {address}",
+    tokenNotCreated: "El despliegue del token no creó un contrato",
+    pickBackingFirst: "Elige un activo de respaldo antes de desplegar el hook",
+    deployingHook: "Desplegando el hook...",
+    hookDeployed: "Hook desplegado",
+    deployHookFirst: "Primero despliega el hook",
+    connectingHook: "Conectando el hook...",
+    hookConnected: "Hook conectado, la asignación de liquidez pasó al hook",
+    connectHookFirst: "Primero conecta el hook al token",
+    approvingBacking: "Aprobando el activo de respaldo...",
+    backingApproved: "Activo de respaldo aprobado",
+    backingApprovalReverted: "La aprobación del activo de respaldo se revirtió",
+    depositing: "Depositando el activo de respaldo...",
+    deposited: "Activo de respaldo depositado",
+    depositFirst: "Primero deposita el activo de respaldo",
+    openingPool: "Abriendo el pool...",
+    poolOpened: "Pool abierto",
+    openPoolFirst: "Primero abre el pool",
+    bootstrapping: "Agregando la liquidez inicial...",
+    bootstrapped: "Liquidez inicial agregada",
+  },
+  errors: {
+    unknown: "Algo salió mal",
+    hint: "{fix} (código: {code})",
+    invalidAmount: "Ingresa una cantidad válida",
+    tooManyDecimals: "Este token tiene como máximo {decimals} decimales",
+    amountTooSmall: "La cantidad es demasiado pequeña para operar",
+  },
+  reverts: {
+    // EventCoinSimpleHook
+    OnlyOrganizer: {
+      message: "Solo el organizador del evento puede hacer esto.",
+      fix: "Cambia tu wallet a la cuenta del organizador e inténtalo de nuevo.",
+    },
+    BackingAssetAlreadyDeposited: {
+      message: "El activo de respaldo ya se depositó para este evento.",
+      fix: "Recarga la página para continuar con la apertura del pool.",
+    },
+    NoBackingAssetDeposited: {
+      message: "El organizador aún no ha depositado el activo de respaldo.",
+      fix: "Deposita el activo de respaldo antes de abrir el pool.",
+    },
+    InsufficientEventTokens: {
+      message: "El hook no tiene suficientes tokens del evento para agregar la liquidez inicial.",
+      fix: "Primero conecta el hook al token, lo que le transfiere la asignación de liquidez.",
+    },
+    ZeroAmounts: {
+      message: "La cantidad no puede ser cero.",
+      fix: "Ingresa una cantidad mayor que cero.",
+    },
+    InvalidCallbackId: {
+      message: "El hook recibió un callback que no reconoce.",
+      fix: "Vuelve a intentarlo desde la app en lugar de llamar al hook directamente. Si sigue fallando, contacta a soporte con este código.",
+    },
+    CallbackNotFromPoolManager: {
+      message: "Solo el PoolManager de Uniswap puede hacer callbacks al hook.",
+      fix: "Usa los botones de la app en lugar de llamar al hook directamente.",
+    },
+    NotPoolManager: {
+      message: "Solo el PoolManager de Uniswap puede llamar al hook.",
+      fix: "Usa los botones de la app en lugar de llamar al hook directamente.",
+    },
+    InvalidBackingAsset: {
+      message: "La dirección del activo de respaldo está vacía.",
+      fix: "Elige el token en el que se cotizará el pool del evento.",
+    },
+    BackingAssetNotERC20Metadata: {
+      message: "El activo de respaldo no es un token ERC-20 con símbolo y decimales.",
+      fix: "Elige un token ERC-20 estándar, como USDC.",
+    },
+    InvalidToken: {
+      message: "La dirección del token del evento está vacía.",
+      fix: "Primero crea el token del evento.",
+    },
+    SafeERC20FailedOperation: {
+      message: "Falló una transferencia de tokens del hook.",
+      fix: "Revisa tu saldo y la aprobación del activo de respaldo, e inténtalo de nuevo.",
+    },
+    "Wrong hook": {
+      message: "Este pool no usa el hook del evento.",
+      fix: "Revisa la comisión y el espaciado de ticks del pool del evento.",
+    },
+    "Pool must contain backing asset": {
+      message: "El pool no incluye el activo de respaldo del evento.",
+      fix: "Abre el pool desde el asistente de lanzamiento, que empareja el token con su activo de respaldo.",
+    },
+    "Pool must contain event token": {
+      message: "El pool no incluye el token del evento.",
+      fix: "Abre el pool desde el asistente de lanzamiento, que empareja el token con su activo de respaldo.",
+    },
+
+    // EventToken vesting and setup
+    ExceedsTransferableAmount: {
+      message:
+        "El organizador solo puede mover {transferable} tokens en este momento (se solicitaron {requested}). Los tokens del organizador se desbloquean cada segundo hasta el evento.",
+      fix: "Usa una cantidad menor o espera a que se desbloqueen más tokens.",
+    },
+    "Event date must be in the future": {
+      message: "La fecha del evento debe ser futura.",
+      fix: "Elige una fecha posterior para el evento.",
+    },
+    InvalidEventDate: {
+      message: "La fecha del evento debe ser futura.",
+      fix: "Elige una fecha posterior para el evento.",
+    },
+    "Invalid organizer address": {
+      message: "La dirección del organizador está vacía.",
+      fix: "Conecta la wallet del organizador e inténtalo de nuevo.",
+    },
+    InvalidOrganizer: {
+      message: "La dirección del organizador está vacía.",
+      fix: "Conecta la wallet del organizador e inténtalo de nuevo.",
+    },
+    "Invalid hook address": {
+      message: "La dirección del hook está vacía.",
+      fix: "Despliega el hook antes de conectarlo al token.",
+    },
+    InvalidHook: {
+      message: "La dirección del hook está vacía.",
+      fix: "Despliega el hook antes de conectarlo al token.",
+    },
+    "Hook already set": {
+      message: "Este token ya está conectado a su hook.",
+      fix: "Recarga la página para continuar con el siguiente paso del lanzamiento.",
+    },
+    OwnableUnauthorizedAccount: {
+      message: "Solo la cuenta que creó el token del evento puede conectar su hook.",
+      fix: "Cambia tu wallet a la cuenta que creó el token.",
+    },
+    ERC20InsufficientBalance: {
+      message: "Tu saldo del token es menor que la cantidad.",
+      fix: "Reduce la cantidad o agrega fondos a tu wallet.",
+    },
+    ERC20InsufficientAllowance: {
+      message: "La cantidad aprobada es menor que lo que gasta la transacción.",
+      fix: "Aprueba la cantidad de nuevo y vuelve a intentarlo.",
+    },
+
+    // PoolManager swaps
+    PriceLimitAlreadyExceeded: {
+      message: "El precio superó tu tolerancia de deslizamiento desde la cotización.",
+      fix: "Revisa el nuevo precio e inténtalo de nuevo, o aumenta la tolerancia de deslizamiento en los ajustes de operación.",
+    },
+  },
+};
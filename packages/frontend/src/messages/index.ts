@@ -0,0 +1,26 @@
+import type { Locale } from "../config/i18n";
+import { en, type Messages } from "./en";
+import { esMX } from "./es-MX";
+
+export type { Messages };
+
+/**
+ * Message catalog of each locale
+ */
+export const catalogs: Record<Locale, Messages> = {
+  en,
+  "es-MX": esMX,
+};
+
+/**
+ * @function interpolate
+ * @description Fills the {name} placeholders of a message
+ * @param {string} template - Message with placeholders
+ * @param {Record<string, string | number>} values - Value of each placeholder
+ * @returns {string} Message with the placeholders replaced, unknown ones left as is
+ */
+export function interpolate(template: string, values: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
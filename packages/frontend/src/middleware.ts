@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { LOCALE_COOKIE, getLocalePath, isLocale, matchLocale } from "./config/i18n";
+
+/** How long the picked locale is remembered, in seconds */
+const LOCALE_COOKIE_MAX_AGE = 60 * 60 * 24 * 365;
+
+/**
+ * @function middleware
+ * @description Sends paths without a locale to the same path under the visitor's locale:
+ * the one they last picked, else the closest match to their browser languages.
+ * Localized paths remember their locale for the next unprefixed visit.
+ * @param {NextRequest} request - Incoming request
+ * @returns {NextResponse} Redirect to the localized path, or the request passed through
+ */
+export function middleware(request: NextRequest): NextResponse {
+  const { pathname, search } = request.nextUrl;
+  const [, firstSegment] = pathname.split("/");
+
+  if (isLocale(firstSegment)) {
+    const response = NextResponse.next();
+    if (request.cookies.get(LOCALE_COOKIE)?.value !== firstSegment) {
+      response.cookies.set(LOCALE_COOKIE, firstSegment, { maxAge: LOCALE_COOKIE_MAX_AGE, path: "/", sameSite: "lax" });
+    }
+    return response;
+  }
+
+  const saved = request.cookies.get(LOCALE_COOKIE)?.value;
+  const locale = saved && isLocale(saved) ? saved : matchLocale(request.headers.get("accept-language"));
+
+  return NextResponse.redirect(new URL(`${getLocalePath(locale, pathname)}${search}`, request.url));
+}
+
+export const config = {
+  // Skip Next.js internals, API routes and static files like /favicon.ico
+  matcher: ["/((?!_next|api|.*\\..*).*)"],
+};
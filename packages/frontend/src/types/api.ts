@@ -0,0 +1,157 @@
+import type { Address } from "viem";
+import type { PoolKey } from "@unifans/shared";
+import type { LaunchStep } from "../lib/launch";
+import type { PriceCandle } from "../lib/priceHistory";
+
+/**
+ * Response bodies of the public JSON API under /api. Raw token amounts are decimal
+ * strings since they don't fit in a JSON number, whole-token amounts and prices
+ * are numbers, timestamps are unix seconds.
+ */
+
+/**
+ * @interface ApiError
+ * @description Body of every 4xx and 5xx response
+ */
+export interface ApiError {
+  error: {
+    /** Machine readable code, like "invalid_address" */
+    code: string;
+    message: string;
+  };
+}
+
+/**
+ * @interface ApiPagination
+ * @description Position of a page in a paginated list
+ */
+export interface ApiPagination {
+  /** Items per page */
+  limit: number;
+  /** Items in the whole list, null when it is not known up front */
+  total: number | null;
+  /** Path and query of the next page, null on the last page */
+  next: string | null;
+}
+
+/**
+ * @interface ApiPage
+ * @description Paginated list
+ */
+export interface ApiPage<T> {
+  data: T[];
+  pagination: ApiPagination;
+}
+
+/**
+ * @interface ApiEventSummary
+ * @description Item of GET /api/events
+ */
+export interface ApiEventSummary {
+  tokenAddress: Address;
+  /** Event name, null when the EventToken could not be read */
+  name: string | null;
+  symbol: string | null;
+  eventDate: number | null;
+  location: string;
+  promoter: string;
+  /** Path of the event's API resource */
+  url: string;
+}
+
+/**
+ * @interface ApiBackingAsset
+ * @description ERC20 the event pool is priced in
+ */
+export interface ApiBackingAsset {
+  address: Address;
+  symbol: string;
+  decimals: number;
+}
+
+/**
+ * @interface ApiVesting
+ * @description Organizer vesting state of an EventToken
+ */
+export interface ApiVesting {
+  startTime: number;
+  endTime: number;
+  /** Raw organizer allocation */
+  totalAmount: string;
+  /** Raw amount the organizer can move right now */
+  transferable: string;
+  /** Raw amount still locked */
+  remaining: string;
+  /** Elapsed share of the vesting window, 0 to 100 */
+  progress: number;
+}
+
+/**
+ * @interface ApiBootstrap
+ * @description Launch state of the event pool
+ */
+export interface ApiBootstrap {
+  /** Next launch step, "done" once liquidity is bootstrapped */
+  launchStep: LaunchStep;
+  backingAssetDeposited: boolean;
+  /** Backing asset deposited into the hook, in backing asset units */
+  initialBackingAmount: number;
+  poolInitialized: boolean;
+  liquidityBootstrapped: boolean;
+}
+
+/**
+ * @interface ApiEventDetail
+ * @description Body of GET /api/events/[token]
+ */
+export interface ApiEventDetail {
+  tokenAddress: Address;
+  name: string;
+  symbol: string;
+  eventDate: number;
+  location: string;
+  promoter: string;
+  description: string;
+  organizer: Address;
+  hookAddress: Address | null;
+  poolManager: Address | null;
+  poolKey: PoolKey | null;
+  /** Block the EventToken was deployed at, as a decimal string */
+  startBlock: string;
+  backingAsset: ApiBackingAsset | null;
+  /** Pool price in backing asset units per token, 0 before the pool opens */
+  price: number;
+  /** Whole tokens */
+  totalSupply: number;
+  /** Whole tokens fans can buy, the supply minus the organizer allocation */
+  availableForPurchase: number;
+  /** Whole tokens held by the community */
+  raised: number;
+  /** Whole tokens fans must hold before the event is confirmed */
+  minInterest: number;
+  vesting: ApiVesting;
+  bootstrap: ApiBootstrap;
+}
+
+/**
+ * @type ApiCandle
+ * @description Item of GET /api/events/[token]/candles, oldest first
+ */
+export type ApiCandle = PriceCandle;
+
+/**
+ * @interface ApiHolder
+ * @description Item of GET /api/events/[token]/holders, biggest balance first
+ */
+export interface ApiHolder {
+  rank: number;
+  address: Address;
+  /** Raw token balance */
+  balance: string;
+  /** Share of the total supply, 0 to 100 */
+  share: number;
+  /** Block of the first transfer the holder received, as a decimal string */
+  firstBlock: string;
+  /** Timestamp of that transfer, null when its block could not be read */
+  firstTimestamp: number | null;
+}
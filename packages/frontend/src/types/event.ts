@@ -0,0 +1,41 @@
+import type { Address } from "viem";
+import type { BackingAssetInfo, PoolKey, VestingInfo } from "@unifans/shared";
+
+/**
+ * @interface EventData
+ * @description Type definition for event information and token metrics.
+ * Token amounts are whole tokens, prices are in backing asset units per token.
+ */
+export interface EventData {
+  tokenAddress: Address;
+  hookAddress: Address | null;
+  organizer: Address;
+  backingAsset: BackingAssetInfo | null;
+  poolKey: PoolKey | null;
+  /** Uniswap v4 PoolManager the event pool lives in */
+  poolManager: Address | null;
+  /** Block the EventToken was deployed at, where log scans start */
+  startBlock: bigint;
+  name: string;
+  /** Event date, unix seconds */
+  eventDate: number;
+  location: string;
+  promoter: string;
+  description: string;
+  tokenSymbol: string;
+  currentPrice: number;
+  /** Current sqrt price of the event pool, 0 when the pool is not initialized */
+  sqrtPriceX96: bigint;
+  totalSupply: number;
+  organizerTokens: number;
+  /** Raw organizer vesting state from EventToken.getVestingInfo() */
+  vesting: VestingInfo;
+  vestingProgress: number;
+  availableForPurchase: number;
+  raised: number;
+  goal: number;
+  minInterest: number;
+  daysLeft: number;
+  initialBackingAmount: number;
+  backingAssetDeposited: boolean;
+}
@@ -0,0 +1,304 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getAddress, keccak256, parseUnits, stringToHex, type Address, type Hash } from "viem";
+import {
+  fetchTrades,
+  getActivityPage,
+  prependTrades,
+  readTrades,
+  type Trade,
+  type TradeParams,
+} from "../src/lib/activity";
+import { createFakeChain, tokens, type FakeSwap, type FakeTransfer } from "./fakeChain";
+
+const token: Address = getAddress("0x00000000000000000000000000000000000000e1");
+const poolManager: Address = getAddress("0x00000000000000000000000000000000000000d1");
+const organizer: Address = getAddress("0x00000000000000000000000000000000000000a1");
+const alice: Address = getAddress("0x000000000000000000000000000000000000a11c");
+const bob: Address = getAddress("0x0000000000000000000000000000000000000b0b");
+const carol: Address = getAddress("0x00000000000000000000000000000000000ca201");
+const poolId = keccak256(stringToHex("event pool"));
+
+/** Raw amount of the 6-decimal backing asset */
+const usdc = (amount: number): bigint => parseUnits(String(amount), 6);
+
+/** Hash of a fake transaction */
+const tx = (name: string): Hash => keccak256(stringToHex(name));
+
+/**
+ * @function buy
+ * @description Swap and token transfer of a fan buying event tokens, the token being currency0
+ * @param {bigint} blockNumber - Block of the trade
+ * @param {string} name - Name of the transaction
+ * @param {Address} fan - Account receiving the tokens
+ * @param {number} amount - Whole tokens bought
+ * @param {number} paid - Backing asset paid
+ * @returns Swap and transfer of the trade
+ */
+function buy(blockNumber: bigint, name: string, fan: Address, amount: number, paid: number) {
+  const transactionHash = tx(name);
+  const swap: FakeSwap = { blockNumber, transactionHash, from: fan, amount0: tokens(amount), amount1: -usdc(paid) };
+  const transfer: FakeTransfer = { blockNumber, transactionHash, from: poolManager, to: fan, value: tokens(amount) };
+  return { swap, transfer };
+}
+
+/**
+ * @function sell
+ * @description Swap and token transfer of a fan selling event tokens, the token being currency0
+ * @param {bigint} blockNumber - Block of the trade
+ * @param {string} name - Name of the transaction
+ * @param {Address} fan - Account sending the tokens
+ * @param {number} amount - Whole tokens sold
+ * @param {number} received - Backing asset received
+ * @returns Swap and transfer of the trade
+ */
+function sell(blockNumber: bigint, name: string, fan: Address, amount: number, received: number) {
+  const transactionHash = tx(name);
+  const swap: FakeSwap = { blockNumber, transactionHash, from: fan, amount0: -tokens(amount), amount1: usdc(received) };
+  const transfer: FakeTransfer = { blockNumber, transactionHash, from: fan, to: poolManager, value: tokens(amount) };
+  return { swap, transfer };
+}
+
+const params: TradeParams = {
+  tokenAddress: token,
+  poolManager,
+  poolId,
+  organizer,
+  tokenIsCurrency0: true,
+  backingDecimals: 6,
+};
+
+/**
+ * @function createPoolChain
+ * @description Fake chain holding the event pool and the given trades
+ * @param {bigint} latestBlock - Head block
+ * @param {{ swap: FakeSwap; transfer?: FakeTransfer }[]} trades - Trades in chain order
+ * @param {Hash[]} [organizerTransactions] - Transactions that moved vested organizer tokens
+ * @returns Fake chain
+ */
+function createPoolChain(
+  latestBlock: bigint,
+  trades: { swap: FakeSwap; transfer?: FakeTransfer }[],
+  organizerTransactions: Hash[] = []
+) {
+  return createFakeChain({
+    tokenAddress: token,
+    latestBlock,
+    poolManager,
+    poolId,
+    swaps: trades.map(({ swap }) => swap),
+    transfers: trades.flatMap(({ transfer }) => (transfer ? [transfer] : [])),
+    organizerTransfers: organizerTransactions.map((transactionHash) => {
+      const swap = trades.find((trade) => trade.swap.transactionHash === transactionHash)!.swap;
+      return { blockNumber: swap.blockNumber, transactionHash };
+    }),
+  });
+}
+
+/**
+ * @function summarize
+ * @description Fields of trades the assertions compare
+ * @param {Trade[]} trades - Trades to summarize
+ * @returns Block, side and trader of each trade
+ */
+const summarize = (trades: Trade[]) => trades.map(({ blockNumber, side, trader }) => [blockNumber, side, trader]);
+
+describe("readTrades", () => {
+  it("reads the side, amounts and price of buys and sells, newest first", async () => {
+    const chain = createPoolChain(1_000n, [buy(100n, "a", alice, 100, 10), sell(200n, "b", bob, 50, 4)]);
+    const logs = await fetchTrades(chain.client, { ...params, startBlock: 0n, toBlock: null, count: 10 });
+    const [sold, bought] = logs.trades;
+
+    assert.equal(bought.side, "buy");
+    assert.equal(bought.trader, alice);
+    assert.equal(bought.tokenAmount, 100);
+    assert.equal(bought.backingAmount, 10);
+    assert.equal(bought.price, 0.1);
+    assert.equal(sold.side, "sell");
+    assert.equal(sold.trader, bob);
+    assert.equal(sold.tokenAmount, 50);
+    assert.equal(sold.backingAmount, 4);
+    assert.equal(sold.price, 0.08);
+  });
+
+  it("reads the sides the other way round when the token is currency1", async () => {
+    const { swap, transfer } = buy(100n, "a", alice, 100, 10);
+    const flipped = { ...swap, amount0: swap.amount1, amount1: swap.amount0 };
+    const chain = createPoolChain(1_000n, [{ swap: flipped, transfer }]);
+    const { trades } = await fetchTrades(chain.client, {
+      ...params,
+      tokenIsCurrency0: false,
+      startBlock: 0n,
+      toBlock: null,
+      count: 10,
+    });
+
+    assert.deepEqual(summarize(trades), [[100n, "buy", alice]]);
+    assert.equal(trades[0].tokenAmount, 100);
+  });
+
+  it("labels organizer trades by address, by organizer tokens moved and by sender", async () => {
+    const organizerBuy = buy(300n, "organizer buy", organizer, 20, 2);
+    // Vested organizer tokens sold from another wallet of the organizer
+    const vestedSale = sell(400n, "vested sale", carol, 30, 3);
+    // Paid out to a contract, so there is no token transfer to the trader
+    const contractBuy = { swap: buy(500n, "contract buy", organizer, 10, 1).swap };
+    const chain = createPoolChain(
+      1_000n,
+      [buy(100n, "a", alice, 100, 10), organizerBuy, vestedSale, contractBuy],
+      [vestedSale.swap.transactionHash]
+    );
+    const { trades } = await fetchTrades(chain.client, { ...params, startBlock: 0n, toBlock: null, count: 10 });
+
+    assert.deepEqual(
+      trades.map(({ blockNumber, trader, isOrganizer }) => [blockNumber, trader, isOrganizer]),
+      [
+        [500n, organizer, true],
+        [400n, carol, true],
+        [300n, organizer, true],
+        [100n, alice, false],
+      ]
+    );
+  });
+
+  it("falls back to the transaction sender when no transfer matches the swap", async () => {
+    const { swap } = buy(100n, "a", alice, 100, 10);
+    const chain = createPoolChain(1_000n, [{ swap: { ...swap, from: bob } }]);
+    const { transactionHash, amount0, amount1 } = swap;
+    const logs = [{ transactionHash, blockNumber: 100n, logIndex: 0, args: { amount0, amount1 } }];
+    const [trade] = await readTrades(chain.client, logs, params);
+
+    assert.equal(trade.trader, bob);
+    assert.equal(trade.isOrganizer, false);
+  });
+
+  it("skips pending logs", async () => {
+    const chain = createPoolChain(1_000n, []);
+    const pending = { transactionHash: null, blockNumber: null, logIndex: null, args: { amount0: 1n, amount1: -1n } };
+    assert.deepEqual(await readTrades(chain.client, [pending], params), []);
+  });
+});
+
+describe("fetchTrades", () => {
+  /** One trade in each of the last four 5,000-block chunks scanned back from block 20,000 */
+  const history = [
+    buy(1_000n, "first", alice, 10, 1),
+    sell(7_000n, "second", alice, 5, 1),
+    buy(12_000n, "third", bob, 10, 1),
+    sell(18_000n, "fourth", bob, 5, 1),
+  ];
+  const pageParams = { ...params, startBlock: 500n, count: 1 };
+
+  it("pages back in time with the block cursor until the start block", async () => {
+    const chain = createPoolChain(20_000n, history);
+    const pages = [];
+    let toBlock: bigint | null = null;
+    do {
+      const page = await fetchTrades(chain.client, { ...pageParams, toBlock });
+      pages.push(page);
+      toBlock = page.nextBlock;
+    } while (toBlock !== null);
+
+    assert.deepEqual(
+      pages.map(({ trades, nextBlock }) => [trades.map((trade) => trade.blockNumber), nextBlock]),
+      [
+        [[18_000n], 15_000n],
+        [[12_000n], 10_000n],
+        [[7_000n], 5_000n],
+        [[1_000n], null],
+      ]
+    );
+    // The last page stops at the start block rather than scanning from block 0
+    assert.ok(chain.logRequests.some(({ fromBlock }) => fromBlock === 500n));
+    assert.ok(chain.logRequests.every(({ fromBlock }) => fromBlock >= 500n));
+  });
+
+  it("keeps scanning back until the page has enough trades", async () => {
+    const chain = createPoolChain(20_000n, history);
+    const page = await fetchTrades(chain.client, { ...pageParams, toBlock: null, count: 2 });
+
+    assert.deepEqual(
+      page.trades.map((trade) => trade.blockNumber),
+      [18_000n, 12_000n]
+    );
+    assert.equal(page.nextBlock, 10_000n);
+  });
+
+  it("returns every trade of the chunks it scanned, even past the count", async () => {
+    const chain = createPoolChain(20_000n, [...history, buy(19_000n, "fifth", carol, 1, 1)]);
+    const page = await fetchTrades(chain.client, { ...pageParams, toBlock: null });
+
+    assert.deepEqual(summarize(page.trades), [
+      [19_000n, "buy", carol],
+      [18_000n, "sell", bob],
+    ]);
+  });
+});
+
+describe("getActivityPage", () => {
+  /** Trades alternating buy and sell, newest first */
+  const trades = Array.from({ length: 12 }, (_, index) => ({
+    transactionHash: tx(`trade ${index}`),
+    blockNumber: BigInt(100 - index),
+    logIndex: 0,
+    timestamp: 0,
+    trader: alice,
+    side: index % 2 === 0 ? "buy" : "sell",
+    tokenAmount: 1,
+    backingAmount: 1,
+    price: 1,
+    isOrganizer: false,
+  })) satisfies Trade[];
+
+  it("shows every side by default, a page at a time", () => {
+    const first = getActivityPage(trades, "all", 0, 5, false);
+    assert.deepEqual(
+      first.trades.map((trade) => trade.blockNumber),
+      [100n, 99n, 98n, 97n, 96n]
+    );
+    assert.equal(first.hasOlder, true);
+    assert.equal(first.needsMore, false);
+
+    const last = getActivityPage(trades, "all", 2, 5, false);
+    assert.equal(last.trades.length, 2);
+    assert.equal(last.hasOlder, false);
+  });
+
+  it("keeps only the selected side", () => {
+    const buys = getActivityPage(trades, "buy", 0, 5, false);
+    assert.ok(buys.trades.every((trade) => trade.side === "buy"));
+    assert.equal(buys.trades.length, 5);
+
+    const sells = getActivityPage(trades, "sell", 1, 5, false);
+    assert.deepEqual(
+      sells.trades.map((trade) => trade.blockNumber),
+      [89n]
+    );
+    assert.equal(sells.hasOlder, false);
+  });
+
+  it("asks for older trades when the filter leaves the page short", () => {
+    const page = getActivityPage(trades, "sell", 1, 5, true);
+    assert.equal(page.trades.length, 1);
+    assert.equal(page.needsMore, true);
+    assert.equal(page.hasOlder, true);
+  });
+});
+
+describe("prependTrades", () => {
+  it("adds only trades newer than the top of the feed", async () => {
+    const chain = createPoolChain(1_000n, [
+      buy(100n, "a", alice, 1, 1),
+      sell(200n, "b", bob, 1, 1),
+      buy(300n, "c", carol, 1, 1),
+    ]);
+    const { trades } = await fetchTrades(chain.client, { ...params, startBlock: 0n, toBlock: 250n, count: 10 });
+    const live = (await fetchTrades(chain.client, { ...params, startBlock: 150n, toBlock: 1_000n, count: 10 })).trades;
+
+    assert.deepEqual(
+      prependTrades(trades, live).map((trade) => trade.blockNumber),
+      [300n, 200n, 100n]
+    );
+    assert.equal(prependTrades(trades, []), trades);
+  });
+});
@@ -0,0 +1,157 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { NextRequest } from "next/server";
+import { getAddress, zeroAddress, type Address } from "viem";
+import type { ApiError, ApiHolder, ApiPage } from "../src/types/api";
+import { MAX_SYNC_BLOCKS } from "../src/lib/holders";
+import { createFakeChain, tokens } from "./fakeChain";
+
+const token: Address = getAddress("0x00000000000000000000000000000000000000e1");
+const alice: Address = getAddress("0x000000000000000000000000000000000000a11c");
+const bob: Address = getAddress("0x0000000000000000000000000000000000000b0b");
+const carol: Address = getAddress("0x00000000000000000000000000000000000ca201");
+
+/** Long enough that the holder scan needs three requests to catch up */
+const chain = createFakeChain({
+  tokenAddress: token,
+  latestBlock: 2n * MAX_SYNC_BLOCKS + 500n,
+  transfers: [
+    { blockNumber: 10n, from: zeroAddress, to: alice, value: tokens(300) },
+    { blockNumber: 20n, from: zeroAddress, to: bob, value: tokens(200) },
+    { blockNumber: MAX_SYNC_BLOCKS + 30n, from: alice, to: carol, value: tokens(50) },
+  ],
+});
+
+/** Route handlers, imported once the fake chain serves the server client's RPC URL */
+let routes: {
+  events: typeof import("../src/app/api/events/route");
+  event: typeof import("../src/app/api/events/[token]/route");
+  candles: typeof import("../src/app/api/events/[token]/candles/route");
+  holders: typeof import("../src/app/api/events/[token]/holders/route");
+};
+let close: () => Promise<void>;
+
+before(async () => {
+  const server = await chain.serve();
+  close = server.close;
+  process.env.NEXT_PUBLIC_RPC_URL = server.url;
+  routes = {
+    events: await import("../src/app/api/events/route"),
+    event: await import("../src/app/api/events/[token]/route"),
+    candles: await import("../src/app/api/events/[token]/candles/route"),
+    holders: await import("../src/app/api/events/[token]/holders/route"),
+  };
+});
+
+after(() => close());
+
+/**
+ * @function get
+ * @description Calls a route handler the way Next.js does
+ * @param {Function} handler - GET handler of the route
+ * @param {string} path - Path and query of the request
+ * @param {string} [tokenParam] - [token] segment of the route
+ * @returns Status, Cache-Control header and JSON body of the response
+ */
+async function get<T>(
+  handler: (request: NextRequest, context: { params: Promise<{ token: string }> }) => Promise<Response>,
+  path: string,
+  tokenParam = ""
+) {
+  const response = await handler(new NextRequest(new URL(path, "http://localhost")), {
+    params: Promise.resolve({ token: tokenParam }),
+  });
+  return { status: response.status, cacheControl: response.headers.get("Cache-Control"), body: (await response.json()) as T };
+}
+
+describe("GET /api/events/[token]/holders", () => {
+  const path = `/api/events/${token}/holders`;
+
+  it("rejects an invalid address", async () => {
+    const { status, cacheControl, body } = await get<ApiError>(routes.holders.GET, "/api/events/0x12/holders", "0x12");
+    assert.equal(status, 400);
+    assert.equal(body.error.code, "invalid_address");
+    assert.equal(cacheControl, "no-store");
+  });
+
+  it("rejects a limit above the maximum", async () => {
+    const { status, body } = await get<ApiError>(routes.holders.GET, `${path}?limit=101`, token);
+    assert.equal(status, 400);
+    assert.equal(body.error.code, "invalid_parameter");
+  });
+
+  it("answers 503 while the holder scan catches up, then the holders", async () => {
+    for (let request = 0; request < 2; request++) {
+      const { status, body } = await get<ApiError>(routes.holders.GET, path, token);
+      assert.equal(status, 503);
+      assert.equal(body.error.code, "holders_syncing");
+    }
+
+    const { status, cacheControl, body } = await get<ApiPage<ApiHolder>>(routes.holders.GET, path, token);
+    assert.equal(status, 200);
+    assert.match(cacheControl ?? "", /s-maxage=60/);
+    assert.deepEqual(
+      body.data.map(({ rank, address, balance }) => [rank, address, balance]),
+      [
+        [1, alice, tokens(250).toString()],
+        [2, bob, tokens(200).toString()],
+        [3, carol, tokens(50).toString()],
+      ]
+    );
+    assert.equal(body.data[0].share, 0.025);
+    assert.equal(body.pagination.total, 3);
+  });
+
+  it("pages the holders with offset and limit", async () => {
+    const first = await get<ApiPage<ApiHolder>>(routes.holders.GET, `${path}?limit=2`, token);
+    assert.deepEqual(
+      first.body.data.map(({ address }) => address),
+      [alice, bob]
+    );
+    assert.equal(first.body.pagination.next, `${path}?limit=2&offset=2`);
+
+    const second = await get<ApiPage<ApiHolder>>(routes.holders.GET, first.body.pagination.next!, token);
+    assert.deepEqual(
+      second.body.data.map(({ rank, address }) => [rank, address]),
+      [[3, carol]]
+    );
+    assert.equal(second.body.pagination.next, null);
+  });
+});
+
+describe("GET /api/events/[token]/candles", () => {
+  it("rejects an unknown interval", async () => {
+    const { status, body } = await get<ApiError>(
+      routes.candles.GET,
+      `/api/events/${token}/candles?interval=2h`,
+      token
+    );
+    assert.equal(status, 400);
+    assert.equal(body.error.code, "invalid_parameter");
+    assert.match(body.error.message, /1m, 5m, 15m, 1h, 4h, 1d/);
+  });
+
+  it("returns no candles before the pool exists", async () => {
+    const { status, body } = await get<ApiPage<unknown>>(routes.candles.GET, `/api/events/${token}/candles`, token);
+    assert.equal(status, 200);
+    assert.deepEqual(body.data, []);
+    assert.equal(body.pagination.next, null);
+  });
+});
+
+describe("GET /api/events/[token]", () => {
+  it("answers 404 for an address that isn't an EventToken", async () => {
+    const other = getAddress("0x00000000000000000000000000000000000000f0");
+    const { status, body } = await get<ApiError>(routes.event.GET, `/api/events/${other}`, other);
+    assert.equal(status, 404);
+    assert.equal(body.error.code, "event_not_found");
+  });
+});
+
+describe("GET /api/events", () => {
+  it("rejects a negative offset", async () => {
+    const { status, body } = await get<ApiError>(routes.events.GET, "/api/events?offset=-1");
+    assert.equal(status, 400);
+    assert.equal(body.error.code, "invalid_parameter");
+  });
+});
@@ -0,0 +1,328 @@
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import {
+  createClient,
+  custom,
+  decodeFunctionData,
+  encodeAbiParameters,
+  encodeEventTopics,
+  encodeFunctionResult,
+  erc20Abi,
+  getAbiItem,
+  isAddressEqual,
+  numberToHex,
+  pad,
+  parseUnits,
+  zeroAddress,
+  type Address,
+  type Client,
+  type Hash,
+  type Hex,
+} from "viem";
+import { EVENT_TOKEN_DECIMALS, eventTokenAbi, poolManagerAbi } from "@unifans/shared";
+
+/** Events the fake chain emits besides ERC-20 Transfers */
+const organizerTransferEvent = getAbiItem({ abi: eventTokenAbi, name: "OrganizerTransfer" });
+const swapEvent = getAbiItem({ abi: poolManagerAbi, name: "Swap" });
+
+/** Seconds between the fake chain's blocks, block 0 is at GENESIS_TIMESTAMP */
+const BLOCK_TIME = 2;
+const GENESIS_TIMESTAMP = 1_700_000_000;
+
+/**
+ * @interface FakeTransfer
+ * @description EventToken Transfer event of the fake chain
+ */
+export interface FakeTransfer {
+  blockNumber: bigint;
+  from: Address;
+  to: Address;
+  /** Raw token amount */
+  value: bigint;
+  /** Transaction emitting it, a hash of its own by default */
+  transactionHash?: Hash;
+}
+
+/**
+ * @interface FakeSwap
+ * @description PoolManager Swap event of the fake chain's event pool
+ */
+export interface FakeSwap {
+  blockNumber: bigint;
+  transactionHash: Hash;
+  /** Sender of the transaction, usually a fan calling the router */
+  from: Address;
+  /** Signed deltas from the swapper's side, positive amounts left the pool */
+  amount0: bigint;
+  amount1: bigint;
+}
+
+/**
+ * @interface FakeOrganizerTransfer
+ * @description EventToken OrganizerTransfer event of the fake chain
+ */
+export interface FakeOrganizerTransfer {
+  blockNumber: bigint;
+  transactionHash: Hash;
+}
+
+/**
+ * @interface FakeLog
+ * @description Raw log of the fake chain, before it is serialized for the RPC
+ */
+interface FakeLog {
+  address: Address;
+  blockNumber: bigint;
+  transactionHash: Hash;
+  logIndex: number;
+  topics: Hex[];
+  data: Hex;
+}
+
+/**
+ * @interface FakeChain
+ * @description In-memory chain answering the JSON-RPC calls the frontend readers make for one EventToken
+ */
+export interface FakeChain {
+  tokenAddress: Address;
+  /** Head block, moved by the tests */
+  latestBlock: bigint;
+  /** Transfer events in chain order, edited by the tests */
+  transfers: FakeTransfer[];
+  /** Swap events of the event pool in chain order */
+  swaps: FakeSwap[];
+  /** OrganizerTransfer events in chain order */
+  organizerTransfers: FakeOrganizerTransfer[];
+  /** Block ranges of every eth_getLogs call */
+  logRequests: { fromBlock: bigint; toBlock: bigint }[];
+  /** Viem client talking to the chain in process */
+  client: Client;
+  /**
+   * Serves the chain over HTTP, for code using the server client of NEXT_PUBLIC_RPC_URL
+   * @returns URL of the endpoint and a function stopping the server
+   */
+  serve: () => Promise<{ url: string; close: () => Promise<void> }>;
+}
+
+/**
+ * @function tokens
+ * @description Raw amount of whole event tokens
+ * @param {number} amount - Whole tokens
+ * @returns {bigint} Raw amount
+ */
+export const tokens = (amount: number): bigint => parseUnits(String(amount), EVENT_TOKEN_DECIMALS);
+
+/**
+ * @function blockTimestamp
+ * @description Timestamp of a block of the fake chain
+ * @param {bigint} blockNumber - Block number
+ * @returns {number} Unix seconds
+ */
+export const blockTimestamp = (blockNumber: bigint): number => GENESIS_TIMESTAMP + Number(blockNumber) * BLOCK_TIME;
+
+/**
+ * @function createFakeChain
+ * @description Starts a fake chain holding one EventToken without a hook
+ * @param {Object} params - Chain state
+ * @param {Address} params.tokenAddress - EventToken address
+ * @param {bigint} params.latestBlock - Head block
+ * @param {FakeTransfer[]} [params.transfers] - Transfer events in chain order
+ * @param {Address} [params.poolManager] - PoolManager emitting the swaps
+ * @param {Hex} [params.poolId] - Id of the event pool
+ * @param {FakeSwap[]} [params.swaps] - Swap events of the event pool in chain order
+ * @param {FakeOrganizerTransfer[]} [params.organizerTransfers] - OrganizerTransfer events in chain order
+ * @returns {FakeChain} Chain and its clients
+ */
+export function createFakeChain({
+  tokenAddress,
+  latestBlock,
+  transfers = [],
+  poolManager = zeroAddress,
+  poolId = pad("0x"),
+  swaps = [],
+  organizerTransfers = [],
+}: {
+  tokenAddress: Address;
+  latestBlock: bigint;
+  transfers?: FakeTransfer[];
+  poolManager?: Address;
+  poolId?: Hex;
+  swaps?: FakeSwap[];
+  organizerTransfers?: FakeOrganizerTransfer[];
+}): FakeChain {
+  const supply = tokens(1_000_000);
+  const vesting = tokens(100_000);
+
+  /** Results of the EventToken views fetchEventData reads */
+  const views: Record<string, unknown> = {
+    eventName: "Test Fest",
+    eventDate: BigInt(Math.floor(Date.now() / 1000) + 30 * 86_400),
+    symbol: "TFEST",
+    totalSupply: supply,
+    organizer: "0x00000000000000000000000000000000000000a1",
+    eventHook: zeroAddress,
+    getVestingInfo: [0n, 1n, vesting, 0n, vesting],
+    getVestingProgress: 0n,
+  };
+
+  const chain: FakeChain = {
+    tokenAddress,
+    latestBlock,
+    transfers,
+    swaps,
+    organizerTransfers,
+    logRequests: [],
+    client: undefined as unknown as Client,
+    serve: async () => {
+      const server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", async () => {
+          const { id, method, params } = JSON.parse(body);
+          const reply = await request(method, params).then(
+            (result) => ({ jsonrpc: "2.0", id, result }),
+            (error: Error) => ({ jsonrpc: "2.0", id, error: { code: -32603, message: error.message } })
+          );
+          res.setHeader("Content-Type", "application/json");
+          res.end(JSON.stringify(reply));
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      const { port } = server.address() as AddressInfo;
+      return {
+        url: `http://127.0.0.1:${port}`,
+        close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+      };
+    },
+  };
+
+  /**
+   * @function getChainLogs
+   * @description Logs of every event on the chain. Log indexes only need to keep chain order within a block,
+   * so each kind of event gets its own range.
+   * @returns {FakeLog[]} Transfer, OrganizerTransfer and Swap logs
+   */
+  const getChainLogs = (): FakeLog[] => [
+    ...chain.transfers.map((transfer, index) => ({
+      address: tokenAddress,
+      blockNumber: transfer.blockNumber,
+      transactionHash: transfer.transactionHash ?? pad(numberToHex(index + 1)),
+      logIndex: index,
+      topics: encodeEventTopics({
+        abi: erc20Abi,
+        eventName: "Transfer",
+        args: { from: transfer.from, to: transfer.to },
+      }) as Hex[],
+      data: encodeAbiParameters([{ type: "uint256" }], [transfer.value]),
+    })),
+    ...chain.organizerTransfers.map((transfer, index) => ({
+      address: tokenAddress,
+      blockNumber: transfer.blockNumber,
+      transactionHash: transfer.transactionHash,
+      logIndex: 1_000 + index,
+      topics: encodeEventTopics({ abi: [organizerTransferEvent], args: { from: zeroAddress, to: zeroAddress } }) as Hex[],
+      data: encodeAbiParameters([{ type: "uint256" }, { type: "uint256" }], [0n, 0n]),
+    })),
+    ...chain.swaps.map((swap, index) => ({
+      address: poolManager,
+      blockNumber: swap.blockNumber,
+      transactionHash: swap.transactionHash,
+      logIndex: 2_000 + index,
+      topics: encodeEventTopics({ abi: [swapEvent], args: { id: poolId, sender: zeroAddress } }) as Hex[],
+      // amount0, amount1, sqrtPriceX96, liquidity, tick and fee; only the amounts are read
+      data: encodeAbiParameters(
+        swapEvent.inputs.filter((input) => !input.indexed),
+        [swap.amount0, swap.amount1, 2n ** 96n, 0n, 0, 3000]
+      ),
+    })),
+  ];
+
+  /**
+   * @function request
+   * @description Answers one JSON-RPC call
+   * @param {string} method - RPC method
+   * @param {readonly unknown[]} params - RPC params
+   * @returns {Promise<unknown>} RPC result
+   */
+  async function request(method: string, params: readonly unknown[] = []): Promise<unknown> {
+    switch (method) {
+      case "eth_chainId":
+        return numberToHex(31337);
+      case "eth_blockNumber":
+        return numberToHex(chain.latestBlock);
+      case "eth_getBlockByNumber": {
+        const number = BigInt(params[0] as Hex);
+        return {
+          number: numberToHex(number),
+          hash: pad(numberToHex(number + 1n)),
+          parentHash: pad(numberToHex(number)),
+          timestamp: numberToHex(blockTimestamp(number)),
+          transactions: [],
+        };
+      }
+      case "eth_getLogs": {
+        const { address, topics, fromBlock, toBlock } = params[0] as {
+          address: Address;
+          topics: (Hex | null)[];
+          fromBlock: Hex;
+          toBlock: Hex;
+        };
+        const range = { fromBlock: BigInt(fromBlock), toBlock: BigInt(toBlock) };
+        chain.logRequests.push(range);
+        return getChainLogs()
+          .filter(
+            (log) =>
+              isAddressEqual(log.address, address) &&
+              topics.every((topic, index) => topic === null || topic === log.topics[index]) &&
+              log.blockNumber >= range.fromBlock &&
+              log.blockNumber <= range.toBlock
+          )
+          .map((log) => ({
+            ...log,
+            blockNumber: numberToHex(log.blockNumber),
+            blockHash: pad(numberToHex(log.blockNumber + 1n)),
+            transactionIndex: "0x0",
+            logIndex: numberToHex(log.logIndex),
+            removed: false,
+          }));
+      }
+      case "eth_getTransactionByHash": {
+        const swap = chain.swaps.find((candidate) => candidate.transactionHash === params[0]);
+        if (!swap) return null;
+        return {
+          hash: swap.transactionHash,
+          from: swap.from,
+          to: zeroAddress,
+          blockHash: pad(numberToHex(swap.blockNumber + 1n)),
+          blockNumber: numberToHex(swap.blockNumber),
+          transactionIndex: "0x0",
+          nonce: "0x0",
+          value: "0x0",
+          gas: "0x0",
+          gasPrice: "0x0",
+          input: "0x",
+          type: "0x0",
+          v: "0x1b",
+          r: pad("0x1"),
+          s: pad("0x1"),
+        };
+      }
+      case "eth_call": {
+        const { to, data } = params[0] as { to: Address; data: Hex };
+        if (to.toLowerCase() !== tokenAddress.toLowerCase()) return "0x";
+        const { functionName } = decodeFunctionData({ abi: eventTokenAbi, data });
+        if (!(functionName in views)) throw new Error(`Unexpected call to ${functionName}`);
+        return encodeFunctionResult({ abi: eventTokenAbi, functionName, result: views[functionName] as never });
+      }
+      default:
+        throw new Error(`Unexpected RPC method ${method}`);
+    }
+  }
+
+  // Tests move the head between calls, so the block number is never served from viem's cache
+  chain.client = createClient({
+    cacheTime: 0,
+    transport: custom({ request: ({ method, params }) => request(method, params as readonly unknown[] | undefined) }),
+  });
+  return chain;
+}
@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getAddress, zeroAddress, type Address } from "viem";
+import {
+  MAX_SYNC_BLOCKS,
+  SYNC_CONFIRMATIONS,
+  applyHolderTransfers,
+  fetchHolders,
+  syncHolders,
+  type HolderScanCache,
+} from "../src/lib/holders";
+import { blockTimestamp, createFakeChain, tokens, type FakeTransfer } from "./fakeChain";
+
+const token: Address = getAddress("0x00000000000000000000000000000000000000e1");
+const hook: Address = getAddress("0x00000000000000000000000000000000000000b1");
+const alice: Address = getAddress("0x000000000000000000000000000000000000a11c");
+const bob: Address = getAddress("0x0000000000000000000000000000000000000b0b");
+const carol: Address = getAddress("0x00000000000000000000000000000000000ca201");
+
+/** Mint to the hook, then fans buying from it and trading between them */
+const history: FakeTransfer[] = [
+  { blockNumber: 10n, from: zeroAddress, to: hook, value: tokens(1_000) },
+  { blockNumber: 20n, from: hook, to: alice, value: tokens(300) },
+  { blockNumber: 20n, from: hook, to: bob, value: tokens(100) },
+  { blockNumber: 30n, from: alice, to: carol, value: tokens(50) },
+  { blockNumber: 40n, from: bob, to: hook, value: tokens(100) },
+];
+
+const params = { tokenAddress: token, excluded: [hook], startBlock: 0n, limit: 10 };
+
+describe("fetchHolders", () => {
+  it("counts fans with a balance, biggest first, leaving out mints and excluded contracts", async () => {
+    const chain = createFakeChain({ tokenAddress: token, latestBlock: 100n, transfers: history });
+    const snapshot = await fetchHolders(chain.client, params);
+
+    assert.equal(snapshot.holderCount, 2);
+    assert.deepEqual(
+      snapshot.topHolders.map(({ address, balance }) => [address, balance]),
+      [
+        [alice, tokens(250)],
+        [carol, tokens(50)],
+      ]
+    );
+    assert.equal(snapshot.topHolders[0].firstBlock, 20n);
+    assert.equal(snapshot.topHolders[0].firstTimestamp, blockTimestamp(20n));
+    // Bob sold everything: kept in the accounts for later transfers, but not a holder
+    assert.ok(snapshot.accounts.some((holder) => holder.address === bob && holder.balance === 0n));
+    assert.equal(snapshot.blockNumber, 100n);
+  });
+
+  it("reads the logs in chunks no RPC range limit rejects", async () => {
+    const chain = createFakeChain({ tokenAddress: token, latestBlock: 12_345n, transfers: history });
+    await fetchHolders(chain.client, params);
+
+    assert.deepEqual(chain.logRequests, [
+      { fromBlock: 0n, toBlock: 4_999n },
+      { fromBlock: 5_000n, toBlock: 9_999n },
+      { fromBlock: 10_000n, toBlock: 12_345n },
+    ]);
+  });
+});
+
+describe("applyHolderTransfers", () => {
+  it("applies only the logs after the snapshot", async () => {
+    const chain = createFakeChain({ tokenAddress: token, latestBlock: 100n, transfers: history });
+    const snapshot = await fetchHolders(chain.client, params);
+
+    const logs = [
+      { blockNumber: 100n, logIndex: 9, args: { from: alice, to: bob, value: tokens(1) } },
+      { blockNumber: 101n, logIndex: 0, args: { from: alice, to: bob, value: tokens(10) } },
+    ];
+    const updated = await applyHolderTransfers(chain.client, snapshot, logs, params);
+
+    assert.equal(updated.holderCount, 3);
+    assert.deepEqual(
+      updated.topHolders.map(({ address, balance }) => [address, balance]),
+      [
+        [alice, tokens(240)],
+        [carol, tokens(50)],
+        [bob, tokens(10)],
+      ]
+    );
+    assert.equal(updated.blockNumber, 101n);
+    assert.equal(updated.logIndex, 0);
+    // The snapshot it started from is left untouched
+    assert.equal(snapshot.topHolders[0].balance, tokens(250));
+  });
+});
+
+describe("syncHolders", () => {
+  it("catches up with a long history a bounded number of blocks per call", async () => {
+    const latestBlock = 2n * MAX_SYNC_BLOCKS + 500n;
+    const transfers = [...history, { blockNumber: MAX_SYNC_BLOCKS + 7n, from: alice, to: bob, value: tokens(5) }];
+    const chain = createFakeChain({ tokenAddress: token, latestBlock, transfers });
+    const cache: HolderScanCache = new Map();
+
+    const first = await syncHolders(chain.client, params, cache);
+    assert.equal(first.synced, false);
+    assert.equal(first.blockNumber, MAX_SYNC_BLOCKS - 1n);
+    assert.equal(first.holderCount, 2);
+    assert.ok(chain.logRequests.every(({ toBlock }) => toBlock < MAX_SYNC_BLOCKS));
+
+    chain.logRequests.length = 0;
+    const second = await syncHolders(chain.client, params, cache);
+    assert.equal(second.synced, false);
+    assert.equal(second.blockNumber, 2n * MAX_SYNC_BLOCKS - 1n);
+    assert.equal(chain.logRequests[0].fromBlock, MAX_SYNC_BLOCKS);
+    assert.equal(second.holderCount, 3);
+
+    const third = await syncHolders(chain.client, params, cache);
+    assert.equal(third.synced, true);
+    assert.equal(third.blockNumber, latestBlock);
+
+    const full = await fetchHolders(chain.client, params);
+    assert.equal(third.holderCount, full.holderCount);
+    assert.deepEqual(third.topHolders, full.topHolders);
+  });
+
+  it("only reads the blocks mined since the last call once caught up", async () => {
+    const chain = createFakeChain({ tokenAddress: token, latestBlock: 100n, transfers: [...history] });
+    const cache: HolderScanCache = new Map();
+    await syncHolders(chain.client, params, cache);
+
+    chain.latestBlock = 150n;
+    chain.transfers.push({ blockNumber: 120n, from: carol, to: bob, value: tokens(20) });
+    chain.logRequests.length = 0;
+    const snapshot = await syncHolders(chain.client, params, cache);
+
+    assert.equal(snapshot.synced, true);
+    assert.equal(chain.logRequests[0].fromBlock, 100n - SYNC_CONFIRMATIONS + 1n);
+    assert.ok(chain.logRequests.every(({ toBlock }) => toBlock <= 150n));
+    assert.deepEqual(
+      snapshot.topHolders.map(({ address, balance }) => [address, balance]),
+      [
+        [alice, tokens(250)],
+        [carol, tokens(30)],
+        [bob, tokens(20)],
+      ]
+    );
+  });
+
+  it("doesn't cache transfers of unconfirmed blocks, so a reorg drops them", async () => {
+    const chain = createFakeChain({ tokenAddress: token, latestBlock: 100n, transfers: [...history] });
+    const cache: HolderScanCache = new Map();
+
+    chain.transfers.push({ blockNumber: 95n, from: alice, to: bob, value: tokens(200) });
+    const before = await syncHolders(chain.client, params, cache);
+    assert.equal(before.topHolders[0].address, bob);
+
+    chain.transfers.pop();
+    const after = await syncHolders(chain.client, params, cache);
+    assert.equal(after.topHolders[0].address, alice);
+    assert.equal(after.topHolders[0].balance, tokens(250));
+  });
+
+  it("keeps apart the scans of different excluded contracts", async () => {
+    const chain = createFakeChain({ tokenAddress: token, latestBlock: 100n, transfers: history });
+    const cache: HolderScanCache = new Map();
+
+    const withoutHook = await syncHolders(chain.client, params, cache);
+    const withHook = await syncHolders(chain.client, { ...params, excluded: [] }, cache);
+
+    assert.equal(withoutHook.holderCount, 2);
+    assert.equal(withHook.holderCount, 3);
+    assert.equal(cache.size, 2);
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Starts a local UniFans sandbox: anvil with PoolManager, a swap router, a mock USDC,
+ * an EventToken and its hook, the event pool initialized and bootstrapped, and a
+ * history of random buys and sells from several funded accounts.
+ *
+ * The deployment is written to deployments/local.json at the repository root, which
+ * the frontend and the indexer pick up on their own.
+ *
+ * Usage: npm run sandbox -- [options]
+ *
+ * Options:
+ *   --port      anvil port (default: 8545)
+ *   --trades    Random swaps to seed (default: 40)
+ *   --traders   Funded accounts trading, anvil accounts 1 to N (default: 4)
+ *   --interval  Average seconds between seeded swaps (default: 900)
+ *   --seed      Seed of the trade generator, to replay a history (default: random)
+ *   --out       Deployment file (default: <repo>/deployments/local.json)
+ *   --exit      Stop anvil once the sandbox is seeded instead of keeping it running
+ */
+import { mkdirSync, writeFileSync } from "node:fs";
+import { dirname, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import { erc20Abi, formatUnits, getAddress, parseUnits } from "viem";
+import { mnemonicToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { EVENT_TOKEN_DECIMALS, serializeLocalDeployment } from "@unifans/shared";
+import { ANVIL_MNEMONIC, deployEventFixture, startAnvil } from "../test/fixture";
+
+/** Backing asset each trader starts with, in USDC */
+const TRADER_BALANCE = "100000";
+
+/** Share of the swaps that sell, when the trader holds event tokens */
+const SELL_SHARE = 0.35;
+
+const { values } = parseArgs({
+  options: {
+    port: { type: "string", default: "8545" },
+    trades: { type: "string", default: "40" },
+    traders: { type: "string", default: "4" },
+    interval: { type: "string", default: "900" },
+    seed: { type: "string" },
+    out: { type: "string", default: fileURLToPath(new URL("../../../deployments/local.json", import.meta.url)) },
+    exit: { type: "boolean", default: false },
+  },
+});
+
+/**
+ * @function parseCount
+ * @description Reads a whole number option
+ * @param {string} name - Option name
+ * @param {string} value - Raw option value
+ * @param {number} min - Smallest accepted value
+ * @returns {number} Option value
+ */
+function parseCount(name: string, value: string, min: number): number {
+  const count = Number(value);
+  if (!Number.isSafeInteger(count) || count < min) {
+    console.error(`--${name} must be a whole number of at least ${min}`);
+    process.exit(1);
+  }
+  return count;
+}
+
+/**
+ * @function createRandom
+ * @description Seeded pseudo-random generator (mulberry32), so a seed replays the same history
+ * @param {number} seed - 32-bit seed
+ * @returns {() => number} Generator of numbers in [0, 1)
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 2 ** 32;
+  };
+}
+
+const port = parseCount("port", values.port, 1);
+const tradeCount = parseCount("trades", values.trades, 0);
+const traderCount = parseCount("traders", values.traders, 1);
+const interval = parseCount("interval", values.interval, 1);
+const seed = values.seed !== undefined ? parseCount("seed", values.seed, 0) : Math.floor(Math.random() * 2 ** 32);
+const outPath = resolve(values.out);
+const random = createRandom(seed);
+
+// Gaps between swaps are drawn up front so the genesis block can be backdated by their sum
+// and the last seeded swap lands close to the current time
+const gaps = Array.from({ length: tradeCount }, () => Math.round(interval * (0.5 + random())));
+const genesis = Math.floor(Date.now() / 1000) - gaps.reduce((total, gap) => total + gap, 0) - 60;
+
+console.log(`Starting anvil on port ${port}…`);
+const anvil = await startAnvil({ port, timestamp: genesis });
+
+try {
+  const fixture = await deployEventFixture(anvil.rpcUrl, { depositPrice: true });
+  const { client, poolKey } = fixture;
+  console.log(`EventToken ${fixture.eventToken} and hook ${fixture.hook} deployed, pool bootstrapped`);
+
+  const traders = Array.from({ length: traderCount }, (_, i) => mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex: i + 1 }));
+  for (const trader of traders) {
+    await fixture.deal(trader.address, parseUnits(TRADER_BALANCE, 6));
+    await fixture.approveRouter(trader);
+  }
+
+  for (const [i, gap] of gaps.entries()) {
+    await client.increaseTime({ seconds: gap });
+    const trader = traders[Math.floor(random() * traders.length)];
+    const tokens = await client.readContract({
+      address: fixture.eventToken,
+      abi: erc20Abi,
+      functionName: "balanceOf",
+      args: [trader.address],
+    });
+
+    if (tokens > 0n && random() < SELL_SHARE) {
+      // Sell 10-60% of what the trader holds
+      const amountIn = (tokens * BigInt(10 + Math.floor(random() * 50))) / 100n;
+      await fixture.swap(trader, "sell", amountIn);
+      console.log(`#${i + 1} ${trader.address} sold ${formatUnits(amountIn, EVENT_TOKEN_DECIMALS)} tokens`);
+    } else {
+      const amountIn = parseUnits(String(10 + Math.floor(random() * 490)), 6);
+      await fixture.swap(trader, "buy", amountIn);
+      console.log(`#${i + 1} ${trader.address} bought with ${formatUnits(amountIn, 6)} USDC`);
+    }
+  }
+
+  mkdirSync(dirname(outPath), { recursive: true });
+  writeFileSync(
+    outPath,
+    serializeLocalDeployment({
+      chainId: foundry.id,
+      rpcUrl: anvil.rpcUrl,
+      poolManager: getAddress(fixture.poolManager),
+      swapRouter: getAddress(fixture.swapRouter),
+      backingAsset: getAddress(fixture.backingAsset),
+      events: [
+        {
+          eventToken: getAddress(fixture.eventToken),
+          hook: fixture.hook,
+          fee: poolKey.fee,
+          tickSpacing: poolKey.tickSpacing,
+          startBlock: fixture.startBlock,
+        },
+      ],
+    })
+  );
+
+  console.log(`
+Sandbox ready at ${anvil.rpcUrl} (seed ${seed})
+  Deployment    ${outPath}
+  PoolManager   ${fixture.poolManager}
+  Swap router   ${fixture.swapRouter}
+  USDC          ${fixture.backingAsset}
+  EventToken    ${fixture.eventToken}
+  Hook          ${fixture.hook}
+  Organizer     ${fixture.organizer} (anvil account 0)
+  Traders       anvil accounts 1 to ${traderCount}, ${TRADER_BALANCE} USDC each`);
+} catch (error) {
+  await anvil.stop();
+  throw error;
+}
+
+if (values.exit) {
+  await anvil.stop();
+} else {
+  console.log("\nPress Ctrl+C to stop anvil.");
+  await new Promise<void>((resolveStop) => {
+    for (const signal of ["SIGINT", "SIGTERM"] as const) process.once(signal, () => resolveStop());
+  });
+  await anvil.stop();
+}
@@ -0,0 +1,103 @@
+import { existsSync, readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { getAddress, isAddress, type Address } from "viem";
+import { getDeployment, parseLocalDeployment, type ChainDeployment, type LocalDeployment } from "@unifans/shared";
+
+/** deployments/local.json at the repository root, written by `npm run sandbox` */
+const defaultLocalDeploymentPath = fileURLToPath(new URL("../../../deployments/local.json", import.meta.url));
+
+/**
+ * @interface IndexerConfig
+ * @description Runtime settings of the indexer
+ */
+export interface IndexerConfig {
+  /** JSON-RPC endpoint of the chain to index */
+  rpcUrl: string;
+  /** Chain id the RPC endpoint must report */
+  chainId: number;
+  /** SQLite database file */
+  databasePath: string;
+  /** EventTokens to follow */
+  eventTokens: Address[];
+  /** First block to index when the database is empty */
+  startBlock: bigint;
+  /** Blocks requested per eth_getLogs call */
+  batchSize: bigint;
+  /** Blocks to stay behind the chain head */
+  confirmations: bigint;
+  /** Delay between polls once the indexer has caught up */
+  pollIntervalMs: number;
+}
+
+/**
+ * @function parseAddressList
+ * @description Parses a comma separated list of addresses
+ * @param {string} value - Raw list
+ * @returns {Address[]} Checksummed addresses
+ * @throws {Error} When an entry is not an address
+ */
+function parseAddressList(value: string): Address[] {
+  return value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .map((entry) => {
+      if (!isAddress(entry)) throw new Error(`Invalid address in EVENT_TOKENS: ${entry}`);
+      return getAddress(entry);
+    });
+}
+
+/**
+ * @function readLocalDeployment
+ * @description Reads the deployment the sandbox script wrote, if there is one
+ * @param {string} path - deployments/local.json path
+ * @returns {LocalDeployment | null} Local deployment, null when the file does not exist
+ * @throws {Error} When the file is not a local deployment
+ */
+export function readLocalDeployment(path: string): LocalDeployment | null {
+  if (!existsSync(path)) return null;
+  return parseLocalDeployment(readFileSync(path, "utf8"));
+}
+
+/**
+ * @function loadConfig
+ * @description Reads the indexer settings from environment variables
+ *
+ * EventTokens listed in EVENT_TOKENS are followed together with the events of the
+ * chain in the shared deployments map. On the chain of deployments/local.json, its
+ * events and RPC URL are used instead of the map.
+ *
+ * @param {NodeJS.ProcessEnv} env - Environment to read
+ * @returns {IndexerConfig} Indexer settings
+ * @throws {Error} When no EventToken is configured
+ */
+export function loadConfig(env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+  const chainId = Number(env.CHAIN_ID || 31337);
+  const localDeployment = readLocalDeployment(env.LOCAL_DEPLOYMENT_PATH || defaultLocalDeploymentPath);
+  const deployment: ChainDeployment | undefined =
+    localDeployment?.chainId === chainId ? localDeployment : getDeployment(chainId);
+  const deployedEvents = deployment?.events ?? [];
+  const eventTokens = [
+    ...new Set([...parseAddressList(env.EVENT_TOKENS ?? ""), ...deployedEvents.map((event) => getAddress(event.eventToken))]),
+  ];
+
+  if (eventTokens.length === 0) {
+    throw new Error(`No EventTokens to index on chain ${chainId}. Set EVENT_TOKENS or run \`npm run sandbox\`.`);
+  }
+
+  const deployedStartBlock = deployedEvents.reduce<bigint | undefined>(
+    (lowest, event) => (lowest === undefined || event.startBlock < lowest ? event.startBlock : lowest),
+    undefined
+  );
+
+  return {
+    rpcUrl: env.RPC_URL || (localDeployment?.chainId === chainId ? localDeployment.rpcUrl : "http://127.0.0.1:8545"),
+    chainId,
+    databasePath: env.DATABASE_PATH || "unifans.db",
+    eventTokens,
+    startBlock: BigInt(env.START_BLOCK || (deployedStartBlock ?? 0n)),
+    batchSize: BigInt(env.BATCH_SIZE || 2_000),
+    confirmations: BigInt(env.CONFIRMATIONS || 0),
+    pollIntervalMs: Number(env.POLL_INTERVAL_MS || 2_000),
+  };
+}
@@ -0,0 +1,20 @@
+import { createPublicClient, http } from "viem";
+import { loadConfig } from "./config";
+import { createIndexer } from "./indexer";
+import { openStore } from "./store";
+
+const config = loadConfig();
+const store = openStore(config.databasePath);
+const client = createPublicClient({ transport: http(config.rpcUrl) });
+const indexer = createIndexer({ client, store, ...config });
+const controller = new AbortController();
+
+for (const signal of ["SIGINT", "SIGTERM"] as const) {
+  process.once(signal, () => controller.abort());
+}
+
+console.log(
+  `Indexing ${config.eventTokens.length} event token(s) on chain ${config.chainId} into ${config.databasePath}`
+);
+await indexer.run(controller.signal, config.pollIntervalMs);
+store.close();
@@ -0,0 +1,355 @@
+import { BlockNotFoundError, getAbiItem, type Address, type Block, type Client, type Hex } from "viem";
+import { getBlock, getBlockNumber, getChainId, getLogs, readContract } from "viem/actions";
+import { eventCoinSimpleHookAbi, eventTokenAbi, poolManagerAbi } from "@unifans/shared";
+import type {
+  Checkpoint,
+  HookRow,
+  IndexedBatch,
+  IndexedBlock,
+  PoolRow,
+  Store,
+} from "./store";
+
+/** EventToken events followed for every configured token */
+const eventTokenEvents = [
+  getAbiItem({ abi: eventTokenAbi, name: "Transfer" }),
+  getAbiItem({ abi: eventTokenAbi, name: "OrganizerTransfer" }),
+  getAbiItem({ abi: eventTokenAbi, name: "HookSet" }),
+];
+
+/** Hook events followed once a token's HookSet log is indexed */
+const hookEvents = [
+  getAbiItem({ abi: eventCoinSimpleHookAbi, name: "BackingAssetDeposited" }),
+  getAbiItem({ abi: eventCoinSimpleHookAbi, name: "LiquidityBootstrapped" }),
+  getAbiItem({ abi: eventCoinSimpleHookAbi, name: "InitialLiquidityAdded" }),
+];
+
+const initializeEvent = getAbiItem({ abi: poolManagerAbi, name: "Initialize" });
+const swapEvent = getAbiItem({ abi: poolManagerAbi, name: "Swap" });
+
+/**
+ * @interface IndexerOptions
+ * @description Dependencies and settings of an indexer instance
+ */
+export interface IndexerOptions {
+  /** Client of the chain to index */
+  client: Client;
+  /** Database to write to */
+  store: Store;
+  /** Chain id the client must report */
+  chainId: number;
+  /** EventTokens to follow */
+  eventTokens: Address[];
+  /** First block to index when the database is empty */
+  startBlock: bigint;
+  /** Blocks requested per eth_getLogs call */
+  batchSize: bigint;
+  /** Blocks to stay behind the chain head */
+  confirmations: bigint;
+  /** Progress logger, console.log by default */
+  log?: (message: string) => void;
+}
+
+/**
+ * @type SyncStep
+ * @description Outcome of one indexer step
+ */
+export type SyncStep =
+  | { type: "indexed"; fromBlock: bigint; toBlock: bigint; head: bigint }
+  | { type: "reorg"; rolledBackTo: bigint | null }
+  | { type: "idle"; head: bigint };
+
+/**
+ * @function lower
+ * @description Lowercases an address for comparisons against logs and stored rows
+ * @param {Address} address - Address in any casing
+ * @returns {Address} Lowercase address
+ */
+const lower = (address: Address) => address.toLowerCase() as Address;
+
+/**
+ * @function sleep
+ * @description Waits for a delay, resolving early when the signal aborts
+ * @param {number} ms - Delay in milliseconds
+ * @param {AbortSignal} signal - Abort signal
+ * @returns {Promise<void>} Resolves after the delay or on abort
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(resolve, ms);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * @function createIndexer
+ * @description Creates an indexer writing EventToken, hook and PoolManager logs to a store
+ *
+ * Each step either indexes the next block range, or rolls back when the block of the
+ * checkpoint is no longer canonical. Ranges are written in one transaction together
+ * with the new checkpoint, so a restart resumes from the last complete range.
+ *
+ * @param {IndexerOptions} options - Client, store and settings
+ * @returns Indexer with `step`, `syncToHead` and `run`
+ */
+export function createIndexer(options: IndexerOptions) {
+  const { client, store, chainId, startBlock, batchSize, confirmations } = options;
+  const eventTokens = options.eventTokens.map(lower);
+  const log = options.log ?? console.log;
+  let chainChecked = false;
+
+  /**
+   * @function fetchBlock
+   * @description Reads a block header
+   * @param {bigint} blockNumber - Block number
+   * @returns {Promise<Block | null>} Block, null when the chain is shorter
+   */
+  const fetchBlock = async (blockNumber: bigint): Promise<Block | null> => {
+    try {
+      return await getBlock(client, { blockNumber });
+    } catch (error) {
+      if (error instanceof BlockNotFoundError) return null;
+      throw error;
+    }
+  };
+
+  /**
+   * @function findCommonAncestor
+   * @description Walks back through stored blocks until one still matches the chain
+   * @param {bigint} below - Highest block to consider
+   * @returns {Promise<IndexedBlock | null>} Last canonical stored block, null when none is left
+   */
+  const findCommonAncestor = async (below: bigint): Promise<IndexedBlock | null> => {
+    for (const stored of store.getBlocksBelow(below)) {
+      const block = await fetchBlock(stored.number);
+      if (block?.hash === stored.hash) return stored;
+    }
+    return null;
+  };
+
+  /**
+   * @function verifyCheckpoint
+   * @description Detects a reorg by comparing the checkpoint hash with the chain and rolls back if needed
+   * @param {Checkpoint} checkpoint - Current checkpoint
+   * @returns {Promise<SyncStep | null>} Reorg step, null when the checkpoint is still canonical
+   */
+  const verifyCheckpoint = async (checkpoint: Checkpoint): Promise<SyncStep | null> => {
+    const block = await fetchBlock(checkpoint.blockNumber);
+    if (block?.hash === checkpoint.blockHash) return null;
+
+    const ancestor = await findCommonAncestor(checkpoint.blockNumber - 1n);
+    store.rollback(ancestor && { chainId, blockNumber: ancestor.number, blockHash: ancestor.hash });
+    log(
+      `Reorg at block ${checkpoint.blockNumber}, rolled back to ${ancestor ? `block ${ancestor.number}` : "the start"}`
+    );
+    return { type: "reorg", rolledBackTo: ancestor?.number ?? null };
+  };
+
+  /**
+   * @function indexRange
+   * @description Reads every followed log in a block range
+   * @param {bigint} fromBlock - First block of the range
+   * @param {bigint} toBlock - Last block of the range
+   * @returns {Promise<IndexedBatch>} Rows and checkpoint to write
+   * @throws {Error} When the chain reorganizes while the range is read
+   */
+  const indexRange = async (fromBlock: bigint, toBlock: bigint): Promise<IndexedBatch> => {
+    const range = { fromBlock, toBlock, strict: true } as const;
+    const batch: IndexedBatch = {
+      checkpoint: { chainId, blockNumber: toBlock, blockHash: "0x" },
+      blocks: [],
+      hooks: [],
+      pools: [],
+      transfers: [],
+      organizerTransfers: [],
+      hookSets: [],
+      backingAssetDeposits: [],
+      liquidityBootstraps: [],
+      initialLiquidityAdds: [],
+      swaps: [],
+    };
+    const logBlocks = new Map<bigint, Hex>();
+    const position = (entry: { blockNumber: bigint; blockHash: Hex; logIndex: number; transactionHash: Hex }) => {
+      logBlocks.set(entry.blockNumber, entry.blockHash);
+      return { blockNumber: entry.blockNumber, logIndex: entry.logIndex, transactionHash: entry.transactionHash };
+    };
+
+    // 1. EventToken logs, which also register new hooks
+    const tokenLogs = await getLogs(client, { ...range, address: eventTokens, events: eventTokenEvents });
+    for (const entry of tokenLogs) {
+      const token = lower(entry.address);
+      if (entry.eventName === "Transfer") {
+        batch.transfers.push({ ...position(entry), token, ...entry.args });
+      } else if (entry.eventName === "OrganizerTransfer") {
+        batch.organizerTransfers.push({ ...position(entry), token, ...entry.args });
+      } else {
+        batch.hookSets.push({ ...position(entry), token, ...entry.args });
+        const poolManager = await readContract(client, {
+          address: entry.args.hook,
+          abi: eventCoinSimpleHookAbi,
+          functionName: "poolManager",
+          blockNumber: entry.blockNumber,
+        });
+        batch.hooks.push({
+          address: lower(entry.args.hook),
+          eventToken: token,
+          poolManager: lower(poolManager),
+          blockNumber: entry.blockNumber,
+        });
+      }
+    }
+
+    const hooks: HookRow[] = [...store.getHooks(), ...batch.hooks];
+    const hookAddresses = hooks.map((hook) => hook.address);
+
+    // 2. Hook lifecycle logs
+    if (hookAddresses.length > 0) {
+      const hookLogs = await getLogs(client, { ...range, address: hookAddresses, events: hookEvents });
+      for (const entry of hookLogs) {
+        const hook = lower(entry.address);
+        if (entry.eventName === "BackingAssetDeposited") {
+          batch.backingAssetDeposits.push({ ...position(entry), hook, ...entry.args });
+        } else {
+          // The indexed PoolKey topic is keccak256(abi.encode(key)), which is the pool id
+          const poolId = entry.topics[1] as Hex;
+          if (entry.eventName === "LiquidityBootstrapped") {
+            batch.liquidityBootstraps.push({ ...position(entry), hook, poolId, ...entry.args });
+          } else {
+            batch.initialLiquidityAdds.push({ ...position(entry), hook, poolId, ...entry.args });
+          }
+        }
+      }
+    }
+
+    // 3. Pools initialized with an indexed hook, matched by the event token being either currency
+    const poolManagers = [...new Set(hooks.map((hook) => hook.poolManager))];
+    const tokensWithHook = [...new Set(hooks.map((hook) => hook.eventToken))];
+    for (const poolManager of poolManagers) {
+      if (tokensWithHook.length === 0) break;
+      const initializeLogs = (
+        await Promise.all([
+          getLogs(client, { ...range, address: poolManager, event: initializeEvent, args: { currency0: tokensWithHook } }),
+          getLogs(client, { ...range, address: poolManager, event: initializeEvent, args: { currency1: tokensWithHook } }),
+        ])
+      ).flat();
+      for (const entry of initializeLogs) {
+        if (!hookAddresses.includes(lower(entry.args.hooks))) continue;
+        position(entry);
+        batch.pools.push({
+          poolId: entry.args.id,
+          poolManager,
+          hook: lower(entry.args.hooks),
+          currency0: entry.args.currency0,
+          currency1: entry.args.currency1,
+          fee: entry.args.fee,
+          tickSpacing: entry.args.tickSpacing,
+          sqrtPriceX96: entry.args.sqrtPriceX96,
+          tick: entry.args.tick,
+          blockNumber: entry.blockNumber,
+        });
+      }
+    }
+
+    // 4. Swaps of indexed pools
+    const pools: Pick<PoolRow, "poolId" | "poolManager">[] = [...store.getPools(), ...batch.pools];
+    for (const poolManager of [...new Set(pools.map((pool) => lower(pool.poolManager)))]) {
+      const poolIds = pools.filter((pool) => lower(pool.poolManager) === poolManager).map((pool) => pool.poolId);
+      const swapLogs = await getLogs(client, { ...range, address: poolManager, event: swapEvent, args: { id: poolIds } });
+      for (const entry of swapLogs) {
+        batch.swaps.push({ ...position(entry), poolId: entry.args.id, ...entry.args });
+      }
+    }
+
+    // 5. Block hashes and timestamps, checking that every log still belongs to the canonical chain
+    const blockNumbers = [...new Set([...logBlocks.keys(), toBlock])];
+    const blocks = await Promise.all(blockNumbers.map((blockNumber) => getBlock(client, { blockNumber })));
+    for (const block of blocks) {
+      const logBlockHash = logBlocks.get(block.number);
+      if (logBlockHash !== undefined && logBlockHash !== block.hash) {
+        throw new Error(`Block ${block.number} changed while indexing ${fromBlock}-${toBlock}, retrying`);
+      }
+      batch.blocks.push({ number: block.number, hash: block.hash, timestamp: block.timestamp });
+      if (block.number === toBlock) batch.checkpoint.blockHash = block.hash;
+    }
+
+    return batch;
+  };
+
+  /**
+   * @function step
+   * @description Verifies the checkpoint, then indexes the next block range if there is one
+   * @returns {Promise<SyncStep>} What the step did
+   * @throws {Error} When the RPC reports a different chain than the one configured
+   */
+  const step = async (): Promise<SyncStep> => {
+    if (!chainChecked) {
+      const rpcChainId = await getChainId(client);
+      if (rpcChainId !== chainId) throw new Error(`RPC is on chain ${rpcChainId}, expected ${chainId}`);
+      chainChecked = true;
+    }
+
+    const checkpoint = store.getCheckpoint();
+    if (checkpoint && checkpoint.chainId !== chainId) {
+      throw new Error(`Database was indexed from chain ${checkpoint.chainId}, expected ${chainId}`);
+    }
+
+    if (checkpoint) {
+      const reorg = await verifyCheckpoint(checkpoint);
+      if (reorg) return reorg;
+    }
+
+    const latest = await getBlockNumber(client, { cacheTime: 0 });
+    const head = latest > confirmations ? latest - confirmations : 0n;
+    const fromBlock = checkpoint ? checkpoint.blockNumber + 1n : startBlock;
+    if (fromBlock > head) return { type: "idle", head };
+
+    const toBlock = fromBlock + batchSize - 1n < head ? fromBlock + batchSize - 1n : head;
+    const batch = await indexRange(fromBlock, toBlock);
+    store.writeBatch(batch);
+
+    return { type: "indexed", fromBlock, toBlock, head };
+  };
+
+  /**
+   * @function syncToHead
+   * @description Runs steps until the indexer has caught up with the chain head
+   * @returns {Promise<bigint>} Head the indexer caught up with
+   */
+  const syncToHead = async (): Promise<bigint> => {
+    for (;;) {
+      const result = await step();
+      if (result.type === "idle") return result.head;
+    }
+  };
+
+  /**
+   * @function run
+   * @description Indexes continuously, polling for new blocks once caught up, until aborted
+   * @param {AbortSignal} signal - Stops the loop when aborted
+   * @param {number} pollIntervalMs - Delay between polls, and before retrying after an error
+   * @returns {Promise<void>} Resolves once aborted
+   */
+  const run = async (signal: AbortSignal, pollIntervalMs: number): Promise<void> => {
+    while (!signal.aborted) {
+      try {
+        const result = await step();
+        if (result.type === "indexed") {
+          log(`Indexed blocks ${result.fromBlock}-${result.toBlock} (head ${result.head})`);
+        }
+        if (result.type === "idle") await sleep(pollIntervalMs, signal);
+      } catch (error) {
+        log(`Indexing failed: ${error instanceof Error ? error.message : String(error)}`);
+        await sleep(pollIntervalMs, signal);
+      }
+    }
+  };
+
+  return { step, syncToHead, run };
+}
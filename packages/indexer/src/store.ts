@@ -0,0 +1,592 @@
+import Database from "better-sqlite3";
+import type { Address, Hex } from "viem";
+
+/**
+ * Tables written by the indexer. Amounts are stored as decimal strings so that
+ * uint256 and int128 values survive without loss; addresses and hashes are lowercase.
+ */
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS checkpoint (
+    id INTEGER PRIMARY KEY CHECK (id = 0),
+    chain_id INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    block_hash TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS hooks (
+    address TEXT PRIMARY KEY,
+    event_token TEXT NOT NULL,
+    pool_manager TEXT NOT NULL,
+    block_number INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS pools (
+    pool_id TEXT PRIMARY KEY,
+    pool_manager TEXT NOT NULL,
+    hook TEXT NOT NULL,
+    currency0 TEXT NOT NULL,
+    currency1 TEXT NOT NULL,
+    fee INTEGER NOT NULL,
+    tick_spacing INTEGER NOT NULL,
+    sqrt_price_x96 TEXT NOT NULL,
+    tick INTEGER NOT NULL,
+    block_number INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS transfers (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    token TEXT NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    value TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS transfers_token ON transfers (token);
+
+  CREATE TABLE IF NOT EXISTS organizer_transfers (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    token TEXT NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    remaining_balance TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS hook_sets (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    token TEXT NOT NULL,
+    hook TEXT NOT NULL,
+    tokens_transferred TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS backing_asset_deposits (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    hook TEXT NOT NULL,
+    organizer TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS liquidity_bootstraps (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    hook TEXT NOT NULL,
+    pool_id TEXT NOT NULL,
+    backing_amount TEXT NOT NULL,
+    token_amount TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS initial_liquidity_adds (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    hook TEXT NOT NULL,
+    pool_id TEXT NOT NULL,
+    tick_lower INTEGER NOT NULL,
+    tick_upper INTEGER NOT NULL,
+    liquidity TEXT NOT NULL,
+    backing_amount TEXT NOT NULL,
+    token_amount TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+
+  CREATE TABLE IF NOT EXISTS swaps (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    pool_id TEXT NOT NULL,
+    sender TEXT NOT NULL,
+    amount0 TEXT NOT NULL,
+    amount1 TEXT NOT NULL,
+    sqrt_price_x96 TEXT NOT NULL,
+    liquidity TEXT NOT NULL,
+    tick INTEGER NOT NULL,
+    fee INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS swaps_pool_id ON swaps (pool_id);
+`;
+
+/** Tables holding rows that belong to a block, cleared above the common ancestor on reorg */
+const BLOCK_SCOPED_TABLES = [
+  "blocks",
+  "hooks",
+  "pools",
+  "transfers",
+  "organizer_transfers",
+  "hook_sets",
+  "backing_asset_deposits",
+  "liquidity_bootstraps",
+  "initial_liquidity_adds",
+  "swaps",
+] as const;
+
+/**
+ * @interface LogPosition
+ * @description Location of a log on chain, shared by every indexed row
+ */
+export interface LogPosition {
+  blockNumber: bigint;
+  logIndex: number;
+  transactionHash: Hex;
+}
+
+/**
+ * @interface Checkpoint
+ * @description Last block fully written to the database
+ */
+export interface Checkpoint {
+  chainId: number;
+  blockNumber: bigint;
+  blockHash: Hex;
+}
+
+/**
+ * @interface IndexedBlock
+ * @description Hash and timestamp of a block the indexer has seen
+ */
+export interface IndexedBlock {
+  number: bigint;
+  hash: Hex;
+  timestamp: bigint;
+}
+
+/**
+ * @interface HookRow
+ * @description Hook registered by an EventToken HookSet log
+ */
+export interface HookRow {
+  address: Address;
+  eventToken: Address;
+  poolManager: Address;
+  blockNumber: bigint;
+}
+
+/**
+ * @interface PoolRow
+ * @description Pool initialized in a PoolManager with one of the indexed hooks
+ */
+export interface PoolRow {
+  poolId: Hex;
+  poolManager: Address;
+  hook: Address;
+  currency0: Address;
+  currency1: Address;
+  fee: number;
+  tickSpacing: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+  blockNumber: bigint;
+}
+
+/**
+ * @interface TransferRow
+ * @description EventToken Transfer log
+ */
+export interface TransferRow extends LogPosition {
+  token: Address;
+  from: Address;
+  to: Address;
+  value: bigint;
+}
+
+/**
+ * @interface OrganizerTransferRow
+ * @description EventToken OrganizerTransfer log
+ */
+export interface OrganizerTransferRow extends LogPosition {
+  token: Address;
+  from: Address;
+  to: Address;
+  amount: bigint;
+  remainingBalance: bigint;
+}
+
+/**
+ * @interface HookSetRow
+ * @description EventToken HookSet log
+ */
+export interface HookSetRow extends LogPosition {
+  token: Address;
+  hook: Address;
+  tokensTransferred: bigint;
+}
+
+/**
+ * @interface BackingAssetDepositRow
+ * @description EventCoinSimpleHook BackingAssetDeposited log
+ */
+export interface BackingAssetDepositRow extends LogPosition {
+  hook: Address;
+  organizer: Address;
+  amount: bigint;
+}
+
+/**
+ * @interface LiquidityBootstrapRow
+ * @description EventCoinSimpleHook LiquidityBootstrapped log, keyed by the pool id the indexed PoolKey hashes to
+ */
+export interface LiquidityBootstrapRow extends LogPosition {
+  hook: Address;
+  poolId: Hex;
+  backingAmount: bigint;
+  tokenAmount: bigint;
+}
+
+/**
+ * @interface InitialLiquidityAddRow
+ * @description EventCoinSimpleHook InitialLiquidityAdded log
+ */
+export interface InitialLiquidityAddRow extends LogPosition {
+  hook: Address;
+  poolId: Hex;
+  tickLower: number;
+  tickUpper: number;
+  liquidity: bigint;
+  backingAmount: bigint;
+  tokenAmount: bigint;
+}
+
+/**
+ * @interface SwapRow
+ * @description PoolManager Swap log of an indexed pool
+ */
+export interface SwapRow extends LogPosition {
+  poolId: Hex;
+  sender: Address;
+  amount0: bigint;
+  amount1: bigint;
+  sqrtPriceX96: bigint;
+  liquidity: bigint;
+  tick: number;
+  fee: number;
+}
+
+/**
+ * @interface IndexedBatch
+ * @description Everything found in one block range, written atomically with its checkpoint
+ */
+export interface IndexedBatch {
+  checkpoint: Checkpoint;
+  blocks: IndexedBlock[];
+  hooks: HookRow[];
+  pools: PoolRow[];
+  transfers: TransferRow[];
+  organizerTransfers: OrganizerTransferRow[];
+  hookSets: HookSetRow[];
+  backingAssetDeposits: BackingAssetDepositRow[];
+  liquidityBootstraps: LiquidityBootstrapRow[];
+  initialLiquidityAdds: InitialLiquidityAddRow[];
+  swaps: SwapRow[];
+}
+
+/**
+ * @type Store
+ * @description SQLite persistence of the indexer
+ */
+export type Store = ReturnType<typeof openStore>;
+
+/**
+ * @function position
+ * @description Column values shared by every log table
+ * @param {LogPosition} row - Indexed log
+ * @returns Named parameters for the position columns
+ */
+const position = (row: LogPosition) => ({
+  block_number: Number(row.blockNumber),
+  log_index: row.logIndex,
+  transaction_hash: row.transactionHash.toLowerCase(),
+});
+
+/**
+ * @function openStore
+ * @description Opens (or creates) the indexer database and prepares its statements
+ * @param {string} path - SQLite file path, ":memory:" for a throwaway database
+ * @returns Store with checkpoint, read and batch write operations
+ */
+export function openStore(path: string) {
+  const db = new Database(path);
+  db.pragma("journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const statements = {
+    getCheckpoint: db.prepare("SELECT chain_id, block_number, block_hash FROM checkpoint WHERE id = 0"),
+    setCheckpoint: db.prepare(
+      `INSERT INTO checkpoint (id, chain_id, block_number, block_hash) VALUES (0, @chain_id, @block_number, @block_hash)
+       ON CONFLICT (id) DO UPDATE SET chain_id = excluded.chain_id, block_number = excluded.block_number, block_hash = excluded.block_hash`
+    ),
+    deleteCheckpoint: db.prepare("DELETE FROM checkpoint"),
+    getBlocksBelow: db.prepare("SELECT number, hash, timestamp FROM blocks WHERE number <= ? ORDER BY number DESC"),
+    getHooks: db.prepare("SELECT address, event_token, pool_manager, block_number FROM hooks"),
+    getPoolIds: db.prepare("SELECT pool_id, pool_manager FROM pools"),
+    insertBlock: db.prepare(
+      "INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (@number, @hash, @timestamp)"
+    ),
+    insertHook: db.prepare(
+      `INSERT OR REPLACE INTO hooks (address, event_token, pool_manager, block_number)
+       VALUES (@address, @event_token, @pool_manager, @block_number)`
+    ),
+    insertPool: db.prepare(
+      `INSERT OR REPLACE INTO pools (pool_id, pool_manager, hook, currency0, currency1, fee, tick_spacing, sqrt_price_x96, tick, block_number)
+       VALUES (@pool_id, @pool_manager, @hook, @currency0, @currency1, @fee, @tick_spacing, @sqrt_price_x96, @tick, @block_number)`
+    ),
+    insertTransfer: db.prepare(
+      `INSERT OR REPLACE INTO transfers (block_number, log_index, transaction_hash, token, from_address, to_address, value)
+       VALUES (@block_number, @log_index, @transaction_hash, @token, @from_address, @to_address, @value)`
+    ),
+    insertOrganizerTransfer: db.prepare(
+      `INSERT OR REPLACE INTO organizer_transfers (block_number, log_index, transaction_hash, token, from_address, to_address, amount, remaining_balance)
+       VALUES (@block_number, @log_index, @transaction_hash, @token, @from_address, @to_address, @amount, @remaining_balance)`
+    ),
+    insertHookSet: db.prepare(
+      `INSERT OR REPLACE INTO hook_sets (block_number, log_index, transaction_hash, token, hook, tokens_transferred)
+       VALUES (@block_number, @log_index, @transaction_hash, @token, @hook, @tokens_transferred)`
+    ),
+    insertBackingAssetDeposit: db.prepare(
+      `INSERT OR REPLACE INTO backing_asset_deposits (block_number, log_index, transaction_hash, hook, organizer, amount)
+       VALUES (@block_number, @log_index, @transaction_hash, @hook, @organizer, @amount)`
+    ),
+    insertLiquidityBootstrap: db.prepare(
+      `INSERT OR REPLACE INTO liquidity_bootstraps (block_number, log_index, transaction_hash, hook, pool_id, backing_amount, token_amount)
+       VALUES (@block_number, @log_index, @transaction_hash, @hook, @pool_id, @backing_amount, @token_amount)`
+    ),
+    insertInitialLiquidityAdd: db.prepare(
+      `INSERT OR REPLACE INTO initial_liquidity_adds (block_number, log_index, transaction_hash, hook, pool_id, tick_lower, tick_upper, liquidity, backing_amount, token_amount)
+       VALUES (@block_number, @log_index, @transaction_hash, @hook, @pool_id, @tick_lower, @tick_upper, @liquidity, @backing_amount, @token_amount)`
+    ),
+    insertSwap: db.prepare(
+      `INSERT OR REPLACE INTO swaps (block_number, log_index, transaction_hash, pool_id, sender, amount0, amount1, sqrt_price_x96, liquidity, tick, fee)
+       VALUES (@block_number, @log_index, @transaction_hash, @pool_id, @sender, @amount0, @amount1, @sqrt_price_x96, @liquidity, @tick, @fee)`
+    ),
+  };
+
+  const rollbackStatements = BLOCK_SCOPED_TABLES.map((table) =>
+    db.prepare(`DELETE FROM ${table} WHERE ${table === "blocks" ? "number" : "block_number"} > ?`)
+  );
+
+  const writeBatch = db.transaction((batch: IndexedBatch) => {
+    for (const block of batch.blocks) {
+      statements.insertBlock.run({
+        number: Number(block.number),
+        hash: block.hash.toLowerCase(),
+        timestamp: Number(block.timestamp),
+      });
+    }
+    for (const hook of batch.hooks) {
+      statements.insertHook.run({
+        address: hook.address.toLowerCase(),
+        event_token: hook.eventToken.toLowerCase(),
+        pool_manager: hook.poolManager.toLowerCase(),
+        block_number: Number(hook.blockNumber),
+      });
+    }
+    for (const pool of batch.pools) {
+      statements.insertPool.run({
+        pool_id: pool.poolId.toLowerCase(),
+        pool_manager: pool.poolManager.toLowerCase(),
+        hook: pool.hook.toLowerCase(),
+        currency0: pool.currency0.toLowerCase(),
+        currency1: pool.currency1.toLowerCase(),
+        fee: pool.fee,
+        tick_spacing: pool.tickSpacing,
+        sqrt_price_x96: pool.sqrtPriceX96.toString(),
+        tick: pool.tick,
+        block_number: Number(pool.blockNumber),
+      });
+    }
+    for (const row of batch.transfers) {
+      statements.insertTransfer.run({
+        ...position(row),
+        token: row.token.toLowerCase(),
+        from_address: row.from.toLowerCase(),
+        to_address: row.to.toLowerCase(),
+        value: row.value.toString(),
+      });
+    }
+    for (const row of batch.organizerTransfers) {
+      statements.insertOrganizerTransfer.run({
+        ...position(row),
+        token: row.token.toLowerCase(),
+        from_address: row.from.toLowerCase(),
+        to_address: row.to.toLowerCase(),
+        amount: row.amount.toString(),
+        remaining_balance: row.remainingBalance.toString(),
+      });
+    }
+    for (const row of batch.hookSets) {
+      statements.insertHookSet.run({
+        ...position(row),
+        token: row.token.toLowerCase(),
+        hook: row.hook.toLowerCase(),
+        tokens_transferred: row.tokensTransferred.toString(),
+      });
+    }
+    for (const row of batch.backingAssetDeposits) {
+      statements.insertBackingAssetDeposit.run({
+        ...position(row),
+        hook: row.hook.toLowerCase(),
+        organizer: row.organizer.toLowerCase(),
+        amount: row.amount.toString(),
+      });
+    }
+    for (const row of batch.liquidityBootstraps) {
+      statements.insertLiquidityBootstrap.run({
+        ...position(row),
+        hook: row.hook.toLowerCase(),
+        pool_id: row.poolId.toLowerCase(),
+        backing_amount: row.backingAmount.toString(),
+        token_amount: row.tokenAmount.toString(),
+      });
+    }
+    for (const row of batch.initialLiquidityAdds) {
+      statements.insertInitialLiquidityAdd.run({
+        ...position(row),
+        hook: row.hook.toLowerCase(),
+        pool_id: row.poolId.toLowerCase(),
+        tick_lower: row.tickLower,
+        tick_upper: row.tickUpper,
+        liquidity: row.liquidity.toString(),
+        backing_amount: row.backingAmount.toString(),
+        token_amount: row.tokenAmount.toString(),
+      });
+    }
+    for (const row of batch.swaps) {
+      statements.insertSwap.run({
+        ...position(row),
+        pool_id: row.poolId.toLowerCase(),
+        sender: row.sender.toLowerCase(),
+        amount0: row.amount0.toString(),
+        amount1: row.amount1.toString(),
+        sqrt_price_x96: row.sqrtPriceX96.toString(),
+        liquidity: row.liquidity.toString(),
+        tick: row.tick,
+        fee: row.fee,
+      });
+    }
+    statements.setCheckpoint.run({
+      chain_id: batch.checkpoint.chainId,
+      block_number: Number(batch.checkpoint.blockNumber),
+      block_hash: batch.checkpoint.blockHash.toLowerCase(),
+    });
+  });
+
+  const rollback = db.transaction((checkpoint: Checkpoint | null) => {
+    for (const statement of rollbackStatements) statement.run(checkpoint ? Number(checkpoint.blockNumber) : -1);
+    if (!checkpoint) {
+      statements.deleteCheckpoint.run();
+      return;
+    }
+    statements.setCheckpoint.run({
+      chain_id: checkpoint.chainId,
+      block_number: Number(checkpoint.blockNumber),
+      block_hash: checkpoint.blockHash.toLowerCase(),
+    });
+  });
+
+  return {
+    /** Underlying database, for queries by consumers of the indexed data */
+    db,
+
+    /**
+     * @function getCheckpoint
+     * @description Reads the last fully indexed block
+     * @returns {Checkpoint | undefined} Checkpoint, undefined before the first batch
+     */
+    getCheckpoint(): Checkpoint | undefined {
+      const row = statements.getCheckpoint.get() as
+        | { chain_id: number; block_number: number; block_hash: Hex }
+        | undefined;
+      if (!row) return undefined;
+      return { chainId: row.chain_id, blockNumber: BigInt(row.block_number), blockHash: row.block_hash };
+    },
+
+    /**
+     * @function getBlocksBelow
+     * @description Lists stored blocks at or below a height, newest first, to find a reorg's common ancestor
+     * @param {bigint} blockNumber - Highest block to return
+     * @returns {IndexedBlock[]} Stored blocks
+     */
+    getBlocksBelow(blockNumber: bigint): IndexedBlock[] {
+      const rows = statements.getBlocksBelow.all(Number(blockNumber)) as {
+        number: number;
+        hash: Hex;
+        timestamp: number;
+      }[];
+      return rows.map((row) => ({ number: BigInt(row.number), hash: row.hash, timestamp: BigInt(row.timestamp) }));
+    },
+
+    /**
+     * @function getHooks
+     * @description Lists hooks registered by indexed HookSet logs
+     * @returns {HookRow[]} Hooks with their EventToken and PoolManager
+     */
+    getHooks(): HookRow[] {
+      const rows = statements.getHooks.all() as {
+        address: Address;
+        event_token: Address;
+        pool_manager: Address;
+        block_number: number;
+      }[];
+      return rows.map((row) => ({
+        address: row.address,
+        eventToken: row.event_token,
+        poolManager: row.pool_manager,
+        blockNumber: BigInt(row.block_number),
+      }));
+    },
+
+    /**
+     * @function getPools
+     * @description Lists ids of indexed pools with the PoolManager they live in
+     * @returns Pool ids and PoolManager addresses
+     */
+    getPools(): { poolId: Hex; poolManager: Address }[] {
+      const rows = statements.getPoolIds.all() as { pool_id: Hex; pool_manager: Address }[];
+      return rows.map((row) => ({ poolId: row.pool_id, poolManager: row.pool_manager }));
+    },
+
+    /**
+     * @function writeBatch
+     * @description Writes a block range and moves the checkpoint in one transaction
+     * @param {IndexedBatch} batch - Rows found in the range
+     */
+    writeBatch(batch: IndexedBatch): void {
+      writeBatch(batch);
+    },
+
+    /**
+     * @function rollback
+     * @description Deletes every row above a block and moves the checkpoint back to it
+     * @param {Checkpoint | null} checkpoint - Last block that is still canonical, null to start over
+     */
+    rollback(checkpoint: Checkpoint | null): void {
+      rollback(checkpoint);
+    },
+
+    /**
+     * @function close
+     * @description Closes the database
+     */
+    close(): void {
+      db.close();
+    },
+  };
+}
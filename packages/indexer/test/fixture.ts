@@ -0,0 +1,286 @@
+import { spawn, type ChildProcess } from "node:child_process";
+import { createRequire } from "node:module";
+import {
+  concat,
+  createPublicClient,
+  createTestClient,
+  encodeAbiParameters,
+  encodeDeployData,
+  erc20Abi,
+  http,
+  keccak256,
+  numberToHex,
+  parseUnits,
+  publicActions,
+  walletActions,
+  type Abi,
+  type Account,
+  type Address,
+  type Hex,
+} from "viem";
+import { mnemonicToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import {
+  CREATE2_DEPLOYER,
+  MAX_SQRT_PRICE_LIMIT,
+  MIN_SQRT_PRICE_LIMIT,
+  encodeSqrtPriceX96,
+  eventCoinSimpleHookAbi,
+  eventCoinSimpleHookBytecode,
+  eventTokenAbi,
+  eventTokenBytecode,
+  getPoolId,
+  getPoolKey,
+  mineHookSalt,
+  poolSwapTestAbi,
+  type PoolKey,
+} from "@unifans/shared";
+
+const require = createRequire(import.meta.url);
+
+/**
+ * @interface Artifact
+ * @description Foundry artifact shipped in the @uniswap/v4-core package
+ */
+interface Artifact {
+  abi: Abi;
+  bytecode: { object: Hex };
+}
+
+/** Uniswap v4 contracts deployed by the fixture, built by @uniswap/v4-core */
+const poolManagerArtifact = require("@uniswap/v4-core/out/PoolManager.sol/PoolManager.json") as Artifact;
+const poolSwapTestArtifact = require("@uniswap/v4-core/out/PoolSwapTest.sol/PoolSwapTest.json") as Artifact;
+const mockErc20Artifact = require("@uniswap/v4-core/out/MockERC20.sol/MockERC20.json") as Artifact;
+
+/** Storage slot of the `_balanceOf` mapping in forge-std's MockERC20 */
+const MOCK_ERC20_BALANCES_SLOT = 4n;
+
+/** Mnemonic anvil derives its funded default accounts from */
+export const ANVIL_MNEMONIC = "test test test test test test test test test test test junk";
+
+const organizer = mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex: 0 });
+const fan = mnemonicToAccount(ANVIL_MNEMONIC, { addressIndex: 1 });
+
+/** sqrtPriceX96 of tick 0, the price the event pool starts at */
+const SQRT_PRICE_1_1 = 2n ** 96n;
+
+/**
+ * @interface Anvil
+ * @description Running anvil node
+ */
+export interface Anvil {
+  rpcUrl: string;
+  stop: () => Promise<void>;
+}
+
+/**
+ * @function startAnvil
+ * @description Starts an anvil node and waits until it answers
+ * @param {Object} [options] - Node options
+ * @param {number} [options.port] - Port to listen on, a free-ish random one by default
+ * @param {number} [options.timestamp] - Unix timestamp of the genesis block, now by default
+ * @returns {Promise<Anvil>} RPC URL and a stop function
+ */
+export async function startAnvil({
+  port = 20_000 + Math.floor(Math.random() * 20_000),
+  timestamp,
+}: { port?: number; timestamp?: number } = {}): Promise<Anvil> {
+  const rpcUrl = `http://127.0.0.1:${port}`;
+  const args = ["--port", String(port), "--silent", ...(timestamp !== undefined ? ["--timestamp", String(timestamp)] : [])];
+  const child: ChildProcess = spawn(process.env.ANVIL_BIN ?? "anvil", args, { stdio: "ignore" });
+  const exited = new Promise<void>((resolve) => child.once("exit", () => resolve()));
+  const client = createPublicClient({ transport: http(rpcUrl, { retryCount: 0 }) });
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      await client.getChainId();
+      break;
+    } catch (error) {
+      if (attempt === 100 || child.exitCode !== null) {
+        child.kill();
+        throw new Error(`anvil did not start on port ${port}`, { cause: error });
+      }
+      await new Promise((resolve) => setTimeout(resolve, 100));
+    }
+  }
+
+  return {
+    rpcUrl,
+    stop: async () => {
+      child.kill();
+      await exited;
+    },
+  };
+}
+
+/**
+ * @function deployEventFixture
+ * @description Deploys PoolManager, a swap router, a backing asset, an EventToken and its hook,
+ * then deposits the backing asset and initializes the event pool so liquidity is bootstrapped
+ * @param {string} rpcUrl - anvil RPC URL
+ * @param {Object} [options] - Fixture options
+ * @param {boolean} [options.depositPrice] - Open the pool at the price of the deposit, like the launch
+ * wizard, instead of one raw backing asset unit per raw token unit
+ * @returns Deployed addresses, clients, and funding and swap helpers
+ */
+export async function deployEventFixture(rpcUrl: string, { depositPrice = false }: { depositPrice?: boolean } = {}) {
+  const client = createTestClient({ chain: foundry, mode: "anvil", transport: http(rpcUrl) })
+    .extend(publicActions)
+    .extend(walletActions);
+
+  const deploy = async (abi: Abi, bytecode: Hex, args: readonly unknown[] = []) => {
+    const hash = await client.deployContract({ account: organizer, abi, bytecode, args });
+    const receipt = await client.waitForTransactionReceipt({ hash });
+    return receipt.contractAddress!;
+  };
+  const send = async (request: Parameters<typeof client.writeContract>[0]) => {
+    const hash = await client.writeContract(request);
+    const receipt = await client.waitForTransactionReceipt({ hash });
+    if (receipt.status !== "success") throw new Error(`${request.functionName} reverted`);
+    return receipt;
+  };
+
+  // Backing asset with 6 decimals; forge-std's MockERC20 has no mint, so balances are written directly
+  const backingAsset = await deploy(mockErc20Artifact.abi, mockErc20Artifact.bytecode.object);
+  await send({
+    account: organizer,
+    address: backingAsset,
+    abi: mockErc20Artifact.abi,
+    functionName: "initialize",
+    args: ["USD Coin", "USDC", 6],
+  });
+  const deal = async (account: Address, amount: bigint) => {
+    const slot = keccak256(
+      encodeAbiParameters([{ type: "address" }, { type: "uint256" }], [account, MOCK_ERC20_BALANCES_SLOT])
+    );
+    await client.setStorageAt({ address: backingAsset, index: slot, value: numberToHex(amount, { size: 32 }) });
+  };
+  await deal(organizer.address, parseUnits("1000000", 6));
+  await deal(fan.address, parseUnits("1000000", 6));
+
+  const poolManager = await deploy(poolManagerArtifact.abi, poolManagerArtifact.bytecode.object, [organizer.address]);
+  const swapRouter = await deploy(poolSwapTestArtifact.abi, poolSwapTestArtifact.bytecode.object, [poolManager]);
+
+  const eventDate = BigInt(Math.floor(Date.now() / 1000) + 90 * 86_400);
+  const eventToken = await deploy(eventTokenAbi, eventTokenBytecode, [
+    "Taylor Swift Mexico City",
+    "SWIFTIEMX",
+    eventDate,
+    organizer.address,
+  ]);
+  // anvil mines a block per transaction, so the head is the EventToken's deployment block
+  const startBlock = await client.getBlockNumber();
+
+  // The hook has to live at an address carrying its permission flags
+  const initCode = encodeDeployData({
+    abi: eventCoinSimpleHookAbi,
+    bytecode: eventCoinSimpleHookBytecode,
+    args: [poolManager, organizer.address, eventToken, backingAsset],
+  });
+  const { salt, address: hook } = mineHookSalt({ initCode });
+  const deployHash = await client.sendTransaction({
+    account: organizer,
+    to: CREATE2_DEPLOYER,
+    data: concat([salt, initCode]),
+  });
+  await client.waitForTransactionReceipt({ hash: deployHash });
+
+  await send({ account: organizer, address: eventToken, abi: eventTokenAbi, functionName: "setHook", args: [hook] });
+  const backingAmount = parseUnits("10000", 6);
+  await send({ account: organizer, address: backingAsset, abi: erc20Abi, functionName: "approve", args: [hook, backingAmount] });
+  await send({
+    account: organizer,
+    address: hook,
+    abi: eventCoinSimpleHookAbi,
+    functionName: "depositBackingAsset",
+    args: [backingAmount],
+  });
+
+  const poolKey: PoolKey = getPoolKey(eventToken, backingAsset, hook, 3000, 60);
+  let sqrtPriceX96 = SQRT_PRICE_1_1;
+  if (depositPrice) {
+    const tokenAmount = await client.readContract({
+      address: hook,
+      abi: eventCoinSimpleHookAbi,
+      functionName: "INITIAL_TOKEN_AMOUNT",
+    });
+    sqrtPriceX96 =
+      poolKey.currency0 === eventToken
+        ? encodeSqrtPriceX96(backingAmount, tokenAmount)
+        : encodeSqrtPriceX96(tokenAmount, backingAmount);
+  }
+  await send({
+    account: organizer,
+    address: poolManager,
+    abi: poolManagerArtifact.abi,
+    functionName: "initialize",
+    args: [poolKey, sqrtPriceX96],
+  });
+
+  /**
+   * @function approveRouter
+   * @description Lets the swap router spend an account's backing asset and event tokens
+   * @param {Account} account - Trading account
+   */
+  const approveRouter = async (account: Account) => {
+    for (const currency of [backingAsset, eventToken]) {
+      await send({ account, address: currency, abi: erc20Abi, functionName: "approve", args: [swapRouter, 2n ** 256n - 1n] });
+    }
+  };
+  await approveRouter(fan);
+
+  /**
+   * @function swap
+   * @description Swaps an exact input amount through the event pool
+   * @param {Account} account - Trading account, funded and approved with approveRouter
+   * @param {"buy" | "sell"} side - buy pays backing asset for event tokens, sell the other way round
+   * @param {bigint} amountIn - Raw amount of the currency paid
+   * @returns Receipt of the swap
+   */
+  const swap = async (account: Account, side: "buy" | "sell", amountIn: bigint) => {
+    const zeroForOne = poolKey.currency0 === (side === "buy" ? backingAsset : eventToken);
+    return send({
+      account,
+      address: swapRouter,
+      abi: poolSwapTestAbi,
+      functionName: "swap",
+      args: [
+        poolKey,
+        {
+          zeroForOne,
+          amountSpecified: -amountIn,
+          sqrtPriceLimitX96: zeroForOne ? MIN_SQRT_PRICE_LIMIT : MAX_SQRT_PRICE_LIMIT,
+        },
+        { takeClaims: false, settleUsingBurn: false },
+        "0x",
+      ],
+    });
+  };
+
+  /**
+   * @function buy
+   * @description Swaps an exact backing asset amount for event tokens as the fan account
+   * @param {bigint} backingIn - Raw backing asset amount to pay
+   */
+  const buy = async (backingIn: bigint) => {
+    await swap(fan, "buy", backingIn);
+  };
+
+  return {
+    client,
+    organizer: organizer.address,
+    fan: fan.address,
+    backingAsset,
+    poolManager,
+    swapRouter,
+    eventToken,
+    hook,
+    startBlock,
+    poolKey,
+    poolId: getPoolId(poolKey),
+    deal,
+    approveRouter,
+    swap,
+    buy,
+  };
+}
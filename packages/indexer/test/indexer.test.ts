@@ -0,0 +1,139 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { createPublicClient, http, parseUnits } from "viem";
+import { createIndexer } from "../src/indexer";
+import { openStore, type Store } from "../src/store";
+import { deployEventFixture, startAnvil, type Anvil } from "./fixture";
+
+/**
+ * End to end tests against a local anvil node: the fixture deploys the full
+ * UniFans stack, the indexer reads it back into a temporary SQLite database.
+ */
+describe("indexer", () => {
+  let anvil: Anvil;
+  let fixture: Awaited<ReturnType<typeof deployEventFixture>>;
+  let directory: string;
+  let databasePath: string;
+
+  before(async () => {
+    anvil = await startAnvil();
+    fixture = await deployEventFixture(anvil.rpcUrl);
+    await fixture.buy(parseUnits("100", 6));
+    directory = mkdtempSync(join(tmpdir(), "unifans-indexer-"));
+    databasePath = join(directory, "indexer.db");
+  });
+
+  after(async () => {
+    await anvil?.stop();
+    if (directory) rmSync(directory, { recursive: true, force: true });
+  });
+
+  /**
+   * @function withIndexer
+   * @description Opens the test database, runs a callback with an indexer on it and closes the database
+   * @param {Function} callback - Receives the indexer and its store
+   */
+  const withIndexer = async <T>(
+    callback: (indexer: ReturnType<typeof createIndexer>, store: Store) => Promise<T>
+  ): Promise<T> => {
+    const store = openStore(databasePath);
+    try {
+      const indexer = createIndexer({
+        client: createPublicClient({ transport: http(anvil.rpcUrl) }),
+        store,
+        chainId: 31337,
+        eventTokens: [fixture.eventToken],
+        startBlock: 0n,
+        batchSize: 5n,
+        confirmations: 0n,
+        log: () => {},
+      });
+      return await callback(indexer, store);
+    } finally {
+      store.close();
+    }
+  };
+
+  const count = (store: Store, table: string) =>
+    (store.db.prepare(`SELECT COUNT(*) AS count FROM ${table}`).get() as { count: number }).count;
+
+  it("indexes token, hook and pool logs up to the chain head", async () => {
+    await withIndexer(async (indexer, store) => {
+      const head = await indexer.syncToHead();
+      const checkpoint = store.getCheckpoint();
+      const headBlock = await fixture.client.getBlock({ blockNumber: head });
+
+      assert.equal(checkpoint?.blockNumber, head);
+      assert.equal(checkpoint?.blockHash, headBlock.hash);
+
+      const hookSet = store.db.prepare("SELECT token, hook, tokens_transferred FROM hook_sets").get();
+      assert.deepEqual(hookSet, {
+        token: fixture.eventToken.toLowerCase(),
+        hook: fixture.hook.toLowerCase(),
+        tokens_transferred: parseUnits("600000000", 18).toString(),
+      });
+
+      assert.deepEqual(store.getHooks().map((hook) => hook.poolManager), [fixture.poolManager.toLowerCase()]);
+      assert.deepEqual(store.getPools().map((pool) => pool.poolId), [fixture.poolId]);
+      assert.equal(count(store, "backing_asset_deposits"), 1);
+      assert.equal(count(store, "liquidity_bootstraps"), 1);
+      assert.equal(count(store, "initial_liquidity_adds"), 1);
+      assert.equal(count(store, "swaps"), 1);
+
+      // The fan received event tokens from exactly one purchase
+      const fanTransfers = store.db
+        .prepare("SELECT COUNT(*) AS count FROM transfers WHERE to_address = ?")
+        .get(fixture.fan.toLowerCase()) as { count: number };
+      assert.equal(fanTransfers.count, 1);
+
+      const bootstrap = store.db.prepare("SELECT pool_id FROM liquidity_bootstraps").get() as { pool_id: string };
+      assert.equal(bootstrap.pool_id, fixture.poolId);
+    });
+  });
+
+  it("resumes from its checkpoint after a restart", async () => {
+    const before = await withIndexer(async (_indexer, store) => store.getCheckpoint()!);
+
+    await fixture.buy(parseUnits("50", 6));
+
+    await withIndexer(async (indexer, store) => {
+      const first = await indexer.step();
+      assert.equal(first.type, "indexed");
+      assert.equal(first.type === "indexed" && first.fromBlock, before.blockNumber + 1n);
+
+      await indexer.syncToHead();
+      assert.equal(count(store, "swaps"), 2);
+      assert.equal(count(store, "hook_sets"), 1);
+    });
+  });
+
+  it("rolls back blocks replaced by a reorg", async () => {
+    const snapshot = await fixture.client.snapshot();
+    await fixture.buy(parseUnits("25", 6));
+
+    await withIndexer(async (indexer, store) => {
+      await indexer.syncToHead();
+      assert.equal(count(store, "swaps"), 3);
+    });
+
+    // Replace the block holding the third swap with two different blocks
+    await fixture.client.revert({ id: snapshot });
+    await fixture.client.mine({ blocks: 2 });
+
+    await withIndexer(async (indexer, store) => {
+      const reorg = await indexer.step();
+      assert.equal(reorg.type, "reorg");
+
+      const head = await indexer.syncToHead();
+      const headBlock = await fixture.client.getBlock({ blockNumber: head });
+      assert.equal(store.getCheckpoint()?.blockHash, headBlock.hash);
+      assert.equal(count(store, "swaps"), 2);
+
+      const maxBlock = store.db.prepare("SELECT MAX(block_number) AS block FROM transfers").get() as { block: number };
+      assert.ok(BigInt(maxBlock.block) < head);
+    });
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Generates `as const` ABI and creation bytecode modules from the Foundry build artifacts.
+ *
+ * Usage: npm run generate (after `forge build` in packages/contracts)
+ * Set CONTRACTS_OUT to read artifacts from a different directory.
+ */
+import { mkdirSync, readFileSync, writeFileSync } from "node:fs";
+import { dirname, join, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const packageRoot = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const artifactsDir = resolve(process.env.CONTRACTS_OUT ?? join(packageRoot, "../contracts/out"));
+const abisDir = join(packageRoot, "src/abis");
+
+/** Contracts to export, keyed by the generated file name */
+const contracts = {
+  eventToken: "EventToken",
+  eventCoinSimpleHook: "EventCoinSimpleHook",
+};
+
+mkdirSync(abisDir, { recursive: true });
+
+for (const [exportName, contractName] of Object.entries(contracts)) {
+  const artifactPath = join(artifactsDir, `${contractName}.sol`, `${contractName}.json`);
+  let artifact;
+
+  try {
+    artifact = JSON.parse(readFileSync(artifactPath, "utf8"));
+  } catch {
+    console.error(`Missing artifact ${artifactPath}. Run \`forge build\` in packages/contracts first.`);
+    process.exit(1);
+  }
+
+  const source = [
+    `// Generated by scripts/generate-abis.mjs from ${contractName}.sol/${contractName}.json. Do not edit.`,
+    "",
+    `export const ${exportName}Abi = ${JSON.stringify(artifact.abi, null, 2)} as const;`,
+    "",
+    `export const ${exportName}Bytecode = ${JSON.stringify(artifact.bytecode.object)} as const;`,
+    "",
+  ].join("\n");
+
+  writeFileSync(join(abisDir, `${exportName}.ts`), source);
+  console.log(`Wrote src/abis/${exportName}.ts (${artifact.abi.length} entries)`);
+}
@@ -0,0 +1,139 @@
+/**
+ * Multi-threaded CREATE2 salt miner for hook addresses.
+ *
+ * Node only: the main thread hands out consecutive chunks of salts to worker threads
+ * running this same file, and stops them once the lowest matching salt is known. The
+ * result is the salt `mineHookSalt` from @unifans/shared would find, only sooner.
+ */
+import { availableParallelism } from "node:os";
+import { Worker, isMainThread, parentPort, workerData } from "node:worker_threads";
+import type { Address, Hex } from "viem";
+import {
+  CREATE2_DEPLOYER,
+  DEFAULT_MAX_ITERATIONS,
+  EVENT_HOOK_FLAGS,
+  findHookSalt,
+  getInitCodeHash,
+  type HookSaltSearch,
+  type MinedHookAddress,
+} from "../src/hookAddress";
+
+/** Salts a worker tries before asking for more work */
+const CHUNK_SIZE = 4096;
+
+/** Worker entry: worker threads don't inherit the tsx loader, so it is registered before this file is loaded */
+const workerSource = `import("tsx/esm/api").then(({ register }) => {
+  register();
+  return import(${JSON.stringify(import.meta.url)});
+});`;
+
+/**
+ * @interface ParallelMineParams
+ * @description Parameters of mineHookSaltParallel
+ */
+export interface ParallelMineParams {
+  /** Creation bytecode with ABI-encoded constructor arguments appended */
+  initCode?: Hex;
+  /** keccak256 of the init code, instead of initCode */
+  initCodeHash?: Hex;
+  /** Required permission bits, EVENT_HOOK_FLAGS by default */
+  flags?: bigint;
+  /** CREATE2 deployer, CREATE2_DEPLOYER by default */
+  deployer?: Address;
+  /** Salts to try before rejecting, DEFAULT_MAX_ITERATIONS by default */
+  maxIterations?: number;
+  /** Worker threads, one per core by default */
+  workers?: number;
+  /** Called with the number of salts tried after every chunk */
+  onProgress?: (tried: number) => void;
+}
+
+/**
+ * @interface ChunkResult
+ * @description Message a worker posts after trying a chunk of salts
+ */
+interface ChunkResult {
+  start: number;
+  count: number;
+  mined: MinedHookAddress | null;
+}
+
+/**
+ * @function mineHookSaltParallel
+ * @description Searches for a CREATE2 salt giving a hook address the given flags, across worker threads
+ * @param {ParallelMineParams} params - Mining parameters
+ * @returns {Promise<MinedHookAddress>} Lowest matching salt and its address
+ * @throws {Error} When no salt below maxIterations matches, or a worker fails
+ */
+export function mineHookSaltParallel({
+  initCode,
+  initCodeHash,
+  flags = EVENT_HOOK_FLAGS,
+  deployer = CREATE2_DEPLOYER,
+  maxIterations = DEFAULT_MAX_ITERATIONS,
+  workers = availableParallelism(),
+  onProgress,
+}: ParallelMineParams): Promise<MinedHookAddress> {
+  const search: HookSaltSearch = { initCodeHash: getInitCodeHash(initCode, initCodeHash), flags, deployer };
+  const threads = Math.max(1, Math.min(workers, Math.ceil(maxIterations / CHUNK_SIZE)));
+
+  return new Promise((resolve, reject) => {
+    const pool: Worker[] = [];
+    // Chunks still being searched, by first salt. A match is only final once no lower chunk is pending.
+    const pending = new Set<number>();
+    let nextStart = 0;
+    let tried = 0;
+    let best: MinedHookAddress | null = null;
+    let settled = false;
+
+    const finish = (error: Error | null) => {
+      if (settled) return;
+      settled = true;
+      for (const worker of pool) void worker.terminate();
+      if (error) reject(error);
+      else if (best) resolve(best);
+      else reject(new Error(`No hook address with flags 0x${flags.toString(16)} found in ${maxIterations} salts`));
+    };
+
+    const assign = (worker: Worker) => {
+      const bestSalt = best ? Number(BigInt(best.salt)) : Infinity;
+      if (nextStart >= maxIterations || nextStart >= bestSalt) return;
+      const count = Math.min(CHUNK_SIZE, maxIterations - nextStart);
+      pending.add(nextStart);
+      worker.postMessage({ start: nextStart, count });
+      nextStart += count;
+    };
+
+    const onResult = (worker: Worker, { start, count, mined }: ChunkResult) => {
+      pending.delete(start);
+      tried += count;
+      onProgress?.(tried);
+      if (mined && (!best || BigInt(mined.salt) < BigInt(best.salt))) best = mined;
+
+      assign(worker);
+      const bestSalt = best ? Number(BigInt(best.salt)) : Infinity;
+      const lowerPending = [...pending].some((chunkStart) => chunkStart < bestSalt);
+      if (!lowerPending && (best || pending.size === 0)) finish(null);
+    };
+
+    for (let i = 0; i < threads; i++) {
+      const worker = new Worker(workerSource, { eval: true, workerData: search });
+      worker.on("message", (result: ChunkResult) => onResult(worker, result));
+      worker.on("error", (error) => finish(error));
+      worker.on("exit", (code) => {
+        if (code !== 0) finish(new Error(`Hook miner worker exited with code ${code}`));
+      });
+      pool.push(worker);
+      assign(worker);
+    }
+  });
+}
+
+if (!isMainThread && parentPort) {
+  const port = parentPort;
+  const search = workerData as HookSaltSearch;
+  port.on("message", ({ start, count }: { start: number; count: number }) => {
+    const result: ChunkResult = { start, count, mined: findHookSalt(search, start, count) };
+    port.postMessage(result);
+  });
+}
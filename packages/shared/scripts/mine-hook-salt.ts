@@ -0,0 +1,173 @@
+/**
+ * Mines the CREATE2 salt that deploys an EventCoinSimpleHook to an address carrying
+ * exactly the permission flags its getHookPermissions() enables.
+ *
+ * Usage:
+ *   npm run mine-hook -- --pool-manager 0x… --organizer 0x… --event-token 0x… --backing-asset 0x…
+ *   npm run mine-hook -- --init-code-hash 0x…
+ *
+ * Options:
+ *   --deployer        CREATE2 deployer (default: the deterministic deployment proxy)
+ *   --init-code-hash  keccak256 of the hook init code, instead of the constructor arguments
+ *   --flags           Required permission bits (default: EventCoinSimpleHook's)
+ *   --max-iterations  Salts to try before giving up (default: 1000000)
+ *   --workers         Worker threads (default: one per core)
+ *   --json            Print the result as JSON
+ *   --help            Print the usage
+ */
+import { parseArgs } from "node:util";
+import { isAddress, isHex, keccak256, type Address, type Hex } from "viem";
+import {
+  ALL_HOOK_MASK,
+  CREATE2_DEPLOYER,
+  DEFAULT_MAX_ITERATIONS,
+  EVENT_HOOK_FLAGS,
+  getEventHookInitCode,
+} from "../src/hookAddress";
+import { mineHookSaltParallel } from "./hookMiner";
+
+/** Printed by --help and after argument errors */
+const usage = `Usage:
+  npm run mine-hook -- --pool-manager 0x… --organizer 0x… --event-token 0x… --backing-asset 0x…
+  npm run mine-hook -- --init-code-hash 0x…
+
+Options:
+  --pool-manager    PoolManager the hook is deployed for
+  --organizer       Organizer of the event
+  --event-token     EventToken the hook is deployed for
+  --backing-asset   Token the event pool is priced in
+  --deployer        CREATE2 deployer (default: ${CREATE2_DEPLOYER})
+  --init-code-hash  keccak256 of the hook init code, instead of the constructor arguments
+  --flags           Required permission bits (default: 0x${EVENT_HOOK_FLAGS.toString(16)})
+  --max-iterations  Salts to try before giving up (default: ${DEFAULT_MAX_ITERATIONS})
+  --workers         Worker threads (default: one per core)
+  --json            Print the result as JSON
+  --help            Print this help`;
+
+/**
+ * @function fail
+ * @description Prints an error and exits
+ * @param {string} message - What is wrong with the arguments
+ * @returns {never}
+ */
+function fail(message: string): never {
+  console.error(message);
+  process.exit(1);
+}
+
+/**
+ * @function readArgs
+ * @description Parses the command line, failing with the usage on unknown or malformed options
+ * @returns Option values
+ */
+function readArgs() {
+  try {
+    return parseArgs({
+      options: {
+        deployer: { type: "string", default: CREATE2_DEPLOYER },
+        "init-code-hash": { type: "string" },
+        "pool-manager": { type: "string" },
+        organizer: { type: "string" },
+        "event-token": { type: "string" },
+        "backing-asset": { type: "string" },
+        flags: { type: "string" },
+        "max-iterations": { type: "string", default: String(DEFAULT_MAX_ITERATIONS) },
+        workers: { type: "string" },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", short: "h", default: false },
+      },
+    }).values;
+  } catch (error) {
+    fail(`${error instanceof Error ? error.message : String(error)}\n\n${usage}`);
+  }
+}
+
+const values = readArgs();
+if (values.help) {
+  console.log(usage);
+  process.exit(0);
+}
+
+/**
+ * @function requireAddress
+ * @description Reads an address option
+ * @param {string} name - Option name
+ * @returns {Address} Option value
+ */
+function requireAddress(name: "deployer" | "pool-manager" | "organizer" | "event-token" | "backing-asset"): Address {
+  const value = values[name];
+  if (!value) fail(`--${name} is required unless --init-code-hash is given`);
+  if (!isAddress(value)) fail(`--${name} ${value} is not an address`);
+  return value;
+}
+
+/**
+ * @function parseCount
+ * @description Reads a positive integer option
+ * @param {string} name - Option name
+ * @param {string} value - Raw option value
+ * @returns {number} Option value
+ */
+function parseCount(name: string, value: string): number {
+  const count = Number(value);
+  if (!Number.isSafeInteger(count) || count < 1) fail(`--${name} must be a positive whole number`);
+  return count;
+}
+
+/**
+ * @function parseFlags
+ * @description Reads the --flags option
+ * @param {string} value - Raw option value, decimal or 0x-prefixed hex
+ * @returns {bigint} Permission bits
+ */
+function parseFlags(value: string): bigint {
+  let flags: bigint;
+  try {
+    flags = BigInt(value);
+  } catch {
+    fail(`--flags ${value} is not a number`);
+  }
+  if (flags < 0n || flags > ALL_HOOK_MASK) fail(`--flags must be between 0 and 0x${ALL_HOOK_MASK.toString(16)}`);
+  return flags;
+}
+
+let initCodeHash: Hex;
+if (values["init-code-hash"]) {
+  if (!isHex(values["init-code-hash"]) || values["init-code-hash"].length !== 66) {
+    fail("--init-code-hash must be a 32-byte hex string");
+  }
+  initCodeHash = values["init-code-hash"];
+} else {
+  initCodeHash = keccak256(
+    getEventHookInitCode({
+      poolManager: requireAddress("pool-manager"),
+      organizer: requireAddress("organizer"),
+      eventToken: requireAddress("event-token"),
+      backingAsset: requireAddress("backing-asset"),
+    })
+  );
+}
+
+const deployer = requireAddress("deployer");
+const flags = values.flags ? parseFlags(values.flags) : EVENT_HOOK_FLAGS;
+const maxIterations = parseCount("max-iterations", values["max-iterations"]);
+const workers = values.workers ? parseCount("workers", values.workers) : undefined;
+
+const startedAt = Date.now();
+try {
+  const { salt, address } = await mineHookSaltParallel({ initCodeHash, flags, deployer, maxIterations, workers });
+  const seconds = (Date.now() - startedAt) / 1000;
+
+  if (values.json) {
+    console.log(JSON.stringify({ salt, address, flags: `0x${flags.toString(16)}`, deployer, initCodeHash }, null, 2));
+  } else {
+    console.log(`Salt:           ${salt}`);
+    console.log(`Hook address:   ${address}`);
+    console.log(`Flags:          0x${flags.toString(16)}`);
+    console.log(`Deployer:       ${deployer}`);
+    console.log(`Init code hash: ${initCodeHash}`);
+    console.log(`Mined in ${seconds.toFixed(1)}s`);
+  }
+} catch (error) {
+  fail(error instanceof Error ? error.message : String(error));
+}
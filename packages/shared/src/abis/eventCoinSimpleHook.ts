@@ -0,0 +1,1431 @@
+// Generated by scripts/generate-abis.mjs from EventCoinSimpleHook.sol/EventCoinSimpleHook.json. Do not edit.
+
+export const eventCoinSimpleHookAbi = [
+  {
+    "inputs": [
+      {
+        "internalType": "contract IPoolManager",
+        "name": "_manager",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_eventOrganizer",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_eventToken",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "_backingAsset",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "target",
+        "type": "address"
+      }
+    ],
+    "name": "AddressEmptyCode",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "AddressInsufficientBalance",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "BackingAssetAlreadyDeposited",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "BackingAssetNotERC20Metadata",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "CallbackNotFromPoolManager",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "FailedInnerCall",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "HookNotImplemented",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InsufficientEventTokens",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidBackingAsset",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint8",
+        "name": "callbackId",
+        "type": "uint8"
+      }
+    ],
+    "name": "InvalidCallbackId",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidOrganizer",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidToken",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NoBackingAssetDeposited",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "NotPoolManager",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "OnlyOrganizer",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "token",
+        "type": "address"
+      }
+    ],
+    "name": "SafeERC20FailedOperation",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "ZeroAmounts",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "organizer",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "BackingAssetDeposited",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "indexed": true,
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "indexed": false,
+        "internalType": "int24",
+        "name": "tickLower",
+        "type": "int24"
+      },
+      {
+        "indexed": false,
+        "internalType": "int24",
+        "name": "tickUpper",
+        "type": "int24"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint128",
+        "name": "liquidity",
+        "type": "uint128"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "backingAmount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "tokenAmount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint128",
+        "name": "poolLiquidityBefore",
+        "type": "uint128"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint128",
+        "name": "poolLiquidityAfter",
+        "type": "uint128"
+      }
+    ],
+    "name": "InitialLiquidityAdded",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "indexed": true,
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "backingAmount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "tokenAmount",
+        "type": "uint256"
+      }
+    ],
+    "name": "LiquidityBootstrapped",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "indexed": true,
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      }
+    ],
+    "name": "PoolInitialized",
+    "type": "event"
+  },
+  {
+    "inputs": [],
+    "name": "FULL_RANGE_LOWER",
+    "outputs": [
+      {
+        "internalType": "int24",
+        "name": "",
+        "type": "int24"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "FULL_RANGE_UPPER",
+    "outputs": [
+      {
+        "internalType": "int24",
+        "name": "",
+        "type": "int24"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "INITIAL_TOKEN_AMOUNT",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "components": [
+          {
+            "internalType": "int24",
+            "name": "tickLower",
+            "type": "int24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickUpper",
+            "type": "int24"
+          },
+          {
+            "internalType": "int256",
+            "name": "liquidityDelta",
+            "type": "int256"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "salt",
+            "type": "bytes32"
+          }
+        ],
+        "internalType": "struct ModifyLiquidityParams",
+        "name": "params",
+        "type": "tuple"
+      },
+      {
+        "internalType": "BalanceDelta",
+        "name": "delta",
+        "type": "int256"
+      },
+      {
+        "internalType": "BalanceDelta",
+        "name": "feesAccrued",
+        "type": "int256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "hookData",
+        "type": "bytes"
+      }
+    ],
+    "name": "afterAddLiquidity",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      },
+      {
+        "internalType": "BalanceDelta",
+        "name": "",
+        "type": "int256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount0",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount1",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "hookData",
+        "type": "bytes"
+      }
+    ],
+    "name": "afterDonate",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "internalType": "uint160",
+        "name": "sqrtPriceX96",
+        "type": "uint160"
+      },
+      {
+        "internalType": "int24",
+        "name": "tick",
+        "type": "int24"
+      }
+    ],
+    "name": "afterInitialize",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "components": [
+          {
+            "internalType": "int24",
+            "name": "tickLower",
+            "type": "int24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickUpper",
+            "type": "int24"
+          },
+          {
+            "internalType": "int256",
+            "name": "liquidityDelta",
+            "type": "int256"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "salt",
+            "type": "bytes32"
+          }
+        ],
+        "internalType": "struct ModifyLiquidityParams",
+        "name": "params",
+        "type": "tuple"
+      },
+      {
+        "internalType": "BalanceDelta",
+        "name": "delta",
+        "type": "int256"
+      },
+      {
+        "internalType": "BalanceDelta",
+        "name": "feesAccrued",
+        "type": "int256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "hookData",
+        "type": "bytes"
+      }
+    ],
+    "name": "afterRemoveLiquidity",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      },
+      {
+        "internalType": "BalanceDelta",
+        "name": "",
+        "type": "int256"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "components": [
+          {
+            "internalType": "bool",
+            "name": "zeroForOne",
+            "type": "bool"
+          },
+          {
+            "internalType": "int256",
+            "name": "amountSpecified",
+            "type": "int256"
+          },
+          {
+            "internalType": "uint160",
+            "name": "sqrtPriceLimitX96",
+            "type": "uint160"
+          }
+        ],
+        "internalType": "struct SwapParams",
+        "name": "params",
+        "type": "tuple"
+      },
+      {
+        "internalType": "BalanceDelta",
+        "name": "delta",
+        "type": "int256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "hookData",
+        "type": "bytes"
+      }
+    ],
+    "name": "afterSwap",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      },
+      {
+        "internalType": "int128",
+        "name": "",
+        "type": "int128"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "backingAsset",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "backingAssetDecimals",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "backingAssetDeposited",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "components": [
+          {
+            "internalType": "int24",
+            "name": "tickLower",
+            "type": "int24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickUpper",
+            "type": "int24"
+          },
+          {
+            "internalType": "int256",
+            "name": "liquidityDelta",
+            "type": "int256"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "salt",
+            "type": "bytes32"
+          }
+        ],
+        "internalType": "struct ModifyLiquidityParams",
+        "name": "params",
+        "type": "tuple"
+      },
+      {
+        "internalType": "bytes",
+        "name": "hookData",
+        "type": "bytes"
+      }
+    ],
+    "name": "beforeAddLiquidity",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount0",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount1",
+        "type": "uint256"
+      },
+      {
+        "internalType": "bytes",
+        "name": "hookData",
+        "type": "bytes"
+      }
+    ],
+    "name": "beforeDonate",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "internalType": "uint160",
+        "name": "sqrtPriceX96",
+        "type": "uint160"
+      }
+    ],
+    "name": "beforeInitialize",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "components": [
+          {
+            "internalType": "int24",
+            "name": "tickLower",
+            "type": "int24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickUpper",
+            "type": "int24"
+          },
+          {
+            "internalType": "int256",
+            "name": "liquidityDelta",
+            "type": "int256"
+          },
+          {
+            "internalType": "bytes32",
+            "name": "salt",
+            "type": "bytes32"
+          }
+        ],
+        "internalType": "struct ModifyLiquidityParams",
+        "name": "params",
+        "type": "tuple"
+      },
+      {
+        "internalType": "bytes",
+        "name": "hookData",
+        "type": "bytes"
+      }
+    ],
+    "name": "beforeRemoveLiquidity",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      },
+      {
+        "components": [
+          {
+            "internalType": "bool",
+            "name": "zeroForOne",
+            "type": "bool"
+          },
+          {
+            "internalType": "int256",
+            "name": "amountSpecified",
+            "type": "int256"
+          },
+          {
+            "internalType": "uint160",
+            "name": "sqrtPriceLimitX96",
+            "type": "uint160"
+          }
+        ],
+        "internalType": "struct SwapParams",
+        "name": "params",
+        "type": "tuple"
+      },
+      {
+        "internalType": "bytes",
+        "name": "hookData",
+        "type": "bytes"
+      }
+    ],
+    "name": "beforeSwap",
+    "outputs": [
+      {
+        "internalType": "bytes4",
+        "name": "",
+        "type": "bytes4"
+      },
+      {
+        "internalType": "BeforeSwapDelta",
+        "name": "",
+        "type": "int256"
+      },
+      {
+        "internalType": "uint24",
+        "name": "",
+        "type": "uint24"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "components": [
+          {
+            "internalType": "Currency",
+            "name": "currency0",
+            "type": "address"
+          },
+          {
+            "internalType": "Currency",
+            "name": "currency1",
+            "type": "address"
+          },
+          {
+            "internalType": "uint24",
+            "name": "fee",
+            "type": "uint24"
+          },
+          {
+            "internalType": "int24",
+            "name": "tickSpacing",
+            "type": "int24"
+          },
+          {
+            "internalType": "contract IHooks",
+            "name": "hooks",
+            "type": "address"
+          }
+        ],
+        "internalType": "struct PoolKey",
+        "name": "key",
+        "type": "tuple"
+      }
+    ],
+    "name": "bootstrapInitialLiquidity",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "depositBackingAsset",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "eventOrganizer",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "eventToken",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getBackingAssetInfo",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "asset",
+        "type": "address"
+      },
+      {
+        "internalType": "uint8",
+        "name": "decimals",
+        "type": "uint8"
+      },
+      {
+        "internalType": "string",
+        "name": "symbol",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getHookPermissions",
+    "outputs": [
+      {
+        "components": [
+          {
+            "internalType": "bool",
+            "name": "beforeInitialize",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "afterInitialize",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "beforeAddLiquidity",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "afterAddLiquidity",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "beforeRemoveLiquidity",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "afterRemoveLiquidity",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "beforeSwap",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "afterSwap",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "beforeDonate",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "afterDonate",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "beforeSwapReturnDelta",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "afterSwapReturnDelta",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "afterAddLiquidityReturnDelta",
+            "type": "bool"
+          },
+          {
+            "internalType": "bool",
+            "name": "afterRemoveLiquidityReturnDelta",
+            "type": "bool"
+          }
+        ],
+        "internalType": "struct Hooks.Permissions",
+        "name": "",
+        "type": "tuple"
+      }
+    ],
+    "stateMutability": "pure",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "initialBackingAmount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "poolManager",
+    "outputs": [
+      {
+        "internalType": "contract IPoolManager",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "bytes",
+        "name": "data",
+        "type": "bytes"
+      }
+    ],
+    "name": "unlockCallback",
+    "outputs": [
+      {
+        "internalType": "bytes",
+        "name": "",
+        "type": "bytes"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  }
+] as const;
+
+export const eventCoinSimpleHookBytecode = "0x610120604052348015610010575f80fd5b5060405161315b38038061315b83398101604081905261002f916103c4565b6001600160a01b0384166080528361004630610158565b506001600160a01b03831661006e576040516305a351a760e11b815260040160405180910390fd5b6001600160a01b0382166100955760405163c1ab6dc160e01b815260040160405180910390fd5b6001600160a01b0381166100bc57604051635c49343b60e11b815260040160405180910390fd5b806001600160a01b031663313ce5676040518163ffffffff1660e01b8152600401602060405180830381865afa925050508015610116575060408051601f3d908101601f1916820190925261011391810190610420565b60015b61013357604051636ce45ad560e11b815260040160405180910390fd5b60ff16610100526001600160a01b0392831660a05290821660c0521660e05250610447565b61024881610243604080516101c0810182525f80825260208201819052918101829052606081018290526080810182905260a0810182905260c0810182905260e08101829052610100810182905261012081018290526101408101829052610160810182905261018081018290526101a081019190915250604080516101c0810182525f80825260016020830152918101829052606081018290526080810182905260a0810182905260c0810182905260e08101829052610100810182905261012081018290526101408101829052610160810182905261018081018290526101a081019190915290565b61024b565b50565b805115156120008316151514158061026f5750602081015115156110008316151514155b806102865750604081015115156108008316151514155b8061029d5750606081015115156104008316151514155b806102b45750608081015115156102008316151514155b806102cb575060a081015115156101008316151514155b806102e1575060c0810151151560808316151514155b806102f7575060e0810151151560408316151514155b8061030e5750610100810151151560208316151514155b806103255750610120810151151560108316151514155b8061033c5750610140810151151560088316151514155b806103535750610160810151151560048316151514155b8061036a5750610180810151151560028316151514155b8061038157506101a0810151151560018316151514155b1561039757610397630732d7b560e51b8361039b565b5050565b815f526001600160a01b03811660045260245ffd5b6001600160a01b0381168114610248575f80fd5b5f805f80608085870312156103d7575f80fd5b84516103e2816103b0565b60208601519094506103f3816103b0565b6040860151909350610404816103b0565b6060860151909250610415816103b0565b939692955090935050565b5f60208284031215610430575f80fd5b815160ff81168114610440575f80fd5b9392505050565b60805160a05160c05160e05161010051612c136105485f395f81816104cd0152610bc901525f81816103190152818161065a01528181610ba601528181610bec015281816111140152818161114a015281816112f2015261133601525f81816101f50152818161093a01528181610ee00152818161118301526111be01525f81816102f2015281816105cb01526107ff01525f818161050601528181610569015281816106d801528181610741015281816107aa01528181610867015281816109e401528181610a8301528181610aea01528181610b4d01528181610fc3015281816112a7015281816113c70152818161145701526114c00152612c135ff3fe608060405234801561000f575f80fd5b506004361061019a575f3560e01c806390c0df61116100e8578063c4e833ce11610093578063dc98354e1161006e578063dc98354e14610528578063e1b4af69146103c1578063ece154601461053b578063fef2b8f814610552575f80fd5b8063c4e833ce146103d4578063d1b57f69146104c8578063dc4c90d314610501575f80fd5b8063ae68a6cf116100c3578063ae68a6cf1461036e578063b47b2fb11461038b578063b6a8b0fa146103c1575f80fd5b806390c0df611461033b57806391dd73461461034e5780639f063efc146102a7575f80fd5b806336ee94c0116101485780636fe7e6eb116101235780636fe7e6eb146102da5780637514d7cb146102ed57806383d9896714610314575f80fd5b806336ee94c01461024c578063575e24b4146102695780636c2bbe7e146102a7575f80fd5b8063278009ee11610178578063278009ee146101f0578063351ea6cc1461022f578063356fad3014610237575f80fd5b806321d0ee701461019e578063259982e51461019e5780632765a5de146101cf575b5f80fd5b6101b16101ac3660046120f4565b61055d565b6040516001600160e01b031990911681526020015b60405180910390f35b6101e26b01f04ef12cb04cf15800000081565b6040519081526020016101c6565b6102177f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b0390911681526020016101c6565b6101e25f5481565b61024a61024536600461216b565b6105c0565b005b610256620d89b481565b60405160029190910b81526020016101c6565b61027c610277366004612192565b6106ca565b604080516001600160e01b03199094168452602084019290925262ffffff16908201526060016101c6565b6102ba6102b53660046121ec565b610734565b604080516001600160e01b031990931683526020830191909152016101c6565b6101b16102e8366004612285565b61079e565b6102177f000000000000000000000000000000000000000000000000000000000000000081565b6102177f000000000000000000000000000000000000000000000000000000000000000081565b61024a6103493660046122de565b6107f4565b61036161035c3660046122f8565b6109d7565b6040516101c69190612365565b60015461037b9060ff1681565b60405190151581526020016101c6565b61039e610399366004612377565b610a76565b604080516001600160e01b03199093168352600f9190910b6020830152016101c6565b6101b16103cf3660046123f8565b610ade565b6104bb604080516101c0810182525f80825260208201819052918101829052606081018290526080810182905260a0810182905260c0810182905260e08101829052610100810182905261012081018290526101408101829052610160810182905261018081018290526101a081019190915250604080516101c0810182525f80825260016020830152918101829052606081018290526080810182905260a0810182905260c0810182905260e08101829052610100810182905261012081018290526101408101829052610160810182905261018081018290526101a081019190915290565b6040516101c69190612452565b6104ef7f000000000000000000000000000000000000000000000000000000000000000081565b60405160ff90911681526020016101c6565b6102177f000000000000000000000000000000000000000000000000000000000000000081565b6101b1610536366004612573565b610b41565b610543610ba0565b6040516101c6939291906125ba565b610256620d89b31981565b5f336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146105a75760405163570c108560e11b815260040160405180910390fd5b6105b48686868686610cac565b90505b95945050505050565b336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461060957604051636998f9d960e01b815260040160405180910390fd5b60015460ff161561062d57604051630359e33960e31b815260040160405180910390fd5b805f0361064d5760405163213c7cc560e01b815260040160405180910390fd5b6106826001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016333084610cc6565b5f8190556001805460ff19168117905560405181815233907f99aa1c817fd2b4934725fe92cad4723a0a607bf97ad53bec499b14699a3453a39060200160405180910390a250565b5f8080336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146107165760405163570c108560e11b815260040160405180910390fd5b6107238888888888610d3b565b925092509250955095509592505050565b5f80336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461077f5760405163570c108560e11b815260040160405180910390fd5b61078e89898989898989610d57565b9150915097509795505050505050565b5f336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146107e85760405163570c108560e11b815260040160405180910390fd5b6105b785858585610d72565b336001600160a01b037f0000000000000000000000000000000000000000000000000000000000000000161461083d57604051636998f9d960e01b815260040160405180910390fd5b5f61085761085036849003840184612662565b60a0902090565b90505f61088d6001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001683610e2b565b6001600160801b031611156108e95760405162461bcd60e51b815260206004820152601e60248201527f4c697175696469747920616c726561647920626f6f747374726170706564000060448201526064015b60405180910390fd5b6108f1610eae565b6109ca5760015460ff166109175760405162b63aa760e21b815260040160405180910390fd5b6040516370a0823160e01b81523060048201526b01f04ef12cb04cf158000000907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610987573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906109ab91906126dc565b10156109ca57604051633d28dd8b60e21b815260040160405180910390fd5b6109d382610f59565b5050565b6060336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614610a2257604051633c0266e360e01b815260040160405180910390fd5b5f80610a308486018661271a565b90925090505f1960ff831601610a5257610a4981611099565b92505050610a70565b60405163621319a560e11b815260ff831660048201526024016108e0565b92915050565b5f80336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614610ac15760405163570c108560e11b815260040160405180910390fd5b610acf888888888888610d57565b91509150965096945050505050565b5f336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614610b285760405163570c108560e11b815260040160405180910390fd5b610b36878787878787610cac565b979650505050505050565b5f336001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001614610b8b5760405163570c108560e11b815260040160405180910390fd5b610b96848484610cac565b90505b9392505050565b5f8060607f000000000000000000000000000000000000000000000000000000000000000092507f000000000000000000000000000000000000000000000000000000000000000091507f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03166395d89b416040518163ffffffff1660e01b81526004015f60405180830381865afa925050508015610c6757506040513d5f823e601f3d908101601f19168201604052610c6491908101906127e2565b60015b610ca5575060408051808201909152600781527f554e4b4e4f574e000000000000000000000000000000000000000000000000006020820152909192565b9050909192565b5f604051630a85dc2960e01b815260040160405180910390fd5b604080516001600160a01b0385811660248301528416604482015260648082018490528251808303909101815260849091019091526020810180517bffffffffffffffffffffffffffffffffffffffffffffffffffffffff166323b872dd60e01b179052610d35908590611626565b50505050565b5f805f604051630a85dc2960e01b815260040160405180910390fd5b5f80604051630a85dc2960e01b815260040160405180910390fd5b5f30610d8460a086016080870161282f565b6001600160a01b031614610dc75760405162461bcd60e51b815260206004820152600a60248201526957726f6e6720686f6f6b60b01b60448201526064016108e0565b83604051610dd5919061284a565b604051908190038120907f276a271e24c039bc265adb6034926eb24de068f8b9215765ff52f5071e695ee1905f90a2610e0c610eae565b15610e1a57610e1a84610f59565b50636fe7e6eb60e01b949350505050565b5f80610e368361168c565b90505f610e446003836128fd565b604051631e2eaeaf60e01b8152600481018290529091506001600160a01b03861690631e2eaeaf90602401602060405180830381865afa158015610e8a573d5f803e3d5ffd5b505050506040513d601f19601f820116820180604052508101906105b791906126dc565b6001545f9060ff168015610f5457506040516370a0823160e01b81523060048201526b01f04ef12cb04cf158000000907f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316906370a0823190602401602060405180830381865afa158015610f2d573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190610f5191906126dc565b10155b905090565b5f6001825f546b01f04ef12cb04cf158000000604051602001610f7e93929190612910565b60408051601f1981840301815290829052610f9c92916020016129a1565b60408051601f19818403018152908290526348c8949160e01b825291506001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906348c8949190610ff8908490600401612365565b5f604051808303815f875af1158015611013573d5f803e3d5ffd5b505050506040513d5f823e601f3d908101601f1916820160405261103a91908101906127e2565b5081604051611049919061284a565b604080519182900382205f5483526b01f04ef12cb04cf1580000006020840152917ffc12361bc96e952fc7d4bfd6b848d7f838be6151fc72fd5aa6839054ac9c877c910160405180910390a25050565b60605f805f848060200190518101906110b291906129bc565b925092509250306001600160a01b031683608001516001600160a01b03161461110a5760405162461bcd60e51b815260206004820152600a60248201526957726f6e6720686f6f6b60b01b60448201526064016108e0565b825160208401515f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03908116908416148061117e57507f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316826001600160a01b0316145b90505f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316846001600160a01b031614806111f257507f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316836001600160a01b0316145b9050816112415760405162461bcd60e51b815260206004820152601f60248201527f506f6f6c206d75737420636f6e7461696e206261636b696e672061737365740060448201526064016108e0565b8061128e5760405162461bcd60e51b815260206004820152601d60248201527f506f6f6c206d75737420636f6e7461696e206576656e7420746f6b656e00000060448201526064016108e0565b5f6112cd61129d8960a0902090565b6001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016906116c8565b50505090505f61137c826112e4620d89b31961177a565b6112f0620d89b461177a565b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168d5f01516001600160a01b031614611332578a611334565b8b5b7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b03168e5f01516001600160a01b031614611376578c611a3f565b8b611a3f565b60408051608081018252620d89b3198152620d89b460208201526001600160801b038316818301525f606082018190529151632d35e7ed60e11b815292935090916001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001691635a6bcfda916113fc918e91600401612a55565b60408051808303815f875af1158015611417573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061143b9190612af3565b5090505f6114498260801d90565b600f0b12156114a7576114a77f0000000000000000000000000000000000000000000000000000000000000000306114818460801d90565b61148a90612b15565b8d516001600160a01b03169291906001600160801b03165f611af4565b5f6114b282600f0b90565b600f0b1215611513576115137f0000000000000000000000000000000000000000000000000000000000000000306114ea84600f0b90565b6114f390612b15565b60208e01516001600160a01b03169291906001600160801b03165f611af4565b896040516115219190612b42565b60405180910390207fa994e36710180b46fd425302c942c7c02cf28169478f9bcdb059a14420db02ff620d89b319620d89b4855f61155f8760801d90565b600f0b1261156d575f61158a565b6115778660801d90565b61158090612b15565b6001600160801b03165b5f61159588600f0b90565b600f0b126115a3575f6115c0565b6115ad87600f0b90565b6115b690612b15565b6001600160801b03165b60408051600296870b81529490950b60208501526001600160801b0392831684860152606084019190915260808301525f60a0830152861660c082015290519081900360e00190a2505060408051602081019091525f81529a9950505050505050505050565b5f61163a6001600160a01b03841683611dbf565b905080515f1415801561165e57508080602001905181019061165c9190612ba8565b155b1561168757604051635274afe760e01b81526001600160a01b03841660048201526024016108e0565b505050565b6040515f906116ab908390600690602001918252602082015260400190565b604051602081830303815290604052805190602001209050919050565b5f805f805f6116d68661168c565b604051631e2eaeaf60e01b8152600481018290529091505f906001600160a01b03891690631e2eaeaf90602401602060405180830381865afa15801561171e573d5f803e3d5ffd5b505050506040513d601f19601f8201168201806040525081019061174291906126dc565b90506001600160a01b03811695508060a01c60020b945062ffffff8160b81c16935062ffffff8160d01c169250505092959194509250565b60020b5f60ff82901d80830118620d89e88111156117a3576117a36345c3193d60e11b84611dcc565b7001fffcb933bd6fad37aa2d162d1a59400160018216027001000000000000000000000000000000001860028216156117ec576ffff97272373d413259a46990580e213a0260801c5b600482161561180b576ffff2e50f5f656932ef12357cf3c7fdcc0260801c5b600882161561182a576fffe5caca7e10e4e61c3624eaa0941cd00260801c5b6010821615611849576fffcb9843d60f6159c9db58835c9266440260801c5b6020821615611868576fff973b41fa98c081472e6896dfb254c00260801c5b6040821615611887576fff2ea16466c96a3843ec78b326b528610260801c5b60808216156118a6576ffe5dee046a99a2a811c461f1969c30530260801c5b6101008216156118c6576ffcbe86c7900a88aedcffc83b479aa3a40260801c5b6102008216156118e6576ff987a7253ac413176f2b074cf7815e540260801c5b610400821615611906576ff3392b0822b70005940c7a398e4b70f30260801c5b610800821615611926576fe7159475a2c29b7443b29c7fa6e889d90260801c5b611000821615611946576fd097f3bdfd2022b8845ad8f792aa58250260801c5b612000821615611966576fa9f746462d870fdf8a65dc1f90e061e50260801c5b614000821615611986576f70d869a156d2a1b890bb3df62baf32f70260801c5b6180008216156119a6576f31be135f97d08fd981231505542fcfa60260801c5b620100008216156119c7576f09aa508b5b7a84e1c677de54f3e99bc90260801c5b620200008216156119e7576e5d6af8dedb81196699c329225ee6040260801c5b62040000821615611a06576d2216e584f5fa1ea926041bedfe980260801c5b62080000821615611a23576b048a170391f7dc42444e8fa20260801c5b5f841315611a2f575f19045b63ffffffff0160201c9392505050565b5f836001600160a01b0316856001600160a01b03161115611a5e579293925b846001600160a01b0316866001600160a01b031611611a8957611a82858585611ddb565b90506105b7565b836001600160a01b0316866001600160a01b03161015611ae9575f611aaf878686611ddb565b90505f611abd878986611e45565b9050806001600160801b0316826001600160801b031610611ade5780611ae0565b815b925050506105b7565b6105b4858584611e45565b8015611b8857836001600160a01b031663f5298aca84611b23886001600160a01b03166001600160a01b031690565b6040516001600160e01b031960e085901b1681526001600160a01b0390921660048301526024820152604481018590526064015f604051808303815f87803b158015611b6d575f80fd5b505af1158015611b7f573d5f803e3d5ffd5b50505050611db8565b6001600160a01b038516611bff57836001600160a01b03166311da60b4836040518263ffffffff1660e01b815260040160206040518083038185885af1158015611bd4573d5f803e3d5ffd5b50505050506040513d601f19601f82011682018060405250810190611bf991906126dc565b50611db8565b604051632961046560e21b81526001600160a01b03868116600483015285169063a5841194906024015f604051808303815f87803b158015611c3f575f80fd5b505af1158015611c51573d5f803e3d5ffd5b505050506001600160a01b0383163014611ce3576040516323b872dd60e01b81526001600160a01b0384811660048301528581166024830152604482018490528616906323b872dd906064016020604051808303815f875af1158015611cb9573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611cdd9190612ba8565b50611d55565b60405163a9059cbb60e01b81526001600160a01b0385811660048301526024820184905286169063a9059cbb906044016020604051808303815f875af1158015611d2f573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611d539190612ba8565b505b836001600160a01b03166311da60b46040518163ffffffff1660e01b81526004016020604051808303815f875af1158015611d92573d5f803e3d5ffd5b505050506040513d601f19601f82011682018060405250810190611db691906126dc565b505b5050505050565b6060610b9983835f611e8a565b815f528060020b60045260245ffd5b5f826001600160a01b0316846001600160a01b03161115611dfa579192915b5f611e25856001600160a01b0316856001600160a01b03166c01000000000000000000000000611f23565b90506105b7611e4084838888036001600160a01b0316611f23565b611fbf565b5f826001600160a01b0316846001600160a01b03161115611e64579192915b610b96611e40836c010000000000000000000000008787036001600160a01b0316611f23565b606081471015611eaf5760405163cd78605960e01b81523060048201526024016108e0565b5f80856001600160a01b03168486604051611eca9190612bc7565b5f6040518083038185875af1925050503d805f8114611f04576040519150601f19603f3d011682016040523d82523d5f602084013e611f09565b606091505b5091509150611f19868383611fe5565b9695505050505050565b5f838302815f1985870982811083820303915050808411611f42575f80fd5b805f03611f5457508290049050610b99565b5f848688095f868103871696879004966002600389028118808a02820302808a02820302808a02820302808a02820302808a02820302808a02909103029181900381900460010186841190950394909402919094039290920491909117919091029150509392505050565b806001600160801b0381168114611fe057611fe06393dafdf160e01b612041565b919050565b606082611ffa57611ff582612049565b610b99565b815115801561201157506001600160a01b0384163b155b1561203a57604051639996b31560e01b81526001600160a01b03851660048201526024016108e0565b5080610b99565b805f5260045ffd5b8051156120595780518082602001fd5b604051630a12f52160e11b815260040160405180910390fd5b50565b6001600160a01b0381168114612072575f80fd5b5f60a08284031215612099575f80fd5b50919050565b5f60808284031215612099575f80fd5b5f8083601f8401126120bf575f80fd5b50813567ffffffffffffffff8111156120d6575f80fd5b6020830191508360208285010111156120ed575f80fd5b9250929050565b5f805f805f6101608688031215612109575f80fd5b853561211481612075565b94506121238760208801612089565b93506121328760c0880161209f565b925061014086013567ffffffffffffffff81111561214e575f80fd5b61215a888289016120af565b969995985093965092949392505050565b5f6020828403121561217b575f80fd5b5035919050565b5f60608284031215612099575f80fd5b5f805f805f61014086880312156121a7575f80fd5b85356121b281612075565b94506121c18760208801612089565b93506121d08760c08801612182565b925061012086013567ffffffffffffffff81111561214e575f80fd5b5f805f805f805f6101a0888a031215612203575f80fd5b873561220e81612075565b965061221d8960208a01612089565b955061222c8960c08a0161209f565b94506101408801359350610160880135925061018088013567ffffffffffffffff811115612258575f80fd5b6122648a828b016120af565b989b979a50959850939692959293505050565b8060020b8114612072575f80fd5b5f805f806101008587031215612299575f80fd5b84356122a481612075565b93506122b38660208701612089565b925060c08501356122c381612075565b915060e08501356122d381612277565b939692955090935050565b5f60a082840312156122ee575f80fd5b610b998383612089565b5f8060208385031215612309575f80fd5b823567ffffffffffffffff81111561231f575f80fd5b61232b858286016120af565b90969095509350505050565b5f81518084528060208401602086015e5f602082860101526020601f19601f83011685010191505092915050565b602081525f610b996020830184612337565b5f805f805f80610160878903121561238d575f80fd5b863561239881612075565b95506123a78860208901612089565b94506123b68860c08901612182565b9350610120870135925061014087013567ffffffffffffffff8111156123da575f80fd5b6123e689828a016120af565b979a9699509497509295939492505050565b5f805f805f80610120878903121561240e575f80fd5b863561241981612075565b95506124288860208901612089565b945060c0870135935060e0870135925061010087013567ffffffffffffffff8111156123da575f80fd5b8151151581526101c081016020830151612470602084018215159052565b506040830151612484604084018215159052565b506060830151612498606084018215159052565b5060808301516124ac608084018215159052565b5060a08301516124c060a084018215159052565b5060c08301516124d460c084018215159052565b5060e08301516124e860e084018215159052565b506101008301516124fe61010084018215159052565b5061012083015161251461012084018215159052565b5061014083015161252a61014084018215159052565b5061016083015161254061016084018215159052565b5061018083015161255661018084018215159052565b506101a083015161256c6101a084018215159052565b5092915050565b5f805f60e08486031215612585575f80fd5b833561259081612075565b925061259f8560208601612089565b915060c08401356125af81612075565b809150509250925092565b6001600160a01b038416815260ff83166020820152606060408201525f6105b76060830184612337565b634e487b7160e01b5f52604160045260245ffd5b60405160a0810167ffffffffffffffff8111828210171561261b5761261b6125e4565b60405290565b604051601f8201601f1916810167ffffffffffffffff8111828210171561264a5761264a6125e4565b604052919050565b62ffffff81168114612072575f80fd5b5f60a0828403128015612673575f80fd5b5061267c6125f8565b823561268781612075565b8152602083013561269781612075565b602082015260408301356126aa81612652565b604082015260608301356126bd81612277565b606082015260808301356126d081612075565b60808201529392505050565b5f602082840312156126ec575f80fd5b5051919050565b5f67ffffffffffffffff82111561270c5761270c6125e4565b50601f01601f191660200190565b5f806040838503121561272b575f80fd5b823560ff8116811461273b575f80fd5b9150602083013567ffffffffffffffff811115612756575f80fd5b8301601f81018513612766575f80fd5b8035612779612774826126f3565b612621565b81815286602083850101111561278d575f80fd5b816020840160208301375f602083830101528093505050509250929050565b5f6127b9612774846126f3565b90508281528383830111156127cc575f80fd5b8282602083015e5f602084830101529392505050565b5f602082840312156127f2575f80fd5b815167ffffffffffffffff811115612808575f80fd5b8201601f81018413612818575f80fd5b612827848251602084016127ac565b949350505050565b5f6020828403121561283f575f80fd5b8135610b9981612075565b5f823561285681612075565b6001600160a01b0316825260208381013590830161287382612075565b6001600160a01b039190911681526040840135906020810161289483612652565b62ffffff83168152606086013592506128ac83612277565b8260020b6020820152608086013592506128c583612075565b6001600160a01b0383166040820152606081015b5050505060a08201905092915050565b634e487b7160e01b5f52601160045260245ffd5b80820180821115610a7057610a706128e9565b60e08101843561291f81612075565b6001600160a01b03168252602085013561293881612075565b6001600160a01b03166020830152604085013561295481612652565b62ffffff166040830152606085013561296c81612277565b60020b6060830152608085013561298281612075565b6001600160a01b0316608083015260a082019390935260c00152919050565b60ff83168152604060208201525f610b966040830184612337565b5f805f83850360e08112156129cf575f80fd5b60a08112156129dc575f80fd5b506129e56125f8565b84516129f081612075565b81526020850151612a0081612075565b60208201526040850151612a1381612652565b60408201526060850151612a2681612277565b60608201526080850151612a3981612075565b608082015260a085015160c09095015190969495509392505050565b6001600160a01b0383511681526001600160a01b03602084015116602082015262ffffff6040840151166040820152606083015160020b60608201526001600160a01b036080840151166080820152612ad860a0820183805160020b8252602081015160020b602083015260408101516040830152606081015160608301525050565b6101406101208201525f610b9661014083015f815260200190565b5f8060408385031215612b04575f80fd5b505080516020909101519092909150565b5f81600f0b6f7fffffffffffffffffffffffffffffff198103612b3a57612b3a6128e9565b5f0392915050565b5f82515f6001600160a01b0382168452602084019050602085015191505f6001600160a01b038316825260208201905062ffffff6040870151168152606086015160020b60208201526128d96040820160808801516001600160a01b0316815260200190565b5f60208284031215612bb8575f80fd5b81518015158114610b99575f80fd5b5f82518060208501845e5f92019182525091905056fea26469706673582212203a944748229f03bd57e8096ce0a29e5d8d7c6b6b4dfda2004dbf9b2dad2e29f964736f6c634300081a0033" as const;
@@ -0,0 +1,663 @@
+// Generated by scripts/generate-abis.mjs from EventToken.sol/EventToken.json. Do not edit.
+
+export const eventTokenAbi = [
+  {
+    "inputs": [
+      {
+        "internalType": "string",
+        "name": "_eventName",
+        "type": "string"
+      },
+      {
+        "internalType": "string",
+        "name": "_symbol",
+        "type": "string"
+      },
+      {
+        "internalType": "uint256",
+        "name": "_eventDate",
+        "type": "uint256"
+      },
+      {
+        "internalType": "address",
+        "name": "_organizer",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "constructor"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "allowance",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "needed",
+        "type": "uint256"
+      }
+    ],
+    "name": "ERC20InsufficientAllowance",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "balance",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "needed",
+        "type": "uint256"
+      }
+    ],
+    "name": "ERC20InsufficientBalance",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "approver",
+        "type": "address"
+      }
+    ],
+    "name": "ERC20InvalidApprover",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "receiver",
+        "type": "address"
+      }
+    ],
+    "name": "ERC20InvalidReceiver",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "sender",
+        "type": "address"
+      }
+    ],
+    "name": "ERC20InvalidSender",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      }
+    ],
+    "name": "ERC20InvalidSpender",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "uint256",
+        "name": "requested",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "transferable",
+        "type": "uint256"
+      }
+    ],
+    "name": "ExceedsTransferableAmount",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidEventDate",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidHook",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "InvalidOrganizer",
+    "type": "error"
+  },
+  {
+    "inputs": [],
+    "name": "OnlyOrganizer",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      }
+    ],
+    "name": "OwnableInvalidOwner",
+    "type": "error"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "OwnableUnauthorizedAccount",
+    "type": "error"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "Approval",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "hook",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "tokensTransferred",
+        "type": "uint256"
+      }
+    ],
+    "name": "HookSet",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "remainingBalance",
+        "type": "uint256"
+      }
+    ],
+    "name": "OrganizerTransfer",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "previousOwner",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
+      }
+    ],
+    "name": "OwnershipTransferred",
+    "type": "event"
+  },
+  {
+    "anonymous": false,
+    "inputs": [
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "indexed": true,
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "indexed": false,
+        "internalType": "uint256",
+        "name": "value",
+        "type": "uint256"
+      }
+    ],
+    "name": "Transfer",
+    "type": "event"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "owner",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      }
+    ],
+    "name": "allowance",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "spender",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "approve",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "account",
+        "type": "address"
+      }
+    ],
+    "name": "balanceOf",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "decimals",
+    "outputs": [
+      {
+        "internalType": "uint8",
+        "name": "",
+        "type": "uint8"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "eventDate",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "eventHook",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "eventName",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getVestingInfo",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "startTime",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "endTime",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "totalAmount",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "transferable",
+        "type": "uint256"
+      },
+      {
+        "internalType": "uint256",
+        "name": "remaining",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "getVestingProgress",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "name",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "organizer",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "organizerBalance",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "organizerTransferableAmount",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "owner",
+    "outputs": [
+      {
+        "internalType": "address",
+        "name": "",
+        "type": "address"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "renounceOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "_hook",
+        "type": "address"
+      }
+    ],
+    "name": "setHook",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "symbol",
+    "outputs": [
+      {
+        "internalType": "string",
+        "name": "",
+        "type": "string"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "tokensPerSecond",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "totalSupply",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "transfer",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "from",
+        "type": "address"
+      },
+      {
+        "internalType": "address",
+        "name": "to",
+        "type": "address"
+      },
+      {
+        "internalType": "uint256",
+        "name": "amount",
+        "type": "uint256"
+      }
+    ],
+    "name": "transferFrom",
+    "outputs": [
+      {
+        "internalType": "bool",
+        "name": "",
+        "type": "bool"
+      }
+    ],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [
+      {
+        "internalType": "address",
+        "name": "newOwner",
+        "type": "address"
+      }
+    ],
+    "name": "transferOwnership",
+    "outputs": [],
+    "stateMutability": "nonpayable",
+    "type": "function"
+  },
+  {
+    "inputs": [],
+    "name": "vestingStartTime",
+    "outputs": [
+      {
+        "internalType": "uint256",
+        "name": "",
+        "type": "uint256"
+      }
+    ],
+    "stateMutability": "view",
+    "type": "function"
+  }
+] as const;
+
+export const eventTokenBytecode = "0x60e060405234801561000f575f80fd5b506040516118df3803806118df83398101604081905261002e91610424565b338484600361003d8382610535565b50600461004a8282610535565b5050506001600160a01b03811661007b57604051631e4fbdf760e01b81525f60048201526024015b60405180910390fd5b610084816101d8565b504282116100d45760405162461bcd60e51b815260206004820181905260248201527f4576656e742064617465206d75737420626520696e20746865206675747572656044820152606401610072565b6001600160a01b03811661012a5760405162461bcd60e51b815260206004820152601960248201527f496e76616c6964206f7267616e697a65722061646472657373000000000000006044820152606401610072565b60066101368582610535565b5060078290556001600160a01b0381166080524260a0525f61015a6012600a6106e8565b61016890633b9aca006106fd565b90505f60646101788360286106fd565b6101829190610714565b905061018e8382610229565b60088190555f61019e8284610733565b90506101aa3082610229565b5f60a0516007546101bb9190610733565b90506101c78184610714565b60c052506107599650505050505050565b600580546001600160a01b038381166001600160a01b0319831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b6001600160a01b0382166102525760405163ec442f0560e01b81525f6004820152602401610072565b61025d5f8383610261565b5050565b6001600160a01b03831661028b578060025f8282546102809190610746565b909155506102fb9050565b6001600160a01b0383165f90815260208190526040902054818110156102dd5760405163391434e360e21b81526001600160a01b03851660048201526024810182905260448101839052606401610072565b6001600160a01b0384165f9081526020819052604090209082900390555b6001600160a01b03821661031757600280548290039055610335565b6001600160a01b0382165f9081526020819052604090208054820190555b816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8360405161037a91815260200190565b60405180910390a3505050565b634e487b7160e01b5f52604160045260245ffd5b5f82601f8301126103aa575f80fd5b81516001600160401b038111156103c3576103c3610387565b604051601f8201601f19908116603f011681016001600160401b03811182821017156103f1576103f1610387565b604052818152838201602001851015610408575f80fd5b8160208501602083015e5f918101602001919091529392505050565b5f805f8060808587031215610437575f80fd5b84516001600160401b0381111561044c575f80fd5b6104588782880161039b565b602087015190955090506001600160401b03811115610475575f80fd5b6104818782880161039b565b60408701516060880151919550935090506001600160a01b03811681146104a6575f80fd5b939692955090935050565b600181811c908216806104c557607f821691505b6020821081036104e357634e487b7160e01b5f52602260045260245ffd5b50919050565b601f82111561053057805f5260205f20601f840160051c8101602085101561050e5750805b601f840160051c820191505b8181101561052d575f815560010161051a565b50505b505050565b81516001600160401b0381111561054e5761054e610387565b6105628161055c84546104b1565b846104e9565b6020601f821160018114610594575f831561057d5750848201515b5f19600385901b1c1916600184901b17845561052d565b5f84815260208120601f198516915b828110156105c357878501518255602094850194600190920191016105a3565b50848210156105e057868401515f19600387901b60f8161c191681555b50505050600190811b01905550565b634e487b7160e01b5f52601160045260245ffd5b6001815b600184111561063e57808504811115610622576106226105ef565b600184161561063057908102905b60019390931c928002610607565b935093915050565b5f82610654575060016106e2565b8161066057505f6106e2565b816001811461067657600281146106805761069c565b60019150506106e2565b60ff841115610691576106916105ef565b50506001821b6106e2565b5060208310610133831016604e8410600b84101617156106bf575081810a6106e2565b6106cb5f198484610603565b805f19048211156106de576106de6105ef565b0290505b92915050565b5f6106f660ff841683610646565b9392505050565b80820281158282048414176106e2576106e26105ef565b5f8261072e57634e487b7160e01b5f52601260045260245ffd5b500490565b818103818111156106e2576106e26105ef565b808201808211156106e2576106e26105ef565b60805160a05160c0516111166107c95f395f818161023501526109aa01525f81816102ff015281816104cb0152818161050b015281816105350152818161093b0152818161097c01526109ee01525f818161025c0152818161045201528181610583015261087001526111165ff3fe608060405234801561000f575f80fd5b5060043610610184575f3560e01c806370a08231116100dd578063a8660a7811610088578063dc25a30011610063578063dc25a3001461033c578063dd62ed3e1461036c578063f2fde38b146103a4575f80fd5b8063a8660a78146102fa578063a9059cbb14610321578063bbea365514610334575f80fd5b80638da5cb5b116100b85780638da5cb5b146102ce57806395d89b41146102df57806399022442146102e7575f80fd5b806370a0823114610296578063715018a6146102be5780638043c9c0146102c6575f80fd5b8063240102711161013d5780634bfbe5df116101185780634bfbe5df146102275780634d8d9e92146102305780636120326514610257575f80fd5b806324010271146101fa578063313ce567146102035780633dfd387314610212575f80fd5b8063154e4e561161016d578063154e4e56146101c957806318160ddd146101df57806323b872dd146101e7575f80fd5b806306fdde0314610188578063095ea7b3146101a6575b5f80fd5b6101906103b7565b60405161019d9190610e4b565b60405180910390f35b6101b96101b4366004610e9b565b610447565b604051901515815260200161019d565b6101d16104c8565b60405190815260200161019d565b6002546101d1565b6101b96101f5366004610ec3565b610580565b6101d160085481565b6040516012815260200161019d565b610225610220366004610efd565b610675565b005b6101d160075481565b6101d17f000000000000000000000000000000000000000000000000000000000000000081565b61027e7f000000000000000000000000000000000000000000000000000000000000000081565b6040516001600160a01b03909116815260200161019d565b6101d16102a4366004610efd565b6001600160a01b03165f9081526020819052604090205490565b6102256107b7565b6101906107ca565b6005546001600160a01b031661027e565b610190610856565b60095461027e906001600160a01b031681565b6101d17f000000000000000000000000000000000000000000000000000000000000000081565b6101b961032f366004610e9b565b610865565b6101d1610938565b6103446109e9565b604080519586526020860194909452928401919091526060830152608082015260a00161019d565b6101d161037a366004610f16565b6001600160a01b039182165f90815260016020908152604080832093909416825291909152205490565b6102256103b2366004610efd565b610a5a565b6060600380546103c690610f47565b80601f01602080910402602001604051908101604052809291908181526020018280546103f290610f47565b801561043d5780601f106104145761010080835404028352916020019161043d565b820191905f5260205f20905b81548152906001019060200180831161042057829003601f168201915b5050505050905090565b5f6001600160a01b037f00000000000000000000000000000000000000000000000000000000000000001633036104b5575f610481610938565b9050808311156104b3576040516322932a1d60e21b815260048101849052602481018290526044015b60405180910390fd5b505b6104bf8383610a97565b90505b92915050565b5f7f00000000000000000000000000000000000000000000000000000000000000004210156104f657505f90565b60075442106105055750606490565b5f6105307f000000000000000000000000000000000000000000000000000000000000000042610f93565b90505f7f00000000000000000000000000000000000000000000000000000000000000006007546105619190610f93565b90508061056f836064610fa6565b6105799190610fbd565b9250505090565b5f7f00000000000000000000000000000000000000000000000000000000000000006001600160a01b0316846001600160a01b031603610662575f6105c3610938565b9050808311156105f0576040516322932a1d60e21b815260048101849052602481018290526044016104aa565b8260085f8282546106019190610f93565b92505081905550836001600160a01b0316856001600160a01b03167f3f60e0e6d743fb2dd292fc425413d24ae488aa790c2bdd22eaefe3aca4f2270685600854604051610658929190918252602082015260400190565b60405180910390a3505b61066d848484610aae565b949350505050565b61067d610ad1565b6001600160a01b0381166106d35760405162461bcd60e51b815260206004820152601460248201527f496e76616c696420686f6f6b206164647265737300000000000000000000000060448201526064016104aa565b6009546001600160a01b03161561072c5760405162461bcd60e51b815260206004820152601060248201527f486f6f6b20616c7265616479207365740000000000000000000000000000000060448201526064016104aa565b6009805473ffffffffffffffffffffffffffffffffffffffff19166001600160a01b038316179055305f908152602081905260408120549050610770308383610afe565b816001600160a01b03167f7464da0a40bbded77ebbbba91d19328febda8e46d460a27211b6ee17785774d1826040516107ab91815260200190565b60405180910390a25050565b6107bf610ad1565b6107c85f610b60565b565b600680546107d790610f47565b80601f016020809104026020016040519081016040528092919081815260200182805461080390610f47565b801561084e5780601f106108255761010080835404028352916020019161084e565b820191905f5260205f20905b81548152906001019060200180831161083157829003601f168201915b505050505081565b6060600480546103c690610f47565b5f6001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016330361092e575f61089f610938565b9050808311156108cc576040516322932a1d60e21b815260048101849052602481018290526044016104aa565b8260085f8282546108dd9190610f93565b90915550506008546040805185815260208101929092526001600160a01b0386169133917f3f60e0e6d743fb2dd292fc425413d24ae488aa790c2bdd22eaefe3aca4f22706910160405180910390a3505b6104bf8383610bbe565b5f7f000000000000000000000000000000000000000000000000000000000000000042101561096657505f90565b6007544210610976575060085490565b5f6109a17f000000000000000000000000000000000000000000000000000000000000000042610f93565b90505f6109ce827f0000000000000000000000000000000000000000000000000000000000000000610fa6565b905060085481116109df5780610579565b6008549250505090565b6007547f0000000000000000000000000000000000000000000000000000000000000000905f80806064610a1f6012600a6110bf565b610a2d90633b9aca00610fa6565b610a38906028610fa6565b610a429190610fbd565b9250610a4c610938565b915060085490509091929394565b610a62610ad1565b6001600160a01b038116610a8b57604051631e4fbdf760e01b81525f60048201526024016104aa565b610a9481610b60565b50565b5f33610aa4818585610bcb565b5060019392505050565b5f33610abb858285610bd8565b610ac6858585610afe565b506001949350505050565b6005546001600160a01b031633146107c85760405163118cdaa760e01b81523360048201526024016104aa565b6001600160a01b038316610b2757604051634b637e8f60e11b81525f60048201526024016104aa565b6001600160a01b038216610b505760405163ec442f0560e01b81525f60048201526024016104aa565b610b5b838383610c53565b505050565b600580546001600160a01b0383811673ffffffffffffffffffffffffffffffffffffffff19831681179093556040519116919082907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0905f90a35050565b5f33610aa4818585610afe565b610b5b8383836001610d79565b6001600160a01b038381165f908152600160209081526040808320938616835292905220545f198114610c4d5781811015610c3f57604051637dc7a0d960e11b81526001600160a01b038416600482015260248101829052604481018390526064016104aa565b610c4d84848484035f610d79565b50505050565b6001600160a01b038316610c7d578060025f828254610c7291906110cd565b90915550610ced9050565b6001600160a01b0383165f9081526020819052604090205481811015610ccf5760405163391434e360e21b81526001600160a01b038516600482015260248101829052604481018390526064016104aa565b6001600160a01b0384165f9081526020819052604090209082900390555b6001600160a01b038216610d0957600280548290039055610d27565b6001600160a01b0382165f9081526020819052604090208054820190555b816001600160a01b0316836001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef83604051610d6c91815260200190565b60405180910390a3505050565b6001600160a01b038416610da25760405163e602df0560e01b81525f60048201526024016104aa565b6001600160a01b038316610dcb57604051634a1406b160e11b81525f60048201526024016104aa565b6001600160a01b038085165f9081526001602090815260408083209387168352929052208290558015610c4d57826001600160a01b0316846001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92584604051610e3d91815260200190565b60405180910390a350505050565b602081525f82518060208401528060208501604085015e5f604082850101526040601f19601f83011684010191505092915050565b80356001600160a01b0381168114610e96575f80fd5b919050565b5f8060408385031215610eac575f80fd5b610eb583610e80565b946020939093013593505050565b5f805f60608486031215610ed5575f80fd5b610ede84610e80565b9250610eec60208501610e80565b929592945050506040919091013590565b5f60208284031215610f0d575f80fd5b6104bf82610e80565b5f8060408385031215610f27575f80fd5b610f3083610e80565b9150610f3e60208401610e80565b90509250929050565b600181811c90821680610f5b57607f821691505b602082108103610f7957634e487b7160e01b5f52602260045260245ffd5b50919050565b634e487b7160e01b5f52601160045260245ffd5b818103818111156104c2576104c2610f7f565b80820281158282048414176104c2576104c2610f7f565b5f82610fd757634e487b7160e01b5f52601260045260245ffd5b500490565b6001815b600184111561101757808504811115610ffb57610ffb610f7f565b600184161561100957908102905b60019390931c928002610fe0565b935093915050565b5f8261102d575060016104c2565b8161103957505f6104c2565b816001811461104f576002811461105957611075565b60019150506104c2565b60ff84111561106a5761106a610f7f565b50506001821b6104c2565b5060208310610133831016604e8410600b8410161715611098575081810a6104c2565b6110a45f198484610fdc565b805f19048211156110b7576110b7610f7f565b029392505050565b5f6104bf60ff84168361101f565b808201808211156104c2576104c2610f7f56fea2646970667358221220d93e359133858282ff18cfae831dd8cdf66bf1d0c235785acdb93f14e29a2fa864736f6c634300081a0033" as const;
@@ -0,0 +1,3 @@
+export { eventTokenAbi, eventTokenBytecode } from "./eventToken";
+export { eventCoinSimpleHookAbi, eventCoinSimpleHookBytecode } from "./eventCoinSimpleHook";
+export { poolManagerAbi, poolSwapTestAbi } from "./uniswap";
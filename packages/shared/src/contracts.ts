@@ -0,0 +1,190 @@
+import {
+  getContract,
+  type Account,
+  type Address,
+  type Chain,
+  type Client,
+  type Hash,
+  type PublicClient,
+  type Transport,
+  type WalletClient,
+} from "viem";
+import { eventCoinSimpleHookAbi } from "./abis/eventCoinSimpleHook";
+import { eventTokenAbi } from "./abis/eventToken";
+import type { PoolKey } from "./pool";
+
+/**
+ * @type ConnectedWalletClient
+ * @description Wallet client with a chain and account, as required to send transactions
+ */
+export type ConnectedWalletClient = WalletClient<Transport, Chain, Account>;
+
+/**
+ * @interface VestingInfo
+ * @description Organizer vesting state returned by EventToken.getVestingInfo()
+ */
+export interface VestingInfo {
+  startTime: bigint;
+  endTime: bigint;
+  totalAmount: bigint;
+  transferable: bigint;
+  remaining: bigint;
+}
+
+/**
+ * @interface BackingAssetInfo
+ * @description Backing asset returned by EventCoinSimpleHook.getBackingAssetInfo()
+ */
+export interface BackingAssetInfo {
+  address: Address;
+  decimals: number;
+  symbol: string;
+}
+
+/**
+ * @interface EventTokenMetadata
+ * @description Immutable and slow-changing EventToken fields
+ */
+export interface EventTokenMetadata {
+  eventName: string;
+  symbol: string;
+  eventDate: bigint;
+  organizer: Address;
+  eventHook: Address;
+  totalSupply: bigint;
+}
+
+/**
+ * @function getEventTokenContract
+ * @description Typed viem contract instance for an EventToken
+ * @param {Address} address - EventToken address
+ * @param {Client} client - Public client for reads, or wallet client for writes
+ * @returns Contract instance with typed `read`/`write`/`watchEvent` methods
+ */
+export function getEventTokenContract<client extends Client>(address: Address, client: client) {
+  return getContract({ address, abi: eventTokenAbi, client });
+}
+
+/**
+ * @function getEventCoinSimpleHookContract
+ * @description Typed viem contract instance for an EventCoinSimpleHook
+ * @param {Address} address - Hook address
+ * @param {Client} client - Public client for reads, or wallet client for writes
+ * @returns Contract instance with typed `read`/`write`/`watchEvent` methods
+ */
+export function getEventCoinSimpleHookContract<client extends Client>(address: Address, client: client) {
+  return getContract({ address, abi: eventCoinSimpleHookAbi, client });
+}
+
+/**
+ * @function readEventTokenMetadata
+ * @description Reads the descriptive fields of an EventToken
+ * @param {PublicClient} client - Public client
+ * @param {Address} token - EventToken address
+ * @returns {Promise<EventTokenMetadata>} Event name, symbol, date, organizer, hook and supply
+ */
+export async function readEventTokenMetadata(client: PublicClient, token: Address): Promise<EventTokenMetadata> {
+  const contract = { address: token, abi: eventTokenAbi } as const;
+  const [eventName, symbol, eventDate, organizer, eventHook, totalSupply] = await Promise.all([
+    client.readContract({ ...contract, functionName: "eventName" }),
+    client.readContract({ ...contract, functionName: "symbol" }),
+    client.readContract({ ...contract, functionName: "eventDate" }),
+    client.readContract({ ...contract, functionName: "organizer" }),
+    client.readContract({ ...contract, functionName: "eventHook" }),
+    client.readContract({ ...contract, functionName: "totalSupply" }),
+  ]);
+
+  return { eventName, symbol, eventDate, organizer, eventHook, totalSupply };
+}
+
+/**
+ * @function readVestingInfo
+ * @description Reads the organizer vesting state of an EventToken
+ * @param {PublicClient} client - Public client
+ * @param {Address} token - EventToken address
+ * @returns {Promise<VestingInfo>} Vesting window, allocation and current transferable amount
+ */
+export async function readVestingInfo(client: PublicClient, token: Address): Promise<VestingInfo> {
+  const [startTime, endTime, totalAmount, transferable, remaining] = await client.readContract({
+    address: token,
+    abi: eventTokenAbi,
+    functionName: "getVestingInfo",
+  });
+
+  return { startTime, endTime, totalAmount, transferable, remaining };
+}
+
+/**
+ * @function readBackingAssetInfo
+ * @description Reads the backing asset of an EventCoinSimpleHook
+ * @param {PublicClient} client - Public client
+ * @param {Address} hook - Hook address
+ * @returns {Promise<BackingAssetInfo>} Backing asset address, decimals and symbol
+ */
+export async function readBackingAssetInfo(client: PublicClient, hook: Address): Promise<BackingAssetInfo> {
+  const [address, decimals, symbol] = await client.readContract({
+    address: hook,
+    abi: eventCoinSimpleHookAbi,
+    functionName: "getBackingAssetInfo",
+  });
+
+  return { address, decimals, symbol };
+}
+
+/**
+ * @function setHook
+ * @description Sends EventToken.setHook, moving the liquidity allocation to the hook (owner only)
+ * @param {ConnectedWalletClient} client - Wallet client of the token owner
+ * @param {Address} token - EventToken address
+ * @param {Address} hook - EventCoinSimpleHook address
+ * @returns {Promise<Hash>} Transaction hash
+ */
+export function setHook(client: ConnectedWalletClient, token: Address, hook: Address): Promise<Hash> {
+  return client.writeContract({
+    address: token,
+    abi: eventTokenAbi,
+    functionName: "setHook",
+    args: [hook],
+    account: client.account,
+    chain: client.chain,
+  });
+}
+
+/**
+ * @function depositBackingAsset
+ * @description Sends EventCoinSimpleHook.depositBackingAsset (organizer only, requires approval)
+ * @param {ConnectedWalletClient} client - Wallet client of the organizer
+ * @param {Address} hook - Hook address
+ * @param {bigint} amount - Raw backing asset amount
+ * @returns {Promise<Hash>} Transaction hash
+ */
+export function depositBackingAsset(client: ConnectedWalletClient, hook: Address, amount: bigint): Promise<Hash> {
+  return client.writeContract({
+    address: hook,
+    abi: eventCoinSimpleHookAbi,
+    functionName: "depositBackingAsset",
+    args: [amount],
+    account: client.account,
+    chain: client.chain,
+  });
+}
+
+/**
+ * @function bootstrapInitialLiquidity
+ * @description Sends EventCoinSimpleHook.bootstrapInitialLiquidity, the fallback when
+ * the afterInitialize bootstrap did not run (organizer only)
+ * @param {ConnectedWalletClient} client - Wallet client of the organizer
+ * @param {Address} hook - Hook address
+ * @param {PoolKey} key - Key of the initialized event pool
+ * @returns {Promise<Hash>} Transaction hash
+ */
+export function bootstrapInitialLiquidity(client: ConnectedWalletClient, hook: Address, key: PoolKey): Promise<Hash> {
+  return client.writeContract({
+    address: hook,
+    abi: eventCoinSimpleHookAbi,
+    functionName: "bootstrapInitialLiquidity",
+    args: [key],
+    account: client.account,
+    chain: client.chain,
+  });
+}
@@ -0,0 +1,103 @@
+import type { Address } from "viem";
+
+/**
+ * @interface EventDeployment
+ * @description Contracts and pool parameters of one launched event
+ */
+export interface EventDeployment {
+  /** EventToken address */
+  eventToken: Address;
+  /** EventCoinSimpleHook address */
+  hook: Address;
+  /** LP fee of the event pool in hundredths of a bip */
+  fee: number;
+  /** Tick spacing of the event pool */
+  tickSpacing: number;
+  /** Block the EventToken was deployed at, where log scans start */
+  startBlock: bigint;
+}
+
+/**
+ * @interface ChainDeployment
+ * @description Uniswap v4 infrastructure and UniFans events deployed on a chain
+ */
+export interface ChainDeployment {
+  /** Uniswap v4 PoolManager */
+  poolManager: Address;
+  /** PoolSwapTest router used for trades */
+  swapRouter: Address;
+  /** Events launched on this chain */
+  events: readonly EventDeployment[];
+}
+
+/**
+ * Known deployments by chain id. PoolManager and PoolSwapTest addresses are the
+ * canonical Uniswap v4 testnet deployments.
+ */
+export const deployments: Readonly<Record<number, ChainDeployment>> = {
+  // Unichain Sepolia
+  1301: {
+    poolManager: "0x00B036B58a818B1BC34d502D3fE730Db729e62AC",
+    swapRouter: "0x9140a78c1A137c7fF1c151EC8231272aF78a99A4",
+    events: [],
+  },
+  // Base Sepolia
+  84532: {
+    poolManager: "0x05E73354cFDd6745C338b50BcFDfA3Aa6fA03408",
+    swapRouter: "0x8B5bcC363ddE2614281aD875bad385E0A785D3B9",
+    events: [],
+  },
+};
+
+/**
+ * @function getDeployment
+ * @description Looks up the deployment of a chain
+ * @param {number} chainId - Chain id
+ * @returns {ChainDeployment | undefined} Deployment, undefined when nothing is deployed on the chain
+ */
+export function getDeployment(chainId: number): ChainDeployment | undefined {
+  return deployments[chainId];
+}
+
+/**
+ * @interface LocalDeployment
+ * @description Deployment of a development chain, written by the indexer's sandbox script
+ */
+export interface LocalDeployment extends ChainDeployment {
+  chainId: number;
+  /** JSON-RPC endpoint of the development node */
+  rpcUrl: string;
+  /** Mock ERC20 the sandbox events are backed by */
+  backingAsset: Address;
+}
+
+/**
+ * @function serializeLocalDeployment
+ * @description Turns a local deployment into the contents of deployments/local.json
+ * @param {LocalDeployment} deployment - Local deployment
+ * @returns {string} Pretty-printed JSON, with block numbers as decimal strings
+ */
+export function serializeLocalDeployment(deployment: LocalDeployment): string {
+  return `${JSON.stringify(deployment, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2)}\n`;
+}
+
+/**
+ * @function parseLocalDeployment
+ * @description Reads the contents of deployments/local.json
+ * @param {string} json - File contents
+ * @returns {LocalDeployment} Local deployment
+ * @throws {Error} When the file is not a local deployment
+ */
+export function parseLocalDeployment(json: string): LocalDeployment {
+  const parsed = JSON.parse(json) as Omit<LocalDeployment, "events"> & {
+    events?: (Omit<EventDeployment, "startBlock"> & { startBlock: string })[];
+  };
+  if (typeof parsed?.chainId !== "number" || !parsed.poolManager || !Array.isArray(parsed.events)) {
+    throw new Error("deployments/local.json is not a local deployment, rerun the sandbox to rewrite it");
+  }
+
+  return {
+    ...parsed,
+    events: parsed.events.map((event) => ({ ...event, startBlock: BigInt(event.startBlock) })),
+  };
+}
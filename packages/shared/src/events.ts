@@ -0,0 +1,85 @@
+import { parseEventLogs, type Log } from "viem";
+import { eventCoinSimpleHookAbi } from "./abis/eventCoinSimpleHook";
+import { eventTokenAbi } from "./abis/eventToken";
+
+/**
+ * Events emitted by EventToken and EventCoinSimpleHook that describe an event's lifecycle
+ */
+export const unifansEventNames = [
+  "OrganizerTransfer",
+  "HookSet",
+  "BackingAssetDeposited",
+  "LiquidityBootstrapped",
+  "InitialLiquidityAdded",
+] as const;
+
+/**
+ * @type UnifansEventName
+ * @description Name of a UniFans lifecycle event
+ */
+export type UnifansEventName = (typeof unifansEventNames)[number];
+
+/** Combined ABI used to decode logs from either contract */
+const unifansAbi = [...eventTokenAbi, ...eventCoinSimpleHookAbi] as const;
+
+/**
+ * @function decodeUnifansLogs
+ * @description Decodes every UniFans lifecycle event in a list of logs, skipping unrelated logs.
+ * Logs are matched by signature only, so pass logs filtered to the event's contracts.
+ * @param {Log[]} logs - Raw logs, e.g. from a receipt or getLogs
+ * @returns Decoded logs with `eventName` and typed `args`
+ */
+export function decodeUnifansLogs(logs: Log[]) {
+  return parseEventLogs({ abi: unifansAbi, eventName: [...unifansEventNames], logs });
+}
+
+/**
+ * @function parseOrganizerTransferLogs
+ * @description Decodes EventToken OrganizerTransfer logs
+ * @param {Log[]} logs - Raw logs
+ * @returns Decoded OrganizerTransfer logs
+ */
+export function parseOrganizerTransferLogs(logs: Log[]) {
+  return parseEventLogs({ abi: eventTokenAbi, eventName: "OrganizerTransfer", logs });
+}
+
+/**
+ * @function parseHookSetLogs
+ * @description Decodes EventToken HookSet logs
+ * @param {Log[]} logs - Raw logs
+ * @returns Decoded HookSet logs
+ */
+export function parseHookSetLogs(logs: Log[]) {
+  return parseEventLogs({ abi: eventTokenAbi, eventName: "HookSet", logs });
+}
+
+/**
+ * @function parseBackingAssetDepositedLogs
+ * @description Decodes EventCoinSimpleHook BackingAssetDeposited logs
+ * @param {Log[]} logs - Raw logs
+ * @returns Decoded BackingAssetDeposited logs
+ */
+export function parseBackingAssetDepositedLogs(logs: Log[]) {
+  return parseEventLogs({ abi: eventCoinSimpleHookAbi, eventName: "BackingAssetDeposited", logs });
+}
+
+/**
+ * @function parseLiquidityBootstrappedLogs
+ * @description Decodes EventCoinSimpleHook LiquidityBootstrapped logs.
+ * The indexed PoolKey is only available as its hash, which equals the pool id.
+ * @param {Log[]} logs - Raw logs
+ * @returns Decoded LiquidityBootstrapped logs
+ */
+export function parseLiquidityBootstrappedLogs(logs: Log[]) {
+  return parseEventLogs({ abi: eventCoinSimpleHookAbi, eventName: "LiquidityBootstrapped", logs });
+}
+
+/**
+ * @function parseInitialLiquidityAddedLogs
+ * @description Decodes EventCoinSimpleHook InitialLiquidityAdded logs
+ * @param {Log[]} logs - Raw logs
+ * @returns Decoded InitialLiquidityAdded logs
+ */
+export function parseInitialLiquidityAddedLogs(logs: Log[]) {
+  return parseEventLogs({ abi: eventCoinSimpleHookAbi, eventName: "InitialLiquidityAdded", logs });
+}
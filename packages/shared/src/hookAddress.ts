@@ -0,0 +1,226 @@
+import { encodeDeployData, getContractAddress, keccak256, numberToHex, type Address, type Hex } from "viem";
+import { eventCoinSimpleHookAbi, eventCoinSimpleHookBytecode } from "./abis";
+
+/** Bits of a hook address that encode its permissions (Hooks.ALL_HOOK_MASK) */
+export const ALL_HOOK_MASK = (1n << 14n) - 1n;
+
+/** Permission bits of a hook address, as in v4 Hooks.sol */
+export const BEFORE_INITIALIZE_FLAG = 1n << 13n;
+export const AFTER_INITIALIZE_FLAG = 1n << 12n;
+export const BEFORE_ADD_LIQUIDITY_FLAG = 1n << 11n;
+export const AFTER_ADD_LIQUIDITY_FLAG = 1n << 10n;
+export const BEFORE_REMOVE_LIQUIDITY_FLAG = 1n << 9n;
+export const AFTER_REMOVE_LIQUIDITY_FLAG = 1n << 8n;
+export const BEFORE_SWAP_FLAG = 1n << 7n;
+export const AFTER_SWAP_FLAG = 1n << 6n;
+export const BEFORE_DONATE_FLAG = 1n << 5n;
+export const AFTER_DONATE_FLAG = 1n << 4n;
+export const BEFORE_SWAP_RETURNS_DELTA_FLAG = 1n << 3n;
+export const AFTER_SWAP_RETURNS_DELTA_FLAG = 1n << 2n;
+export const AFTER_ADD_LIQUIDITY_RETURNS_DELTA_FLAG = 1n << 1n;
+export const AFTER_REMOVE_LIQUIDITY_RETURNS_DELTA_FLAG = 1n << 0n;
+
+/**
+ * @interface HookPermissions
+ * @description Callbacks a hook implements, mirroring the Hooks.Permissions struct
+ */
+export interface HookPermissions {
+  beforeInitialize: boolean;
+  afterInitialize: boolean;
+  beforeAddLiquidity: boolean;
+  afterAddLiquidity: boolean;
+  beforeRemoveLiquidity: boolean;
+  afterRemoveLiquidity: boolean;
+  beforeSwap: boolean;
+  afterSwap: boolean;
+  beforeDonate: boolean;
+  afterDonate: boolean;
+  beforeSwapReturnDelta: boolean;
+  afterSwapReturnDelta: boolean;
+  afterAddLiquidityReturnDelta: boolean;
+  afterRemoveLiquidityReturnDelta: boolean;
+}
+
+/** Address bit of each permission */
+const permissionFlags: Record<keyof HookPermissions, bigint> = {
+  beforeInitialize: BEFORE_INITIALIZE_FLAG,
+  afterInitialize: AFTER_INITIALIZE_FLAG,
+  beforeAddLiquidity: BEFORE_ADD_LIQUIDITY_FLAG,
+  afterAddLiquidity: AFTER_ADD_LIQUIDITY_FLAG,
+  beforeRemoveLiquidity: BEFORE_REMOVE_LIQUIDITY_FLAG,
+  afterRemoveLiquidity: AFTER_REMOVE_LIQUIDITY_FLAG,
+  beforeSwap: BEFORE_SWAP_FLAG,
+  afterSwap: AFTER_SWAP_FLAG,
+  beforeDonate: BEFORE_DONATE_FLAG,
+  afterDonate: AFTER_DONATE_FLAG,
+  beforeSwapReturnDelta: BEFORE_SWAP_RETURNS_DELTA_FLAG,
+  afterSwapReturnDelta: AFTER_SWAP_RETURNS_DELTA_FLAG,
+  afterAddLiquidityReturnDelta: AFTER_ADD_LIQUIDITY_RETURNS_DELTA_FLAG,
+  afterRemoveLiquidityReturnDelta: AFTER_REMOVE_LIQUIDITY_RETURNS_DELTA_FLAG,
+};
+
+/**
+ * @function getHookFlags
+ * @description Permission bits a hook address must carry for the given permissions
+ * @param {HookPermissions} permissions - Callbacks the hook implements
+ * @returns {bigint} Permission bits
+ */
+export function getHookFlags(permissions: HookPermissions): bigint {
+  let flags = 0n;
+  for (const [name, flag] of Object.entries(permissionFlags)) {
+    if (permissions[name as keyof HookPermissions]) flags |= flag;
+  }
+  return flags;
+}
+
+/** Return value of EventCoinSimpleHook.getHookPermissions(): only afterInitialize, which bootstraps liquidity */
+export const EVENT_HOOK_PERMISSIONS: HookPermissions = {
+  beforeInitialize: false,
+  afterInitialize: true,
+  beforeAddLiquidity: false,
+  afterAddLiquidity: false,
+  beforeRemoveLiquidity: false,
+  afterRemoveLiquidity: false,
+  beforeSwap: false,
+  afterSwap: false,
+  beforeDonate: false,
+  afterDonate: false,
+  beforeSwapReturnDelta: false,
+  afterSwapReturnDelta: false,
+  afterAddLiquidityReturnDelta: false,
+  afterRemoveLiquidityReturnDelta: false,
+};
+
+/** Permission bits EventCoinSimpleHook.getHookPermissions() requires its address to carry */
+export const EVENT_HOOK_FLAGS = getHookFlags(EVENT_HOOK_PERMISSIONS);
+
+/** Deterministic deployment proxy, deployed at the same address on anvil and most public chains */
+export const CREATE2_DEPLOYER: Address = "0x4e59b44847b379578588920cA78FbF26c0B4956C";
+
+/** Default number of salts tried before giving up */
+export const DEFAULT_MAX_ITERATIONS = 1_000_000;
+
+/**
+ * @interface MinedHookAddress
+ * @description CREATE2 salt and the hook address it produces
+ */
+export interface MinedHookAddress {
+  salt: Hex;
+  address: Address;
+}
+
+/**
+ * @interface EventHookConstructorArgs
+ * @description Constructor arguments of an EventCoinSimpleHook
+ */
+export interface EventHookConstructorArgs {
+  poolManager: Address;
+  organizer: Address;
+  eventToken: Address;
+  backingAsset: Address;
+}
+
+/**
+ * @interface HookSaltSearch
+ * @description What a salt search needs to predict CREATE2 addresses
+ */
+export interface HookSaltSearch {
+  /** keccak256 of the creation bytecode with ABI-encoded constructor arguments appended */
+  initCodeHash: Hex;
+  /** Required permission bits */
+  flags: bigint;
+  /** CREATE2 deployer */
+  deployer: Address;
+}
+
+/**
+ * @function getEventHookInitCode
+ * @description Creation code of an EventCoinSimpleHook, including its constructor arguments
+ * @param {EventHookConstructorArgs} args - Constructor arguments
+ * @returns {Hex} Init code to deploy through the CREATE2 deployer
+ */
+export function getEventHookInitCode({ poolManager, organizer, eventToken, backingAsset }: EventHookConstructorArgs): Hex {
+  return encodeDeployData({
+    abi: eventCoinSimpleHookAbi,
+    bytecode: eventCoinSimpleHookBytecode,
+    args: [poolManager, organizer, eventToken, backingAsset],
+  });
+}
+
+/**
+ * @function hasHookFlags
+ * @description Checks that the permission bits of an address are exactly the given flags
+ * @param {Address} address - Hook address
+ * @param {bigint} flags - Expected permission bits
+ * @returns {boolean} Whether PoolManager would accept the address for those permissions
+ */
+export function hasHookFlags(address: Address, flags: bigint): boolean {
+  return (BigInt(address) & ALL_HOOK_MASK) === flags;
+}
+
+/**
+ * @function findHookSalt
+ * @description Tries the salts start, start + 1, ... for an address carrying the given flags.
+ * Salt i is the 32-byte big-endian encoding of i.
+ * @param {HookSaltSearch} search - Init code hash, flags and deployer
+ * @param {number} start - First salt to try
+ * @param {number} count - Salts to try
+ * @returns {MinedHookAddress | null} Lowest matching salt in the range, null when there is none
+ */
+export function findHookSalt(
+  { initCodeHash, flags, deployer }: HookSaltSearch,
+  start: number,
+  count: number
+): MinedHookAddress | null {
+  for (let i = start; i < start + count; i++) {
+    const salt = numberToHex(i, { size: 32 });
+    const address = getContractAddress({ opcode: "CREATE2", from: deployer, salt, bytecodeHash: initCodeHash });
+    if (hasHookFlags(address, flags)) return { salt, address };
+  }
+  return null;
+}
+
+/**
+ * @function mineHookSalt
+ * @description Searches for a CREATE2 salt that deploys a hook to an address carrying the given flags.
+ * The search starts from salt 0, so the same init code always yields the same address.
+ * @param {Object} params - Mining parameters
+ * @param {Hex} [params.initCode] - Creation bytecode with ABI-encoded constructor arguments appended
+ * @param {Hex} [params.initCodeHash] - keccak256 of the init code, instead of initCode
+ * @param {bigint} [params.flags] - Required permission bits, EVENT_HOOK_FLAGS by default
+ * @param {Address} [params.deployer] - CREATE2 deployer, CREATE2_DEPLOYER by default
+ * @param {number} [params.maxIterations] - Salts to try before throwing
+ * @returns {MinedHookAddress} First matching salt and its address
+ */
+export function mineHookSalt({
+  initCode,
+  initCodeHash,
+  flags = EVENT_HOOK_FLAGS,
+  deployer = CREATE2_DEPLOYER,
+  maxIterations = DEFAULT_MAX_ITERATIONS,
+}: {
+  initCode?: Hex;
+  initCodeHash?: Hex;
+  flags?: bigint;
+  deployer?: Address;
+  maxIterations?: number;
+}): MinedHookAddress {
+  const search = { initCodeHash: getInitCodeHash(initCode, initCodeHash), flags, deployer };
+  const mined = findHookSalt(search, 0, maxIterations);
+  if (!mined) throw new Error(`No hook address with flags 0x${flags.toString(16)} found in ${maxIterations} salts`);
+  return mined;
+}
+
+/**
+ * @function getInitCodeHash
+ * @description Init code hash of a salt search given either the init code or its hash
+ * @param {Hex} [initCode] - Creation bytecode with constructor arguments
+ * @param {Hex} [initCodeHash] - keccak256 of the init code
+ * @returns {Hex} Init code hash
+ * @throws {Error} When neither is given
+ */
+export function getInitCodeHash(initCode?: Hex, initCodeHash?: Hex): Hex {
+  if (initCodeHash) return initCodeHash;
+  if (initCode) return keccak256(initCode);
+  throw new Error("Either initCode or initCodeHash is required to mine a hook salt");
+}
@@ -0,0 +1,10 @@
+export * from "./abis";
+export * from "./contracts";
+export * from "./deployments";
+export * from "./events";
+export * from "./hookAddress";
+export * from "./liquidityAmounts";
+export * from "./pool";
+export * from "./quote";
+export * from "./tickMath";
+export * from "./vesting";
@@ -0,0 +1,167 @@
+/**
+ * bigint port of packages/contracts/libraries/LiquidityAmounts.sol and the FullMath
+ * helpers it relies on. Results match the Solidity functions bit for bit.
+ */
+
+/** 2^96, FixedPoint96.Q96 */
+const Q96 = 1n << 96n;
+
+/** type(uint128).max */
+const MAX_UINT128 = (1n << 128n) - 1n;
+
+/**
+ * @function mulDiv
+ * @description floor(a * b / denominator), FullMath.mulDiv without the 256-bit overflow concerns
+ * @param {bigint} a - Multiplicand
+ * @param {bigint} b - Multiplier
+ * @param {bigint} denominator - Divisor
+ * @returns {bigint} Result rounded down
+ */
+export function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  if (denominator === 0n) throw new Error("mulDiv: division by zero");
+  return (a * b) / denominator;
+}
+
+/**
+ * @function mulDivRoundingUp
+ * @description ceil(a * b / denominator), FullMath.mulDivRoundingUp
+ * @param {bigint} a - Multiplicand
+ * @param {bigint} b - Multiplier
+ * @param {bigint} denominator - Divisor
+ * @returns {bigint} Result rounded up
+ */
+export function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const result = mulDiv(a, b, denominator);
+  return (a * b) % denominator === 0n ? result : result + 1n;
+}
+
+/**
+ * @function toUint128
+ * @description Downcasts a liquidity amount, throwing where Solidity reverts
+ * @param {bigint} value - Amount to downcast
+ * @returns {bigint} The same amount
+ */
+function toUint128(value: bigint): bigint {
+  if (value > MAX_UINT128) throw new Error("Liquidity does not fit in uint128");
+  return value;
+}
+
+/**
+ * @function sortPrices
+ * @description Orders two sqrt prices ascending, as every LiquidityAmounts function does first
+ * @param {bigint} sqrtPriceAX96 - First tick boundary
+ * @param {bigint} sqrtPriceBX96 - Second tick boundary
+ * @returns {[bigint, bigint]} Lower and upper sqrt price
+ */
+function sortPrices(sqrtPriceAX96: bigint, sqrtPriceBX96: bigint): [bigint, bigint] {
+  return sqrtPriceAX96 > sqrtPriceBX96 ? [sqrtPriceBX96, sqrtPriceAX96] : [sqrtPriceAX96, sqrtPriceBX96];
+}
+
+/**
+ * @function getLiquidityForAmount0
+ * @description Liquidity received for an amount of currency0 over a price range
+ * @param {bigint} sqrtPriceAX96 - First tick boundary
+ * @param {bigint} sqrtPriceBX96 - Second tick boundary
+ * @param {bigint} amount0 - Raw amount of currency0
+ * @returns {bigint} Liquidity
+ */
+export function getLiquidityForAmount0(sqrtPriceAX96: bigint, sqrtPriceBX96: bigint, amount0: bigint): bigint {
+  const [lower, upper] = sortPrices(sqrtPriceAX96, sqrtPriceBX96);
+  const intermediate = mulDiv(lower, upper, Q96);
+  return toUint128(mulDiv(amount0, intermediate, upper - lower));
+}
+
+/**
+ * @function getLiquidityForAmount1
+ * @description Liquidity received for an amount of currency1 over a price range
+ * @param {bigint} sqrtPriceAX96 - First tick boundary
+ * @param {bigint} sqrtPriceBX96 - Second tick boundary
+ * @param {bigint} amount1 - Raw amount of currency1
+ * @returns {bigint} Liquidity
+ */
+export function getLiquidityForAmount1(sqrtPriceAX96: bigint, sqrtPriceBX96: bigint, amount1: bigint): bigint {
+  const [lower, upper] = sortPrices(sqrtPriceAX96, sqrtPriceBX96);
+  return toUint128(mulDiv(amount1, Q96, upper - lower));
+}
+
+/**
+ * @function getLiquidityForAmounts
+ * @description Largest liquidity both amounts can provide at the current price, the
+ * computation the hook uses when bootstrapping the pool
+ * @param {bigint} sqrtPriceX96 - Current sqrt price of the pool
+ * @param {bigint} sqrtPriceAX96 - First tick boundary
+ * @param {bigint} sqrtPriceBX96 - Second tick boundary
+ * @param {bigint} amount0 - Raw amount of currency0
+ * @param {bigint} amount1 - Raw amount of currency1
+ * @returns {bigint} Liquidity
+ */
+export function getLiquidityForAmounts(
+  sqrtPriceX96: bigint,
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  amount0: bigint,
+  amount1: bigint
+): bigint {
+  const [lower, upper] = sortPrices(sqrtPriceAX96, sqrtPriceBX96);
+
+  if (sqrtPriceX96 <= lower) return getLiquidityForAmount0(lower, upper, amount0);
+  if (sqrtPriceX96 < upper) {
+    const liquidity0 = getLiquidityForAmount0(sqrtPriceX96, upper, amount0);
+    const liquidity1 = getLiquidityForAmount1(lower, sqrtPriceX96, amount1);
+    return liquidity0 < liquidity1 ? liquidity0 : liquidity1;
+  }
+  return getLiquidityForAmount1(lower, upper, amount1);
+}
+
+/**
+ * @function getAmount0ForLiquidity
+ * @description Amount of currency0 held by liquidity over a price range, rounded down
+ * @param {bigint} sqrtPriceAX96 - First tick boundary
+ * @param {bigint} sqrtPriceBX96 - Second tick boundary
+ * @param {bigint} liquidity - Liquidity being valued
+ * @returns {bigint} Raw amount of currency0
+ */
+export function getAmount0ForLiquidity(sqrtPriceAX96: bigint, sqrtPriceBX96: bigint, liquidity: bigint): bigint {
+  const [lower, upper] = sortPrices(sqrtPriceAX96, sqrtPriceBX96);
+  return mulDiv(liquidity << 96n, upper - lower, upper) / lower;
+}
+
+/**
+ * @function getAmount1ForLiquidity
+ * @description Amount of currency1 held by liquidity over a price range, rounded down
+ * @param {bigint} sqrtPriceAX96 - First tick boundary
+ * @param {bigint} sqrtPriceBX96 - Second tick boundary
+ * @param {bigint} liquidity - Liquidity being valued
+ * @returns {bigint} Raw amount of currency1
+ */
+export function getAmount1ForLiquidity(sqrtPriceAX96: bigint, sqrtPriceBX96: bigint, liquidity: bigint): bigint {
+  const [lower, upper] = sortPrices(sqrtPriceAX96, sqrtPriceBX96);
+  return mulDiv(liquidity, upper - lower, Q96);
+}
+
+/**
+ * @function getAmountsForLiquidity
+ * @description Amounts of both currencies held by liquidity at the current price
+ * @param {bigint} sqrtPriceX96 - Current sqrt price of the pool
+ * @param {bigint} sqrtPriceAX96 - First tick boundary
+ * @param {bigint} sqrtPriceBX96 - Second tick boundary
+ * @param {bigint} liquidity - Liquidity being valued
+ * @returns {{ amount0: bigint, amount1: bigint }} Raw amounts of currency0 and currency1
+ */
+export function getAmountsForLiquidity(
+  sqrtPriceX96: bigint,
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint
+): { amount0: bigint; amount1: bigint } {
+  const [lower, upper] = sortPrices(sqrtPriceAX96, sqrtPriceBX96);
+
+  if (sqrtPriceX96 <= lower) return { amount0: getAmount0ForLiquidity(lower, upper, liquidity), amount1: 0n };
+  if (sqrtPriceX96 < upper) {
+    return {
+      amount0: getAmount0ForLiquidity(sqrtPriceX96, upper, liquidity),
+      amount1: getAmount1ForLiquidity(lower, sqrtPriceX96, liquidity),
+    };
+  }
+  return { amount0: 0n, amount1: getAmount1ForLiquidity(lower, upper, liquidity) };
+}
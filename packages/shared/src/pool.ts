@@ -0,0 +1,280 @@
+import {
+  encodeAbiParameters,
+  formatUnits,
+  hexToBigInt,
+  keccak256,
+  numberToHex,
+  type Address,
+  type Hex,
+} from "viem";
+import { MAX_SQRT_PRICE, MIN_SQRT_PRICE } from "./tickMath";
+
+/**
+ * @type PoolKey
+ * @description Uniswap v4 pool key, mirroring the Solidity struct. A type alias rather
+ * than an interface so it is assignable to the tuple types viem infers from the ABIs.
+ */
+export type PoolKey = {
+  currency0: Address;
+  currency1: Address;
+  fee: number;
+  tickSpacing: number;
+  hooks: Address;
+};
+
+/**
+ * @interface Slot0
+ * @description Decoded Slot0 of a v4 pool
+ */
+export interface Slot0 {
+  sqrtPriceX96: bigint;
+  tick: number;
+  protocolFee: number;
+  lpFee: number;
+}
+
+/** Storage slot of the `pools` mapping in PoolManager (StateLibrary.POOLS_SLOT) */
+const POOLS_SLOT = 6n;
+
+/** Offsets of Pool.State fields from the pool state slot (StateLibrary) */
+const LIQUIDITY_OFFSET = 3n;
+const TICKS_OFFSET = 4n;
+const TICK_BITMAP_OFFSET = 5n;
+
+/** 2^96, the fixed point scale of sqrtPriceX96 */
+const Q96 = 2n ** 96n;
+
+/** Lowest sqrt price a swap can move to, plus one (TickMath.MIN_SQRT_PRICE + 1) */
+export const MIN_SQRT_PRICE_LIMIT = MIN_SQRT_PRICE + 1n;
+
+/** Highest sqrt price a swap can move to, minus one (TickMath.MAX_SQRT_PRICE - 1) */
+export const MAX_SQRT_PRICE_LIMIT = MAX_SQRT_PRICE - 1n;
+
+/** Fee denominator of v4 LP fees (hundredths of a bip) */
+export const FEE_DENOMINATOR = 1_000_000n;
+
+/** Decimals every EventToken is deployed with */
+export const EVENT_TOKEN_DECIMALS = 18;
+
+/** Fractional digits kept when converting prices from bigint to number */
+const PRICE_PRECISION = 18;
+
+/**
+ * @function getPoolKey
+ * @description Builds the pool key of an event pool, sorting currencies the way PoolManager requires
+ * @param {Address} eventToken - EventToken address
+ * @param {Address} backingAsset - Backing asset address
+ * @param {Address} hook - EventCoinSimpleHook address
+ * @param {number} fee - LP fee of the pool
+ * @param {number} tickSpacing - Tick spacing of the pool
+ * @returns {PoolKey} Pool key for the event pool
+ */
+export function getPoolKey(
+  eventToken: Address,
+  backingAsset: Address,
+  hook: Address,
+  fee: number,
+  tickSpacing: number
+): PoolKey {
+  const [currency0, currency1] =
+    BigInt(eventToken) < BigInt(backingAsset) ? [eventToken, backingAsset] : [backingAsset, eventToken];
+
+  return { currency0, currency1, fee, tickSpacing, hooks: hook };
+}
+
+/**
+ * @function getPoolId
+ * @description Computes the pool id the same way PoolIdLibrary.toId does
+ * @param {PoolKey} key - Pool key
+ * @returns {Hex} keccak256 of the ABI encoded pool key
+ */
+export function getPoolId(key: PoolKey): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [
+        { type: "address" },
+        { type: "address" },
+        { type: "uint24" },
+        { type: "int24" },
+        { type: "address" },
+      ],
+      [key.currency0, key.currency1, key.fee, key.tickSpacing, key.hooks]
+    )
+  );
+}
+
+/**
+ * @function getPoolStateSlot
+ * @description Storage slot holding Slot0 of a pool, as computed by StateLibrary._getPoolStateSlot
+ * @param {Hex} poolId - Pool id
+ * @returns {Hex} Storage slot to pass to PoolManager.extsload
+ */
+export function getPoolStateSlot(poolId: Hex): Hex {
+  return keccak256(encodeAbiParameters([{ type: "bytes32" }, { type: "uint256" }], [poolId, POOLS_SLOT]));
+}
+
+/**
+ * @function offsetSlot
+ * @description Storage slot a fixed number of words after a pool's state slot
+ * @param {Hex} poolId - Pool id
+ * @param {bigint} offset - Offset of the Pool.State field
+ * @returns {Hex} Storage slot of the field
+ */
+function offsetSlot(poolId: Hex, offset: bigint): Hex {
+  return numberToHex(hexToBigInt(getPoolStateSlot(poolId)) + offset, { size: 32 });
+}
+
+/**
+ * @function getPoolLiquiditySlot
+ * @description Storage slot holding the in-range liquidity of a pool (StateLibrary.getLiquidity)
+ * @param {Hex} poolId - Pool id
+ * @returns {Hex} Storage slot to pass to PoolManager.extsload
+ */
+export function getPoolLiquiditySlot(poolId: Hex): Hex {
+  return offsetSlot(poolId, LIQUIDITY_OFFSET);
+}
+
+/**
+ * @function getTickInfoSlot
+ * @description Storage slot holding the gross and net liquidity of a tick (StateLibrary._getTickInfoSlot)
+ * @param {Hex} poolId - Pool id
+ * @param {number} tick - Initialized tick
+ * @returns {Hex} Storage slot to pass to PoolManager.extsload
+ */
+export function getTickInfoSlot(poolId: Hex, tick: number): Hex {
+  return keccak256(
+    encodeAbiParameters([{ type: "int256" }, { type: "bytes32" }], [BigInt(tick), offsetSlot(poolId, TICKS_OFFSET)])
+  );
+}
+
+/**
+ * @function getTickBitmapSlot
+ * @description Storage slot holding one word of a pool's tick bitmap (StateLibrary.getTickBitmap)
+ * @param {Hex} poolId - Pool id
+ * @param {number} wordPos - Word position of the compressed tick
+ * @returns {Hex} Storage slot to pass to PoolManager.extsload
+ */
+export function getTickBitmapSlot(poolId: Hex, wordPos: number): Hex {
+  return keccak256(
+    encodeAbiParameters(
+      [{ type: "int256" }, { type: "bytes32" }],
+      [BigInt(wordPos), offsetSlot(poolId, TICK_BITMAP_OFFSET)]
+    )
+  );
+}
+
+/**
+ * @function decodeTickLiquidityNet
+ * @description Unpacks the net liquidity added when a tick is crossed left to right
+ * @param {Hex} word - Raw storage value of the tick info slot
+ * @returns {bigint} Signed liquidityNet of the tick
+ */
+export function decodeTickLiquidityNet(word: Hex): bigint {
+  return BigInt.asIntN(128, hexToBigInt(word) >> 128n);
+}
+
+/**
+ * @function decodeSlot0
+ * @description Unpacks the Slot0 word read from PoolManager storage
+ * @param {Hex} word - Raw storage value
+ * @returns {Slot0} Decoded pool price, tick and fees
+ */
+export function decodeSlot0(word: Hex): Slot0 {
+  const value = hexToBigInt(word);
+  const rawTick = Number((value >> 160n) & 0xffffffn);
+
+  return {
+    sqrtPriceX96: value & ((1n << 160n) - 1n),
+    tick: rawTick >= 0x800000 ? rawTick - 0x1000000 : rawTick,
+    protocolFee: Number((value >> 184n) & 0xffffffn),
+    lpFee: Number((value >> 208n) & 0xffffffn),
+  };
+}
+
+/**
+ * @function decodeBalanceDelta
+ * @description Unpacks a v4 BalanceDelta, as returned by swap routers. Positive amounts are
+ * owed to the caller, negative ones are paid by it.
+ * @param {bigint} delta - Packed int256 delta
+ * @returns {{ amount0: bigint, amount1: bigint }} Signed amounts of currency0 and currency1
+ */
+export function decodeBalanceDelta(delta: bigint): { amount0: bigint; amount1: bigint } {
+  return { amount0: BigInt.asIntN(128, delta >> 128n), amount1: BigInt.asIntN(128, delta) };
+}
+
+/**
+ * @function sqrtPriceX96ToTokenPrice
+ * @description Converts a pool price into backing asset units per whole event token
+ * @param {bigint} sqrtPriceX96 - Current sqrt price of the pool
+ * @param {boolean} tokenIsCurrency0 - Whether the event token is currency0 of the pool
+ * @param {number} backingDecimals - Decimals of the backing asset
+ * @returns {number} Price of one event token in the backing asset, 0 for an uninitialized pool
+ */
+export function sqrtPriceX96ToTokenPrice(
+  sqrtPriceX96: bigint,
+  tokenIsCurrency0: boolean,
+  backingDecimals: number
+): number {
+  if (sqrtPriceX96 === 0n) return 0;
+
+  const priceX192 = sqrtPriceX96 * sqrtPriceX96;
+  const scale = 10n ** BigInt(EVENT_TOKEN_DECIMALS + PRICE_PRECISION);
+  const backingScale = 10n ** BigInt(backingDecimals);
+
+  // currency1 per currency0 in raw units is priceX192 / 2^192
+  const scaledPrice = tokenIsCurrency0
+    ? (priceX192 * scale) / (Q96 * Q96 * backingScale)
+    : (Q96 * Q96 * scale) / (priceX192 * backingScale);
+
+  return Number(formatUnits(scaledPrice, PRICE_PRECISION));
+}
+
+/**
+ * @function sqrt
+ * @description Integer square root, rounded down (Newton's method)
+ * @param {bigint} value - Non-negative integer
+ * @returns {bigint} floor(sqrt(value))
+ */
+function sqrt(value: bigint): bigint {
+  if (value < 2n) return value;
+
+  let root = value;
+  let next = (root + 1n) / 2n;
+  while (next < root) {
+    root = next;
+    next = (root + value / root) / 2n;
+  }
+  return root;
+}
+
+/**
+ * @function encodeSqrtPriceX96
+ * @description Sqrt price at which a pool trades amount1 of currency1 for amount0 of currency0,
+ * the price to initialize a pool with so full range liquidity uses both amounts
+ * @param {bigint} amount1 - Raw amount of currency1
+ * @param {bigint} amount0 - Raw amount of currency0
+ * @returns {bigint} sqrt(amount1 / amount0) as a Q64.96 number
+ */
+export function encodeSqrtPriceX96(amount1: bigint, amount0: bigint): bigint {
+  if (amount0 === 0n) throw new Error("amount0 must be greater than zero");
+  return sqrt((amount1 << 192n) / amount0);
+}
+
+/**
+ * @function getSqrtPriceLimit
+ * @description Price limit that lets a swap move the price at most a slippage tolerance past
+ * its quoted end price. v4 swaps stop at the limit instead of reverting, so a trade pushed
+ * beyond it by earlier transactions fills only partially, never at a worse price.
+ * @param {bigint} sqrtPriceX96After - Quoted sqrt price once the swap is done
+ * @param {boolean} zeroForOne - Swap direction, zeroForOne swaps lower the price
+ * @param {bigint} slippageBps - Slippage tolerance in basis points
+ * @returns {bigint} sqrtPriceLimitX96 for the swap, within the limits PoolManager accepts
+ */
+export function getSqrtPriceLimit(sqrtPriceX96After: bigint, zeroForOne: boolean, slippageBps: bigint): bigint {
+  const factor = zeroForOne ? 10_000n - slippageBps : 10_000n + slippageBps;
+  const limit = sqrt((sqrtPriceX96After * sqrtPriceX96After * factor) / 10_000n);
+
+  if (limit < MIN_SQRT_PRICE_LIMIT) return MIN_SQRT_PRICE_LIMIT;
+  if (limit > MAX_SQRT_PRICE_LIMIT) return MAX_SQRT_PRICE_LIMIT;
+  return limit;
+}
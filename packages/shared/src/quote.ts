@@ -0,0 +1,439 @@
+import {
+  getAmount0ForLiquidity,
+  getAmount1ForLiquidity,
+  mulDiv,
+  mulDivRoundingUp,
+} from "./liquidityAmounts";
+import { FEE_DENOMINATOR, MAX_SQRT_PRICE_LIMIT, MIN_SQRT_PRICE_LIMIT } from "./pool";
+import { MAX_TICK, MIN_TICK, getSqrtPriceAtTick } from "./tickMath";
+
+/**
+ * @interface PoolQuoteState
+ * @description Pool state a swap quote starts from
+ */
+export interface PoolQuoteState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  /** In-range liquidity */
+  liquidity: bigint;
+  lpFee: number;
+  /** Packed protocol fees of both directions, as stored in Slot0 */
+  protocolFee: number;
+  tickSpacing: number;
+}
+
+/**
+ * @interface TickLiquidityReader
+ * @description Reads the initialized ticks a swap may cross
+ */
+export interface TickLiquidityReader {
+  /** Word of the tick bitmap at a word position */
+  getTickBitmap: (wordPos: number) => Promise<bigint>;
+  /** Net liquidity added when crossing a tick left to right */
+  getLiquidityNet: (tick: number) => Promise<bigint>;
+}
+
+/**
+ * @interface SwapQuoteParams
+ * @description Swap to quote, mirroring the v4 SwapParams
+ */
+export interface SwapQuoteParams {
+  zeroForOne: boolean;
+  /** Negative for exact input, positive for exact output (v4 convention) */
+  amountSpecified: bigint;
+  /** Price the swap stops at, filling partially. Defaults to the widest limit */
+  sqrtPriceLimitX96?: bigint;
+}
+
+/**
+ * @interface SwapQuote
+ * @description Amounts a swap exchanges, in raw units of the currencies paid and received
+ */
+export interface SwapQuote {
+  /** Amount paid, fees included */
+  amountIn: bigint;
+  amountOut: bigint;
+  /** Part of amountIn kept as LP and protocol fees */
+  feeAmount: bigint;
+  /** Pool price once the swap is done */
+  sqrtPriceX96After: bigint;
+  /** Initialized ticks crossed on the way */
+  ticksCrossed: number;
+  /**
+   * Part of amountSpecified left unfilled because the swap reached sqrtPriceLimitX96,
+   * in the same sign convention. 0 when the amount was filled
+   */
+  amountRemaining: bigint;
+  /** How much worse than the spot price the swap fills, fees excluded (0.01 = 1%) */
+  priceImpact: number;
+}
+
+/** 2^96, FixedPoint96.Q96 */
+const Q96 = 1n << 96n;
+
+/** type(uint256).max, beyond which Solidity math overflows */
+const MAX_UINT256 = (1n << 256n) - 1n;
+
+/** Basis points in 100% */
+const BPS_DENOMINATOR = 10_000n;
+
+/** Precision of the price impact before it is converted to a number (parts per million) */
+const IMPACT_PRECISION = 1_000_000n;
+
+/**
+ * @function divRoundingUp
+ * @description ceil(x / y), UnsafeMath.divRoundingUp
+ * @param {bigint} x - Dividend
+ * @param {bigint} y - Divisor
+ * @returns {bigint} Quotient rounded up
+ */
+function divRoundingUp(x: bigint, y: bigint): bigint {
+  return x / y + (x % y === 0n ? 0n : 1n);
+}
+
+/**
+ * @function getAmount0Delta
+ * @description Amount of currency0 between two prices for some liquidity (SqrtPriceMath.getAmount0Delta)
+ * @param {bigint} sqrtPriceAX96 - First sqrt price
+ * @param {bigint} sqrtPriceBX96 - Second sqrt price
+ * @param {bigint} liquidity - Usable liquidity
+ * @param {boolean} roundUp - Whether to round up, for amounts the pool receives
+ * @returns {bigint} Raw amount of currency0
+ */
+export function getAmount0Delta(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  if (!roundUp) return getAmount0ForLiquidity(sqrtPriceAX96, sqrtPriceBX96, liquidity);
+
+  const [lower, upper] =
+    sqrtPriceAX96 > sqrtPriceBX96 ? [sqrtPriceBX96, sqrtPriceAX96] : [sqrtPriceAX96, sqrtPriceBX96];
+  return divRoundingUp(mulDivRoundingUp(liquidity << 96n, upper - lower, upper), lower);
+}
+
+/**
+ * @function getAmount1Delta
+ * @description Amount of currency1 between two prices for some liquidity (SqrtPriceMath.getAmount1Delta)
+ * @param {bigint} sqrtPriceAX96 - First sqrt price
+ * @param {bigint} sqrtPriceBX96 - Second sqrt price
+ * @param {bigint} liquidity - Usable liquidity
+ * @param {boolean} roundUp - Whether to round up, for amounts the pool receives
+ * @returns {bigint} Raw amount of currency1
+ */
+export function getAmount1Delta(
+  sqrtPriceAX96: bigint,
+  sqrtPriceBX96: bigint,
+  liquidity: bigint,
+  roundUp: boolean
+): bigint {
+  if (!roundUp) return getAmount1ForLiquidity(sqrtPriceAX96, sqrtPriceBX96, liquidity);
+
+  const difference = sqrtPriceAX96 > sqrtPriceBX96 ? sqrtPriceAX96 - sqrtPriceBX96 : sqrtPriceBX96 - sqrtPriceAX96;
+  return mulDivRoundingUp(liquidity, difference, Q96);
+}
+
+/**
+ * @function getNextSqrtPriceFromAmount0RoundingUp
+ * @description Price after adding or removing currency0 (SqrtPriceMath), including its
+ * fallback formula for products that overflow 256 bits
+ * @param {bigint} sqrtPriceX96 - Starting sqrt price
+ * @param {bigint} liquidity - Usable liquidity
+ * @param {bigint} amount - Raw amount of currency0
+ * @param {boolean} add - Whether the amount is added to the pool
+ * @returns {bigint} Next sqrt price, rounded up
+ */
+function getNextSqrtPriceFromAmount0RoundingUp(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (amount === 0n) return sqrtPriceX96;
+
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtPriceX96;
+
+  if (add) {
+    if (product <= MAX_UINT256 && numerator1 + product <= MAX_UINT256) {
+      return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 + product);
+    }
+    return divRoundingUp(numerator1, numerator1 / sqrtPriceX96 + amount);
+  }
+
+  if (product > MAX_UINT256 || numerator1 <= product) {
+    throw new Error("The pool doesn't have enough liquidity for this trade");
+  }
+  return mulDivRoundingUp(numerator1, sqrtPriceX96, numerator1 - product);
+}
+
+/**
+ * @function getNextSqrtPriceFromAmount1RoundingDown
+ * @description Price after adding or removing currency1 (SqrtPriceMath)
+ * @param {bigint} sqrtPriceX96 - Starting sqrt price
+ * @param {bigint} liquidity - Usable liquidity
+ * @param {bigint} amount - Raw amount of currency1
+ * @param {boolean} add - Whether the amount is added to the pool
+ * @returns {bigint} Next sqrt price, rounded down
+ */
+function getNextSqrtPriceFromAmount1RoundingDown(
+  sqrtPriceX96: bigint,
+  liquidity: bigint,
+  amount: bigint,
+  add: boolean
+): bigint {
+  if (add) return sqrtPriceX96 + mulDiv(amount, Q96, liquidity);
+
+  const quotient = mulDivRoundingUp(amount, Q96, liquidity);
+  if (sqrtPriceX96 <= quotient) throw new Error("The pool doesn't have enough liquidity for this trade");
+  return sqrtPriceX96 - quotient;
+}
+
+/**
+ * @function computeSwapStep
+ * @description One step of a swap within a single liquidity range (SwapMath.computeSwapStep)
+ * @param {bigint} sqrtPriceCurrentX96 - Current sqrt price
+ * @param {bigint} sqrtPriceTargetX96 - Price the step can't go past
+ * @param {bigint} liquidity - Usable liquidity
+ * @param {bigint} amountRemaining - Amount left to swap, negative for exact input
+ * @param {bigint} feePips - Swap fee in hundredths of a bip
+ * @returns {{ sqrtPriceNextX96: bigint, amountIn: bigint, amountOut: bigint, feeAmount: bigint }} Price after the step and the amounts it exchanged
+ */
+export function computeSwapStep(
+  sqrtPriceCurrentX96: bigint,
+  sqrtPriceTargetX96: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: bigint
+): { sqrtPriceNextX96: bigint; amountIn: bigint; amountOut: bigint; feeAmount: bigint } {
+  const zeroForOne = sqrtPriceCurrentX96 >= sqrtPriceTargetX96;
+  let sqrtPriceNextX96: bigint;
+  let amountIn: bigint;
+  let amountOut: bigint;
+  let feeAmount: bigint;
+
+  if (amountRemaining < 0n) {
+    const amountRemainingLessFee = mulDiv(-amountRemaining, FEE_DENOMINATOR - feePips, FEE_DENOMINATOR);
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtPriceTargetX96, sqrtPriceCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtPriceCurrentX96, sqrtPriceTargetX96, liquidity, true);
+
+    if (amountRemainingLessFee >= amountIn) {
+      sqrtPriceNextX96 = sqrtPriceTargetX96;
+      feeAmount =
+        feePips === FEE_DENOMINATOR ? amountIn : mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+    } else {
+      amountIn = amountRemainingLessFee;
+      sqrtPriceNextX96 = zeroForOne
+        ? getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceCurrentX96, liquidity, amountRemainingLessFee, true)
+        : getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceCurrentX96, liquidity, amountRemainingLessFee, true);
+      // The target wasn't reached, so whatever is left of the input is the fee
+      feeAmount = -amountRemaining - amountIn;
+    }
+
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, false);
+  } else {
+    amountOut = zeroForOne
+      ? getAmount1Delta(sqrtPriceTargetX96, sqrtPriceCurrentX96, liquidity, false)
+      : getAmount0Delta(sqrtPriceCurrentX96, sqrtPriceTargetX96, liquidity, false);
+
+    if (amountRemaining >= amountOut) {
+      sqrtPriceNextX96 = sqrtPriceTargetX96;
+    } else {
+      amountOut = amountRemaining;
+      sqrtPriceNextX96 = zeroForOne
+        ? getNextSqrtPriceFromAmount1RoundingDown(sqrtPriceCurrentX96, liquidity, amountOut, false)
+        : getNextSqrtPriceFromAmount0RoundingUp(sqrtPriceCurrentX96, liquidity, amountOut, false);
+    }
+
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtPriceNextX96, sqrtPriceCurrentX96, liquidity, true)
+      : getAmount1Delta(sqrtPriceCurrentX96, sqrtPriceNextX96, liquidity, true);
+    feeAmount = mulDivRoundingUp(amountIn, feePips, FEE_DENOMINATOR - feePips);
+  }
+
+  return { sqrtPriceNextX96, amountIn, amountOut, feeAmount };
+}
+
+/**
+ * @function getSwapFee
+ * @description Fee charged on a swap direction, LP fee plus protocol fee (ProtocolFeeLibrary.calculateSwapFee)
+ * @param {PoolQuoteState} pool - Pool state
+ * @param {boolean} zeroForOne - Swap direction
+ * @returns {bigint} Fee in hundredths of a bip
+ */
+function getSwapFee(pool: PoolQuoteState, zeroForOne: boolean): bigint {
+  const protocolFee = BigInt(zeroForOne ? pool.protocolFee & 0xfff : pool.protocolFee >> 12);
+  const lpFee = BigInt(pool.lpFee);
+  if (protocolFee === 0n) return lpFee;
+  return protocolFee + lpFee - (protocolFee * lpFee) / FEE_DENOMINATOR;
+}
+
+/**
+ * @function nextInitializedTickWithinOneWord
+ * @description Next initialized tick in the swap direction, or the edge of the current bitmap word
+ * (TickBitmap.nextInitializedTickWithinOneWord)
+ * @param {TickLiquidityReader} reader - Tick bitmap reader
+ * @param {number} tick - Current tick
+ * @param {number} tickSpacing - Tick spacing of the pool
+ * @param {boolean} lte - Whether to search left (zeroForOne)
+ * @returns {Promise<{ next: number, initialized: boolean }>} Next tick and whether it has liquidity
+ */
+async function nextInitializedTickWithinOneWord(
+  reader: TickLiquidityReader,
+  tick: number,
+  tickSpacing: number,
+  lte: boolean
+): Promise<{ next: number; initialized: boolean }> {
+  let compressed = Math.floor(tick / tickSpacing);
+
+  if (lte) {
+    const bitPos = compressed & 0xff;
+    const masked = (await reader.getTickBitmap(compressed >> 8)) & ((1n << BigInt(bitPos + 1)) - 1n);
+    const initialized = masked !== 0n;
+    const next = initialized ? compressed - (bitPos - mostSignificantBit(masked)) : compressed - bitPos;
+    return { next: next * tickSpacing, initialized };
+  }
+
+  // Start from the word of the next tick, the current tick's state doesn't matter
+  compressed += 1;
+  const bitPos = compressed & 0xff;
+  const masked = (await reader.getTickBitmap(compressed >> 8)) & ~((1n << BigInt(bitPos)) - 1n);
+  const initialized = masked !== 0n;
+  const next = initialized ? compressed + (mostSignificantBit(masked & -masked) - bitPos) : compressed + (255 - bitPos);
+  return { next: next * tickSpacing, initialized };
+}
+
+/**
+ * @function mostSignificantBit
+ * @description Index of the highest set bit (BitMath.mostSignificantBit)
+ * @param {bigint} value - Non-zero value
+ * @returns {number} Bit index
+ */
+function mostSignificantBit(value: bigint): number {
+  return value.toString(2).length - 1;
+}
+
+/**
+ * @function getPriceImpact
+ * @description Shortfall of a swap's output against converting its input at the spot price, fees excluded
+ * @param {bigint} sqrtPriceX96 - Spot sqrt price before the swap
+ * @param {boolean} zeroForOne - Swap direction
+ * @param {bigint} amountIn - Input that reached the pool, fees excluded
+ * @param {bigint} amountOut - Output of the swap
+ * @returns {number} Price impact as a fraction
+ */
+function getPriceImpact(sqrtPriceX96: bigint, zeroForOne: boolean, amountIn: bigint, amountOut: bigint): number {
+  const priceX192 = sqrtPriceX96 * sqrtPriceX96;
+  const spotOut = zeroForOne ? mulDiv(amountIn, priceX192, Q96 * Q96) : mulDiv(amountIn, Q96 * Q96, priceX192);
+  if (spotOut === 0n || amountOut >= spotOut) return 0;
+  return Number(((spotOut - amountOut) * IMPACT_PRECISION) / spotOut) / Number(IMPACT_PRECISION);
+}
+
+/**
+ * @function quoteSwap
+ * @description Simulates a v4 swap step by step the way Pool.swap does, crossing
+ * initialized ticks as the price moves, so the quote matches what the swap will exchange
+ * against the given pool state.
+ *
+ * A swap that reaches the given `sqrtPriceLimitX96` stops there like Pool.swap does, and
+ * the quote is the partial fill with the unfilled part in `amountRemaining`.
+ *
+ * @param {PoolQuoteState} pool - Pool state the swap starts from
+ * @param {SwapQuoteParams} params - Direction and amount of the swap
+ * @param {TickLiquidityReader} reader - Source of the tick bitmap and tick liquidity
+ * @returns {Promise<SwapQuote>} Amounts exchanged, fee and price impact
+ * @throws {Error} When the pool runs out of liquidity before the amount is filled, which
+ * is reaching the default price limit
+ */
+export async function quoteSwap(
+  pool: PoolQuoteState,
+  params: SwapQuoteParams,
+  reader: TickLiquidityReader
+): Promise<SwapQuote> {
+  const { zeroForOne, amountSpecified } = params;
+  const sqrtPriceLimitX96 = params.sqrtPriceLimitX96 ?? (zeroForOne ? MIN_SQRT_PRICE_LIMIT : MAX_SQRT_PRICE_LIMIT);
+  const exactInput = amountSpecified < 0n;
+  const swapFee = getSwapFee(pool, zeroForOne);
+
+  if (pool.sqrtPriceX96 === 0n) throw new Error("The pool is not initialized");
+  if (!exactInput && swapFee >= FEE_DENOMINATOR) throw new Error("Exact output swaps need a fee below 100%");
+  if (zeroForOne ? sqrtPriceLimitX96 >= pool.sqrtPriceX96 : sqrtPriceLimitX96 <= pool.sqrtPriceX96) {
+    throw new Error("The price limit is already exceeded");
+  }
+
+  let remaining = amountSpecified;
+  let sqrtPriceX96 = pool.sqrtPriceX96;
+  let tick = pool.tick;
+  let liquidity = pool.liquidity;
+  let amountIn = 0n;
+  let amountOut = 0n;
+  let feeAmount = 0n;
+  let ticksCrossed = 0;
+
+  while (remaining !== 0n && sqrtPriceX96 !== sqrtPriceLimitX96) {
+    const { next, initialized } = await nextInitializedTickWithinOneWord(reader, tick, pool.tickSpacing, zeroForOne);
+    const tickNext = Math.min(Math.max(next, MIN_TICK), MAX_TICK);
+    const sqrtPriceNextX96 = getSqrtPriceAtTick(tickNext);
+    const sqrtPriceTargetX96 = zeroForOne
+      ? sqrtPriceNextX96 < sqrtPriceLimitX96 ? sqrtPriceLimitX96 : sqrtPriceNextX96
+      : sqrtPriceNextX96 > sqrtPriceLimitX96 ? sqrtPriceLimitX96 : sqrtPriceNextX96;
+
+    const step = computeSwapStep(sqrtPriceX96, sqrtPriceTargetX96, liquidity, remaining, swapFee);
+    sqrtPriceX96 = step.sqrtPriceNextX96;
+    amountIn += step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+    feeAmount += step.feeAmount;
+    remaining = exactInput ? remaining + step.amountIn + step.feeAmount : remaining - step.amountOut;
+
+    // Stopping short of the next tick means the amount is filled
+    if (sqrtPriceX96 !== sqrtPriceNextX96) break;
+
+    if (initialized) {
+      const liquidityNet = await reader.getLiquidityNet(tickNext);
+      liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+      ticksCrossed += 1;
+    }
+    tick = zeroForOne ? tickNext - 1 : tickNext;
+  }
+
+  // Swaps only stop early at their price limit: a given one is a partial fill, the default one an empty pool
+  if (remaining !== 0n && params.sqrtPriceLimitX96 === undefined) {
+    throw new Error("The pool doesn't have enough liquidity for this trade");
+  }
+
+  return {
+    amountIn,
+    amountOut,
+    feeAmount,
+    sqrtPriceX96After: sqrtPriceX96,
+    ticksCrossed,
+    amountRemaining: remaining,
+    priceImpact: getPriceImpact(pool.sqrtPriceX96, zeroForOne, amountIn - feeAmount, amountOut),
+  };
+}
+
+/**
+ * @function getMinimumAmountOut
+ * @description Lowest output accepted for a quote at a slippage tolerance
+ * @param {bigint} amountOut - Quoted output
+ * @param {bigint} slippageBps - Slippage tolerance in basis points
+ * @returns {bigint} Minimum output, rounded down
+ */
+export function getMinimumAmountOut(amountOut: bigint, slippageBps: bigint): bigint {
+  return mulDiv(amountOut, BPS_DENOMINATOR - slippageBps, BPS_DENOMINATOR);
+}
+
+/**
+ * @function getMaximumAmountIn
+ * @description Highest input accepted for a quote at a slippage tolerance
+ * @param {bigint} amountIn - Quoted input
+ * @param {bigint} slippageBps - Slippage tolerance in basis points
+ * @returns {bigint} Maximum input, rounded up
+ */
+export function getMaximumAmountIn(amountIn: bigint, slippageBps: bigint): bigint {
+  return mulDivRoundingUp(amountIn, BPS_DENOMINATOR + slippageBps, BPS_DENOMINATOR);
+}
@@ -0,0 +1,61 @@
+import type { VestingInfo } from "./contracts";
+
+/**
+ * @type VestingSchedule
+ * @description Vesting fields the unlock math depends on
+ */
+export type VestingSchedule = Pick<VestingInfo, "startTime" | "endTime" | "totalAmount" | "remaining">;
+
+/**
+ * @function getTokensPerSecond
+ * @description Organizer tokens unlocked per second, as fixed by the EventToken constructor
+ * @param {VestingSchedule} vesting - Vesting window and allocation
+ * @returns {bigint} Raw tokens per second, rounded down like the contract
+ */
+export function getTokensPerSecond(vesting: VestingSchedule): bigint {
+  const duration = vesting.endTime - vesting.startTime;
+  return duration > 0n ? vesting.totalAmount / duration : vesting.totalAmount;
+}
+
+/**
+ * @function getUnlockedAmount
+ * @description Organizer tokens the schedule has unlocked at a time, ignoring what was already moved
+ * @param {VestingSchedule} vesting - Vesting window and allocation
+ * @param {bigint} timestamp - Unix time in seconds
+ * @returns {bigint} Raw unlocked amount, between 0 and the allocation
+ */
+export function getUnlockedAmount(vesting: VestingSchedule, timestamp: bigint): bigint {
+  if (timestamp < vesting.startTime) return 0n;
+  if (timestamp >= vesting.endTime) return vesting.totalAmount;
+
+  const unlocked = getTokensPerSecond(vesting) * (timestamp - vesting.startTime);
+  return unlocked > vesting.totalAmount ? vesting.totalAmount : unlocked;
+}
+
+/**
+ * @function getTransferableAmount
+ * @description Mirrors EventToken.organizerTransferableAmount() at a given time:
+ * `tokensPerSecond * elapsed`, capped by the organizer's remaining balance, everything after the event
+ * @param {VestingSchedule} vesting - Vesting window, allocation and remaining organizer balance
+ * @param {bigint} timestamp - Unix time in seconds
+ * @returns {bigint} Raw amount the organizer can transfer
+ */
+export function getTransferableAmount(vesting: VestingSchedule, timestamp: bigint): bigint {
+  if (timestamp < vesting.startTime) return 0n;
+  if (timestamp >= vesting.endTime) return vesting.remaining;
+
+  const unlocked = getTokensPerSecond(vesting) * (timestamp - vesting.startTime);
+  return unlocked > vesting.remaining ? vesting.remaining : unlocked;
+}
+
+/**
+ * @function getUnlockTime
+ * @description Time at which the schedule has unlocked a share of the allocation
+ * @param {VestingSchedule} vesting - Vesting window and allocation
+ * @param {number} percent - Share of the allocation, 0 to 100
+ * @returns {bigint} Unix time in seconds
+ */
+export function getUnlockTime(vesting: VestingSchedule, percent: number): bigint {
+  const duration = vesting.endTime - vesting.startTime;
+  return vesting.startTime + (duration * BigInt(Math.round(percent * 100))) / 10_000n;
+}
@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { getContractAddress, keccak256, type Hex } from "viem";
+import { mineHookSaltParallel } from "../scripts/hookMiner";
+import {
+  AFTER_INITIALIZE_FLAG,
+  ALL_HOOK_MASK,
+  BEFORE_SWAP_FLAG,
+  CREATE2_DEPLOYER,
+  EVENT_HOOK_FLAGS,
+  EVENT_HOOK_PERMISSIONS,
+  findHookSalt,
+  getHookFlags,
+  hasHookFlags,
+  mineHookSalt,
+} from "../src/hookAddress";
+
+/** Stand-in for the init code hash of a hook, mining only depends on the hash */
+const INIT_CODE_HASH: Hex = keccak256("0x1234");
+
+/**
+ * @function assertMined
+ * @description Checks that a mined salt deploys to its address and that the address carries exactly the flags
+ * @param {{ salt: Hex; address: Hex }} mined - Mined salt and address
+ * @param {bigint} flags - Requested permission bits
+ */
+function assertMined({ salt, address }: { salt: Hex; address: Hex }, flags: bigint) {
+  assert.equal(
+    address,
+    getContractAddress({ opcode: "CREATE2", from: CREATE2_DEPLOYER, salt, bytecodeHash: INIT_CODE_HASH })
+  );
+  assert.equal(BigInt(address) & ALL_HOOK_MASK, flags);
+  assert.ok(hasHookFlags(address, flags));
+}
+
+describe("getHookFlags", () => {
+  it("sets only afterInitialize for EventCoinSimpleHook", () => {
+    assert.equal(getHookFlags(EVENT_HOOK_PERMISSIONS), AFTER_INITIALIZE_FLAG);
+    assert.equal(EVENT_HOOK_FLAGS, 0x1000n);
+  });
+
+  it("combines the bits of every enabled permission", () => {
+    const permissions = { ...EVENT_HOOK_PERMISSIONS, beforeSwap: true };
+    assert.equal(getHookFlags(permissions), AFTER_INITIALIZE_FLAG | BEFORE_SWAP_FLAG);
+  });
+});
+
+describe("hasHookFlags", () => {
+  it("requires the permission bits to match exactly", () => {
+    assert.ok(hasHookFlags("0x0000000000000000000000000000000000001000", EVENT_HOOK_FLAGS));
+    assert.ok(hasHookFlags("0xffffffffffffffffffffffffffffffffffffc000", 0n));
+    // An extra bit would make PoolManager call a callback the hook doesn't implement
+    assert.ok(!hasHookFlags("0x0000000000000000000000000000000000001080", EVENT_HOOK_FLAGS));
+    assert.ok(!hasHookFlags("0x0000000000000000000000000000000000000000", EVENT_HOOK_FLAGS));
+  });
+});
+
+describe("mineHookSalt", () => {
+  it("mines an address with exactly the event hook flags", () => {
+    const mined = mineHookSalt({ initCodeHash: INIT_CODE_HASH });
+    assertMined(mined, EVENT_HOOK_FLAGS);
+  });
+
+  it("mines an address with exactly other requested flags", () => {
+    const flags = AFTER_INITIALIZE_FLAG | BEFORE_SWAP_FLAG;
+    assertMined(mineHookSalt({ initCodeHash: INIT_CODE_HASH, flags }), flags);
+  });
+
+  it("returns the lowest matching salt", () => {
+    const { salt } = mineHookSalt({ initCodeHash: INIT_CODE_HASH });
+    const search = { initCodeHash: INIT_CODE_HASH, flags: EVENT_HOOK_FLAGS, deployer: CREATE2_DEPLOYER };
+    assert.equal(findHookSalt(search, 0, Number(BigInt(salt))), null);
+  });
+
+  it("throws when no salt below maxIterations matches", () => {
+    assert.throws(() => mineHookSalt({ initCodeHash: INIT_CODE_HASH, maxIterations: 10 }), /No hook address/);
+  });
+});
+
+describe("mineHookSaltParallel", () => {
+  it("finds the same salt as mineHookSalt across workers", async () => {
+    const mined = await mineHookSaltParallel({ initCodeHash: INIT_CODE_HASH, workers: 2 });
+    assertMined(mined, EVENT_HOOK_FLAGS);
+    assert.deepEqual(mined, mineHookSalt({ initCodeHash: INIT_CODE_HASH }));
+  });
+});
@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { spawnSync } from "node:child_process";
+import { describe, it } from "node:test";
+import { fileURLToPath } from "node:url";
+
+const script = fileURLToPath(new URL("../scripts/mine-hook-salt.ts", import.meta.url));
+
+/**
+ * @function mineHook
+ * @description Runs the mine-hook CLI
+ * @param {string[]} args - Command line arguments
+ * @returns Exit code and output of the CLI
+ */
+function mineHook(...args: string[]) {
+  const { status, stdout, stderr } = spawnSync(process.execPath, ["--import", "tsx", script, ...args], {
+    encoding: "utf8",
+    timeout: 60_000,
+  });
+  return { status, stdout, stderr };
+}
+
+describe("mine-hook CLI", () => {
+  it("prints the usage for --help", () => {
+    const { status, stdout } = mineHook("--help");
+    assert.equal(status, 0);
+    assert.match(stdout, /^Usage:/);
+    assert.match(stdout, /--init-code-hash/);
+  });
+
+  it("fails with the usage on an unknown option", () => {
+    const { status, stderr } = mineHook("--bogus");
+    assert.equal(status, 1);
+    assert.match(stderr, /Unknown option '--bogus'/);
+    assert.match(stderr, /Usage:/);
+  });
+
+  it("prints a mined salt and address as JSON", () => {
+    const initCodeHash = `0x${"11".repeat(32)}`;
+    const { status, stdout } = mineHook("--init-code-hash", initCodeHash, "--workers", "1", "--json");
+    assert.equal(status, 0);
+    const result = JSON.parse(stdout);
+    assert.equal(result.flags, "0x1000");
+    assert.equal(result.initCodeHash, initCodeHash);
+    assert.equal(BigInt(result.address) & 0x3fffn, 0x1000n);
+  });
+});
@@ -0,0 +1,256 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  computeSwapStep,
+  getAmount0Delta,
+  getAmount1Delta,
+  quoteSwap,
+  type PoolQuoteState,
+  type TickLiquidityReader,
+} from "../src/quote";
+import { MAX_SQRT_PRICE, MIN_SQRT_PRICE, getSqrtPriceAtTick } from "../src/tickMath";
+
+const Q96 = 1n << 96n;
+const ONE = 10n ** 18n;
+
+/** encodePriceSqrt of the Uniswap test utils, sqrt(reserve1 / reserve0) to 20 decimals times 2^96 */
+const SQRT_PRICE_101_100 = 79623317895830914510487008059n;
+const SQRT_PRICE_1000_100 = 250541448375047931186501464011n;
+const SQRT_PRICE_10000_100 = 792281625142643375935439503360n;
+const SQRT_PRICE_121_100 = 87150978765690771352898345369n;
+
+/**
+ * @function createReader
+ * @description In-memory tick bitmap and tick liquidity, laid out the way TickBitmap stores them
+ * @param {Record<number, bigint>} liquidityNet - Net liquidity of each initialized tick
+ * @param {number} tickSpacing - Tick spacing of the pool
+ * @returns {TickLiquidityReader} Reader over the ticks
+ */
+function createReader(liquidityNet: Record<number, bigint>, tickSpacing: number): TickLiquidityReader {
+  return {
+    getTickBitmap: async (wordPos) =>
+      Object.keys(liquidityNet)
+        .map(Number)
+        .map((tick) => tick / tickSpacing)
+        .filter((compressed) => compressed >> 8 === wordPos)
+        .reduce((word, compressed) => word | (1n << BigInt(compressed & 0xff)), 0n),
+    getLiquidityNet: async (tick) => liquidityNet[tick] ?? 0n,
+  };
+}
+
+/** Full range position of 1e18 plus a [-120, 120] position of 9e18, spaced by 60 */
+const ticks = { [-887220]: ONE, [-120]: 9n * ONE, 120: -9n * ONE, 887220: -ONE };
+
+const pool: PoolQuoteState = {
+  sqrtPriceX96: Q96,
+  tick: 0,
+  liquidity: 10n * ONE,
+  lpFee: 3000,
+  protocolFee: 0,
+  tickSpacing: 60,
+};
+
+describe("SqrtPriceMath", () => {
+  it("matches the v4 getAmount0Delta and getAmount1Delta vectors", () => {
+    assert.equal(getAmount0Delta(Q96, SQRT_PRICE_121_100, ONE, true), 90909090909090910n);
+    assert.equal(getAmount0Delta(Q96, SQRT_PRICE_121_100, ONE, false), 90909090909090909n);
+    assert.equal(getAmount1Delta(Q96, SQRT_PRICE_121_100, ONE, true), 100000000000000000n);
+    assert.equal(getAmount1Delta(Q96, SQRT_PRICE_121_100, ONE, false), 99999999999999999n);
+  });
+
+  it("moves the price by an input amount like getNextSqrtPriceFromInput", () => {
+    const token1In = computeSwapStep(Q96, MAX_SQRT_PRICE - 1n, ONE, -(ONE / 10n), 0n);
+    assert.equal(token1In.sqrtPriceNextX96, 87150978765690771352898345369n);
+
+    const token0In = computeSwapStep(Q96, MIN_SQRT_PRICE + 1n, ONE, -(ONE / 10n), 0n);
+    assert.equal(token0In.sqrtPriceNextX96, 72025602285694852357767227579n);
+  });
+});
+
+describe("computeSwapStep", () => {
+  it("caps an exact input at the price target", () => {
+    const step = computeSwapStep(Q96, SQRT_PRICE_101_100, 2n * ONE, -ONE, 600n);
+    assert.equal(step.amountIn, 9975124224178055n);
+    assert.equal(step.feeAmount, 5988667735148n);
+    assert.equal(step.amountOut, 9925619580021728n);
+    assert.equal(step.sqrtPriceNextX96, SQRT_PRICE_101_100);
+  });
+
+  it("caps an exact output at the price target", () => {
+    const step = computeSwapStep(Q96, SQRT_PRICE_101_100, 2n * ONE, ONE, 600n);
+    assert.equal(step.amountIn, 9975124224178055n);
+    assert.equal(step.feeAmount, 5988667735148n);
+    assert.equal(step.amountOut, 9925619580021728n);
+    assert.equal(step.sqrtPriceNextX96, SQRT_PRICE_101_100);
+  });
+
+  it("spends a whole exact input before the target", () => {
+    const step = computeSwapStep(Q96, SQRT_PRICE_1000_100, 2n * ONE, -ONE, 600n);
+    assert.equal(step.amountIn, 999400000000000000n);
+    assert.equal(step.feeAmount, 600000000000000n);
+    assert.equal(step.amountOut, 666399946655997866n);
+    assert.equal(step.amountIn + step.feeAmount, ONE);
+    assert.ok(step.sqrtPriceNextX96 < SQRT_PRICE_1000_100);
+  });
+
+  it("receives a whole exact output before the target, rounding the fee up", () => {
+    const step = computeSwapStep(Q96, SQRT_PRICE_10000_100, 2n * ONE, ONE, 600n);
+    assert.equal(step.amountIn, 2000000000000000000n);
+    assert.equal(step.feeAmount, 1200720432259356n);
+    assert.equal(step.amountOut, ONE);
+    assert.ok(step.sqrtPriceNextX96 < SQRT_PRICE_10000_100);
+  });
+
+  it("caps the output at the amount asked for", () => {
+    const step = computeSwapStep(
+      417332158212080721273783715441582n,
+      1452870262520218020823638996n,
+      159344665391607089467575320103n,
+      1n,
+      1n
+    );
+    assert.equal(step.amountIn, 1n);
+    assert.equal(step.feeAmount, 1n);
+    assert.equal(step.amountOut, 1n);
+    assert.equal(step.sqrtPriceNextX96, 417332158212080721273783715441581n);
+  });
+
+  it("charges the fee on an input too small to move the price", () => {
+    // v4 keeps the input less fee as amountIn where v3 turned it all into fee
+    const step = computeSwapStep(2413n, 79887613182836312n, 1985041575832132834610021537970n, -10n, 1872n);
+    assert.equal(step.amountIn, 9n);
+    assert.equal(step.feeAmount, 1n);
+    assert.equal(step.amountOut, 0n);
+    assert.equal(step.sqrtPriceNextX96, 2413n);
+  });
+
+  it("handles running out of liquidity within an exact output step", () => {
+    const sqrtPriceX96 = 20282409603651670423947251286016n;
+    const up = computeSwapStep(sqrtPriceX96, (sqrtPriceX96 * 11n) / 10n, 1024n, 4n, 3000n);
+    assert.deepEqual(up, {
+      sqrtPriceNextX96: (sqrtPriceX96 * 11n) / 10n,
+      amountIn: 26215n,
+      amountOut: 0n,
+      feeAmount: 79n,
+    });
+
+    const down = computeSwapStep(sqrtPriceX96, (sqrtPriceX96 * 9n) / 10n, 1024n, 263000n, 3000n);
+    assert.deepEqual(down, {
+      sqrtPriceNextX96: (sqrtPriceX96 * 9n) / 10n,
+      amountIn: 1n,
+      amountOut: 26214n,
+      feeAmount: 1n,
+    });
+  });
+});
+
+describe("quoteSwap", () => {
+  const reader = createReader(ticks, pool.tickSpacing);
+  const sqrtPriceLow = getSqrtPriceAtTick(-120);
+  const sqrtPriceHigh = getSqrtPriceAtTick(120);
+
+  it("fills a small exact input within the current range", async () => {
+    const quote = await quoteSwap(pool, { zeroForOne: true, amountSpecified: -ONE / 100n }, reader);
+    const step = computeSwapStep(Q96, sqrtPriceLow, pool.liquidity, -ONE / 100n, 3000n);
+
+    assert.equal(quote.amountIn, ONE / 100n);
+    assert.equal(quote.amountOut, step.amountOut);
+    assert.equal(quote.feeAmount, step.feeAmount);
+    assert.equal(quote.sqrtPriceX96After, step.sqrtPriceNextX96);
+    assert.equal(quote.ticksCrossed, 0);
+    assert.equal(quote.amountRemaining, 0n);
+  });
+
+  it("drops the liquidity of a position when crossing below its lower tick", async () => {
+    const quote = await quoteSwap(pool, { zeroForOne: true, amountSpecified: -ONE / 10n }, reader);
+
+    assert.equal(quote.ticksCrossed, 1);
+    assert.equal(quote.amountIn, ONE / 10n);
+    assert.ok(quote.sqrtPriceX96After < sqrtPriceLow);
+    // Each range pays out at its own liquidity: 1e19 above tick -120, 1e18 below it
+    assert.equal(
+      quote.amountOut,
+      getAmount1Delta(sqrtPriceLow, Q96, 10n * ONE, false) +
+        getAmount1Delta(quote.sqrtPriceX96After, sqrtPriceLow, ONE, false)
+    );
+  });
+
+  it("adds the liquidity net when crossing an upper tick left to right", async () => {
+    const quote = await quoteSwap(pool, { zeroForOne: false, amountSpecified: -ONE / 10n }, reader);
+
+    assert.equal(quote.ticksCrossed, 1);
+    assert.ok(quote.sqrtPriceX96After > sqrtPriceHigh);
+    assert.equal(
+      quote.amountOut,
+      getAmount0Delta(Q96, sqrtPriceHigh, 10n * ONE, false) +
+        getAmount0Delta(sqrtPriceHigh, quote.sqrtPriceX96After, ONE, false)
+    );
+  });
+
+  it("starts from a negative tick between initialized ticks", async () => {
+    const start = { ...pool, sqrtPriceX96: getSqrtPriceAtTick(-150), tick: -150, liquidity: ONE };
+    const quote = await quoteSwap(start, { zeroForOne: false, amountSpecified: -ONE / 5n }, reader);
+
+    assert.equal(quote.ticksCrossed, 2);
+    assert.ok(quote.sqrtPriceX96After > sqrtPriceHigh);
+  });
+
+  it("pays at most the exact input for its exact output counterpart", async () => {
+    const exactIn = await quoteSwap(pool, { zeroForOne: true, amountSpecified: -ONE / 10n }, reader);
+    const exactOut = await quoteSwap(pool, { zeroForOne: true, amountSpecified: exactIn.amountOut }, reader);
+
+    assert.equal(exactOut.amountOut, exactIn.amountOut);
+    assert.equal(exactOut.ticksCrossed, 1);
+    assert.ok(exactOut.amountIn <= exactIn.amountIn);
+    assert.ok(exactIn.amountIn - exactOut.amountIn <= 2n);
+  });
+
+  it("adds the protocol fee of the swap direction to the LP fee", async () => {
+    // 0.1% protocol fee on zeroForOne swaps, 0.05% on oneForZero ones
+    const withProtocolFee = { ...pool, protocolFee: (500 << 12) | 1000 };
+    const amountSpecified = -ONE / 100n;
+
+    const zeroForOne = await quoteSwap(withProtocolFee, { zeroForOne: true, amountSpecified }, reader);
+    // 1000 + 3000 - 1000 * 3000 / 1e6
+    const zeroForOneStep = computeSwapStep(Q96, sqrtPriceLow, pool.liquidity, amountSpecified, 3997n);
+    assert.equal(zeroForOne.feeAmount, zeroForOneStep.feeAmount);
+
+    const oneForZero = await quoteSwap(withProtocolFee, { zeroForOne: false, amountSpecified }, reader);
+    // 500 + 3000 - 500 * 3000 / 1e6, rounded down
+    const oneForZeroStep = computeSwapStep(Q96, sqrtPriceHigh, pool.liquidity, amountSpecified, 3499n);
+    assert.equal(oneForZero.feeAmount, oneForZeroStep.feeAmount);
+  });
+
+  it("returns a partial fill when the swap reaches its price limit", async () => {
+    const sqrtPriceLimitX96 = getSqrtPriceAtTick(-60);
+    const quote = await quoteSwap(pool, { zeroForOne: true, amountSpecified: -ONE, sqrtPriceLimitX96 }, reader);
+    const step = computeSwapStep(Q96, sqrtPriceLimitX96, pool.liquidity, -ONE, 3000n);
+
+    assert.equal(quote.sqrtPriceX96After, sqrtPriceLimitX96);
+    assert.equal(quote.amountIn, step.amountIn + step.feeAmount);
+    assert.equal(quote.amountOut, step.amountOut);
+    assert.equal(quote.amountRemaining, -ONE + quote.amountIn);
+    assert.equal(quote.ticksCrossed, 0);
+  });
+
+  it("throws when the liquidity runs out before the amount is filled", async () => {
+    const concentrated = createReader({ [-120]: 9n * ONE, 120: -9n * ONE }, pool.tickSpacing);
+    const start = { ...pool, liquidity: 9n * ONE };
+
+    await assert.rejects(
+      quoteSwap(start, { zeroForOne: true, amountSpecified: -ONE }, concentrated),
+      /enough liquidity/
+    );
+  });
+
+  it("rejects a price limit already passed and exact outputs at a 100% fee", async () => {
+    await assert.rejects(
+      quoteSwap(pool, { zeroForOne: true, amountSpecified: -ONE, sqrtPriceLimitX96: Q96 + 1n }, reader),
+      /price limit/
+    );
+    await assert.rejects(
+      quoteSwap({ ...pool, lpFee: 1_000_000 }, { zeroForOne: true, amountSpecified: ONE }, reader),
+      /fee below 100%/
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  MAX_SQRT_PRICE,
+  MAX_TICK,
+  MIN_SQRT_PRICE,
+  MIN_TICK,
+  getSqrtPriceAtTick,
+  getTickAtSqrtPrice,
+} from "../src/tickMath";
+
+/**
+ * Vectors from the Uniswap v4 TickMath tests, which the bigint port has to match exactly.
+ */
+describe("getSqrtPriceAtTick", () => {
+  it("returns the bounds at MIN_TICK and MAX_TICK", () => {
+    assert.equal(getSqrtPriceAtTick(MIN_TICK), MIN_SQRT_PRICE);
+    assert.equal(getSqrtPriceAtTick(MAX_TICK), MAX_SQRT_PRICE);
+  });
+
+  it("matches Solidity next to the bounds", () => {
+    assert.equal(getSqrtPriceAtTick(MIN_TICK + 1), 4295343490n);
+    assert.equal(getSqrtPriceAtTick(MAX_TICK - 1), 1461373636630004318706518188784493106690254656249n);
+  });
+
+  it("returns 2^96 at tick 0", () => {
+    assert.equal(getSqrtPriceAtTick(0), 1n << 96n);
+  });
+
+  it("rejects ticks out of range", () => {
+    assert.throws(() => getSqrtPriceAtTick(MIN_TICK - 1), /Invalid tick/);
+    assert.throws(() => getSqrtPriceAtTick(MAX_TICK + 1), /Invalid tick/);
+    assert.throws(() => getSqrtPriceAtTick(0.5), /Invalid tick/);
+  });
+});
+
+describe("getTickAtSqrtPrice", () => {
+  it("returns the bounds at MIN_SQRT_PRICE and just below MAX_SQRT_PRICE", () => {
+    assert.equal(getTickAtSqrtPrice(MIN_SQRT_PRICE), MIN_TICK);
+    assert.equal(getTickAtSqrtPrice(4295343490n), MIN_TICK + 1);
+    assert.equal(getTickAtSqrtPrice(1461373636630004318706518188784493106690254656249n), MAX_TICK - 1);
+    assert.equal(getTickAtSqrtPrice(MAX_SQRT_PRICE - 1n), MAX_TICK - 1);
+  });
+
+  it("rounds down to the tick at or below the price", () => {
+    for (const tick of [-50_000, -60, -1, 0, 1, 60, 50_000]) {
+      const sqrtPriceX96 = getSqrtPriceAtTick(tick);
+      assert.equal(getTickAtSqrtPrice(sqrtPriceX96), tick);
+      assert.equal(getTickAtSqrtPrice(sqrtPriceX96 - 1n), tick - 1);
+      assert.equal(getTickAtSqrtPrice(getSqrtPriceAtTick(tick + 1) - 1n), tick);
+    }
+  });
+
+  it("rejects prices out of range", () => {
+    assert.throws(() => getTickAtSqrtPrice(MIN_SQRT_PRICE - 1n), /Invalid sqrt price/);
+    assert.throws(() => getTickAtSqrtPrice(MAX_SQRT_PRICE), /Invalid sqrt price/);
+  });
+});